@@ -0,0 +1,24 @@
+// Builds public/epsg.json from the proj4 EPSG definitions
+// that ship with mproj. Run it with `node _scripts/epsg.mjs`
+// after upgrading mproj.
+import fs from "fs";
+
+const source = "./node_modules/mproj/nad/epsg";
+const target = "./public/epsg.json";
+
+const db = {};
+let name = null;
+
+for (const line of fs.readFileSync(source, "utf8").split("\n")) {
+  if (line.startsWith("#")) {
+    name = line.slice(1).trim();
+    continue;
+  }
+  const match = line.match(/^<(\d+)>\s+(.*?)\s*<>/);
+  if (match && name) {
+    db[match[1]] = [name, match[2]];
+  }
+  name = null;
+}
+
+fs.writeFileSync(target, JSON.stringify(db));
@@ -0,0 +1,180 @@
+import { expect, describe, it } from "vitest";
+
+import createApiToken from "app/apiTokens/mutations/createApiToken";
+import deleteApiToken from "app/apiTokens/mutations/deleteApiToken";
+import createWrappedFeatureCollection from "app/wrappedFeatureCollections/mutations/createWrappedFeatureCollection";
+import { getApiAccess, getApiTokenCtx } from "app/lib/api_tokens_server";
+import { getRandomMockCtxAndUser } from "test/shared";
+import db from "db";
+
+function bearer(token: string) {
+  return { headers: { authorization: `Bearer ${token}` } };
+}
+
+describe("createApiToken", () => {
+  it("reads private maps in the organization", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const id = await createWrappedFeatureCollection({ name: "Foo" }, ctx);
+    const { token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: 30,
+        organization: false,
+      },
+      ctx
+    );
+
+    expect(token).toMatch(/^pmk_/);
+    await expect(getApiTokenCtx(token, "READ")).resolves.toHaveProperty(
+      "session.orgId",
+      ctx.session.orgId
+    );
+    await expect(getApiTokenCtx(token, "WRITE")).resolves.toBeNull();
+
+    await expect(getApiAccess(bearer(token), id)).resolves.toEqual("TOKEN");
+    await expect(getApiAccess({ headers: {} }, id)).resolves.toEqual(
+      "NOT_FOUND"
+    );
+    await expect(getApiAccess(bearer("pmk_wrong"), id)).resolves.toEqual(
+      "UNAUTHORIZED"
+    );
+  });
+
+  it("can't read other organizations' maps", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const { ctx: otherCtx } = await getRandomMockCtxAndUser();
+    const id = await createWrappedFeatureCollection({ name: "Foo" }, otherCtx);
+    const { token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: null,
+        organization: true,
+      },
+      ctx
+    );
+    await expect(getApiAccess(bearer(token), id)).resolves.toEqual("NOT_FOUND");
+
+    await db.wrappedFeatureCollection.update({
+      where: { id },
+      data: { access: "PUBLIC" },
+    });
+    await expect(getApiAccess(bearer(token), id)).resolves.toEqual("PUBLIC");
+    await expect(getApiAccess(bearer("pmk_wrong"), id)).resolves.toEqual(
+      "PUBLIC"
+    );
+  });
+
+  it("records when it was last used, at most once a minute", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const { id, token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: null,
+        organization: false,
+      },
+      ctx
+    );
+    const lastUsedAt = async () =>
+      (await db.apiToken.findUniqueOrThrow({ where: { id } })).lastUsedAt;
+
+    await getApiTokenCtx(token, "READ");
+    const first = await lastUsedAt();
+    expect(first).toBeInstanceOf(Date);
+    await getApiTokenCtx(token, "READ");
+    await expect(lastUsedAt()).resolves.toEqual(first);
+
+    const past = new Date(Date.now() - 2 * 60 * 1000);
+    await db.apiToken.update({ where: { id }, data: { lastUsedAt: past } });
+    await getApiTokenCtx(token, "READ");
+    expect((await lastUsedAt())!.getTime()).toBeGreaterThan(past.getTime());
+  });
+
+  it("stops working once expired", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const { id, token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: 1,
+        organization: false,
+      },
+      ctx
+    );
+    await expect(getApiTokenCtx(token, "READ")).resolves.not.toBeNull();
+    await db.apiToken.update({
+      where: { id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    await expect(getApiTokenCtx(token, "READ")).resolves.toBeNull();
+  });
+
+  it("can't read with a write-only token", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const id = await createWrappedFeatureCollection({ name: "Foo" }, ctx);
+    const { token } = await createApiToken(
+      {
+        name: "Sync",
+        scopes: ["WRITE"],
+        expiresInDays: null,
+        organization: false,
+      },
+      ctx
+    );
+    await expect(getApiTokenCtx(token, "WRITE")).resolves.not.toBeNull();
+    await expect(getApiTokenCtx(token, "READ")).resolves.toBeNull();
+    await expect(getApiAccess(bearer(token), id)).resolves.toEqual(
+      "UNAUTHORIZED"
+    );
+  });
+
+  it("stops personal tokens when their user leaves", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const { token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: null,
+        organization: false,
+      },
+      ctx
+    );
+    const { token: organizationToken } = await createApiToken(
+      {
+        name: "Team",
+        scopes: ["READ"],
+        expiresInDays: null,
+        organization: true,
+      },
+      ctx
+    );
+    await db.membership.deleteMany({
+      where: {
+        userId: ctx.session.userId!,
+        organizationId: ctx.session.orgId!,
+      },
+    });
+    await expect(getApiTokenCtx(token, "READ")).resolves.toBeNull();
+    await expect(
+      getApiTokenCtx(organizationToken, "READ")
+    ).resolves.toHaveProperty("session.orgId", ctx.session.orgId);
+  });
+
+  it("revoking", async () => {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const { id, token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: null,
+        organization: false,
+      },
+      ctx
+    );
+    await expect(deleteApiToken({ id }, ctx)).resolves.toEqual(true);
+    await expect(getApiTokenCtx(token, "READ")).resolves.toBeNull();
+    await expect(deleteApiToken({ id }, ctx)).rejects.toThrow();
+  });
+});
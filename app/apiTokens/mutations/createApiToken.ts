@@ -0,0 +1,46 @@
+import { generateToken, hash256 } from "@blitzjs/auth";
+import { resolver } from "@blitzjs/rpc";
+import { Ctx } from "blitz";
+import db from "db";
+import { CreateApiToken } from "app/apiTokens/validations";
+import { API_TOKEN_PREFIX } from "app/lib/api_tokens_server";
+
+/**
+ * Create a personal token, or an organization token if
+ * you're an owner. The token itself is only returned here:
+ * afterwards, only its hash is stored.
+ */
+export default resolver.pipe(
+  resolver.zod(CreateApiToken),
+  resolver.authorize(),
+  async ({ name, scopes, expiresInDays, organization }, ctx: Ctx) => {
+    if (organization) {
+      ctx.session.$authorize(["OWNER", "SUPERADMIN"]);
+    }
+
+    const token = `${API_TOKEN_PREFIX}${generateToken()}`;
+
+    let expiresAt: Date | null = null;
+    if (expiresInDays) {
+      expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+    }
+
+    const apiToken = await db.apiToken.create({
+      data: {
+        name,
+        scopes,
+        expiresAt,
+        hashedToken: hash256(token),
+        prefix: token.slice(0, API_TOKEN_PREFIX.length + 4),
+        organizationId: ctx.session.orgId!,
+        userId: organization ? null : ctx.session.userId,
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    return { id: apiToken.id, token };
+  }
+);
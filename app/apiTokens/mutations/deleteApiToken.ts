@@ -0,0 +1,31 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+import { NotFoundError } from "blitz";
+import { DeleteApiToken } from "app/apiTokens/validations";
+
+/**
+ * Revoke a token. Anyone can revoke their personal tokens,
+ * and owners can also revoke organization tokens.
+ */
+export default resolver.pipe(
+  resolver.zod(DeleteApiToken),
+  resolver.authorize(),
+  async ({ id }, ctx) => {
+    const isOwner = ctx.session.$isAuthorized(["OWNER", "SUPERADMIN"]);
+
+    const { count } = await db.apiToken.deleteMany({
+      where: {
+        id,
+        organizationId: ctx.session.orgId,
+        OR: [
+          { userId: ctx.session.userId },
+          ...(isOwner ? [{ userId: null }] : []),
+        ],
+      },
+    });
+
+    if (count !== 1) throw new NotFoundError();
+
+    return true;
+  }
+);
@@ -0,0 +1,32 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+
+/**
+ * Your personal tokens in this organization,
+ * and the organization's tokens.
+ */
+const getApiTokens = resolver.pipe(resolver.authorize(), (_input, ctx) => {
+  return db.apiToken.findMany({
+    select: {
+      id: true,
+      name: true,
+      prefix: true,
+      scopes: true,
+      createdAt: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      userId: true,
+    },
+    where: {
+      organizationId: ctx.session.orgId,
+      OR: [{ userId: ctx.session.userId }, { userId: null }],
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+});
+
+export default getApiTokens;
+
+export type ApiTokenListItem = Awaited<ReturnType<typeof getApiTokens>>[0];
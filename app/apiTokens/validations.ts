@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { name } from "app/core/utils";
+
+export const API_TOKEN_SCOPES = ["READ", "WRITE"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * How long new tokens last, in days. Null
+ * means that they don’t expire.
+ */
+export const API_TOKEN_EXPIRATIONS = [30, 90, 365, null] as const;
+
+export const CreateApiToken = z.object({
+  name,
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().positive().nullable(),
+  organization: z.boolean(),
+});
+
+/**
+ * Selects hold strings, so the form keeps
+ * the expiration as one.
+ */
+export const CreateApiTokenForm = CreateApiToken.extend({
+  expiresInDays: z.string(),
+});
+
+export const DeleteApiToken = z.object({
+  id: z.number(),
+});
@@ -14,6 +14,7 @@ import { logger } from "integrations/log";
 import * as Sentry from "@sentry/nextjs";
 import { ZodError } from "zod";
 import { Prisma } from "@prisma/client";
+import { scheduleWebhookRetries } from "app/lib/webhooks_server";
 
 export const { gSSP, gSP, api } = setupBlitzServer({
   plugins: [
@@ -64,3 +65,5 @@ export const { gSSP, gSP, api } = setupBlitzServer({
       ? BlitzLogger({ type: "json" })
       : logger,
 });
+
+scheduleWebhookRetries();
@@ -9,6 +9,7 @@ import {
   GlobeIcon,
   DotIcon,
   TextIcon,
+  ColumnSpacingIcon,
 } from "@radix-ui/react-icons";
 import * as Tooltip from "@radix-ui/react-tooltip";
 import type {
@@ -51,6 +52,14 @@ import { divideFeatures } from "app/lib/map_operations/divide_feature";
 import { drawCentroids } from "app/lib/map_operations/draw_centroids";
 import { drawLabelPoints } from "app/lib/map_operations/draw_label_points";
 
+const geometriesThatYieldOffsets = new Set<Geometry["type"] | undefined>([
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+  "GeometryCollection",
+]);
+
 export function useActions(
   selectedWrappedFeatures: IWrappedFeature[]
 ): Action[] {
@@ -74,6 +83,21 @@ export function useActions(
     },
   };
 
+  const offsetAction = {
+    label: "Offset lines…",
+    applicable: selectedFeatures.some((feature) =>
+      geometriesThatYieldOffsets.has(feature.geometry?.type)
+    ),
+    icon: <ColumnSpacingIcon />,
+    onSelect: function doOffset() {
+      setDialogState({
+        type: "offset",
+        features: selectedWrappedFeatures,
+      });
+      return Promise.resolve();
+    },
+  };
+
   const geometriesThatYieldCentroids = new Set<Geometry["type"]>([
     "Polygon",
     "MultiPolygon",
@@ -266,6 +290,7 @@ export function useActions(
     divideAction,
     innerRingAction,
     bufferFeaturesAction,
+    offsetAction,
     duplicateFeaturesAction,
     drawArcAction,
     deleteFeaturesAction,
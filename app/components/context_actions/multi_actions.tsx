@@ -1,4 +1,4 @@
-import { LinkNone2Icon } from "@radix-ui/react-icons";
+import { GroupIcon, LinkNone2Icon } from "@radix-ui/react-icons";
 import type { ActionProps } from "app/components/context_actions/action_item";
 import type { BooleanOp } from "app/lib/map_operations";
 import {
@@ -15,12 +15,15 @@ import { ActionItem } from "./action_item";
 import type { Action } from "./action_item";
 import type { IWrappedFeature } from "types";
 import * as Sentry from "@sentry/nextjs";
+import { useSetAtom } from "jotai";
+import { dialogAtom } from "state/jotai";
 
 export function useMultiActions(
   selectedWrappedFeatures: IWrappedFeature[]
 ): Action[] {
   const rep = usePersistence();
   const transact = rep.useTransact();
+  const setDialogState = useSetAtom(dialogAtom);
 
   if (selectedWrappedFeatures.length === 0) {
     return [];
@@ -96,8 +99,22 @@ export function useMultiActions(
     },
   };
 
+  const dissolveAction = {
+    applicable: selectedWrappedFeatures.length > 1,
+    label: "Dissolve…",
+    icon: <GroupIcon />,
+    onSelect: function doDissolve() {
+      setDialogState({
+        type: "dissolve",
+        features: selectedWrappedFeatures,
+      });
+      return Promise.resolve();
+    },
+  };
+
   return [
     mergeAction,
+    dissolveAction,
     makeBooleanAction("union", "Union", <ShapeUnite16 />),
     makeBooleanAction("intersection", "Intersection", <ShapeIntersect16 />),
     makeBooleanAction("difference", "Subtract", <SendToBack16 />),
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery } from "react-query";
+import { useField, useFormikContext } from "formik";
+import type { CoordinateSystem, ImportOptions } from "app/lib/convert";
+import {
+  epsgToCoordinateSystem,
+  getEpsgDB,
+  searchEpsg,
+} from "app/lib/get_epsg_db";
+import {
+  Button,
+  Input,
+  Loading,
+  StyledLabelSpan,
+  styledTextarea,
+  TextWell,
+} from "./elements";
+
+/**
+ * Types whose coordinates might not be WGS84.
+ */
+function supportsSourceCrs(values: ImportOptions) {
+  switch (values.type) {
+    case "geojson":
+    case "geojsonl":
+    case "flatgeobuf":
+      return true;
+    case "csv":
+      return (
+        values.csvOptions.kind === "lonlat" || values.csvOptions.kind === "wkt"
+      );
+    default:
+      return false;
+  }
+}
+
+function EpsgSearch({
+  onSelect,
+}: {
+  onSelect: (crs: CoordinateSystem) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const { data: db, isLoading } = useQuery("epsg", getEpsgDB, {
+    enabled: query !== "",
+  });
+
+  const results = db ? searchEpsg(db, query) : [];
+
+  return (
+    <div className="space-y-1">
+      <Input
+        type="search"
+        value={query}
+        placeholder="Search EPSG codes, like 3857 or NAD83"
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      {isLoading ? <Loading size="xs" /> : null}
+      {results.length ? (
+        <div className="max-h-40 overflow-y-auto placemark-scrollbar">
+          {results.map((entry) => (
+            <button
+              type="button"
+              key={entry.code}
+              className="block w-full text-left px-2 py-1 text-sm truncate
+              dark:text-white hover:bg-gray-100 dark:hover:bg-gray-900"
+              onClick={() => {
+                onSelect(epsgToCoordinateSystem(entry));
+                setQuery("");
+              }}
+            >
+              <span className="font-mono">EPSG:{entry.code}</span> {entry.name}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Choose a coordinate system from the EPSG database,
+ * or with a custom proj4 string. Empty means WGS84.
+ */
+export function CrsField({ name, label }: { name: string; label: string }) {
+  const [{ value }, , { setValue }] = useField<
+    CoordinateSystem | null | undefined
+  >(name);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <StyledLabelSpan>{label}</StyledLabelSpan>
+      </div>
+      <div className="flex items-center gap-x-2">
+        <TextWell className="flex-auto truncate">
+          {value ? value.name : "WGS84 (longitude, latitude)"}
+        </TextWell>
+        {value ? (
+          <Button size="xs" type="button" onClick={() => void setValue(null)}>
+            Reset
+          </Button>
+        ) : null}
+      </div>
+      <EpsgSearch onSelect={(crs) => void setValue(crs)} />
+      <label className="block">
+        <StyledLabelSpan size="xs">Or a custom proj4 string</StyledLabelSpan>
+        <textarea
+          className={styledTextarea}
+          rows={2}
+          placeholder="+proj=utm +zone=33 +datum=WGS84"
+          value={value?.name === "Custom" ? value.definition : ""}
+          onChange={(e) => {
+            const definition = e.target.value;
+            void setValue(definition ? { name: "Custom", definition } : null);
+          }}
+        />
+      </label>
+    </div>
+  );
+}
+
+export function SourceCrsForm() {
+  const { values } = useFormikContext<ImportOptions>();
+  if (!supportsSourceCrs(values)) return null;
+  return <CrsField name="sourceCrs" label="Source coordinate system" />;
+}
@@ -45,6 +45,71 @@ const ExportSVGDialog = dynamic<{
   }
 );
 
+const DissolveDialog = dynamic<{
+  modal: dialogState.DialogStateDissolve;
+  onClose: () => void;
+}>(
+  () => import("app/components/dialogs/dissolve").then((r) => r.DissolveDialog),
+  {
+    loading: () => <Loading />,
+  }
+);
+
+const ClipDialog = dynamic<{
+  modal: dialogState.DialogStateClip;
+  onClose: () => void;
+}>(() => import("app/components/dialogs/clip").then((r) => r.ClipDialog), {
+  loading: () => <Loading />,
+});
+
+const TransformDialog = dynamic<{
+  modal: dialogState.DialogStateTransform;
+  onClose: () => void;
+}>(
+  () =>
+    import("app/components/dialogs/transform").then((r) => r.TransformDialog),
+  {
+    loading: () => <Loading />,
+  }
+);
+
+const HistoryDialog = dynamic<{
+  onClose: () => void;
+}>(
+  () => import("app/components/dialogs/history").then((r) => r.HistoryDialog),
+  {
+    loading: () => <Loading />,
+  }
+);
+
+const OffsetDialog = dynamic<{
+  modal: dialogState.DialogStateOffset;
+  onClose: () => void;
+}>(() => import("app/components/dialogs/offset").then((r) => r.OffsetDialog), {
+  loading: () => <Loading />,
+});
+
+const SpatialJoinDialog = dynamic<{
+  onClose: () => void;
+}>(
+  () =>
+    import("app/components/dialogs/spatial_join").then(
+      (r) => r.SpatialJoinDialog
+    ),
+  {
+    loading: () => <Loading />,
+  }
+);
+
+const GenerateDialog = dynamic<{
+  onClose: () => void;
+}>(
+  () => import("app/components/dialogs/generate").then((r) => r.GenerateDialog),
+  {
+    loading: () => <Loading />,
+  }
+);
+
 const ImportDialog = dynamic<{
   modal: dialogState.DialogStateImport;
   onClose: () => void;
@@ -180,6 +245,19 @@ const CastPropertyDialog = dynamic<{
   }
 );
 
+const CalculateFieldDialog = dynamic<{
+  onClose: () => void;
+  modal: dialogState.DialogStateCalculateField;
+}>(
+  () =>
+    import("app/components/dialogs/calculate_field").then(
+      (r) => r.CalculateFieldDialog
+    ),
+  {
+    loading: () => <Loading />,
+  }
+);
+
 const ExportCodeDialog = dynamic<{
   onClose: () => void;
 }>(
@@ -252,6 +330,9 @@ export const Dialogs = memo(function Dialogs() {
     .with({ type: "cast_property" }, (modal) => (
       <CastPropertyDialog modal={modal} onClose={onClose} />
     ))
+    .with({ type: "calculate_field" }, (modal) => (
+      <CalculateFieldDialog modal={modal} onClose={onClose} />
+    ))
     .with({ type: "rename_map" }, (modal) => (
       <RenameMapDialog modal={modal} onClose={onClose} />
     ))
@@ -272,11 +353,28 @@ export const Dialogs = memo(function Dialogs() {
     .with({ type: "buffer" }, (modal) => (
       <BufferDialog onClose={onClose} modal={modal} />
     ))
+    .with({ type: "dissolve" }, (modal) => (
+      <DissolveDialog onClose={onClose} modal={modal} />
+    ))
+    .with({ type: "clip" }, (modal) => (
+      <ClipDialog onClose={onClose} modal={modal} />
+    ))
+    .with({ type: "transform" }, (modal) => (
+      <TransformDialog onClose={onClose} modal={modal} />
+    ))
+    .with({ type: "offset" }, (modal) => (
+      <OffsetDialog onClose={onClose} modal={modal} />
+    ))
     .with({ type: "export-svg" }, (modal) => (
       <ExportSVGDialog onClose={onClose} modal={modal} />
     ))
+    .with({ type: "spatial_join" }, () => (
+      <SpatialJoinDialog onClose={onClose} />
+    ))
+    .with({ type: "generate" }, () => <GenerateDialog onClose={onClose} />)
     .with({ type: "from_url" }, () => <ImportURLDialog onClose={onClose} />)
     .with({ type: "api" }, () => <APIDialog onClose={onClose} />)
+    .with({ type: "history" }, () => <HistoryDialog onClose={onClose} />)
     .with({ type: "play-intro" }, () => <PlayDialog onClose={onClose} />)
     .with({ type: "import_example" }, () => (
       <ImportExampleDialog onClose={onClose} />
@@ -301,7 +399,11 @@ export const Dialogs = memo(function Dialogs() {
         <div className="hidden"></div>
       </D.Trigger>
       <D.Portal>
-        {dialog?.type !== "circle" ? <StyledDialogOverlay /> : null}
+        {dialog?.type !== "circle" &&
+        dialog?.type !== "transform" &&
+        dialog?.type !== "history" ? (
+          <StyledDialogOverlay />
+        ) : null}
         <Suspense fallback={<Loading />}>
           <StyledDialogContent
             onOpenAutoFocus={(e) => e.preventDefault()}
@@ -16,6 +16,9 @@ import { usePersistence } from "app/lib/persistence/context";
 import editWrappedFeatureCollectionMutation from "app/wrappedFeatureCollections/mutations/editWrappedFeatureCollection";
 import getWrappedFeatureCollection from "app/wrappedFeatureCollections/queries/getWrappedFeatureCollection";
 import clsx from "clsx";
+import Link from "next/link";
+import { Routes } from "@blitzjs/next";
+import Webhooks from "app/components/forms/webhooks";
 
 export function APIDialog() {
   const rep = usePersistence();
@@ -58,6 +61,15 @@ export function APIDialog() {
           </StyledSwitch>
           Public sharing
         </label>
+        {meta.access === "PUBLIC" ? null : (
+          <TextWell>
+            Private maps can still be read through the API with an{" "}
+            <Link href={Routes.SettingsTokens()} className="underline">
+              API token
+            </Link>
+            .
+          </TextWell>
+        )}
         <div
           className={clsx(
             "relative space-y-2",
@@ -99,6 +111,7 @@ export function APIDialog() {
             </TextWell>
           </div>
         </div>
+        <Webhooks wrappedFeatureCollectionId={meta.id} />
         <div>
           <a
             className="inline-flex gap-x-1 items-center text-sm hover:underline text-purple-700 dark:text-purple-300"
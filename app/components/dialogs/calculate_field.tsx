@@ -0,0 +1,237 @@
+import { MixIcon } from "@radix-ui/react-icons";
+import { DialogHeader } from "app/components/dialog";
+import { ErrorMessage, Field, Form, Formik } from "formik";
+import type { ModalStateCalculateField } from "state/jotai";
+import { dataAtom, tableFilterAtom, virtualColumnsAtom } from "state/jotai";
+import { USelection } from "state";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import { usePersistence } from "app/lib/persistence/context";
+import {
+  inputClass,
+  StyledLabelSpan,
+  styledRadio,
+  TextWell,
+} from "app/components/elements";
+import { InlineError } from "app/components/inline_error";
+import type { JsonObject } from "type-fest";
+import type { IWrappedFeature } from "types";
+import { useAtomValue } from "jotai";
+import { useMemo } from "react";
+import * as Sentry from "@sentry/nextjs";
+import { filterFeatures } from "app/components/panels/feature_table";
+import { getColumns } from "app/lib/search_utils";
+import { useUpdateMaybeUser } from "app/hooks/update_user";
+import {
+  evaluateCalculation,
+  MEASURES,
+  parseCalculation,
+} from "app/lib/field_calculator";
+import { pluralize } from "app/lib/utils";
+
+type Scope = "selection" | "filtered";
+
+type CalculateFormValues = {
+  column: string;
+  expression: string;
+  scope: Scope;
+};
+
+const PREVIEW_COUNT = 5;
+
+function validateColumn(value: string) {
+  if (!value.trim()) return "A column name is required";
+}
+
+function validateExpression(value: string) {
+  if (!value.trim()) return "An expression is required";
+  return parseCalculation(value).caseOf({
+    Left: (error) => error.message,
+    Right: () => undefined,
+  });
+}
+
+/**
+ * The features that the table currently shows, using
+ * the same filter as the table itself.
+ */
+function useFilteredFeatures() {
+  const { featureMap, folderMap } = useAtomValue(dataAtom);
+  const tableFilter = useAtomValue(tableFilterAtom);
+  const virtualColumns = useAtomValue(virtualColumnsAtom);
+  return useMemo(() => {
+    const folderId =
+      tableFilter.folderId && folderMap.has(tableFilter.folderId)
+        ? tableFilter.folderId
+        : null;
+    return filterFeatures({
+      featureMap,
+      filter: { ...tableFilter, folderId },
+      columns: getColumns({ featureMap, folderId, virtualColumns }),
+    });
+  }, [featureMap, folderMap, tableFilter, virtualColumns]);
+}
+
+export function CalculateFieldDialog({
+  onClose,
+  modal,
+}: {
+  onClose: () => void;
+  modal: ModalStateCalculateField;
+}) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const data = useAtomValue(dataAtom);
+  const { user } = useUpdateMaybeUser();
+  const units = {
+    lengthUnits: user.lengthUnits,
+    areaUnits: user.areaUnits,
+  };
+
+  const selectedFeatures = useMemo(
+    () => USelection.getSelectedFeatures(data),
+    [data]
+  );
+  const filteredFeatures = useFilteredFeatures();
+  const scopes: Record<Scope, IWrappedFeature[]> = {
+    selection: selectedFeatures,
+    filtered: filteredFeatures,
+  };
+
+  const onSubmit = async (values: CalculateFormValues) => {
+    const expression = parseCalculation(values.expression).unsafeCoerce();
+    const features = scopes[values.scope];
+    await transact({
+      note: "Calculated a property",
+      track: [
+        "feature-calculate-field",
+        {
+          count: features.length,
+        },
+      ],
+      putFeatures: features.map((wrappedFeature) => {
+        const properties = {
+          ...wrappedFeature.feature.properties,
+        } as JsonObject;
+        properties[values.column] = evaluateCalculation(
+          expression,
+          wrappedFeature.feature,
+          units
+        );
+        return {
+          ...wrappedFeature,
+          feature: {
+            ...wrappedFeature.feature,
+            properties,
+          },
+        };
+      }),
+    }).catch((e) => Sentry.captureException(e));
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader title="Calculate field" titleIcon={MixIcon} />
+      <Formik<CalculateFormValues>
+        onSubmit={onSubmit}
+        initialValues={{
+          column: modal.column,
+          expression: "",
+          scope: selectedFeatures.length ? "selection" : "filtered",
+        }}
+      >
+        {({ values, errors }) => {
+          const preview = errors.expression
+            ? []
+            : parseCalculation(values.expression)
+                .map((expression) =>
+                  scopes[values.scope]
+                    .slice(0, PREVIEW_COUNT)
+                    .map((wrappedFeature) =>
+                      evaluateCalculation(
+                        expression,
+                        wrappedFeature.feature,
+                        units
+                      )
+                    )
+                )
+                .orDefault([]);
+          return (
+            <Form className="space-y-4">
+              <label className="block">
+                <StyledLabelSpan>Column</StyledLabelSpan>
+                <Field
+                  className={inputClass({ _size: "sm" })}
+                  name="column"
+                  validate={validateColumn}
+                />
+                <ErrorMessage name="column" component={InlineError} />
+              </label>
+              <label className="block">
+                <StyledLabelSpan>Expression</StyledLabelSpan>
+                <Field
+                  className={inputClass({ _size: "sm" }) + " font-mono"}
+                  name="expression"
+                  placeholder="round($area, 2)"
+                  validate={validateExpression}
+                  autoFocus
+                />
+                <ErrorMessage name="expression" component={InlineError} />
+              </label>
+              <div className="flex items-center gap-x-4">
+                <label className="flex items-center gap-x-1">
+                  <Field
+                    className={styledRadio}
+                    type="radio"
+                    name="scope"
+                    value="selection"
+                    disabled={!selectedFeatures.length}
+                  />
+                  <StyledLabelSpan>
+                    Selection ({selectedFeatures.length})
+                  </StyledLabelSpan>
+                </label>
+                <label className="flex items-center gap-x-1">
+                  <Field
+                    className={styledRadio}
+                    type="radio"
+                    name="scope"
+                    value="filtered"
+                  />
+                  <StyledLabelSpan>
+                    Table rows ({filteredFeatures.length})
+                  </StyledLabelSpan>
+                </label>
+              </div>
+              {preview.length ? (
+                <div>
+                  <StyledLabelSpan>Preview</StyledLabelSpan>
+                  <ul className="font-mono text-xs text-gray-700 dark:text-gray-300">
+                    {preview.map((value, i) => (
+                      <li key={i} className="truncate">
+                        {JSON.stringify(value)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              <TextWell>
+                Expressions can use properties, operators like + and *,
+                functions like round(), upper(), and if(), and measurements in
+                your units: {MEASURES.join(", ")}. Text needs quotes, and
+                columns with spaces can be quoted with `backticks`.
+              </TextWell>
+              <SimpleDialogActions
+                onClose={onClose}
+                action={`Calculate ${pluralize(
+                  "feature",
+                  scopes[values.scope].length
+                )}`}
+              />
+            </Form>
+          );
+        }}
+      </Formik>
+    </>
+  );
+}
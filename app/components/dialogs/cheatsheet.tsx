@@ -57,6 +57,11 @@ export function CheatsheetDialog() {
             Hold down <span className="font-bold">Shift</span> while drawing
             lines or polygons to draw with right angles.
           </li>
+          <li>
+            Drawing and dragging vertexes snaps to nearby vertexes and edges.
+            Hold down <span className="font-bold">Command</span> or{" "}
+            <span className="font-bold">Ctrl</span> to turn snapping off.
+          </li>
           <li>
             <span className="font-bold">Shift-click</span> to select additional
             features.
@@ -0,0 +1,239 @@
+import { ScissorsIcon } from "@radix-ui/react-icons";
+import { DialogHeader } from "app/components/dialog";
+import { Field, Form, Formik } from "formik";
+import type { DialogStateClip } from "state/dialog_state";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import {
+  StyledLabelSpan,
+  styledRadio,
+  styledSelect,
+  TextWell,
+} from "app/components/elements";
+import { usePersistence } from "app/lib/persistence/context";
+import { lib } from "app/lib/worker";
+import { getFoldersInTree } from "app/lib/folder";
+import type { ClipMode } from "app/lib/map_operations/clip_features";
+import { useAtomValue, useSetAtom } from "jotai";
+import { dataAtom, selectionAtom } from "state/jotai";
+import { USelection } from "state";
+import { pluralize } from "app/lib/utils";
+import type { IWrappedFeature } from "types";
+import toast from "react-hot-toast";
+import * as Sentry from "@sentry/nextjs";
+
+type ClipFormValues = {
+  boundary: IWrappedFeature["id"];
+  mode: ClipMode;
+  /**
+   * "selection" for the other selected features, a folder id,
+   * or an empty string for all features.
+   */
+  target: string;
+};
+
+function isPolygon({ feature }: IWrappedFeature) {
+  return (
+    feature.geometry?.type === "Polygon" ||
+    feature.geometry?.type === "MultiPolygon"
+  );
+}
+
+function boundaryName(wrappedFeature: IWrappedFeature, i: number) {
+  const name = wrappedFeature.feature.properties?.name;
+  return typeof name === "string" && name ? name : `Polygon ${i + 1}`;
+}
+
+export function ClipDialog({
+  modal,
+  onClose,
+}: {
+  modal: DialogStateClip;
+  onClose: () => void;
+}) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const setSelection = useSetAtom(selectionAtom);
+  const { featureMap, folderMap } = useAtomValue(dataAtom);
+  const folders = Array.from(folderMap.values());
+  const boundaries = modal.features.filter(isPolygon);
+  const hasOthers = modal.features.length > 1;
+
+  function getTargets(values: ClipFormValues): IWrappedFeature[] {
+    let targets: IWrappedFeature[];
+    if (values.target === "selection") {
+      targets = modal.features;
+    } else if (values.target) {
+      const folderIds = getFoldersInTree(folderMap, values.target);
+      targets = Array.from(featureMap.values()).filter(
+        (feature) => feature.folderId && folderIds.has(feature.folderId)
+      );
+    } else {
+      targets = Array.from(featureMap.values());
+    }
+    return targets.filter((feature) => feature.id !== values.boundary);
+  }
+
+  const onSubmit = async (values: ClipFormValues) => {
+    const boundary = boundaries.find((f) => f.id === values.boundary);
+    if (!boundary) return;
+    const targets = getTargets(values);
+    const verb = values.mode === "clip" ? "Clipped" : "Erased";
+
+    const work = lib
+      .clipFeatures(
+        boundary.feature,
+        targets.map((f) => f.feature),
+        { mode: values.mode }
+      )
+      .then((res) =>
+        res.caseOf({
+          Left(error) {
+            return Promise.reject(error.message);
+          },
+          Right(outcomes) {
+            const putFeatures: IWrappedFeature[] = [];
+            const deleteFeatures: IWrappedFeature["id"][] = [];
+            let failed = 0;
+            outcomes.forEach((outcome, i) => {
+              switch (outcome.type) {
+                case "clipped": {
+                  putFeatures.push({ ...targets[i], feature: outcome.feature });
+                  break;
+                }
+                case "empty": {
+                  deleteFeatures.push(targets[i].id);
+                  break;
+                }
+                case "failed": {
+                  failed++;
+                  break;
+                }
+              }
+            });
+            setSelection(USelection.none());
+            return transact({
+              note: `${verb} features`,
+              track: [
+                "operation-clip",
+                {
+                  mode: values.mode,
+                  count: targets.length,
+                },
+              ],
+              putFeatures,
+              deleteFeatures,
+            }).then(() => {
+              if (failed) {
+                toast.error(
+                  `${pluralize("feature", failed)} could not be ${
+                    values.mode === "clip" ? "clipped" : "erased"
+                  }`
+                );
+              }
+            });
+          },
+        })
+      );
+
+    await toast
+      .promise(
+        work,
+        {
+          loading: values.mode === "clip" ? "Clipping" : "Erasing",
+          success: "Done",
+          error: (message: string) => message || "Failed to clip features",
+        },
+        {
+          loading: { duration: Infinity },
+          success: { duration: 2000 },
+          error: { duration: 4000 },
+        }
+      )
+      .catch((e) => Sentry.captureException(e));
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader title="Clip or erase" titleIcon={ScissorsIcon} />
+      <Formik<ClipFormValues>
+        onSubmit={onSubmit}
+        initialValues={{
+          boundary: boundaries[0]?.id || "",
+          mode: "clip",
+          target: hasOthers ? "selection" : "",
+        }}
+      >
+        {({ values }) => (
+          <Form className="space-y-4">
+            <div className="grid grid-cols-2 gap-x-2">
+              <label className="block">
+                <StyledLabelSpan>Boundary</StyledLabelSpan>
+                <Field
+                  as="select"
+                  name="boundary"
+                  className={styledSelect({ size: "sm" }) + " w-full"}
+                >
+                  {boundaries.map((wrappedFeature, i) => (
+                    <option key={wrappedFeature.id} value={wrappedFeature.id}>
+                      {boundaryName(wrappedFeature, i)}
+                    </option>
+                  ))}
+                </Field>
+              </label>
+              <label className="block">
+                <StyledLabelSpan>Features</StyledLabelSpan>
+                <Field
+                  as="select"
+                  name="target"
+                  className={styledSelect({ size: "sm" }) + " w-full"}
+                >
+                  {hasOthers ? (
+                    <option value="selection">Other selected features</option>
+                  ) : null}
+                  <option value="">All features</option>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </Field>
+              </label>
+            </div>
+            <div className="flex items-center gap-x-4">
+              <label className="flex items-center gap-x-1">
+                <Field
+                  className={styledRadio}
+                  type="radio"
+                  name="mode"
+                  value="clip"
+                />
+                <StyledLabelSpan>Keep inside</StyledLabelSpan>
+              </label>
+              <label className="flex items-center gap-x-1">
+                <Field
+                  className={styledRadio}
+                  type="radio"
+                  name="mode"
+                  value="erase"
+                />
+                <StyledLabelSpan>Keep outside</StyledLabelSpan>
+              </label>
+            </div>
+            <TextWell>
+              {values.mode === "clip"
+                ? "Features are cut to the boundary, and features outside it are deleted."
+                : "The boundary is cut out of features, and features inside it are deleted."}{" "}
+              Lines are split where they cross the boundary, and properties are
+              kept.
+            </TextWell>
+            <SimpleDialogActions
+              onClose={onClose}
+              action={values.mode === "clip" ? "Clip" : "Erase"}
+            />
+          </Form>
+        )}
+      </Formik>
+    </>
+  );
+}
@@ -0,0 +1,206 @@
+import { GroupIcon } from "@radix-ui/react-icons";
+import { DialogHeader } from "app/components/dialog";
+import { ErrorMessage, Field, Form, Formik } from "formik";
+import type { DialogStateDissolve } from "state/dialog_state";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import {
+  FieldCheckbox,
+  StyledLabelSpan,
+  styledSelect,
+  TextWell,
+} from "app/components/elements";
+import { InlineError } from "app/components/inline_error";
+import { usePersistence } from "app/lib/persistence/context";
+import { lib } from "app/lib/worker";
+import { newFeatureId } from "app/lib/id";
+import { AGGREGATE_OPERATIONS } from "app/lib/aggregate";
+import type { AggregateOperation } from "app/lib/aggregate";
+import { useSetAtom } from "jotai";
+import { selectionAtom } from "state/jotai";
+import { USelection } from "state";
+import { pluralize } from "app/lib/utils";
+import { useMemo } from "react";
+import groupBy from "lodash/groupBy";
+import { Either } from "purify-ts/Either";
+import toast from "react-hot-toast";
+import * as Sentry from "@sentry/nextjs";
+
+type DissolveFormValues = {
+  groupBy: string[];
+  /**
+   * An empty string drops the property.
+   */
+  aggregates: Record<string, AggregateOperation | "">;
+};
+
+function validate(values: DissolveFormValues) {
+  if (!values.groupBy.length) {
+    return { groupBy: "Choose at least one property to group by" };
+  }
+  return {};
+}
+
+export function DissolveDialog({
+  modal,
+  onClose,
+}: {
+  modal: DialogStateDissolve;
+  onClose: () => void;
+}) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const setSelection = useSetAtom(selectionAtom);
+  const { features } = modal;
+
+  const columns = useMemo(() => {
+    const columns = new Set<string>();
+    for (const { feature } of features) {
+      for (const name in feature.properties) {
+        columns.add(name);
+      }
+    }
+    return Array.from(columns);
+  }, [features]);
+
+  const onSubmit = async (values: DissolveFormValues) => {
+    const aggregates: Record<string, AggregateOperation> = {};
+    for (const [property, operation] of Object.entries(values.aggregates)) {
+      if (operation) aggregates[property] = operation;
+    }
+
+    // Features are dissolved within their own folders,
+    // so that the results stay where their sources were.
+    const folders = Object.values(
+      groupBy(features, (wrappedFeature) => wrappedFeature.folderId || "")
+    );
+
+    const work = Promise.all(
+      folders.map((folderFeatures) =>
+        lib.dissolveFeatures(
+          folderFeatures.map((f) => f.feature),
+          { groupBy: values.groupBy, aggregates }
+        )
+      )
+    ).then((results) =>
+      Either.sequence(results).caseOf({
+        Left(error) {
+          return Promise.reject(error.message);
+        },
+        Right(dissolved) {
+          setSelection(USelection.none());
+          return transact({
+            note: "Dissolved features",
+            track: [
+              "operation-dissolve",
+              {
+                count: features.length,
+              },
+            ],
+            deleteFeatures: features.map((f) => f.id),
+            putFeatures: dissolved.flatMap((folderDissolved, i) =>
+              folderDissolved.map((feature) => ({
+                id: newFeatureId(),
+                folderId: folders[i][0].folderId,
+                feature,
+              }))
+            ),
+          });
+        },
+      })
+    );
+
+    await toast
+      .promise(
+        work,
+        {
+          loading: "Dissolving features",
+          success: "Done",
+          error: (message: string) => message || "Failed to dissolve features",
+        },
+        {
+          loading: { duration: Infinity },
+          success: { duration: 2000 },
+          error: { duration: 4000 },
+        }
+      )
+      .catch((e) => Sentry.captureException(e));
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader title="Dissolve" titleIcon={GroupIcon} />
+      <Formik<DissolveFormValues>
+        onSubmit={onSubmit}
+        validate={validate}
+        initialValues={{
+          groupBy: modal.groupBy ? [modal.groupBy] : [],
+          aggregates: {},
+        }}
+      >
+        {({ values }) => (
+          <Form className="space-y-4">
+            <div>
+              Dissolving {pluralize("feature", features.length)} into one
+              feature for each combination of values in each folder.
+            </div>
+            <div className="max-h-64 overflow-auto placemark-scrollbar">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left">
+                      <StyledLabelSpan>Property</StyledLabelSpan>
+                    </th>
+                    <th className="text-left">
+                      <StyledLabelSpan>Group by</StyledLabelSpan>
+                    </th>
+                    <th className="text-left">
+                      <StyledLabelSpan>Combine with</StyledLabelSpan>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {columns.map((column) => (
+                    <tr key={column}>
+                      <td className="truncate max-w-0 w-1/2" title={column}>
+                        {column}
+                      </td>
+                      <td>
+                        <FieldCheckbox
+                          type="checkbox"
+                          name="groupBy"
+                          value={column}
+                        />
+                      </td>
+                      <td className="py-1">
+                        <Field
+                          as="select"
+                          name={`aggregates["${column}"]`}
+                          disabled={values.groupBy.includes(column)}
+                          className={styledSelect({ size: "xs" }) + " w-full"}
+                        >
+                          <option value="">Drop</option>
+                          {AGGREGATE_OPERATIONS.map((operation) => (
+                            <option key={operation} value={operation}>
+                              {operation}
+                            </option>
+                          ))}
+                        </Field>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <ErrorMessage name="groupBy" component={InlineError} />
+            <TextWell>
+              Polygons in each group are merged into one shape, and lines and
+              points are combined into multi-geometries.
+            </TextWell>
+            <SimpleDialogActions onClose={onClose} action="Dissolve" />
+          </Form>
+        )}
+      </Formik>
+    </>
+  );
+}
@@ -7,7 +7,14 @@ import {
   FileType,
   ExportedData,
   DEFAULT_IMPORT_OPTIONS,
+  DEFAULT_EXPORT_VECTOR_TILE_OPTIONS,
+  MAX_EXPORT_VECTOR_TILE_ZOOM,
+  EXPORT_CRS_TYPES,
 } from "app/lib/convert";
+import { canRepresentExtent } from "app/lib/convert/local/reproject";
+import { getExtent } from "app/lib/geometry";
+import { CrsField } from "app/components/crs_form";
+import { useEffect, useState } from "react";
 import { lib } from "app/lib/worker";
 import * as E from "app/components/elements";
 import * as C from "@radix-ui/react-collapsible";
@@ -16,7 +23,7 @@ import toast from "react-hot-toast";
 import { DownloadIcon, QuestionMarkCircledIcon } from "@radix-ui/react-icons";
 import { DialogHeader } from "app/components/dialog";
 import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
-import { dataAtom, fileInfoAtom } from "state/jotai";
+import { Data, dataAtom, fileInfoAtom } from "state/jotai";
 import { SelectFileType } from "app/components/fields";
 import { NarrowExport } from "app/components/narrow_export";
 import { useAtomValue, useSetAtom } from "jotai";
@@ -25,7 +32,7 @@ import {
   useRootItems,
 } from "app/components/panels/feature_editor/feature_editor_folder/math";
 import type { Root } from "@tmcw/togeojson";
-import { FeatureMap } from "types";
+import { FeatureMap, UWrappedFeature } from "types";
 import { pluralize } from "app/lib/utils";
 
 export function fallbackSave(result: ExportedData, type: FileType) {
@@ -87,8 +94,8 @@ export function CSVOptions({
       </label>
       {values.csvOptions?.kind === "lonlat" && omittedFeatureCount ? (
         <E.TextWell variant="destructive">
-          CSV exports as "Longitude & latitude columns" will only include Point
-          & MultiPoint features. This export will be missing{" "}
+          Exports as "Longitude & latitude columns" will only include Point &
+          MultiPoint features. This export will be missing{" "}
           {pluralize("feature", omittedFeatureCount)}. To export those features
           as well, choose a different Geometry representation.
         </E.TextWell>
@@ -103,6 +110,117 @@ export function CSVOptions({
   );
 }
 
+function isVectorTileType(type: ExportOptions["type"]) {
+  return type === "pmtiles" || type === "mbtiles";
+}
+
+export function VectorTileOptions({ values }: { values: ExportOptions }) {
+  const { minZoom, maxZoom } =
+    values.vectorTileOptions || DEFAULT_EXPORT_VECTOR_TILE_OPTIONS;
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-x-2">
+        <label className="flex-auto">
+          <div>
+            <E.StyledLabelSpan>Minimum zoom</E.StyledLabelSpan>
+          </div>
+          <Field
+            type="number"
+            min="0"
+            max={MAX_EXPORT_VECTOR_TILE_ZOOM}
+            step="1"
+            name="vectorTileOptions.minZoom"
+            className={E.inputClass({ _size: "sm" })}
+          />
+        </label>
+        <label className="flex-auto">
+          <div>
+            <E.StyledLabelSpan>Maximum zoom</E.StyledLabelSpan>
+          </div>
+          <Field
+            type="number"
+            min="0"
+            max={MAX_EXPORT_VECTOR_TILE_ZOOM}
+            step="1"
+            name="vectorTileOptions.maxZoom"
+            className={E.inputClass({ _size: "sm" })}
+          />
+        </label>
+      </div>
+      {minZoom > maxZoom ? (
+        <E.TextWell variant="destructive">
+          The minimum zoom should be less than or equal to the maximum zoom.
+        </E.TextWell>
+      ) : (
+        <E.TextWell>
+          Each folder becomes a source layer. The number of tiles grows quickly
+          with the maximum zoom, so higher zooms take longer to export.
+        </E.TextWell>
+      )}
+    </div>
+  );
+}
+
+function useCanRepresent({
+  data,
+  values,
+}: {
+  data: Data;
+  values: ExportOptions;
+}) {
+  const definition = values.targetCrs?.definition;
+  const [canRepresent, setCanRepresent] = useState(true);
+
+  useEffect(() => {
+    if (!definition) {
+      setCanRepresent(true);
+      return;
+    }
+    let current = true;
+    const { filteredFeatures } = UWrappedFeature.filterMapByFolder(
+      data.featureMap,
+      data.folderMap,
+      values.folderId
+    );
+    getExtent(Array.from(filteredFeatures.values()))
+      .mapOrDefault(
+        (extent) => canRepresentExtent(definition, extent as BBox4),
+        Promise.resolve(true)
+      )
+      .then((result) => {
+        if (current) setCanRepresent(result);
+      })
+      .catch((e) => Sentry.captureException(e));
+    return () => {
+      current = false;
+    };
+  }, [definition, data.featureMap, data.folderMap, values.folderId]);
+
+  return canRepresent;
+}
+
+export function TargetCrsOptions({
+  data,
+  values,
+}: {
+  data: Data;
+  values: ExportOptions;
+}) {
+  const canRepresent = useCanRepresent({ data, values });
+  return (
+    <div className="space-y-2">
+      <CrsField name="targetCrs" label="Coordinate system" />
+      {canRepresent ? null : (
+        <E.TextWell variant="destructive">
+          This coordinate system can’t accurately represent the extent of the
+          exported features. Coordinates far outside of its area of use will be
+          distorted or wrong.
+        </E.TextWell>
+      )}
+    </div>
+  );
+}
+
 export function GeoJSONOptions() {
   return (
     <>
@@ -199,8 +317,26 @@ export function ExportDialog({ onClose }: { onClose: () => void }) {
     exportOptions: ExportOptions,
     helpers: FormikHelpers<ExportOptions>
   ) {
+    const zoomRange = exportOptions.vectorTileOptions;
+    if (
+      isVectorTileType(exportOptions.type) &&
+      zoomRange &&
+      zoomRange.minZoom > zoomRange.maxZoom
+    ) {
+      helpers.setErrors({
+        type: "The minimum zoom should be less than or equal to the maximum zoom.",
+      });
+      return;
+    }
+
     const { fileSave, supported } = await import("browser-fs-access");
 
+    // The coordinate system stays in the form when switching
+    // to a type that doesn't support it.
+    if (!EXPORT_CRS_TYPES.has(exportOptions.type)) {
+      exportOptions = { ...exportOptions, targetCrs: null };
+    }
+
     try {
       const type = findType(exportOptions.type);
       // TODO: remove this workaround.
@@ -268,6 +404,8 @@ export function ExportDialog({ onClose }: { onClose: () => void }) {
           folderId: "",
           geojsonOptions: DEFAULT_EXPORT_GEOJSON_OPTIONS,
           csvOptions: DEFAULT_IMPORT_OPTIONS["csvOptions"],
+          vectorTileOptions: DEFAULT_EXPORT_VECTOR_TILE_OPTIONS,
+          targetCrs: null,
         }}
       >
         {({ values }) => {
@@ -278,13 +416,19 @@ export function ExportDialog({ onClose }: { onClose: () => void }) {
                   <NarrowExport root={root} featureMap={data.featureMap} />
                   <SelectFileType exportable />
                   {values.type === "geojson" ? <GeoJSONOptions /> : null}
-                  {values.type === "csv" ? (
+                  {values.type === "csv" || values.type === "xls" ? (
                     <CSVOptions
                       root={root}
                       featureMap={data.featureMap}
                       values={values}
                     />
                   ) : null}
+                  {isVectorTileType(values.type) ? (
+                    <VectorTileOptions values={values} />
+                  ) : null}
+                  {EXPORT_CRS_TYPES.has(values.type) ? (
+                    <TargetCrsOptions data={data} values={values} />
+                  ) : null}
                 </div>
                 <SimpleDialogActions onClose={onClose} action="Export" />
               </div>
@@ -0,0 +1,218 @@
+import { GridIcon } from "@radix-ui/react-icons";
+import { DialogHeader } from "app/components/dialog";
+import { Field, Form, Formik } from "formik";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import {
+  FieldCheckbox,
+  StyledField,
+  StyledLabelSpan,
+  styledSelect,
+  TextWell,
+} from "app/components/elements";
+import { UnitOptionsGroups } from "app/components/unit_select";
+import { GROUPED_UNIT_OPTIONS } from "app/lib/constants";
+import { usePersistence } from "app/lib/persistence/context";
+import { useUpdateMaybeUser } from "app/hooks/update_user";
+import { lib } from "app/lib/worker";
+import { newFeatureId } from "app/lib/id";
+import type {
+  GenerateOptions,
+  GridType,
+  TessellationType,
+} from "app/lib/map_operations/generate_features";
+import { useAtomValue, useSetAtom } from "jotai";
+import { selectedFeaturesAtom, selectionAtom } from "state/jotai";
+import { USelection } from "state";
+import { pluralize } from "app/lib/utils";
+import type { Units } from "@turf/helpers";
+import toast from "react-hot-toast";
+import * as Sentry from "@sentry/nextjs";
+
+type GenerateFormValues = {
+  type: GridType | TessellationType;
+  cellSize: number;
+  units: Units;
+  clip: boolean;
+};
+
+const TYPE_NAMES: Record<GenerateFormValues["type"], string> = {
+  square: "Square grid",
+  hexagon: "Hexagon grid",
+  triangle: "Triangle grid",
+  voronoi: "Voronoi polygons",
+  delaunay: "Delaunay triangles",
+};
+
+function isGrid(type: GenerateFormValues["type"]) {
+  return type !== "voronoi" && type !== "delaunay";
+}
+
+export function GenerateDialog({ onClose }: { onClose: () => void }) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const setSelection = useSetAtom(selectionAtom);
+  const selectedFeatures = useAtomValue(selectedFeaturesAtom);
+  const { user } = useUpdateMaybeUser();
+
+  const onSubmit = async (values: GenerateFormValues) => {
+    const options: GenerateOptions =
+      values.type === "voronoi" || values.type === "delaunay"
+        ? { type: values.type }
+        : {
+            type: values.type,
+            cellSize: values.cellSize,
+            units: values.units,
+            clip: values.clip,
+          };
+
+    const work = lib
+      .generateFeatures(
+        selectedFeatures.map((f) => f.feature),
+        options
+      )
+      .then((res) =>
+        res.caseOf({
+          Left(error) {
+            return Promise.reject(error.message);
+          },
+          Right(features) {
+            const folderId = newFeatureId();
+            return transact({
+              note: `Generated ${TYPE_NAMES[values.type].toLowerCase()}`,
+              track: [
+                "operation-generate",
+                {
+                  type: values.type,
+                  count: features.length,
+                },
+              ],
+              putFolders: [
+                {
+                  id: folderId,
+                  name: TYPE_NAMES[values.type],
+                  folderId: null,
+                  expanded: true,
+                  locked: false,
+                  visibility: true,
+                },
+              ],
+              putFeatures: features.map((feature) => ({
+                id: newFeatureId(),
+                folderId,
+                feature,
+              })),
+            }).then(() => {
+              setSelection(USelection.folder(folderId));
+            });
+          },
+        })
+      );
+
+    await toast
+      .promise(
+        work,
+        {
+          loading: "Generating features",
+          success: "Done",
+          error: (message: string) => message || "Failed to generate features",
+        },
+        {
+          loading: { duration: Infinity },
+          success: { duration: 2000 },
+          error: { duration: 4000 },
+        }
+      )
+      .catch((e) => Sentry.captureException(e));
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader title="Generate" titleIcon={GridIcon} />
+      <Formik<GenerateFormValues>
+        onSubmit={onSubmit}
+        initialValues={{
+          type: "hexagon",
+          cellSize: 1,
+          units: user.lengthUnits,
+          clip: false,
+        }}
+      >
+        {({ values }) => (
+          <Form className="space-y-4">
+            <div>
+              Generating from{" "}
+              {pluralize("selected feature", selectedFeatures.length)} into a
+              new folder.
+            </div>
+            <label className="block">
+              <div>
+                <StyledLabelSpan>Generate</StyledLabelSpan>
+              </div>
+              <Field
+                as="select"
+                name="type"
+                className={styledSelect({ size: "sm" }) + " w-full"}
+              >
+                {Object.entries(TYPE_NAMES).map(([type, name]) => (
+                  <option key={type} value={type}>
+                    {name}
+                  </option>
+                ))}
+              </Field>
+            </label>
+            {isGrid(values.type) ? (
+              <>
+                <div className="grid grid-cols-2 gap-x-2">
+                  <label className="block">
+                    <div>
+                      <StyledLabelSpan>
+                        {values.type === "square"
+                          ? "Cell width"
+                          : "Side length"}
+                      </StyledLabelSpan>
+                    </div>
+                    <StyledField
+                      name="cellSize"
+                      className="w-full"
+                      type="number"
+                      min="0"
+                      step="any"
+                    />
+                  </label>
+                  <label className="block">
+                    <div>
+                      <StyledLabelSpan>Units</StyledLabelSpan>
+                    </div>
+                    <Field
+                      as="select"
+                      name="units"
+                      className={styledSelect({ size: "sm" }) + " w-full"}
+                    >
+                      <UnitOptionsGroups groups={GROUPED_UNIT_OPTIONS.length} />
+                    </Field>
+                  </label>
+                </div>
+                <label className="flex items-center gap-x-2">
+                  <FieldCheckbox type="checkbox" name="clip" />
+                  <StyledLabelSpan>Clip to selected polygons</StyledLabelSpan>
+                </label>
+                <TextWell>
+                  Without clipping, the grid covers the extent of the selected
+                  features.
+                </TextWell>
+              </>
+            ) : (
+              <TextWell>
+                {values.type === "voronoi"
+                  ? "Each selected point gets the area that is closer to it than to any other point, with the point’s properties."
+                  : "Selected points are connected into triangles."}
+              </TextWell>
+            )}
+            <SimpleDialogActions onClose={onClose} action="Generate" />
+          </Form>
+        )}
+      </Formik>
+    </>
+  );
+}
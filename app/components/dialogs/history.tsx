@@ -0,0 +1,328 @@
+import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
+import { CounterClockwiseClockIcon } from "@radix-ui/react-icons";
+import { Close } from "@radix-ui/react-dialog";
+import { ErrorMessage } from "formik";
+import { useAtomValue, useSetAtom } from "jotai";
+import { Suspense, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { DialogHeader } from "app/components/dialog";
+import {
+  Button,
+  StyledField,
+  StyledLabelSpan,
+  styledCheckbox,
+  TextWell,
+} from "app/components/elements";
+import { InlineError } from "app/components/inline_error";
+import { Form, FORM_ERROR } from "app/core/components/Form";
+import { usePersistence } from "app/lib/persistence/context";
+import { formatDateAgo, pluralize } from "app/lib/utils";
+import createMapSnapshot from "app/mapHistory/mutations/createMapSnapshot";
+import deleteMapSnapshot from "app/mapHistory/mutations/deleteMapSnapshot";
+import restoreMapVersion from "app/mapHistory/mutations/restoreMapVersion";
+import getMapAtVersion from "app/mapHistory/queries/getMapAtVersion";
+import getMapHistory from "app/mapHistory/queries/getMapHistory";
+import type { MapHistory } from "app/mapHistory/queries/getMapHistory";
+import { CreateMapSnapshot } from "app/mapHistory/validations";
+import { USelection } from "state";
+import { ephemeralStateAtom, selectionAtom } from "state/jotai";
+
+type MapVersionItem = MapHistory["versions"][0];
+type MapSnapshotItem = MapHistory["snapshots"][0];
+
+function userName(user: { name: string | null; email: string } | null) {
+  return user ? user.name || user.email : "Someone";
+}
+
+/**
+ * Show the map as it was at a version,
+ * until another is picked or the dialog closes.
+ */
+function HistoryPreview({
+  wrappedFeatureCollectionId,
+  version,
+}: {
+  wrappedFeatureCollectionId: string;
+  version: number;
+}) {
+  const [map] = useQuery(getMapAtVersion, {
+    wrappedFeatureCollectionId,
+    version,
+  });
+  const setEphemeralState = useSetAtom(ephemeralStateAtom);
+
+  useEffect(() => {
+    setEphemeralState({
+      type: "history",
+      features: map.features.map((wrappedFeature) => wrappedFeature.feature),
+    });
+    return () => setEphemeralState({ type: "none" });
+  }, [map, setEphemeralState]);
+
+  return (
+    <TextWell>
+      Previewing {pluralize("feature", map.features.length)} as they were at
+      version {version}.
+    </TextWell>
+  );
+}
+
+function VersionActions({
+  version,
+  previewVersion,
+  setPreviewVersion,
+  onRestore,
+}: {
+  version: number;
+  previewVersion: number | null;
+  setPreviewVersion: (version: number | null) => void;
+  onRestore: (version: number) => Promise<void>;
+}) {
+  return (
+    <div className="flex gap-x-1 flex-shrink-0">
+      <Button
+        type="button"
+        size="xs"
+        variant={previewVersion === version ? "primary" : "default"}
+        onClick={() =>
+          setPreviewVersion(previewVersion === version ? null : version)
+        }
+      >
+        Preview
+      </Button>
+      <Button type="button" size="xs" onClick={() => onRestore(version)}>
+        Restore
+      </Button>
+    </div>
+  );
+}
+
+function Snapshots({
+  wrappedFeatureCollectionId,
+  snapshots,
+  children,
+}: {
+  wrappedFeatureCollectionId: string;
+  snapshots: MapSnapshotItem[];
+  children: (snapshot: MapSnapshotItem) => React.ReactNode;
+}) {
+  const [createMapSnapshotMutation] = useMutation(createMapSnapshot);
+  const [deleteMapSnapshotMutation] = useMutation(deleteMapSnapshot);
+  const now = new Date();
+
+  return (
+    <div className="space-y-2">
+      <StyledLabelSpan>Snapshots</StyledLabelSpan>
+      {snapshots.map((snapshot) => (
+        <div
+          key={snapshot.id}
+          className="flex items-center justify-between gap-x-2 text-sm"
+        >
+          <div className="truncate">
+            {snapshot.name}
+            <span className="text-xs text-gray-500">
+              {" "}
+              {formatDateAgo(now, snapshot.createdAt)} by{" "}
+              {userName(snapshot.createdBy)}
+            </span>
+          </div>
+          <div className="flex gap-x-1 flex-shrink-0">
+            {children(snapshot)}
+            <Button
+              type="button"
+              size="xs"
+              onClick={async () => {
+                await deleteMapSnapshotMutation({ id: snapshot.id });
+                await invalidateQuery(getMapHistory);
+              }}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Form
+        schema={CreateMapSnapshot}
+        initialValues={{ wrappedFeatureCollectionId, name: "" }}
+        onSubmit={async (values, helpers) => {
+          try {
+            await createMapSnapshotMutation(values);
+            await invalidateQuery(getMapHistory);
+            helpers.resetForm();
+          } catch (error: any) {
+            return { [FORM_ERROR]: (error as Error).toString() };
+          }
+        }}
+      >
+        <ErrorMessage name="name" component={InlineError} />
+        <div className="flex gap-x-2">
+          <StyledField
+            name="name"
+            type="text"
+            placeholder="Snapshot name"
+            className="w-full"
+          />
+          <Button type="submit">Save snapshot</Button>
+        </div>
+      </Form>
+    </div>
+  );
+}
+
+function HistoryInner({
+  wrappedFeatureCollectionId,
+}: {
+  wrappedFeatureCollectionId: string;
+}) {
+  const [before, setBefore] = useState<number | undefined>(undefined);
+  const [previewVersion, setPreviewVersion] = useState<number | null>(null);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [history] = useQuery(getMapHistory, {
+    wrappedFeatureCollectionId,
+    before,
+  });
+  const [restoreMapVersionMutation] = useMutation(restoreMapVersion);
+  const selection = useAtomValue(selectionAtom);
+  const selectedIds = USelection.toIds(selection);
+  const now = new Date();
+
+  const onRestore = async (version: number) => {
+    const featureIds =
+      onlySelected && selectedIds.length ? [...selectedIds] : undefined;
+    if (
+      !confirm(
+        featureIds
+          ? `Restore ${pluralize(
+              "selected feature",
+              featureIds.length
+            )} to version ${version}?`
+          : `Restore the whole map to version ${version}?`
+      )
+    ) {
+      return;
+    }
+    await toast.promise(
+      restoreMapVersionMutation({
+        wrappedFeatureCollectionId,
+        version,
+        featureIds,
+      }),
+      {
+        loading: "Restoring…",
+        success: (counts) =>
+          `Restored ${pluralize("feature", counts.features)} and ${pluralize(
+            "folder",
+            counts.folders
+          )}`,
+        error: "Failed to restore",
+      }
+    );
+    setPreviewVersion(null);
+    await invalidateQuery(getMapHistory);
+  };
+
+  const actions = (version: number) => (
+    <VersionActions
+      version={version}
+      previewVersion={previewVersion}
+      setPreviewVersion={setPreviewVersion}
+      onRestore={onRestore}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      {previewVersion === null ? null : (
+        <Suspense fallback={<TextWell>Loading preview…</TextWell>}>
+          <HistoryPreview
+            wrappedFeatureCollectionId={wrappedFeatureCollectionId}
+            version={previewVersion}
+          />
+        </Suspense>
+      )}
+      <label className="flex items-center gap-x-2 text-sm">
+        <input
+          type="checkbox"
+          className={styledCheckbox({ variant: "default" })}
+          checked={onlySelected}
+          disabled={!selectedIds.length}
+          onChange={(e) => setOnlySelected(e.target.checked)}
+        />
+        Only restore the {pluralize("selected feature", selectedIds.length)}
+      </label>
+      <Snapshots
+        wrappedFeatureCollectionId={wrappedFeatureCollectionId}
+        snapshots={history.snapshots}
+      >
+        {(snapshot) => actions(snapshot.version)}
+      </Snapshots>
+      <div className="space-y-2">
+        <StyledLabelSpan>Changes</StyledLabelSpan>
+        {history.versions.length ? null : (
+          <div className="text-xs text-gray-500">No changes yet.</div>
+        )}
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {history.versions.map((version: MapVersionItem) => (
+            <li
+              key={version.version}
+              className="flex items-center justify-between gap-x-2 text-sm"
+            >
+              <div className="truncate">
+                {userName(version.user)} changed{" "}
+                {pluralize("feature", version.features)}
+                <span className="text-xs text-gray-500">
+                  {" "}
+                  {formatDateAgo(now, version.createdAt)}
+                </span>
+              </div>
+              {actions(version.version)}
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-x-2">
+          {before === undefined ? null : (
+            <Button
+              type="button"
+              size="xs"
+              onClick={() => setBefore(undefined)}
+            >
+              Latest changes
+            </Button>
+          )}
+          {history.nextBefore === undefined ? null : (
+            <Button
+              type="button"
+              size="xs"
+              onClick={() => setBefore(history.nextBefore)}
+            >
+              Older changes
+            </Button>
+          )}
+        </div>
+      </div>
+      <TextWell>
+        Restoring saves the past version as a new change, so it can be undone by
+        restoring again.
+      </TextWell>
+    </div>
+  );
+}
+
+export function HistoryDialog() {
+  const rep = usePersistence();
+  const [meta] = rep.useMetadata();
+
+  return (
+    <>
+      <DialogHeader title="History" titleIcon={CounterClockwiseClockIcon} />
+      {meta.type === "persisted" ? (
+        <HistoryInner wrappedFeatureCollectionId={meta.id} />
+      ) : (
+        <TextWell>This map is a draft and doesn't have a history.</TextWell>
+      )}
+      <Close asChild>
+        <Button className="mt-4">Done</Button>
+      </Close>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import {
   XlsOptionsForm,
 } from "app/components/csv_options_form";
 import { SelectFileType } from "app/components/fields";
+import { SourceCrsForm } from "app/components/crs_form";
 import * as E from "app/components/elements";
 import * as C from "@radix-ui/react-collapsible";
 import { Formik, FormikHelpers, Form } from "formik";
@@ -107,6 +108,7 @@ export function ImportFileGroup({
             <SelectFileType />
             <CoordinateStringOptionsForm />
             <CsvOptionsForm file={file} geocoder />
+            <SourceCrsForm />
             <GeoJSONOptionsForm />
             <XlsOptionsForm file={file} geocoder />
           </div>
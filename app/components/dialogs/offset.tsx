@@ -0,0 +1,174 @@
+import { ColumnSpacingIcon } from "@radix-ui/react-icons";
+import { DialogHeader } from "app/components/dialog";
+import { Field, Form, Formik } from "formik";
+import type { DialogStateOffset } from "state/dialog_state";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import {
+  FieldCheckbox,
+  StyledField,
+  StyledLabelSpan,
+  styledSelect,
+  TextWell,
+} from "app/components/elements";
+import { UnitOptionsGroups } from "app/components/unit_select";
+import { GROUPED_UNIT_OPTIONS } from "app/lib/constants";
+import { usePersistence } from "app/lib/persistence/context";
+import { useUpdateMaybeUser } from "app/hooks/update_user";
+import { lib } from "app/lib/worker";
+import { newFeatureId } from "app/lib/id";
+import { JOIN_STYLES } from "app/lib/offset";
+import type { OffsetOptions } from "app/lib/offset";
+import { useSetAtom } from "jotai";
+import { selectionAtom } from "state/jotai";
+import { USelection } from "state";
+import type { IWrappedFeatureInput } from "types";
+import toast from "react-hot-toast";
+import * as Sentry from "@sentry/nextjs";
+
+type OffsetFormValues = OffsetOptions & {
+  bothSides: boolean;
+};
+
+export function OffsetDialog({
+  modal,
+  onClose,
+}: {
+  modal: DialogStateOffset;
+  onClose: () => void;
+}) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const setSelection = useSetAtom(selectionAtom);
+  const { user } = useUpdateMaybeUser();
+  const { features } = modal;
+
+  const onSubmit = async ({ bothSides, ...options }: OffsetFormValues) => {
+    const distances = bothSides
+      ? [options.distance, -options.distance]
+      : [options.distance];
+
+    const work = Promise.all(
+      features.flatMap((wrappedFeature) =>
+        distances.map((distance) =>
+          lib
+            .offsetFeature(wrappedFeature.feature, { ...options, distance })
+            .then((feature): IWrappedFeatureInput | null =>
+              feature
+                ? {
+                    id: newFeatureId(),
+                    folderId: wrappedFeature.folderId,
+                    feature,
+                  }
+                : null
+            )
+        )
+      )
+    ).then((results) => {
+      const putFeatures = results.filter(
+        (result): result is IWrappedFeatureInput => !!result
+      );
+      if (!putFeatures.length) {
+        return Promise.reject("There were no lines to offset");
+      }
+      return transact({
+        note: "Offset lines",
+        track: [
+          "operation-offset",
+          {
+            join: options.join,
+            count: putFeatures.length,
+          },
+        ],
+        putFeatures,
+      }).then(() => {
+        setSelection(USelection.fromIds(putFeatures.map((f) => f.id)));
+      });
+    });
+
+    await toast
+      .promise(
+        work,
+        {
+          loading: "Offsetting lines",
+          success: "Done",
+          error: (message: string) => message || "Failed to offset lines",
+        },
+        {
+          loading: { duration: Infinity },
+          success: { duration: 2000 },
+          error: { duration: 4000 },
+        }
+      )
+      .catch((e) => Sentry.captureException(e));
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader title="Offset lines" titleIcon={ColumnSpacingIcon} />
+      <Formik<OffsetFormValues>
+        onSubmit={onSubmit}
+        initialValues={{
+          distance: 1,
+          units: user.lengthUnits,
+          join: "round",
+          bothSides: false,
+        }}
+      >
+        <Form className="space-y-4">
+          <div className="grid grid-cols-3 gap-x-2">
+            <label className="block">
+              <div>
+                <StyledLabelSpan>Distance</StyledLabelSpan>
+              </div>
+              <StyledField
+                name="distance"
+                className="w-full"
+                type="number"
+                step="any"
+              />
+            </label>
+            <label className="block">
+              <div>
+                <StyledLabelSpan>Units</StyledLabelSpan>
+              </div>
+              <Field
+                as="select"
+                name="units"
+                className={styledSelect({ size: "sm" }) + " w-full"}
+              >
+                <UnitOptionsGroups groups={GROUPED_UNIT_OPTIONS.length} />
+              </Field>
+            </label>
+            <label className="block">
+              <div>
+                <StyledLabelSpan>Corners</StyledLabelSpan>
+              </div>
+              <Field
+                as="select"
+                name="join"
+                className={styledSelect({ size: "sm" }) + " w-full"}
+              >
+                {JOIN_STYLES.map((join) => (
+                  <option key={join} value={join}>
+                    {join}
+                  </option>
+                ))}
+              </Field>
+            </label>
+          </div>
+          <label className="flex items-center gap-x-2">
+            <FieldCheckbox type="checkbox" name="bothSides" />
+            <StyledLabelSpan>Both sides</StyledLabelSpan>
+          </label>
+          <TextWell>
+            Positive distances are to the left of lines, in the direction they
+            were drawn, and outside of polygons. New lines are added to the same
+            folder as the original features.
+          </TextWell>
+          <SimpleDialogActions onClose={onClose} action="Offset" />
+        </Form>
+      </Formik>
+    </>
+  );
+}
@@ -0,0 +1,353 @@
+import { Link2Icon } from "@radix-ui/react-icons";
+import { invoke, useQuery } from "@blitzjs/rpc";
+import { DialogHeader } from "app/components/dialog";
+import { ErrorMessage, Field, Form, Formik } from "formik";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import {
+  StyledField,
+  StyledLabelSpan,
+  styledRadio,
+  styledSelect,
+  TextWell,
+} from "app/components/elements";
+import { InlineError } from "app/components/inline_error";
+import { usePersistence } from "app/lib/persistence/context";
+import { useAtomValue } from "jotai";
+import { dataAtom } from "state/jotai";
+import { lib } from "app/lib/worker";
+import { getFoldersInTree } from "app/lib/folder";
+import {
+  JOIN_AGGREGATES,
+  SPATIAL_PREDICATES,
+} from "app/lib/map_operations/spatial_join";
+import type {
+  JoinAggregate,
+  SpatialJoinOptions,
+  SpatialPredicate,
+} from "app/lib/map_operations/spatial_join";
+import type { FeatureMap, FolderMap, IWrappedFeature } from "types";
+import getWrappedFeatureCollections from "app/wrappedFeatureCollections/queries/getWrappedFeatureCollections";
+import getWrappedFeatureCollectionFeatures from "app/wrappedFeatureCollections/queries/getWrappedFeatureCollectionFeatures";
+import toast from "react-hot-toast";
+import * as Sentry from "@sentry/nextjs";
+
+type SpatialJoinFormValues = {
+  /**
+   * A folder id, or an empty string for all features
+   */
+  target: string;
+  /**
+   * folder:id for a folder in this map, map:id for
+   * another map, or folder: for all features in this map.
+   */
+  join: string;
+  predicate: SpatialPredicate;
+  mode: SpatialJoinOptions["mode"];
+  operation: JoinAggregate;
+  properties: string;
+  prefix: string;
+};
+
+type OtherMap = { id: string; name: string };
+
+function getFolderFeatures(
+  featureMap: FeatureMap,
+  folderMap: FolderMap,
+  folderId: string
+): IWrappedFeature[] {
+  const features = Array.from(featureMap.values());
+  if (!folderId) return features;
+  const folders = getFoldersInTree(folderMap, folderId);
+  return features.filter(
+    (feature) => feature.folderId && folders.has(feature.folderId)
+  );
+}
+
+async function getMapFeatures(id: string) {
+  let features: IWrappedFeature[] = [];
+  let cursor: string | undefined = undefined;
+  do {
+    const data = await invoke(getWrappedFeatureCollectionFeatures, {
+      id,
+      cursor,
+    });
+    features = features.concat(data.items);
+    cursor = data.cursor as string | undefined;
+  } while (cursor);
+  return features;
+}
+
+function parseProperties(properties: string) {
+  return properties
+    .split(",")
+    .map((property) => property.trim())
+    .filter(Boolean);
+}
+
+function validate(values: SpatialJoinFormValues) {
+  if (
+    values.mode === "aggregate" &&
+    values.operation !== "count" &&
+    !parseProperties(values.properties).length
+  ) {
+    return {
+      properties: "Choose at least one property to summarize",
+    };
+  }
+  return {};
+}
+
+function OtherMapsLoader({
+  onClose,
+  currentId,
+}: {
+  onClose: () => void;
+  currentId: string;
+}) {
+  const [maps] = useQuery(getWrappedFeatureCollections, null);
+  return (
+    <SpatialJoinForm
+      onClose={onClose}
+      otherMaps={maps.filter((map: OtherMap) => map.id !== currentId)}
+    />
+  );
+}
+
+export function SpatialJoinDialog({ onClose }: { onClose: () => void }) {
+  const rep = usePersistence();
+  const [meta] = rep.useMetadata();
+
+  return (
+    <>
+      <DialogHeader title="Spatial join" titleIcon={Link2Icon} />
+      {meta.type === "persisted" ? (
+        <OtherMapsLoader onClose={onClose} currentId={meta.id} />
+      ) : (
+        <SpatialJoinForm onClose={onClose} otherMaps={[]} />
+      )}
+    </>
+  );
+}
+
+function SpatialJoinForm({
+  onClose,
+  otherMaps,
+}: {
+  onClose: () => void;
+  otherMaps: OtherMap[];
+}) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const { featureMap, folderMap } = useAtomValue(dataAtom);
+  const folders = Array.from(folderMap.values());
+
+  const onSubmit = async (values: SpatialJoinFormValues) => {
+    const targets = getFolderFeatures(featureMap, folderMap, values.target);
+    const options: SpatialJoinOptions =
+      values.mode === "copy"
+        ? { predicate: values.predicate, prefix: values.prefix, mode: "copy" }
+        : {
+            predicate: values.predicate,
+            prefix: values.prefix,
+            mode: "aggregate",
+            operation: values.operation,
+            properties: parseProperties(values.properties),
+          };
+
+    const work = (
+      values.join.startsWith("map:")
+        ? getMapFeatures(values.join.slice("map:".length))
+        : Promise.resolve(
+            getFolderFeatures(
+              featureMap,
+              folderMap,
+              values.join.slice("folder:".length)
+            )
+          )
+    )
+      .then((joins) =>
+        lib.spatialJoin(
+          targets.map((f) => f.feature),
+          joins.map((f) => f.feature),
+          options
+        )
+      )
+      .then((res) =>
+        res.caseOf({
+          Left(error) {
+            return Promise.reject(error.message);
+          },
+          Right(features) {
+            return transact({
+              note: "Joined features",
+              track: [
+                "operation-spatial-join",
+                {
+                  predicate: options.predicate,
+                  mode: options.mode,
+                  count: features.length,
+                },
+              ],
+              putFeatures: features.map((feature, i) => ({
+                ...targets[i],
+                feature,
+              })),
+            });
+          },
+        })
+      );
+
+    await toast
+      .promise(
+        work,
+        {
+          loading: "Joining features",
+          success: "Done",
+          error: (message: string) => message || "Failed to join features",
+        },
+        {
+          loading: { duration: Infinity },
+          success: { duration: 2000 },
+          error: { duration: 4000 },
+        }
+      )
+      .catch((e) => Sentry.captureException(e));
+    onClose();
+  };
+
+  return (
+    <Formik<SpatialJoinFormValues>
+      onSubmit={onSubmit}
+      validate={validate}
+      initialValues={{
+        target: "",
+        join: folders.length ? `folder:${folders[0].id}` : "folder:",
+        predicate: "within",
+        mode: "copy",
+        operation: "count",
+        properties: "",
+        prefix: "join_",
+      }}
+    >
+      {({ values }) => (
+        <Form className="space-y-4">
+          <div className="grid grid-cols-2 gap-x-2">
+            <label className="block">
+              <StyledLabelSpan>Add properties to</StyledLabelSpan>
+              <Field
+                as="select"
+                name="target"
+                className={styledSelect({ size: "sm" }) + " w-full"}
+              >
+                <option value="">All features</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    {folder.name}
+                  </option>
+                ))}
+              </Field>
+            </label>
+            <label className="block">
+              <StyledLabelSpan>From</StyledLabelSpan>
+              <Field
+                as="select"
+                name="join"
+                className={styledSelect({ size: "sm" }) + " w-full"}
+              >
+                <optgroup label="This map">
+                  <option value="folder:">All features</option>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={`folder:${folder.id}`}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </optgroup>
+                {otherMaps.length ? (
+                  <optgroup label="Other maps">
+                    {otherMaps.map((map) => (
+                      <option key={map.id} value={`map:${map.id}`}>
+                        {map.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
+              </Field>
+            </label>
+          </div>
+          <label className="block">
+            <StyledLabelSpan>Where each feature</StyledLabelSpan>
+            <Field
+              as="select"
+              name="predicate"
+              className={styledSelect({ size: "sm" }) + " w-full"}
+            >
+              {SPATIAL_PREDICATES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Field>
+          </label>
+          <div className="flex items-center gap-x-4">
+            <label className="flex items-center gap-x-1">
+              <Field
+                className={styledRadio}
+                type="radio"
+                name="mode"
+                value="copy"
+              />
+              <StyledLabelSpan>Copy properties</StyledLabelSpan>
+            </label>
+            <label className="flex items-center gap-x-1">
+              <Field
+                className={styledRadio}
+                type="radio"
+                name="mode"
+                value="aggregate"
+              />
+              <StyledLabelSpan>Summarize matches</StyledLabelSpan>
+            </label>
+          </div>
+          {values.mode === "aggregate" ? (
+            <div className="grid grid-cols-3 gap-x-2">
+              <label className="block">
+                <StyledLabelSpan>Summary</StyledLabelSpan>
+                <Field
+                  as="select"
+                  name="operation"
+                  className={styledSelect({ size: "sm" }) + " w-full"}
+                >
+                  {JOIN_AGGREGATES.map((operation) => (
+                    <option key={operation} value={operation}>
+                      {operation}
+                    </option>
+                  ))}
+                </Field>
+              </label>
+              <label className="block col-span-2">
+                <StyledLabelSpan>Properties</StyledLabelSpan>
+                <StyledField
+                  name="properties"
+                  className="w-full"
+                  placeholder="population, area"
+                  disabled={values.operation === "count"}
+                />
+                <ErrorMessage name="properties" component={InlineError} />
+              </label>
+            </div>
+          ) : null}
+          <label className="block">
+            <StyledLabelSpan>Prefix for new properties</StyledLabelSpan>
+            <StyledField name="prefix" className="w-full" />
+          </label>
+          <TextWell>
+            {values.mode === "copy"
+              ? "Each feature gets the properties of the first feature that matches it."
+              : "Each feature gets a summary of the properties of every feature that matches it."}
+          </TextWell>
+          <SimpleDialogActions onClose={onClose} action="Join" />
+        </Form>
+      )}
+    </Formik>
+  );
+}
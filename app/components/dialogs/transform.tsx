@@ -0,0 +1,336 @@
+import { TransformIcon } from "@radix-ui/react-icons";
+import { DialogHeader } from "app/components/dialog";
+import { ErrorMessage, Field, Form, Formik, useFormikContext } from "formik";
+import type { DialogStateTransform } from "state/dialog_state";
+import SimpleDialogActions from "app/components/dialogs/simple_dialog_actions";
+import {
+  StyledField,
+  StyledLabelSpan,
+  styledRadio,
+  styledSelect,
+  TextWell,
+} from "app/components/elements";
+import { InlineError } from "app/components/inline_error";
+import { UnitOptionsGroups } from "app/components/unit_select";
+import { GROUPED_UNIT_OPTIONS } from "app/lib/constants";
+import { usePersistence } from "app/lib/persistence/context";
+import { useUpdateMaybeUser } from "app/hooks/update_user";
+import {
+  getTransformCenter,
+  transformFeatures,
+} from "app/lib/map_operations/transform_features";
+import type { TransformOptions } from "app/lib/map_operations/transform_features";
+import { useSetAtom } from "jotai";
+import { ephemeralStateAtom } from "state/jotai";
+import { pluralize } from "app/lib/utils";
+import type { Units } from "@turf/helpers";
+import { useEffect } from "react";
+
+type TransformFormValues = {
+  type: TransformOptions["type"];
+  distance: number;
+  bearing: number;
+  units: Units;
+  dx: number;
+  dy: number;
+  angle: number;
+  factor: number;
+  origin: "center" | "point";
+  longitude: number;
+  latitude: number;
+};
+
+const TYPE_NAMES: Record<TransformFormValues["type"], string> = {
+  translate: "Move by distance and bearing",
+  offset: "Move east and north",
+  rotate: "Rotate",
+  scale: "Scale",
+};
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Turn the form into transform options, or null
+ * if some of the numbers aren't filled in yet.
+ */
+function getOptions(values: TransformFormValues): TransformOptions | null {
+  const origin: Pos2 | null =
+    values.origin === "point" ? [values.longitude, values.latitude] : null;
+  if (origin && !origin.every(isNumber)) return null;
+
+  switch (values.type) {
+    case "translate": {
+      const { distance, bearing, units } = values;
+      if (!isNumber(distance) || !isNumber(bearing)) return null;
+      return { type: "translate", distance, bearing, units };
+    }
+    case "offset": {
+      const { dx, dy } = values;
+      if (!isNumber(dx) || !isNumber(dy)) return null;
+      return { type: "offset", dx, dy };
+    }
+    case "rotate": {
+      const { angle } = values;
+      if (!isNumber(angle)) return null;
+      return { type: "rotate", angle, origin };
+    }
+    case "scale": {
+      const { factor } = values;
+      if (!isNumber(factor) || factor <= 0) return null;
+      return { type: "scale", factor, origin };
+    }
+  }
+}
+
+function validate(values: TransformFormValues) {
+  if (values.type === "scale" && !(values.factor > 0)) {
+    return { factor: "The factor should be more than zero" };
+  }
+  if (!getOptions(values)) {
+    return { type: "Fill in every number" };
+  }
+  return {};
+}
+
+/**
+ * Show the transformed features on the map
+ * while the numbers are being edited.
+ */
+function TransformPreview({ features }: DialogStateTransform) {
+  const { values } = useFormikContext<TransformFormValues>();
+  const setEphemeralState = useSetAtom(ephemeralStateAtom);
+
+  useEffect(() => {
+    const options = getOptions(values);
+    setEphemeralState(
+      options
+        ? {
+            type: "transform",
+            features: transformFeatures(features, options).map(
+              (f) => f.feature
+            ),
+          }
+        : { type: "none" }
+    );
+  }, [features, values, setEphemeralState]);
+
+  useEffect(() => {
+    return () => setEphemeralState({ type: "none" });
+  }, [setEphemeralState]);
+
+  return null;
+}
+
+function OriginFields() {
+  const { values } = useFormikContext<TransformFormValues>();
+  return (
+    <>
+      <div className="flex items-center gap-x-4">
+        <label className="flex items-center gap-x-1">
+          <Field
+            className={styledRadio}
+            type="radio"
+            name="origin"
+            value="center"
+          />
+          <StyledLabelSpan>Around the centroid</StyledLabelSpan>
+        </label>
+        <label className="flex items-center gap-x-1">
+          <Field
+            className={styledRadio}
+            type="radio"
+            name="origin"
+            value="point"
+          />
+          <StyledLabelSpan>Around a point</StyledLabelSpan>
+        </label>
+      </div>
+      {values.origin === "point" ? (
+        <div className="grid grid-cols-2 gap-x-2">
+          <label className="block">
+            <StyledLabelSpan>Longitude</StyledLabelSpan>
+            <StyledField
+              name="longitude"
+              className="w-full"
+              type="number"
+              step="any"
+            />
+          </label>
+          <label className="block">
+            <StyledLabelSpan>Latitude</StyledLabelSpan>
+            <StyledField
+              name="latitude"
+              className="w-full"
+              type="number"
+              step="any"
+            />
+          </label>
+        </div>
+      ) : null}
+    </>
+  );
+}
+
+export function TransformDialog({
+  modal,
+  onClose,
+}: {
+  modal: DialogStateTransform;
+  onClose: () => void;
+}) {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const { user } = useUpdateMaybeUser();
+  const { features, position } = modal;
+  const origin = position || getTransformCenter(features) || [0, 0];
+
+  const onSubmit = async (values: TransformFormValues) => {
+    const options = getOptions(values);
+    if (!options) return;
+    await transact({
+      note: "Transformed features",
+      track: [
+        "operation-transform",
+        {
+          type: options.type,
+          count: features.length,
+        },
+      ],
+      putFeatures: transformFeatures(features, options),
+    });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader title="Transform" titleIcon={TransformIcon} />
+      <Formik<TransformFormValues>
+        onSubmit={onSubmit}
+        validate={validate}
+        initialValues={{
+          type: position ? "rotate" : "translate",
+          distance: 0,
+          bearing: 0,
+          units: user.lengthUnits,
+          dx: 0,
+          dy: 0,
+          angle: 0,
+          factor: 1,
+          origin: position ? "point" : "center",
+          longitude: origin[0],
+          latitude: origin[1],
+        }}
+      >
+        {({ values }) => (
+          <Form className="space-y-4">
+            <TransformPreview {...modal} />
+            <div>Transforming {pluralize("feature", features.length)}.</div>
+            <label className="block">
+              <StyledLabelSpan>Transform</StyledLabelSpan>
+              <Field
+                as="select"
+                name="type"
+                className={styledSelect({ size: "sm" }) + " w-full"}
+              >
+                {Object.entries(TYPE_NAMES).map(([type, name]) => (
+                  <option key={type} value={type}>
+                    {name}
+                  </option>
+                ))}
+              </Field>
+            </label>
+            {values.type === "translate" ? (
+              <div className="grid grid-cols-3 gap-x-2">
+                <label className="block">
+                  <StyledLabelSpan>Distance</StyledLabelSpan>
+                  <StyledField
+                    name="distance"
+                    className="w-full"
+                    type="number"
+                    step="any"
+                  />
+                </label>
+                <label className="block">
+                  <StyledLabelSpan>Units</StyledLabelSpan>
+                  <Field
+                    as="select"
+                    name="units"
+                    className={styledSelect({ size: "sm" }) + " w-full"}
+                  >
+                    <UnitOptionsGroups groups={GROUPED_UNIT_OPTIONS.length} />
+                  </Field>
+                </label>
+                <label className="block">
+                  <StyledLabelSpan>Bearing (°)</StyledLabelSpan>
+                  <StyledField
+                    name="bearing"
+                    className="w-full"
+                    type="number"
+                    step="any"
+                  />
+                </label>
+              </div>
+            ) : values.type === "offset" ? (
+              <div className="grid grid-cols-2 gap-x-2">
+                <label className="block">
+                  <StyledLabelSpan>East (meters)</StyledLabelSpan>
+                  <StyledField
+                    name="dx"
+                    className="w-full"
+                    type="number"
+                    step="any"
+                  />
+                </label>
+                <label className="block">
+                  <StyledLabelSpan>North (meters)</StyledLabelSpan>
+                  <StyledField
+                    name="dy"
+                    className="w-full"
+                    type="number"
+                    step="any"
+                  />
+                </label>
+              </div>
+            ) : values.type === "rotate" ? (
+              <>
+                <label className="block">
+                  <StyledLabelSpan>Angle (° clockwise)</StyledLabelSpan>
+                  <StyledField
+                    name="angle"
+                    className="w-full"
+                    type="number"
+                    step="any"
+                  />
+                </label>
+                <OriginFields />
+              </>
+            ) : (
+              <>
+                <label className="block">
+                  <StyledLabelSpan>Factor</StyledLabelSpan>
+                  <StyledField
+                    name="factor"
+                    className="w-full"
+                    type="number"
+                    min="0"
+                    step="any"
+                  />
+                  <ErrorMessage name="factor" component={InlineError} />
+                </label>
+                <OriginFields />
+              </>
+            )}
+            <ErrorMessage name="type" component={InlineError} />
+            <TextWell>
+              The preview on the map shows the result, which is only saved once
+              you apply it.
+            </TextWell>
+            <SimpleDialogActions onClose={onClose} action="Apply" />
+          </Form>
+        )}
+      </Formik>
+    </>
+  );
+}
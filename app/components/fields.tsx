@@ -1,4 +1,4 @@
-import { FILE_TYPES } from "app/lib/convert";
+import { EXPORT_ONLY_TYPES, FILE_TYPES } from "app/lib/convert";
 import { Field, ErrorMessage } from "formik";
 import { InlineError } from "./inline_error";
 import { QuestionMarkCircledIcon } from "@radix-ui/react-icons";
@@ -18,6 +18,7 @@ export function SelectFileTypeField({
 } & SelectFileTypeProps) {
   const applicableTypes = FILE_TYPES.filter((type) => {
     if (exportable && !("back" in type)) return false;
+    if (!exportable && EXPORT_ONLY_TYPES.has(type.id)) return false;
     if (textOnly) {
       return "forwardString" in type;
     }
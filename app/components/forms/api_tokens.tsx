@@ -0,0 +1,248 @@
+import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
+import { useSession } from "@blitzjs/auth";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Field } from "formik";
+import { CopyIcon } from "@radix-ui/react-icons";
+import createApiToken from "app/apiTokens/mutations/createApiToken";
+import deleteApiToken from "app/apiTokens/mutations/deleteApiToken";
+import getApiTokens from "app/apiTokens/queries/getApiTokens";
+import type { ApiTokenListItem } from "app/apiTokens/queries/getApiTokens";
+import {
+  API_TOKEN_EXPIRATIONS,
+  API_TOKEN_SCOPES,
+  CreateApiTokenForm,
+} from "app/apiTokens/validations";
+import type { ApiTokenScope } from "app/apiTokens/validations";
+import { Form, FORM_ERROR } from "app/core/components/Form";
+import { LabeledTextField } from "app/core/components/LabeledTextField";
+import {
+  Button,
+  H2,
+  Input,
+  StyledLabelSpan,
+  styledCheckbox,
+  styledSelect,
+  Table,
+  TableHead,
+  Tbody,
+  Td,
+  TextWell,
+  Th,
+} from "app/components/elements";
+import { formatDateAgo, writeToClipboard } from "app/lib/utils";
+
+const SCOPE_NAMES: Record<ApiTokenScope, string> = {
+  READ: "Read",
+  WRITE: "Write",
+};
+
+function ApiTokenRow({ apiToken }: { apiToken: ApiTokenListItem }) {
+  const [deleteApiTokenMutation] = useMutation(deleteApiToken);
+  const session = useSession();
+  const canRevoke =
+    apiToken.userId !== null || !!session.roles?.includes("OWNER");
+  const now = new Date();
+
+  return (
+    <tr>
+      <Td first>
+        <div>{apiToken.name}</div>
+        <div className="font-mono text-xs text-gray-500">
+          {apiToken.prefix}…
+        </div>
+      </Td>
+      <Td>{apiToken.userId === null ? "Organization" : "Personal"}</Td>
+      <Td>
+        {apiToken.scopes
+          .map((scope: ApiTokenScope) => SCOPE_NAMES[scope])
+          .join(", ")}
+      </Td>
+      <Td>
+        {apiToken.expiresAt
+          ? apiToken.expiresAt < now
+            ? "Expired"
+            : formatDateAgo(now, apiToken.expiresAt)
+          : "Never"}
+      </Td>
+      <Td>
+        {apiToken.lastUsedAt
+          ? formatDateAgo(now, apiToken.lastUsedAt)
+          : "Never used"}
+      </Td>
+      <Td>
+        {canRevoke ? (
+          <Button
+            type="button"
+            size="xs"
+            onClick={async () => {
+              if (
+                !confirm(
+                  "Are you sure you want to revoke this token? Anything using it will stop working."
+                )
+              ) {
+                return;
+              }
+              await deleteApiTokenMutation({ id: apiToken.id });
+              toast.success("Revoked token");
+              await invalidateQuery(getApiTokens, null);
+            }}
+          >
+            Revoke
+          </Button>
+        ) : null}
+      </Td>
+    </tr>
+  );
+}
+
+function NewApiToken({ token }: { token: string }) {
+  return (
+    <TextWell>
+      <div className="space-y-2">
+        <div>
+          Copy this token now: it won’t be shown again. Send it in the{" "}
+          <code>Authorization</code> header as <code>Bearer {"<token>"}</code>.
+        </div>
+        <div className="flex items-center gap-x-2">
+          <Input readOnly value={token} className="font-mono" />
+          <Button
+            type="button"
+            onClick={() => {
+              void toast.promise(writeToClipboard(token), {
+                loading: "Copying…",
+                success: "Copied",
+                error: "Failed to copy. Try again?",
+              });
+            }}
+          >
+            <CopyIcon /> Copy
+          </Button>
+        </div>
+      </div>
+    </TextWell>
+  );
+}
+
+function ApiTokenCreateForm({
+  onCreate,
+}: {
+  onCreate: (token: string) => void;
+}) {
+  const [createApiTokenMutation] = useMutation(createApiToken);
+  const session = useSession();
+
+  return (
+    <Form
+      submitText="Create token"
+      schema={CreateApiTokenForm}
+      initialValues={{
+        name: "",
+        scopes: ["READ"],
+        expiresInDays: "90",
+        organization: false,
+      }}
+      onSubmit={async (values, helpers) => {
+        try {
+          const { token } = await createApiTokenMutation({
+            ...values,
+            expiresInDays: values.expiresInDays
+              ? Number(values.expiresInDays)
+              : null,
+          });
+          await invalidateQuery(getApiTokens, null);
+          helpers.resetForm();
+          onCreate(token);
+        } catch (error: any) {
+          return { [FORM_ERROR]: (error as Error).toString() };
+        }
+      }}
+    >
+      <LabeledTextField name="name" label="Name" type="text" />
+      <div>
+        <StyledLabelSpan>Scopes</StyledLabelSpan>
+        <div className="flex items-center gap-x-4 pt-1">
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-x-2">
+              <Field
+                type="checkbox"
+                name="scopes"
+                value={scope}
+                className={styledCheckbox({ variant: "default" })}
+              />
+              <StyledLabelSpan>{SCOPE_NAMES[scope]}</StyledLabelSpan>
+            </label>
+          ))}
+        </div>
+      </div>
+      <label className="block">
+        <StyledLabelSpan>Expires</StyledLabelSpan>
+        <Field
+          as="select"
+          name="expiresInDays"
+          className={styledSelect({ size: "sm" }) + " w-full"}
+        >
+          {API_TOKEN_EXPIRATIONS.map((days) => (
+            <option key={String(days)} value={days === null ? "" : days}>
+              {days === null ? "Never" : `In ${days} days`}
+            </option>
+          ))}
+        </Field>
+      </label>
+      {session.roles?.includes("OWNER") ? (
+        <label className="flex items-center gap-x-2">
+          <Field
+            type="checkbox"
+            name="organization"
+            className={styledCheckbox({ variant: "default" })}
+          />
+          <StyledLabelSpan>
+            Organization token, which keeps working if you leave
+          </StyledLabelSpan>
+        </label>
+      ) : null}
+    </Form>
+  );
+}
+
+export default function ApiTokens() {
+  const [apiTokens] = useQuery(getApiTokens, null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-10">
+      <div>
+        <H2>API tokens</H2>
+        <div className="pt-2">
+          Tokens let scripts and dashboards read private maps in this
+          organization through the API. Tokens with the write scope can also
+          add, change, and delete features.
+        </div>
+        {apiTokens.length ? (
+          <div className="mt-6 flex flex-col">
+            <Table>
+              <TableHead>
+                <Th first>Name</Th>
+                <Th>Type</Th>
+                <Th>Scopes</Th>
+                <Th>Expires</Th>
+                <Th>Last used</Th>
+                <Th />
+              </TableHead>
+              <Tbody>
+                {apiTokens.map((apiToken: ApiTokenListItem) => (
+                  <ApiTokenRow key={apiToken.id} apiToken={apiToken} />
+                ))}
+              </Tbody>
+            </Table>
+          </div>
+        ) : null}
+      </div>
+      <div className="space-y-4">
+        <H2>Create a token</H2>
+        {newToken ? <NewApiToken token={newToken} /> : null}
+        <ApiTokenCreateForm onCreate={setNewToken} />
+      </div>
+    </div>
+  );
+}
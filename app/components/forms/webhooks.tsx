@@ -0,0 +1,165 @@
+import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
+import { toast } from "react-hot-toast";
+import { ErrorMessage } from "formik";
+import createWebhook from "app/webhooks/mutations/createWebhook";
+import deleteWebhook from "app/webhooks/mutations/deleteWebhook";
+import getWebhooks from "app/webhooks/queries/getWebhooks";
+import type { WebhookListItem } from "app/webhooks/queries/getWebhooks";
+import { CreateWebhook } from "app/webhooks/validations";
+import type { WebhookDeliveryStatus } from "app/webhooks/validations";
+import { Form, FORM_ERROR } from "app/core/components/Form";
+import { InlineError } from "app/components/inline_error";
+import {
+  Button,
+  CopiableURL,
+  Hint,
+  StyledField,
+  StyledLabelSpan,
+} from "app/components/elements";
+import { formatDateAgo } from "app/lib/utils";
+
+type WebhookDeliveryItem = WebhookListItem["deliveries"][0];
+
+const STATUS_NAMES: Record<WebhookDeliveryStatus, string> = {
+  PENDING: "Retrying",
+  SUCCEEDED: "Delivered",
+  FAILED: "Failed",
+};
+
+function WebhookDeliveries({ webhook }: { webhook: WebhookListItem }) {
+  if (!webhook.deliveries.length) {
+    return <div className="text-xs text-gray-500">No deliveries yet.</div>;
+  }
+  const now = new Date();
+  return (
+    <ul className="text-xs space-y-1">
+      {webhook.deliveries.map((delivery: WebhookDeliveryItem) => (
+        <li key={delivery.id} className="flex gap-x-2">
+          <span
+            className={
+              delivery.status === "FAILED"
+                ? "text-red-700 dark:text-red-300"
+                : ""
+            }
+          >
+            {STATUS_NAMES[delivery.status as WebhookDeliveryStatus]}
+          </span>
+          <span className="text-gray-500">
+            {formatDateAgo(now, delivery.createdAt)}
+          </span>
+          <span className="text-gray-500">
+            {delivery.attempts === 1
+              ? "1 attempt"
+              : `${delivery.attempts} attempts`}
+          </span>
+          {delivery.error ? (
+            <span className="truncate text-gray-500" title={delivery.error}>
+              {delivery.error}
+            </span>
+          ) : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function WebhookRow({
+  webhook,
+  wrappedFeatureCollectionId,
+}: {
+  webhook: WebhookListItem;
+  wrappedFeatureCollectionId: string;
+}) {
+  const [deleteWebhookMutation] = useMutation(deleteWebhook);
+
+  return (
+    <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-2">
+      <div className="flex items-center justify-between gap-x-2">
+        <div className="truncate font-mono text-sm">{webhook.url}</div>
+        <Button
+          type="button"
+          size="xs"
+          onClick={async () => {
+            if (!confirm("Are you sure you want to delete this webhook?")) {
+              return;
+            }
+            await deleteWebhookMutation({ id: webhook.id });
+            toast.success("Deleted webhook");
+            await invalidateQuery(getWebhooks, { wrappedFeatureCollectionId });
+          }}
+        >
+          Delete
+        </Button>
+      </div>
+      <label className="block">
+        <StyledLabelSpan>
+          Signing secret
+          <span className="inline-block w-2" />
+          <Hint>
+            Requests have a Placemark-Signature header with a timestamp and an
+            HMAC-SHA256 of the timestamp, a period, and the body.
+          </Hint>
+        </StyledLabelSpan>
+        <CopiableURL url={webhook.secret} />
+      </label>
+      <WebhookDeliveries webhook={webhook} />
+    </div>
+  );
+}
+
+/**
+ * Webhooks are sent the ids of features that were
+ * added, changed, or deleted after each change to a map.
+ */
+export default function Webhooks({
+  wrappedFeatureCollectionId,
+}: {
+  wrappedFeatureCollectionId: string;
+}) {
+  const [webhooks] = useQuery(getWebhooks, { wrappedFeatureCollectionId });
+  const [createWebhookMutation] = useMutation(createWebhook);
+
+  return (
+    <div className="space-y-2">
+      <StyledLabelSpan>
+        Webhooks
+        <span className="inline-block w-2" />
+        <Hint>
+          URLs that are sent a POST request with the ids of added, changed, and
+          deleted features whenever this map changes.
+        </Hint>
+      </StyledLabelSpan>
+      {webhooks.map((webhook: WebhookListItem) => (
+        <WebhookRow
+          key={webhook.id}
+          webhook={webhook}
+          wrappedFeatureCollectionId={wrappedFeatureCollectionId}
+        />
+      ))}
+      <Form
+        schema={CreateWebhook}
+        initialValues={{ wrappedFeatureCollectionId, url: "" }}
+        onSubmit={async (values, helpers) => {
+          try {
+            await createWebhookMutation(values);
+            await invalidateQuery(getWebhooks, { wrappedFeatureCollectionId });
+            helpers.resetForm();
+          } catch (error: any) {
+            return { [FORM_ERROR]: (error as Error).toString() };
+          }
+        }}
+      >
+        <ErrorMessage name="url" component={InlineError} />
+        <div className="flex gap-x-2">
+          <StyledField
+            name="url"
+            type="url"
+            placeholder="https://example.com/webhook"
+            className="w-full"
+          />
+          <Button type="submit">Add webhook</Button>
+        </div>
+      </Form>
+    </div>
+  );
+}
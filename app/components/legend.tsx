@@ -1,5 +1,9 @@
 import { usePersistence } from "app/lib/persistence/context";
-import type { ISymbolizationRamp, ISymbolizationCategorical } from "types";
+import type {
+  ISymbolizationRamp,
+  ISymbolizationCategorical,
+  ISymbolizationHeatmap,
+} from "types";
 import {
   Fragment,
   useContext,
@@ -84,6 +88,33 @@ function LegendRamp({ symbolization }: { symbolization: ISymbolizationRamp }) {
   );
 }
 
+function LegendHeatmap({
+  symbolization,
+}: {
+  symbolization: ISymbolizationHeatmap;
+}) {
+  return (
+    <>
+      <LegendTitle title={symbolization.weightProperty || "Density"} />
+      <div className="p-2">
+        <div
+          className="h-4 rounded dark:border dark:border-white"
+          style={{
+            background: linearGradient({
+              colors: symbolization.colors,
+              interpolate: "linear",
+            }),
+          }}
+        />
+        <div className="flex justify-between pt-1">
+          <div>Low</div>
+          <div>High</div>
+        </div>
+      </div>
+    </>
+  );
+}
+
 function LegendCategorical({
   symbolization,
 }: {
@@ -312,12 +343,16 @@ export function Legend() {
 
   const legend = match(symbolization)
     .with({ type: "none" }, () => null)
+    .with({ type: "cluster" }, () => null)
     .with({ type: "categorical" }, (symbolization) => (
       <LegendCategorical symbolization={symbolization} />
     ))
     .with({ type: "ramp" }, (symbolization) => (
       <LegendRamp symbolization={symbolization} />
     ))
+    .with({ type: "heatmap" }, (symbolization) => (
+      <LegendHeatmap symbolization={symbolization} />
+    ))
     .exhaustive();
 
   return (
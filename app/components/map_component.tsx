@@ -46,6 +46,7 @@ import { useAtomCallback } from "jotai/utils";
 import { usePresences } from "app/lib/persistence/shared";
 import { LastSearchResult } from "./last_search_result";
 import { ModeHints } from "./mode_hints";
+import { MeasurePanel } from "./measure_panel";
 import { fMoment } from "app/lib/persistence/moment";
 import { captureException } from "@sentry/nextjs";
 import { newFeatureId } from "app/lib/id";
@@ -458,7 +459,10 @@ export const MapComponent = memo(function MapComponent({
                   "placemark-cursor-point": mode.mode === Mode.DRAW_POINT,
                   "placemark-cursor-crosshair":
                     mode.mode === Mode.DRAW_RECTANGLE ||
-                    mode.mode === Mode.LASSO,
+                    mode.mode === Mode.LASSO ||
+                    mode.mode === Mode.DRAW_FREEHAND_LINE ||
+                    mode.mode === Mode.DRAW_FREEHAND_POLYGON ||
+                    mode.mode === Mode.MEASURE,
                 }
           )}
           ref={mapDivRef}
@@ -471,6 +475,7 @@ export const MapComponent = memo(function MapComponent({
       <MapContextMenu contextInfo={contextInfo} />
       <LastSearchResult />
       <ModeHints />
+      <MeasurePanel />
     </CM.Root>
   );
 });
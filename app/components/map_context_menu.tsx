@@ -8,6 +8,7 @@ import {
   CircleIcon,
   ClipboardCopyIcon,
   CommitIcon,
+  TransformIcon,
 } from "@radix-ui/react-icons";
 import type { ContextInfo } from "app/components/map_component";
 import type { IFeature, IWrappedFeature, LineString } from "types";
@@ -149,6 +150,18 @@ export const MapContextMenu = memo(function MapContextMenu({
                   Copy as GeoJSON
                   <ClipboardCopyIcon />
                 </CMItem>
+                <CMItem
+                  onSelect={() => {
+                    setDialogState({
+                      type: "transform",
+                      features: contextInfo.selectedFeatures,
+                      position: contextInfo.position,
+                    });
+                  }}
+                >
+                  Transform around here…
+                  <TransformIcon />
+                </CMItem>
               </CM.Sub>
             ) : null}
             <MaybeContinue contextInfo={contextInfo} />
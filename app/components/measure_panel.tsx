@@ -0,0 +1,105 @@
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import clsx from "clsx";
+import * as Sentry from "@sentry/nextjs";
+import { PlusIcon } from "@radix-ui/react-icons";
+import { USelection } from "state";
+import { ephemeralStateAtom, selectionAtom } from "state/jotai";
+import { Mode, modeAtom } from "state/mode";
+import { usePersistence } from "app/lib/persistence/context";
+import { useUpdateMaybeUser } from "app/hooks/update_user";
+import { measure, measurementToGeometry } from "app/lib/measure";
+import { newFeatureId } from "app/lib/id";
+import { Button, contentLike } from "./elements";
+
+function Value({
+  label,
+  value,
+  units,
+}: {
+  label: string;
+  value: number;
+  units: string;
+}) {
+  return (
+    <div className="flex justify-between gap-x-4">
+      <span className="text-gray-500 dark:text-gray-300">{label}</span>
+      <span className="font-mono tabular-nums">
+        {value.toFixed(3)} {units}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * The lengths and area of the measurement in progress,
+ * with the option to keep it as a feature.
+ */
+export function MeasurePanel() {
+  const [ephemeralState, setEphemeralState] = useAtom(ephemeralStateAtom);
+  const mode = useAtomValue(modeAtom);
+  const setMode = useSetAtom(modeAtom);
+  const [selection, setSelection] = useAtom(selectionAtom);
+  const { user } = useUpdateMaybeUser();
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+
+  if (
+    mode.mode !== Mode.MEASURE ||
+    ephemeralState.type !== "measure" ||
+    !ephemeralState.positions.length
+  ) {
+    return null;
+  }
+
+  const { lengthUnits, areaUnits } = user;
+  const { segment, total, area } = measure(ephemeralState, {
+    lengthUnits,
+    areaUnits,
+  });
+  const geometry = measurementToGeometry(ephemeralState);
+
+  return (
+    <div
+      className={clsx(
+        "z-0 absolute bottom-2 left-2 p-2 text-sm space-y-1 dark:text-white",
+        contentLike
+      )}
+    >
+      {segment !== null ? (
+        <Value label="Segment" value={segment} units={lengthUnits} />
+      ) : null}
+      <Value label="Total" value={total} units={lengthUnits} />
+      {area !== null ? (
+        <Value label="Area" value={area} units={`square ${areaUnits}`} />
+      ) : null}
+      {geometry && !ephemeralState.cursor ? (
+        <Button
+          type="button"
+          size="xs"
+          onClick={() => {
+            const id = newFeatureId();
+            transact({
+              note: "Saved a measurement",
+              putFeatures: [
+                {
+                  id,
+                  folderId: USelection.folderId(selection),
+                  feature: { type: "Feature", properties: {}, geometry },
+                },
+              ],
+            })
+              .then(() => {
+                setSelection(USelection.single(id));
+              })
+              .catch((e) => Sentry.captureException(e));
+            setEphemeralState({ type: "none" });
+            setMode({ mode: Mode.NONE });
+          }}
+        >
+          <PlusIcon />
+          Save as feature
+        </Button>
+      ) : null}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import React, { memo } from "react";
 import { toast } from "react-hot-toast";
 import { FileInfo } from "app/components/file_info";
 import {
+  CounterClockwiseClockIcon,
   EnvelopeClosedIcon,
   GitHubLogoIcon,
   KeyboardIcon,
@@ -272,6 +273,30 @@ function ShareInfo() {
   );
 }
 
+function HistoryInfo() {
+  const rep = usePersistence();
+  const [meta] = rep.useMetadata();
+  const setDialogState = useSetAtom(dialogAtom);
+
+  if (meta.type !== "persisted") {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="quiet"
+      title="Map history"
+      onClick={() => {
+        setDialogState({
+          type: "history",
+        });
+      }}
+    >
+      <CounterClockwiseClockIcon />
+    </Button>
+  );
+}
+
 export const MenuBarPlay = memo(function MenuBar() {
   return (
     <div className="flex justify-between h-12 pr-2 text-black dark:text-white">
@@ -317,6 +342,7 @@ export const MenuBar = memo(function MenuBar() {
         <WrappedFeatureCollectionInfo />
         <FileInfo />
         <ShareInfo />
+        <HistoryInfo />
         <GistInfo />
         <SyncingInfo />
       </div>
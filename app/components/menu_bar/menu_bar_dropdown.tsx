@@ -150,6 +150,29 @@ export function MenuBarDropdown() {
             >
               Export SVG
             </StyledItem>
+            <DD.Sub>
+              <DDSubTriggerItem>
+                Analysis
+                <div className="flex-auto" />
+                <CaretRightIcon />
+              </DDSubTriggerItem>
+              <DDSubContent>
+                <StyledItem
+                  onSelect={() => {
+                    setDialogState({ type: "spatial_join" });
+                  }}
+                >
+                  Spatial join…
+                </StyledItem>
+                <StyledItem
+                  onSelect={() => {
+                    setDialogState({ type: "generate" });
+                  }}
+                >
+                  Generate grid or Voronoi…
+                </StyledItem>
+              </DDSubContent>
+            </DD.Sub>
             {meta.type === "persisted" ? (
               <>
                 <DDSeparator />
@@ -113,6 +113,28 @@ export function ModeHints() {
         </ModeHint>
       );
     }
+    case Mode.DRAW_FREEHAND_LINE: {
+      return (
+        <ModeHint mode={mode.mode}>
+          Click and drag to draw a line freehand
+        </ModeHint>
+      );
+    }
+    case Mode.DRAW_FREEHAND_POLYGON: {
+      return (
+        <ModeHint mode={mode.mode}>
+          Click and drag to draw a polygon freehand
+        </ModeHint>
+      );
+    }
+    case Mode.MEASURE: {
+      return (
+        <ModeHint mode={mode.mode}>
+          Click to measure each segment. Click the starting point to measure an
+          area, or double-click to finish
+        </ModeHint>
+      );
+    }
     case Mode.DRAW_LINE: {
       return (
         <ModeHint mode={mode.mode}>
@@ -3,8 +3,11 @@ import {
   CheckIcon,
   CursorArrowIcon,
   DotFilledIcon,
+  Pencil1Icon,
+  Pencil2Icon,
   PlusIcon,
   QuestionMarkCircledIcon,
+  RulerHorizontalIcon,
   SquareIcon,
 } from "@radix-ui/react-icons";
 import Line from "app/components/icons/line";
@@ -18,6 +21,7 @@ import {
   dataAtom,
   circleTypeAtom,
   dialogAtom,
+  traceAtom,
 } from "state/jotai";
 import MenuAction from "app/components/menu_action";
 import { memo } from "react";
@@ -98,6 +102,37 @@ function CircleMenu() {
   );
 }
 
+function TraceMenu() {
+  const [trace, setTrace] = useAtom(traceAtom);
+
+  return (
+    <div className="z-50">
+      <DD.Root>
+        <DD.Trigger asChild>
+          <Button size="xxs" variant="quiet">
+            <CaretDownIcon />
+          </Button>
+        </DD.Trigger>
+        <DDContent>
+          <StyledItem
+            onSelect={() => {
+              setTrace(!trace);
+            }}
+          >
+            <CheckIcon className={trace ? "" : "opacity-0"} />
+            Trace along features
+          </StyledItem>
+          <div className="px-2 pb-1 text-xs text-gray-500 dark:text-gray-300">
+            Click two vertexes of a feature to follow its edge.
+            <br />
+            Hold Option to go the other way.
+          </div>
+        </DDContent>
+      </DD.Root>
+    </div>
+  );
+}
+
 const MODE_OPTIONS = [
   {
     mode: Mode.NONE,
@@ -115,13 +150,13 @@ const MODE_OPTIONS = [
     mode: Mode.DRAW_LINE,
     hotkey: "3",
     Icon: Line,
-    Menu: null,
+    Menu: TraceMenu,
   },
   {
     mode: Mode.DRAW_POLYGON,
     hotkey: "4",
     Icon: Polygon,
-    Menu: null,
+    Menu: TraceMenu,
   },
   {
     mode: Mode.DRAW_RECTANGLE,
@@ -135,6 +170,24 @@ const MODE_OPTIONS = [
     Icon: CircleIcon,
     Menu: CircleMenu,
   },
+  {
+    mode: Mode.DRAW_FREEHAND_LINE,
+    hotkey: "7",
+    Icon: Pencil1Icon,
+    Menu: null,
+  },
+  {
+    mode: Mode.DRAW_FREEHAND_POLYGON,
+    hotkey: "8",
+    Icon: Pencil2Icon,
+    Menu: null,
+  },
+  {
+    mode: Mode.MEASURE,
+    hotkey: "9",
+    Icon: RulerHorizontalIcon,
+    Menu: null,
+  },
 ] as const;
 
 export default memo(function Modes({
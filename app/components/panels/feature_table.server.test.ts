@@ -65,6 +65,7 @@ describe("filterFeatures", () => {
           geometryType: null,
           folderId: null,
           exact: false,
+          expression: "",
         },
         columns,
         featureMap,
@@ -82,6 +83,7 @@ describe("filterFeatures", () => {
           geometryType: null,
           folderId: null,
           exact: false,
+          expression: "",
         },
         columns,
         featureMap,
@@ -99,6 +101,7 @@ describe("filterFeatures", () => {
           geometryType: "MultiLineString",
           folderId: null,
           exact: false,
+          expression: "",
         },
         columns,
         featureMap,
@@ -116,6 +119,7 @@ describe("filterFeatures", () => {
           geometryType: null,
           folderId: folderId1,
           exact: false,
+          expression: "",
         },
         columns,
         featureMap,
@@ -133,10 +137,47 @@ describe("filterFeatures", () => {
           geometryType: null,
           folderId: folderId1,
           exact: false,
+          expression: "",
         },
         columns,
         featureMap,
       })
     ).toEqual([wrappedFeatures[0]]);
   });
+
+  it("should filter features by expression", () => {
+    expect(
+      filterFeatures({
+        filter: {
+          search: "",
+          isCaseSensitive: false,
+          column: "",
+          geometryType: null,
+          folderId: null,
+          exact: false,
+          expression: `name is not null and description contains "sign"`,
+        },
+        columns,
+        featureMap,
+      })
+    ).toEqual([wrappedFeatures[1]]);
+  });
+
+  it("should ignore invalid expressions", () => {
+    expect(
+      filterFeatures({
+        filter: {
+          search: "",
+          isCaseSensitive: false,
+          column: "",
+          geometryType: null,
+          folderId: null,
+          exact: false,
+          expression: "name =",
+        },
+        columns,
+        featureMap,
+      })
+    ).toEqual(wrappedFeatures);
+  });
 });
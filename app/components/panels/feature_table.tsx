@@ -11,7 +11,7 @@ import {
 } from "state/jotai";
 import type { IFolder, IWrappedFeature } from "types";
 import * as P from "@radix-ui/react-popover";
-import { Field, Form, Formik } from "formik";
+import { ErrorMessage, Field, Form, Formik } from "formik";
 import React, {
   useRef,
   useState,
@@ -44,6 +44,12 @@ import Fuse from "fuse.js";
 import { geometryTypes } from "app/lib/constants";
 import clsx from "clsx";
 import { getFn, useColumns } from "app/lib/search_utils";
+import {
+  evaluateFilterExpression,
+  parseFilterExpression,
+} from "app/lib/filter_expression";
+import { InlineError } from "app/components/inline_error";
+import { pluralize } from "app/lib/utils";
 
 type FolderId = IFolder["id"];
 type ColumnConfig = Map<string, { width: number }>;
@@ -163,8 +169,13 @@ export function filterFeatures({
   const hasSearch = !!search;
   const hasGeometryType = geometryType !== null;
   const hasFolder = folderId !== null;
+  // Invalid expressions are caught by the form, so
+  // they can be ignored here.
+  const expression = filter.expression
+    ? parseFilterExpression(filter.expression).toMaybe().extractNullable()
+    : null;
 
-  if (!(hasSearch || hasGeometryType || hasFolder)) {
+  if (!(hasSearch || hasGeometryType || hasFolder || expression)) {
     return Array.from(featureMap.values());
   }
 
@@ -176,8 +187,10 @@ export function filterFeatures({
     const geometryTypeMatch =
       !hasGeometryType || geometry?.type === geometryType;
     const folderMatch = !folderId || wrappedFeature.folderId === folderId;
+    const expressionMatch =
+      !expression || evaluateFilterExpression(expression, feature.properties);
 
-    if (geometryTypeMatch && folderMatch) {
+    if (geometryTypeMatch && folderMatch && expressionMatch) {
       results.push(wrappedFeature);
     }
   }
@@ -197,6 +210,14 @@ export function filterFeatures({
     .map((result) => result.item);
 }
 
+function validateExpression(value: string | null) {
+  if (!value?.trim()) return;
+  return parseFilterExpression(value).caseOf({
+    Left: (error) => error.message,
+    Right: () => undefined,
+  });
+}
+
 export function FeatureTableInner({ data }: { data: Data }) {
   const { featureMap, folderMap } = data;
   const panelWidth = useAtomValue(splitsAtom).right;
@@ -377,6 +398,13 @@ export function FeatureTableInner({ data }: { data: Data }) {
 
   const [statsOpen, setStatsOpen] = useState<boolean>(false);
 
+  const filterActive = !!(
+    filter.search ||
+    filter.expression ||
+    filter.geometryType ||
+    filter.folderId
+  );
+
   const headerBase = `text-xs text-left
     text-gray-700 dark:text-gray-300
     flex items-center
@@ -445,10 +473,12 @@ export function FeatureTableInner({ data }: { data: Data }) {
                 isCaseSensitive,
                 column,
                 geometryType,
+                expression,
               }) => {
                 setFilter((filter) => ({
                   ...filter,
                   search: search?.trim() || null,
+                  expression: expression?.trim() || null,
                   isCaseSensitive: !!isCaseSensitive,
                   column: column || null,
                   geometryType: geometryType || null,
@@ -546,11 +576,36 @@ export function FeatureTableInner({ data }: { data: Data }) {
                       </label>
                     </div>
                   </E.PopoverContent2>
+                  <div className="pt-1">
+                    <Field
+                      className={E.inputClass({ _size: "xs" })}
+                      name="expression"
+                      type="input"
+                      placeholder={`Filter, like population > 1000 AND status = "open"`}
+                      validate={validateExpression}
+                    />
+                    <ErrorMessage name="expression" component={InlineError} />
+                  </div>
                 </Form>
               )}
             </Formik>
           </P.Root>
         </div>
+        {filterActive ? (
+          <div className="pt-1 flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+            {pluralize("matching feature", features.length)}
+            <E.Button
+              size="xs"
+              type="button"
+              disabled={!features.length}
+              onClick={() => {
+                setSelection(USelection.fromIds(features.map((f) => f.id)));
+              }}
+            >
+              Select all matching
+            </E.Button>
+          </div>
+        ) : null}
         {statsOpen ? <FeatureTableStats features={features} /> : null}
       </div>
       <div
@@ -613,6 +668,7 @@ export function FeatureTableInner({ data }: { data: Data }) {
                 key={`header-column-${virtualColumn.index}`}
                 virtualColumn={virtualColumn}
                 column={columns[virtualColumn.index - 1]}
+                features={features}
                 localOrder={localOrder}
                 statsOpen={statsOpen}
                 className={headerClass}
@@ -15,6 +15,7 @@ import { useAtomCallback } from "jotai/utils";
 import { useFeatureMap } from "app/lib/persistence/shared";
 import renameProperty from "app/lib/rename_property";
 import { Formik, Form } from "formik";
+import type { IWrappedFeature } from "types";
 
 type RenameFormValues = {
   renameTo: string;
@@ -87,11 +88,17 @@ export const Header = memo(function Header({
   virtualColumn,
   statsOpen,
   column,
+  features,
   localOrder,
   ...props
 }: {
   virtualColumn: VirtualItem;
   column: string;
+  /**
+   * The features that the table is showing,
+   * after filters are applied.
+   */
+  features: IWrappedFeature[];
   localOrder: React.MutableRefObject<string[]>;
   statsOpen: boolean;
 } & React.HTMLAttributes<HTMLButtonElement>) {
@@ -100,6 +107,14 @@ export const Header = memo(function Header({
   const setDialogState = useSetAtom(dialogAtom);
   const setVirtualColumns = useSetAtom(virtualColumnsAtom);
 
+  const onDissolve = useCallback(() => {
+    setDialogState({
+      type: "dissolve",
+      features,
+      groupBy: column,
+    });
+  }, [column, features, setDialogState]);
+
   const onDelete = useAtomCallback(
     useCallback(
       (get, set) => {
@@ -157,6 +172,17 @@ export const Header = memo(function Header({
             >
               Cast
             </E.StyledItem>
+            <E.StyledItem
+              onSelect={() => {
+                setDialogState({
+                  type: "calculate_field",
+                  column,
+                });
+              }}
+            >
+              Calculate…
+            </E.StyledItem>
+            <E.StyledItem onSelect={onDissolve}>Dissolve…</E.StyledItem>
             <E.StyledItem
               onSelect={(_e) => {
                 setTimeout(() => {
@@ -19,10 +19,22 @@ import { FeatureEditorFolderInner } from "./feature_editor/feature_editor_folder
 const SymbolizationEditor = dynamic(
   () => import("app/components/panels/symbolization_editor")
 );
+const ValidationPanel = dynamic(
+  () => import("app/components/panels/validation")
+);
 import { EyeOpenIcon } from "@radix-ui/react-icons";
 
-const TAB_ORDER_RIGHT = [TabOption.Feature, TabOption.Table];
-const TAB_ORDER_BOTTOM = [TabOption.Table, TabOption.Feature, TabOption.List];
+const TAB_ORDER_RIGHT = [
+  TabOption.Feature,
+  TabOption.Table,
+  TabOption.Validation,
+];
+const TAB_ORDER_BOTTOM = [
+  TabOption.Table,
+  TabOption.Feature,
+  TabOption.List,
+  TabOption.Validation,
+];
 
 function Tab({
   onClick,
@@ -83,6 +95,8 @@ const ActiveTab = memo(function ActiveTab({
       return <FeatureEditorFolderInner />;
     case TabOption.Symbolization:
       return <SymbolizationEditor />;
+    case TabOption.Validation:
+      return <ValidationPanel />;
   }
 });
 
@@ -6,6 +6,8 @@ import {
   Symbolization,
   FeatureMap,
   ISymbolizationRamp,
+  ISymbolizationHeatmap,
+  ISymbolizationCluster,
   RampValues,
 } from "types";
 import { usePersistence } from "app/lib/persistence/context";
@@ -75,6 +77,7 @@ import { purple900 } from "app/lib/constants";
 
 const regenerateAtom = atom<boolean>(false);
 const DEFAULT_CLASSES = 7;
+const HEATMAP_CLASSES = 5;
 
 function DoneButton() {
   return (
@@ -912,6 +915,242 @@ export function NoneSymbolization() {
   );
 }
 
+type HeatmapValues = Pick<ISymbolizationHeatmap, "radius" | "rampName"> &
+  Pick<RampValues, "classes" | "interpolate"> & {
+    weightProperty: string;
+  };
+
+function HeatmapSymbolization() {
+  const rep = usePersistence();
+  const [meta, setMeta] = rep.useMetadata();
+  const { featureMap } = useAtomValue(dataAtom);
+  const options = useViablePropertiesForRamp(featureMap);
+  const [formError, setFormError] = useState<string | null>(null);
+  const symbolization = meta.symbolization as ISymbolizationHeatmap;
+
+  return (
+    <Formik<HeatmapValues>
+      onSubmit={async (values) => {
+        const ramp = COLORBREWER_ALL.find(
+          (ramp) => ramp.name === values.rampName
+        );
+        const weights = values.weightProperty
+          ? options.get(values.weightProperty) || []
+          : [];
+        const parsed = Symbolization.safeParse({
+          ...symbolization,
+          weightProperty: values.weightProperty || null,
+          weightMax: Math.max(d3.max(weights) || 0, 0) || 1,
+          radius: values.radius,
+          rampName: values.rampName,
+          colors: ramp?.colors[HEATMAP_CLASSES] || symbolization.colors,
+        });
+        if (!parsed.success) {
+          setFormError(parsed.error.issues[0]?.message || "Invalid heatmap");
+          return;
+        }
+        setFormError(null);
+        await Promise.resolve(setMeta({ symbolization: parsed.data })).catch(
+          (e) => {
+            toast.error("Failed to update heatmap");
+            Sentry.captureException(e);
+          }
+        );
+      }}
+      initialValues={{
+        weightProperty: symbolization.weightProperty || "",
+        radius: symbolization.radius,
+        rampName: symbolization.rampName,
+        classes: HEATMAP_CLASSES,
+        interpolate: "linear",
+      }}
+    >
+      {({ values }) => (
+        <Form>
+          <AutoSubmit />
+          <div className="space-y-4">
+            <TextWell>
+              Points are drawn as a heatmap until you zoom in far enough to edit
+              them.
+            </TextWell>
+            {formError && <InlineError>{formError}</InlineError>}
+            <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+              <label className="block">
+                <div>
+                  <StyledLabelSpan>Weight property</StyledLabelSpan>
+                </div>
+                <Field
+                  as="select"
+                  name="weightProperty"
+                  className={styledSelect({ size: "sm" }) + " w-full"}
+                >
+                  <option value={""}>None</option>
+                  {Array.from(options.keys(), (property) => {
+                    return (
+                      <option key={property} value={property}>
+                        {property}
+                      </option>
+                    );
+                  })}
+                </Field>
+              </label>
+              <label className="block">
+                <div>
+                  <StyledLabelSpan>Radius (px)</StyledLabelSpan>
+                </div>
+                <Field
+                  type="number"
+                  min="1"
+                  max="100"
+                  name="radius"
+                  className={inputClass({
+                    _size: "sm",
+                  })}
+                />
+              </label>
+            </div>
+            <div>
+              <StyledLabelSpan>Colors</StyledLabelSpan>
+              <Field name="rampName">
+                {(fieldProps: FieldProps<string>) => {
+                  const { field } = fieldProps;
+                  return (
+                    <P.Root>
+                      <StyledPopoverTrigger>
+                        <RampPreview
+                          name={field.value}
+                          classes={values.classes}
+                          interpolate={values.interpolate}
+                        />
+                        <CaretDownIcon className="w-5 h-5 flex-shrink-0" />
+                      </StyledPopoverTrigger>
+                      <PopoverContent2>
+                        <StyledPopoverArrow />
+                        <div className="space-y-2">
+                          <div>
+                            <RampChoices
+                              label="Sequential (ColorBrewer)"
+                              colors={COLORBREWER_SEQUENTIAL}
+                              fieldProps={fieldProps}
+                            />
+                          </div>
+                          <div>
+                            <RampChoices
+                              label="Sequential (CARTO Colors)"
+                              colors={CARTO_COLOR_SEQUENTIAL}
+                              fieldProps={fieldProps}
+                            />
+                          </div>
+                          <DoneButton />
+                        </div>
+                      </PopoverContent2>
+                    </P.Root>
+                  );
+                }}
+              </Field>
+            </div>
+          </div>
+        </Form>
+      )}
+    </Formik>
+  );
+}
+
+function ClusterSymbolization() {
+  const rep = usePersistence();
+  const [meta, setMeta] = rep.useMetadata();
+  const [formError, setFormError] = useState<string | null>(null);
+
+  return (
+    <Formik<ISymbolizationCluster>
+      onSubmit={async (values) => {
+        const parsed = Symbolization.safeParse(values);
+        if (!parsed.success) {
+          setFormError(parsed.error.issues[0]?.message || "Invalid clusters");
+          return;
+        }
+        setFormError(null);
+        await Promise.resolve(setMeta({ symbolization: parsed.data })).catch(
+          (e) => {
+            toast.error("Failed to update clusters");
+            Sentry.captureException(e);
+          }
+        );
+      }}
+      initialValues={meta.symbolization as ISymbolizationCluster}
+    >
+      <Form>
+        <AutoSubmit />
+        <div className="space-y-4">
+          <TextWell>
+            Nearby points are grouped into clusters until you zoom in past the
+            maximum zoom.
+          </TextWell>
+          {formError && <InlineError>{formError}</InlineError>}
+          <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+            <label className="block">
+              <div>
+                <StyledLabelSpan>Radius (px)</StyledLabelSpan>
+              </div>
+              <Field
+                type="number"
+                min="1"
+                max="200"
+                name="radius"
+                className={inputClass({
+                  _size: "sm",
+                })}
+              />
+            </label>
+            <label className="block">
+              <div>
+                <StyledLabelSpan>Maximum zoom</StyledLabelSpan>
+              </div>
+              <Field
+                type="number"
+                min="0"
+                max="22"
+                step="1"
+                name="maxZoom"
+                className={inputClass({
+                  _size: "sm",
+                })}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-x-2">
+            <Field
+              type="checkbox"
+              className={styledCheckbox({ variant: "default" })}
+              name="labels"
+            />
+            <StyledLabelSpan>Show point counts</StyledLabelSpan>
+          </label>
+          <label className="flex items-center gap-x-2">
+            <div className="whitespace-nowrap">
+              <StyledLabelSpan>Color</StyledLabelSpan>
+            </div>
+            <div className="flex-auto" />
+            <Field
+              component={ColorPopoverField}
+              name="defaultColor"
+              _size="sm"
+              className={inputClass({
+                _size: "sm",
+              })}
+            />
+          </label>
+        </div>
+      </Form>
+    </Formik>
+  );
+}
+
+function AutoSubmit() {
+  useAutoSubmit();
+  return null;
+}
+
 function ExportOption({ option }: { option: EOption }) {
   return (
     <Accordion.Item
@@ -1014,6 +1253,21 @@ export function SymbolizationEditor() {
                       error: "Failed to generate style",
                     }
                   );
+                } else if (type === "heatmap" || type === "cluster") {
+                  const symbolization = Symbolization.parse({
+                    type,
+                    simplestyle: false,
+                    defaultColor: meta.symbolization.defaultColor,
+                    defaultOpacity: meta.symbolization.defaultOpacity,
+                  });
+                  await toast.promise(
+                    Promise.resolve(setMeta({ symbolization })),
+                    {
+                      loading: "Generating style…",
+                      success: "Generated",
+                      error: "Failed to generate style",
+                    }
+                  );
                 } else {
                   setRegenerate(true);
                 }
@@ -1024,6 +1278,10 @@ export function SymbolizationEditor() {
                 <option value="ramp">Ramp</option>
                 <option value="categorical">Category</option>
               </optgroup>
+              <optgroup label="Points">
+                <option value="heatmap">Heatmap</option>
+                <option value="cluster">Clusters</option>
+              </optgroup>
             </select>
             <div className="flex-auto" />
           </div>
@@ -1031,7 +1289,9 @@ export function SymbolizationEditor() {
         <PanelDetails
           title="Configuration"
           accessory={
-            symbolizationType !== "none" && regenerate === false ? (
+            (symbolizationType === "ramp" ||
+              symbolizationType === "categorical") &&
+            regenerate === false ? (
               <Button
                 size="xs"
                 onClick={() => {
@@ -1049,6 +1309,16 @@ export function SymbolizationEditor() {
               .with("none", () => <NoneSymbolization />)
               .with("categorical", () => <CategoryWizard />)
               .with("ramp", () => <RampWizard />)
+              .with("heatmap", () =>
+                meta.symbolization.type === "heatmap" ? (
+                  <HeatmapSymbolization />
+                ) : null
+              )
+              .with("cluster", () =>
+                meta.symbolization.type === "cluster" ? (
+                  <ClusterSymbolization />
+                ) : null
+              )
               .otherwise(() => null)}
           </div>
         </PanelDetails>
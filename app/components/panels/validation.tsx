@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAtomValue, useSetAtom } from "jotai";
+import { dataAtom, selectionAtom } from "state/jotai";
+import { USelection } from "state";
+import { Button, Loading, TextWell } from "app/components/elements";
+import { PanelDetails } from "app/components/panel_details";
+import { usePersistence } from "app/lib/persistence/context";
+import { useZoomTo } from "app/hooks/use_zoom_to";
+import { lib } from "app/lib/worker";
+import { formatCoordinates } from "app/lib/geometry";
+import { pluralize } from "app/lib/utils";
+import { ISSUE_LABELS } from "app/lib/validate_features";
+import type { FeatureIssue } from "app/lib/validate_features";
+import {
+  repairGeometry,
+  REPAIR_FOR_ISSUE,
+  REPAIR_LABELS,
+} from "app/lib/map_operations/repair_geometry";
+import type { RepairType } from "app/lib/map_operations/repair_geometry";
+import type { IWrappedFeature } from "types";
+import * as Sentry from "@sentry/nextjs";
+
+/**
+ * Rendering every row of a badly broken import
+ * would make the panel unusable.
+ */
+const MAX_ROWS = 500;
+
+function useIssues() {
+  const { featureMap } = useAtomValue(dataAtom);
+  const [issues, setIssues] = useState<FeatureIssue[] | null>(null);
+
+  useEffect(() => {
+    // Edits can arrive faster than validation, so only
+    // keep the results for the latest version of the map.
+    let current = true;
+    lib
+      .validateFeatures(Array.from(featureMap.values()))
+      .then((issues) => {
+        if (current) setIssues(issues);
+      })
+      .catch((e) => Sentry.captureException(e));
+    return () => {
+      current = false;
+    };
+  }, [featureMap]);
+
+  return issues;
+}
+
+function useRepair() {
+  const rep = usePersistence();
+  const transact = rep.useTransact();
+  const { featureMap } = useAtomValue(dataAtom);
+  const setSelection = useSetAtom(selectionAtom);
+
+  return (repair: RepairType, ids: Array<IWrappedFeature["id"]>) => {
+    const putFeatures: IWrappedFeature[] = [];
+    const deleteFeatures: Array<IWrappedFeature["id"]> = [];
+    for (const id of new Set(ids)) {
+      const wrappedFeature = featureMap.get(id);
+      if (!wrappedFeature?.feature.geometry) continue;
+      const geometry = repairGeometry(wrappedFeature.feature.geometry, repair);
+      if (geometry) {
+        putFeatures.push({
+          ...wrappedFeature,
+          feature: { ...wrappedFeature.feature, geometry },
+        });
+      } else {
+        deleteFeatures.push(id);
+      }
+    }
+    if (deleteFeatures.length) setSelection(USelection.none());
+    return transact({
+      note: `Repaired features: ${REPAIR_LABELS[repair].toLowerCase()}`,
+      track: [
+        "operation-repair",
+        {
+          repair,
+          count: putFeatures.length + deleteFeatures.length,
+        },
+      ],
+      putFeatures,
+      deleteFeatures,
+    });
+  };
+}
+
+function IssueRow({
+  issue,
+  onRepair,
+}: {
+  issue: FeatureIssue;
+  onRepair: (repair: RepairType, ids: Array<IWrappedFeature["id"]>) => void;
+}) {
+  const { featureMap } = useAtomValue(dataAtom);
+  const setSelection = useSetAtom(selectionAtom);
+  const zoomTo = useZoomTo();
+  const repair = REPAIR_FOR_ISSUE[issue.type];
+
+  return (
+    <div
+      className="flex items-center gap-x-2 px-3 py-1 text-sm cursor-pointer
+      hover:bg-gray-100 dark:hover:bg-gray-900"
+      onClick={() => {
+        const wrappedFeature = featureMap.get(issue.id);
+        if (!wrappedFeature) return;
+        setSelection(USelection.single(issue.id));
+        void zoomTo([wrappedFeature]);
+      }}
+    >
+      <div className="flex-auto truncate">
+        <div className="dark:text-white">{ISSUE_LABELS[issue.type]}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+          {issue.message}
+          {issue.position
+            ? ` at ${formatCoordinates(issue.position as Pos2)}`
+            : null}
+        </div>
+      </div>
+      <Button
+        size="xs"
+        title={REPAIR_LABELS[repair]}
+        onClick={(e) => {
+          e.stopPropagation();
+          onRepair(repair, [issue.id]);
+        }}
+      >
+        {REPAIR_LABELS[repair]}
+      </Button>
+    </div>
+  );
+}
+
+export default function ValidationPanel() {
+  const issues = useIssues();
+  const repair = useRepair();
+
+  const onRepair = (repairType: RepairType, ids: string[]) => {
+    repair(repairType, ids).catch((e) => Sentry.captureException(e));
+  };
+
+  const idsByRepair = useMemo(() => {
+    const idsByRepair = new Map<RepairType, string[]>();
+    for (const issue of issues || []) {
+      const repairType = REPAIR_FOR_ISSUE[issue.type];
+      idsByRepair.set(repairType, [
+        ...(idsByRepair.get(repairType) || []),
+        issue.id,
+      ]);
+    }
+    return idsByRepair;
+  }, [issues]);
+
+  if (!issues) return <Loading />;
+
+  const featureCount = new Set(issues.map((issue) => issue.id)).size;
+
+  return (
+    <div className="flex-auto overflow-y-auto placemark-scrollbar">
+      <div className="divide-y divide-gray-200 dark:divide-gray-900">
+        <div className="p-3 space-y-2">
+          <div className="text-sm font-bold dark:text-white">Validation</div>
+          <TextWell>
+            {issues.length
+              ? `Found ${pluralize("issue", issues.length)} in ${pluralize(
+                  "feature",
+                  featureCount
+                )}.`
+              : "No issues found."}
+          </TextWell>
+        </div>
+        {idsByRepair.size ? (
+          <PanelDetails title="Repair all">
+            <div className="flex flex-wrap gap-2">
+              {Array.from(idsByRepair, ([repairType, ids]) => (
+                <Button
+                  key={repairType}
+                  size="xs"
+                  onClick={() => onRepair(repairType, ids)}
+                >
+                  {REPAIR_LABELS[repairType]} ({new Set(ids).size})
+                </Button>
+              ))}
+            </div>
+          </PanelDetails>
+        ) : null}
+        {issues.length ? (
+          <div className="py-1">
+            {issues.slice(0, MAX_ROWS).map((issue, i) => (
+              <IssueRow key={i} issue={issue} onRepair={onRepair} />
+            ))}
+            {issues.length > MAX_ROWS ? (
+              <div className="px-3 py-1 text-xs text-gray-500">
+                Showing the first {MAX_ROWS} issues.
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import {
   CornersIcon,
   BorderDashedIcon,
   ValueNoneIcon,
+  ScissorsIcon,
+  TransformIcon,
 } from "@radix-ui/react-icons";
 import * as Sentry from "@sentry/nextjs";
 import { useAtom, useSetAtom } from "jotai";
@@ -91,6 +93,34 @@ export function useSingleActions(
     },
   };
 
+  const clipAction = {
+    label: "Clip or erase…",
+    applicable: !!toLineFeatures.length,
+    icon: <ScissorsIcon />,
+    onSelect: function doClip() {
+      setDialogState({
+        type: "clip",
+        features: selectedWrappedFeatures,
+      });
+      return Promise.resolve();
+    },
+  };
+
+  const transformAction = {
+    label: "Transform…",
+    applicable: selectedWrappedFeatures.some(
+      (wrappedFeature) => wrappedFeature.feature.geometry
+    ),
+    icon: <TransformIcon />,
+    onSelect: function doTransform() {
+      setDialogState({
+        type: "transform",
+        features: selectedWrappedFeatures,
+      });
+      return Promise.resolve();
+    },
+  };
+
   const canConvexHull = !(
     selectedWrappedFeatures.length === 1 &&
     selectedWrappedFeatures[0].feature.geometry?.type === "Point"
@@ -228,6 +258,8 @@ export function useSingleActions(
     toLineAction,
     addConvexHullAction,
     simplifyAction,
+    clipAction,
+    transformAction,
   ];
 }
 
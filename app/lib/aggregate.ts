@@ -0,0 +1,71 @@
+import type { JsonValue } from "type-fest";
+import { cast } from "app/lib/cast";
+
+/**
+ * Ways of summarizing the values of a property
+ * across a group of features, used by operations
+ * like spatial join and dissolve.
+ */
+export type AggregateOperation =
+  | "count"
+  | "sum"
+  | "mean"
+  | "min"
+  | "max"
+  | "first"
+  | "concat";
+
+export const AGGREGATE_OPERATIONS: AggregateOperation[] = [
+  "count",
+  "sum",
+  "mean",
+  "min",
+  "max",
+  "first",
+  "concat",
+];
+
+/**
+ * Read numbers and numeric strings, which are
+ * common in imported CSV files, as numbers.
+ */
+function toNumber(value: JsonValue | undefined): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const casted = cast(value);
+    if (typeof casted === "number") return casted;
+  }
+  return null;
+}
+
+export function aggregate(
+  operation: AggregateOperation,
+  values: Array<JsonValue | undefined>
+): JsonValue {
+  switch (operation) {
+    case "count":
+      return values.length;
+    case "first":
+      return values[0] ?? null;
+    case "concat":
+      return values
+        .filter((value) => value !== null && value !== undefined)
+        .map((value) =>
+          typeof value === "object" ? JSON.stringify(value) : String(value)
+        )
+        .join(", ");
+    case "sum":
+    case "mean":
+    case "min":
+    case "max": {
+      const numbers = values
+        .map(toNumber)
+        .filter((n): n is number => n !== null);
+      if (!numbers.length) return null;
+      if (operation === "min") return Math.min(...numbers);
+      if (operation === "max") return Math.max(...numbers);
+      const sum = numbers.reduce((total, n) => total + n, 0);
+      return operation === "sum" ? sum : sum / numbers.length;
+    }
+  }
+}
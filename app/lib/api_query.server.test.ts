@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ApiBbox,
+  ApiWheres,
+  filterFeatures,
+  matchesWhere,
+  parseWhere,
+  projectProperties,
+} from "./api_query";
+import type { Feature } from "types";
+
+function wrap(feature: Feature) {
+  return { feature };
+}
+
+const point = wrap({
+  type: "Feature",
+  properties: { name: "A", height: 5 },
+  geometry: { type: "Point", coordinates: [1, 1] },
+});
+
+const line = wrap({
+  type: "Feature",
+  properties: { name: "B", height: "12" },
+  geometry: {
+    type: "LineString",
+    coordinates: [
+      [-5, 2],
+      [5, 2],
+    ],
+  },
+});
+
+const empty = wrap({
+  type: "Feature",
+  properties: null,
+  geometry: null,
+});
+
+describe("parseWhere", () => {
+  it("parses operators", () => {
+    expect(parseWhere("name=Main St")).toEqual({
+      key: "name",
+      operator: "=",
+      value: "Main St",
+    });
+    expect(parseWhere("height>=10")).toEqual({
+      key: "height",
+      operator: ">=",
+      value: "10",
+    });
+    expect(parseWhere("a!=")).toEqual({ key: "a", operator: "!=", value: "" });
+    expect(parseWhere("name")).toBeNull();
+  });
+
+  it("validates query parameters", () => {
+    expect(ApiWheres.safeParse("a=1").success).toBeTruthy();
+    expect(ApiWheres.safeParse(["a=1", "b"]).success).toBeFalsy();
+    expect(ApiBbox.parse("0,0,1,2")).toEqual([0, 0, 1, 2]);
+    expect(ApiBbox.safeParse("1,0,0,1").success).toBeFalsy();
+  });
+});
+
+describe("matchesWhere", () => {
+  it("compares equality as strings", () => {
+    expect(matchesWhere({ a: 5 }, parseWhere("a=5")!)).toBeTruthy();
+    expect(matchesWhere({ a: true }, parseWhere("a=true")!)).toBeTruthy();
+    expect(matchesWhere({ a: 5 }, parseWhere("a!=5")!)).toBeFalsy();
+    expect(matchesWhere({}, parseWhere("a!=5")!)).toBeTruthy();
+    expect(matchesWhere(null, parseWhere("a=5")!)).toBeFalsy();
+  });
+
+  it("ignores inherited properties", () => {
+    expect(matchesWhere({}, parseWhere("__proto__={}")!)).toBeFalsy();
+    expect(matchesWhere({}, parseWhere("constructor!=x")!)).toBeTruthy();
+  });
+
+  it("compares ranges as numbers", () => {
+    expect(matchesWhere({ a: "12" }, parseWhere("a>5")!)).toBeTruthy();
+    expect(matchesWhere({ a: 5 }, parseWhere("a<=5")!)).toBeTruthy();
+    expect(matchesWhere({ a: "x" }, parseWhere("a<5")!)).toBeFalsy();
+    expect(matchesWhere({ a: 5 }, parseWhere("a<x")!)).toBeFalsy();
+  });
+});
+
+describe("filterFeatures", () => {
+  const features = [point, line, empty];
+
+  it("filters by bbox for all geometry types", () => {
+    expect(filterFeatures(features, { bbox: [0, 0, 2, 3] })).toEqual([
+      point,
+      line,
+    ]);
+    expect(filterFeatures(features, { bbox: [-1, 1.5, 0, 3] })).toEqual([line]);
+    expect(filterFeatures(features, { bbox: [10, 10, 11, 11] })).toEqual([]);
+  });
+
+  it("filters by properties", () => {
+    expect(
+      filterFeatures(features, { where: [parseWhere("height>=10")!] })
+    ).toEqual([line]);
+    expect(
+      filterFeatures(features, {
+        where: [parseWhere("height>1")!, parseWhere("name=A")!],
+      })
+    ).toEqual([point]);
+  });
+});
+
+describe("projectProperties", () => {
+  it("keeps only some properties", () => {
+    expect(
+      projectProperties(point, ["name", "missing", "constructor"]).feature
+    ).toEqual({
+      ...point.feature,
+      properties: { name: "A" },
+    });
+    expect(projectProperties(empty, ["name"])).toEqual(empty);
+  });
+});
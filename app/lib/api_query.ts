@@ -0,0 +1,157 @@
+import { z } from "zod";
+import type { Feature, IWrappedFeature } from "types";
+import { bboxToPolygon } from "app/lib/geometry";
+import { geometriesIntersect } from "app/lib/map_operations/spatial_join";
+
+const WHERE_OPERATORS = ["!=", ">=", "<=", "=", ">", "<"] as const;
+
+/**
+ * A property filter from the API, written like
+ * `where=name=Main St` or `where=height>=10`.
+ */
+export interface ApiWhere {
+  key: string;
+  operator: (typeof WHERE_OPERATORS)[number];
+  value: string;
+}
+
+export function parseWhere(str: string): ApiWhere | null {
+  const match = str.match(/^([^=!<>]+)(!=|>=|<=|=|>|<)(.*)$/);
+  if (!match) return null;
+  return {
+    key: match[1],
+    operator: match[2] as ApiWhere["operator"],
+    value: match[3],
+  };
+}
+
+/**
+ * Equality compares values as strings, so that `5`
+ * matches `"5"`. Ranges only match numbers.
+ */
+export function matchesWhere(
+  properties: Feature["properties"],
+  { key, operator, value }: ApiWhere
+) {
+  const property =
+    properties && Object.hasOwn(properties, key) ? properties[key] : undefined;
+
+  switch (operator) {
+    case "=":
+    case "!=": {
+      const equal =
+        property !== undefined &&
+        property !== null &&
+        (typeof property === "object"
+          ? JSON.stringify(property)
+          : String(property)) === value;
+      return operator === "=" ? equal : !equal;
+    }
+    default: {
+      const a = typeof property === "string" ? Number(property) : property;
+      const b = Number(value);
+      if (typeof a !== "number" || !isFinite(a) || !isFinite(b)) {
+        return false;
+      }
+      switch (operator) {
+        case ">":
+          return a > b;
+        case ">=":
+          return a >= b;
+        case "<":
+          return a < b;
+        case "<=":
+          return a <= b;
+      }
+    }
+  }
+}
+
+/**
+ * Query parameters can be given once or many times.
+ */
+const stringOrArray = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => [value].flat());
+
+export const ApiBbox = z.string().transform((str, ctx) => {
+  const bbox = str.split(",").map(Number);
+  if (
+    bbox.length !== 4 ||
+    !bbox.every(isFinite) ||
+    bbox[0] > bbox[2] ||
+    bbox[1] > bbox[3]
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message:
+        "bbox should be minLongitude,minLatitude,maxLongitude,maxLatitude",
+    });
+    return z.NEVER;
+  }
+  return bbox as BBox4;
+});
+
+export const ApiWheres = stringOrArray.transform((strs, ctx) => {
+  const wheres = strs.map(parseWhere);
+  if (!wheres.every((where): where is ApiWhere => !!where)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "where should be like key=value, key!=value, or key>=value",
+    });
+    return z.NEVER;
+  }
+  return wheres;
+});
+
+export const ApiProperties = stringOrArray.transform((strs) =>
+  strs.flatMap((str) => str.split(",")).filter(Boolean)
+);
+
+export interface ApiFeatureFilter {
+  bbox?: BBox4;
+  where?: ApiWhere[];
+}
+
+/**
+ * Features that intersect the bbox, if given,
+ * and match every where filter.
+ */
+export function filterFeatures<T extends Pick<IWrappedFeature, "feature">>(
+  wrappedFeatures: T[],
+  { bbox, where }: ApiFeatureFilter
+): T[] {
+  const bboxPolygon = bbox && bboxToPolygon(bbox);
+  return wrappedFeatures.filter(({ feature }) => {
+    if (where && !where.every((w) => matchesWhere(feature.properties, w))) {
+      return false;
+    }
+    if (bboxPolygon && !geometriesIntersect(feature.geometry, bboxPolygon)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Keep only some properties of features.
+ */
+export function projectProperties<T extends Pick<IWrappedFeature, "feature">>(
+  wrappedFeature: T,
+  keys: string[]
+): T {
+  const { properties } = wrappedFeature.feature;
+  return {
+    ...wrappedFeature,
+    feature: {
+      ...wrappedFeature.feature,
+      properties: properties
+        ? Object.fromEntries(
+            keys.flatMap((key) =>
+              Object.hasOwn(properties, key) ? [[key, properties[key]]] : []
+            )
+          )
+        : properties,
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { hash256 } from "@blitzjs/auth";
+import { AuthorizationError, Ctx } from "blitz";
+import type { NextApiRequest } from "next";
+import db from "db";
+import getCanAccessWrappedFeatureCollection from "app/wrappedFeatureCollections/queries/getCanAccessWrappedFeatureCollection";
+import type { ApiTokenScope } from "app/apiTokens/validations";
+
+export const API_TOKEN_PREFIX = "pmk_";
+
+/**
+ * How often to record that a token was used, so that
+ * reads don't each write to the database.
+ */
+const LAST_USED_INTERVAL = 60 * 1000;
+
+/**
+ * How a request to the v1 API can see a map: PUBLIC maps
+ * can be read by anyone and cached by anyone, and TOKEN
+ * means that a token for the map's organization was given.
+ */
+export type ApiAccess = "PUBLIC" | "TOKEN" | "UNAUTHORIZED" | "NOT_FOUND";
+
+export function getBearerToken(req: Pick<NextApiRequest, "headers">) {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Look up a token. If it exists, hasn't expired, and has
+ * the given scope, get a context that acts as its user in
+ * its organization, or as the organization for organization
+ * tokens, so that it can be used with resolvers.
+ */
+export async function getApiTokenCtx(
+  token: string,
+  scope: ApiTokenScope
+): Promise<Ctx | null> {
+  const apiToken = await db.apiToken.findUnique({
+    where: {
+      hashedToken: hash256(token),
+    },
+    include: {
+      user: {
+        select: {
+          role: true,
+        },
+      },
+    },
+  });
+
+  if (
+    !apiToken ||
+    !apiToken.scopes.includes(scope) ||
+    (apiToken.expiresAt && apiToken.expiresAt < new Date())
+  ) {
+    return null;
+  }
+
+  const roles: string[] = [];
+
+  // Personal tokens stop working when their
+  // user leaves the organization.
+  if (apiToken.userId !== null) {
+    const membership = await db.membership.findFirst({
+      where: {
+        userId: apiToken.userId,
+        organizationId: apiToken.organizationId,
+      },
+    });
+    if (!membership || !apiToken.user) return null;
+    roles.push(apiToken.user.role, membership.role);
+  }
+
+  const now = new Date();
+  if (
+    !apiToken.lastUsedAt ||
+    now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_INTERVAL
+  ) {
+    await db.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  const isAuthorized = (required?: string | string[]) =>
+    !required || [required].flat().some((role) => roles.includes(role));
+
+  return {
+    session: {
+      userId: apiToken.userId,
+      orgId: apiToken.organizationId,
+      roles,
+      $isAuthorized: isAuthorized,
+      $authorize(required?: string | string[]) {
+        if (!isAuthorized(required)) throw new AuthorizationError();
+      },
+    },
+  } as unknown as Ctx;
+}
+
+/**
+ * Get the context of the request's bearer token, if it has
+ * the scope and can access the map.
+ */
+export async function getApiCtx(
+  req: Pick<NextApiRequest, "headers">,
+  wrappedFeatureCollectionId: string,
+  scope: ApiTokenScope
+): Promise<Ctx | "UNAUTHORIZED" | "NOT_FOUND"> {
+  const token = getBearerToken(req);
+  if (!token) return "UNAUTHORIZED";
+
+  const ctx = await getApiTokenCtx(token, scope);
+  if (!ctx) return "UNAUTHORIZED";
+
+  try {
+    await getCanAccessWrappedFeatureCollection(
+      { id: wrappedFeatureCollectionId },
+      ctx
+    );
+    return ctx;
+  } catch (e) {
+    return "NOT_FOUND";
+  }
+}
+
+/**
+ * Check whether a request to the v1 API can read a map. Requests
+ * with a bearer token can read the maps it has access to, and
+ * any request can read public maps.
+ */
+export async function getApiAccess(
+  req: Pick<NextApiRequest, "headers">,
+  wrappedFeatureCollectionId: string
+): Promise<ApiAccess> {
+  let access: ApiAccess = "NOT_FOUND";
+  if (getBearerToken(req)) {
+    const ctx = await getApiCtx(req, wrappedFeatureCollectionId, "READ");
+    if (typeof ctx !== "string") return "TOKEN";
+    access = ctx;
+  }
+
+  const wrappedFeatureCollection = await db.wrappedFeatureCollection.findFirst({
+    select: { id: true },
+    where: {
+      id: wrappedFeatureCollectionId,
+      access: "PUBLIC",
+    },
+  });
+
+  return wrappedFeatureCollection ? "PUBLIC" : access;
+}
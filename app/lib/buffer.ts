@@ -93,7 +93,7 @@ function unprojectCoords(coords: Coords, proj: GeoProjection): Coords {
   }) as Coords;
 }
 
-function defineProjection(geojson: Geometry): GeoProjection {
+export function defineProjection(geojson: Geometry): GeoProjection {
   const coords = center(geojson as AllGeoJSON).geometry.coordinates;
   const rotation: [number, number] = [-coords[0], -coords[1]];
   return geoAzimuthalEquidistant().rotate(rotation).scale(earthRadius);
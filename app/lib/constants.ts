@@ -23,6 +23,17 @@ export const LEFT_PANEL_ROW_HEIGHT = 24;
 
 export const DECK_SYNTHETIC_ID = "deckgl-synthetic";
 export const DECK_LASSO_ID = "deckgl-lasso";
+export const DECK_SNAP_ID = "deckgl-snap";
+export const DECK_MEASURE_ID = "deckgl-measure";
+export const DECK_FREEHAND_ID = "deckgl-freehand";
+export const DECK_TRANSFORM_ID = "deckgl-transform";
+export const DECK_HISTORY_ID = "deckgl-history";
+
+/**
+ * How close, in pixels, the cursor has to be to a
+ * vertex or edge to snap to it.
+ */
+export const SNAP_TOLERANCE = 10;
 
 /**
  * Colors
@@ -279,7 +290,7 @@ export const FILE_LIMIT_MB = env.NEXT_PUBLIC_FILE_LIMIT_MB;
 export const FILE_LIMIT_BYTES = FILE_LIMIT_MB * MB_TO_BYTES;
 
 export const SCALE_UNITS = ["imperial", "metric", "nautical"] as const;
-export type ScaleUnit = typeof SCALE_UNITS[number];
+export type ScaleUnit = (typeof SCALE_UNITS)[number];
 export const zScaleUnit = z.enum(SCALE_UNITS);
 
 export const purple900a: RGBA = [49, 46, 129, 255];
@@ -296,3 +307,6 @@ export const LINE_SELECTED = hexToArray(LINE_COLORS.selected);
 
 export const LASSO_YELLOW = hexToArray("#FDE68A55");
 export const LASSO_DARK_YELLOW = hexToArray("#F59E0B");
+
+export const HISTORY_BLUE = hexToArray("#93C5FD55");
+export const HISTORY_DARK_BLUE = hexToArray("#3B82F6");
@@ -32,7 +32,12 @@ export class CCSV implements FileType {
         const { csvToGeoJSON } = await import(
           "app/lib/convert/local/csv_to_geojson"
         );
-        const geojson = await csvToGeoJSON(text, options.csvOptions, progress);
+        const geojson = await csvToGeoJSON(
+          text,
+          options.csvOptions,
+          progress,
+          options.sourceCrs
+        );
         return okResult(geojson);
       }
     );
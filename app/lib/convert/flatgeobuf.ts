@@ -2,6 +2,7 @@ import type { ExportOptions, ExportResult, FileType, ImportOptions } from ".";
 import { okResult, ConvertResult } from "./utils";
 import { EitherAsync } from "purify-ts/EitherAsync";
 import type { ConvertError } from "app/lib/errors";
+import { reprojectFromSource } from "./local/reproject";
 import {
   FeatureCollection,
   Geometry,
@@ -54,14 +55,16 @@ export class CFlatGeobuf implements FileType {
   extensions = [".fgb"];
   filenames = [] as string[];
   mimes = [] as string[];
-  forwardBinary(file: ArrayBuffer, _options: ImportOptions) {
+  forwardBinary(file: ArrayBuffer, options: ImportOptions) {
     return EitherAsync<ConvertError, ConvertResult>(
-      async function forwardFlatGeobuf() {
+      async function forwardFlatGeobuf({ liftEither }) {
         const flatgeobuf = await import("flatgeobuf/lib/mjs/geojson");
         const res = flatgeobuf.deserialize(
           new Uint8Array(file)
         ) as FeatureCollection;
-        return okResult(res);
+        return okResult(
+          await liftEither(await reprojectFromSource(res, options.sourceCrs))
+        );
       }
     );
   }
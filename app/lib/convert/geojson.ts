@@ -8,6 +8,7 @@ import { rough } from "app/lib/roughly_geojson";
 import { Right } from "purify-ts/Either";
 import { EitherAsync } from "purify-ts/EitherAsync";
 import { geojsonToString } from "./local/geojson";
+import { reprojectFromSource } from "./local/reproject";
 
 export class CGeoJSON implements FileType {
   id = "geojson" as const;
@@ -24,20 +25,25 @@ export class CGeoJSON implements FileType {
     return EitherAsync<ConvertError, ConvertResult>(
       async function forwardGeoJSON({ liftEither }) {
         const object = await liftEither(parseOrError(text));
-        const geojson = await liftEither(
+        const result = await liftEither(
           rough(object, {
             // Default to true unless options are provided
             removeCoincidents: options?.removeCoincidents !== false,
           })
         );
-        return geojson;
+        const geojson = await liftEither(
+          await reprojectFromSource(result.geojson, options?.sourceCrs)
+        );
+        return { ...result, geojson };
       }
     );
   }
   back({ featureMap }: { featureMap: FeatureMap }, options: ExportOptions) {
     return EitherAsync.liftEither(
       Right({
-        blob: stringToBlob(geojsonToString(featureMap, options.geojsonOptions)),
+        blob: stringToBlob(
+          geojsonToString(featureMap, options.geojsonOptions, options.targetCrs)
+        ),
         name: "features.geojson",
       })
     );
@@ -7,6 +7,7 @@ import { EitherAsync } from "purify-ts/EitherAsync";
 import { rough } from "app/lib/roughly_geojson";
 import { Right } from "purify-ts/Either";
 import type { ConvertError } from "app/lib/errors";
+import { reprojectFromSource } from "./local/reproject";
 
 export class CGeoJSONL implements FileType {
   id = "geojsonl" as const;
@@ -14,17 +15,21 @@ export class CGeoJSONL implements FileType {
   extensions = [".geojsonl", ".geojsons", ".ld"];
   filenames = [] as string[];
   mimes = [] as string[];
-  forwardString(text: string) {
+  forwardString(text: string, options?: ImportOptions) {
     return EitherAsync<ConvertError, ConvertResult>(
       async function forwardGeoJSONL({ liftEither }) {
         const res = await liftEither(GeoJSONLToGeoJSON(text));
-        return await liftEither(rough(res));
+        const result = await liftEither(rough(res));
+        const geojson = await liftEither(
+          await reprojectFromSource(result.geojson, options?.sourceCrs)
+        );
+        return { ...result, geojson };
       }
     );
   }
-  forwardBinary(file: ArrayBuffer, _options: ImportOptions) {
+  forwardBinary(file: ArrayBuffer, options: ImportOptions) {
     return readAsText(file).chain((text) => {
-      return this.forwardString(text);
+      return this.forwardString(text, options);
     });
   }
   back({ geojson }: { geojson: FeatureCollection }) {
@@ -0,0 +1,67 @@
+import type { ExportOptions, ExportResult, FileType, ImportOptions } from ".";
+import { ConvertResult, rootToTables } from "./utils";
+import { EitherAsync } from "purify-ts/EitherAsync";
+import { ConvertError } from "app/lib/errors";
+import type { FeatureCollection, FeatureMap, FolderMap } from "types";
+import { solveRootItems } from "app/components/panels/feature_editor/feature_editor_folder/math";
+
+export class CGeoPackage implements FileType {
+  id = "geopackage" as const;
+  label = "GeoPackage";
+  extensions = [".gpkg"];
+  filenames = [] as string[];
+  mimes = ["application/geopackage+sqlite3"];
+  forwardBinary(file: ArrayBuffer, _options: ImportOptions) {
+    return EitherAsync<ConvertError, ConvertResult>(
+      async function forwardGeoPackage({ throwE }) {
+        const { geoPackageToRoot } = await import(
+          "app/lib/convert/local/geopackage"
+        );
+        try {
+          const { root, notes } = await geoPackageToRoot(file);
+          return {
+            type: "root",
+            root,
+            notes,
+          };
+        } catch (e) {
+          return throwE(new ConvertError("Could not read GeoPackage file"));
+        }
+      }
+    );
+  }
+  back(
+    {
+      featureMap,
+      folderMap,
+    }: {
+      geojson: FeatureCollection;
+      featureMap: FeatureMap;
+      folderMap: FolderMap;
+    },
+    _options: ExportOptions
+  ) {
+    return EitherAsync<ConvertError, ExportResult>(
+      async function backGeoPackage({ throwE }) {
+        const { tablesToGeoPackage } = await import(
+          "app/lib/convert/local/geopackage"
+        );
+        try {
+          const tables = rootToTables(
+            solveRootItems(featureMap, folderMap),
+            "features"
+          );
+          const res = await tablesToGeoPackage(tables);
+          return {
+            blob: new Blob([res]),
+            name: "features.gpkg",
+          };
+        } catch (e) {
+          return throwE(new ConvertError("Could not convert to GeoPackage"));
+        }
+      }
+    );
+  }
+}
+
+export const GeoPackage = new CGeoPackage();
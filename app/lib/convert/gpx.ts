@@ -1,6 +1,6 @@
-import { ConvertResult, okResult, toDom } from "./utils";
+import { ConvertResult, okResult, stringToBlob, toDom } from "./utils";
 import readAsText from "app/lib/read_as_text";
-import type { FileType, ImportOptions } from ".";
+import type { ExportOptions, ExportResult, FileType, ImportOptions } from ".";
 import { EitherAsync } from "purify-ts/EitherAsync";
 import type { ConvertError } from "app/lib/errors";
 import { FeatureCollection } from "types";
@@ -28,6 +28,17 @@ export class CGPX implements FileType {
       }
     );
   }
+  back({ geojson }: { geojson: FeatureCollection }, _options: ExportOptions) {
+    return EitherAsync<ConvertError, ExportResult>(async function backGpx() {
+      const { geojsonToGPX } = await import(
+        "app/lib/convert/local/geojson_to_gpx"
+      );
+      return {
+        blob: stringToBlob(geojsonToGPX(geojson)),
+        name: "features.gpx",
+      };
+    });
+  }
 }
 
 export const GPX = new CGPX();
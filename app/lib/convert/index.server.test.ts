@@ -1,9 +1,19 @@
 import { test, expect, describe, it } from "vitest";
 
-import { DEFAULT_IMPORT_OPTIONS } from ".";
+import {
+  DEFAULT_EXPORT_GEOJSON_OPTIONS,
+  DEFAULT_IMPORT_OPTIONS,
+  fromGeoJSON,
+} from ".";
 import { GeoJSON } from "./geojson";
-import { IFeature, Polygon } from "types";
-import { twoPoints, fcLineString } from "test/helpers";
+import { IFeature, LineString, Point, Polygon } from "types";
+import {
+  twoPoints,
+  fcLineString,
+  fcPoly,
+  exampleFolder,
+  wrapMap,
+} from "test/helpers";
 import { Polyline } from "./polyline";
 import { KML } from "./kml";
 import { CSV } from "./csv";
@@ -16,9 +26,22 @@ import { Blob } from "buffer";
 import Fs from "fs";
 import Path from "path";
 import { getExtension } from "./utils";
+import { flattenResult } from "app/components/dialogs/import_utils";
 import { FlatGeobuf, adjustForFgb } from "./flatgeobuf";
 import { TopoJSON } from "./topojson";
 import { CoordinateString } from "./coordinate_string";
+import { GeoPackage } from "./geopackage";
+import { GPX } from "./gpx";
+import { OSM } from "./osm";
+import { XLS } from "./xls";
+import { read, utils } from "xlsx";
+import { PMTiles } from "./pmtiles";
+import { MBTiles } from "./mbtiles";
+import { openSqlite } from "./local/sqlite";
+import { gunzipSync, unzipSync } from "fflate";
+import { VectorTile } from "@mapbox/vector-tile";
+import { PbfReader } from "pbf";
+import { FeatureCollection, FeatureMap } from "types";
 
 describe("convert", () => {
   describe("Shapefile", () => {
@@ -34,6 +57,36 @@ describe("convert", () => {
       ).unsafeCoerce();
       expect(res).toHaveProperty("name", "shapefile.zip");
     });
+    it("back writes the target coordinate system", async () => {
+      const res = (
+        await Shapefile.back(
+          {
+            geojson: {
+              type: "FeatureCollection",
+              features: [
+                {
+                  type: "Feature",
+                  properties: { x: 1 },
+                  geometry: { type: "Point", coordinates: [500000, 0] },
+                },
+              ],
+            },
+          },
+          {
+            type: Shapefile.id,
+            folderId: null,
+            targetCrs: {
+              name: "EPSG:32633",
+              definition: "+proj=utm +zone=33 +datum=WGS84 +units=m +no_defs",
+              code: "32633",
+            },
+          }
+        )
+      ).unsafeCoerce();
+      const files = unzipSync(new Uint8Array(await res.blob.arrayBuffer()));
+      const prj = Object.keys(files).find((name) => name.endsWith(".prj"));
+      expect(new TextDecoder().decode(files[prj!])).toContain("UTM zone 33N");
+    });
     // TODO: extremely difficult to test this portion because
     // of Buffer/ArrayBuffer confusion and jsdom
     // it("forward", async () => {
@@ -58,6 +111,367 @@ describe("convert", () => {
     //   console.log(loop);
     // });
   });
+  describe("GeoPackage", () => {
+    it("round-trips folders and attribute types", async () => {
+      const featureMap: FeatureMap = new Map(
+        Array.from(
+          wrapMap({
+            type: "FeatureCollection",
+            features: [
+              {
+                type: "Feature",
+                properties: { name: "a", count: 2, ratio: 0.5, open: true },
+                geometry: { type: "Point", coordinates: [1, 2] },
+              },
+              {
+                type: "Feature",
+                properties: { name: "b", tags: ["x"] },
+                geometry: null,
+              },
+            ],
+          })
+        ).map(([id, wrappedFeature], i) => [
+          id,
+          { ...wrappedFeature, folderId: i === 0 ? exampleFolder.id : null },
+        ])
+      );
+      const res = (
+        await GeoPackage.back(
+          {
+            geojson: { type: "FeatureCollection", features: [] },
+            featureMap,
+            folderMap: new Map([[exampleFolder.id, exampleFolder]]),
+          },
+          { type: GeoPackage.id, folderId: null }
+        )
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.gpkg");
+
+      const loop = (
+        await GeoPackage.forwardBinary(await res.blob.arrayBuffer(), {
+          ...DEFAULT_IMPORT_OPTIONS,
+          type: GeoPackage.id,
+        })
+      ).unsafeCoerce();
+      expect(loop).toHaveProperty("root", {
+        type: "root",
+        children: [
+          {
+            type: "folder",
+            meta: { name: "features" },
+            children: [
+              {
+                type: "Feature",
+                properties: { name: "b", tags: '["x"]' },
+                geometry: null,
+              },
+            ],
+          },
+          {
+            type: "folder",
+            meta: { name: "Example" },
+            children: [
+              {
+                type: "Feature",
+                properties: { name: "a", count: 2, ratio: 0.5, open: true },
+                geometry: { type: "Point", coordinates: [1, 2] },
+              },
+            ],
+          },
+        ],
+      });
+    });
+  });
+  describe("XLS", () => {
+    it("#back writes one sheet per folder", async () => {
+      const featureMap: FeatureMap = new Map(
+        Array.from(
+          wrapMap({
+            type: "FeatureCollection",
+            features: [
+              {
+                type: "Feature",
+                properties: { name: "a", count: 2, open: true },
+                geometry: { type: "Point", coordinates: [1, 2] },
+              },
+              {
+                type: "Feature",
+                properties: { name: "b", tags: ["x"] },
+                geometry: { type: "Point", coordinates: [3, 4] },
+              },
+            ],
+          })
+        ).map(([id, wrappedFeature], i) => [
+          id,
+          { ...wrappedFeature, folderId: i === 0 ? exampleFolder.id : null },
+        ])
+      );
+      const res = (
+        await XLS.back(
+          {
+            geojson: { type: "FeatureCollection", features: [] },
+            featureMap,
+            folderMap: new Map([[exampleFolder.id, exampleFolder]]),
+          },
+          {
+            type: XLS.id,
+            folderId: null,
+            csvOptions: DEFAULT_IMPORT_OPTIONS.csvOptions,
+          }
+        )
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.xlsx");
+
+      const workbook = read(await res.blob.arrayBuffer());
+      expect(workbook.SheetNames).toEqual(["Features", "Example"]);
+      expect(utils.sheet_to_json(workbook.Sheets.Features)).toEqual([
+        { name: "b", tags: '["x"]', latitude: 4, longitude: 3 },
+      ]);
+      expect(utils.sheet_to_json(workbook.Sheets.Example)).toEqual([
+        { name: "a", count: 2, open: true, latitude: 2, longitude: 1 },
+      ]);
+
+      const loop = (
+        await XLS.forwardBinary(await res.blob.arrayBuffer(), {
+          ...DEFAULT_IMPORT_OPTIONS,
+          type: XLS.id,
+          csvOptions: {
+            ...DEFAULT_IMPORT_OPTIONS.csvOptions,
+            sheet: "Example",
+            latitudeHeader: "latitude",
+            longitudeHeader: "longitude",
+          },
+        })
+      ).unsafeCoerce();
+      expect(flattenResult(loop)).toHaveProperty("features", [
+        {
+          type: "Feature",
+          properties: { name: "a", count: 2, open: true },
+          geometry: { type: "Point", coordinates: [1, 2] },
+        },
+      ]);
+    });
+  });
+  describe("vector tiles", () => {
+    const featureMap: FeatureMap = new Map(
+      Array.from(
+        wrapMap({
+          type: "FeatureCollection",
+          features: [
+            {
+              type: "Feature",
+              properties: { name: "a" },
+              geometry: { type: "Point", coordinates: [1, 2] },
+            },
+            {
+              type: "Feature",
+              properties: { name: "b", count: 2 },
+              geometry: {
+                type: "LineString",
+                coordinates: [
+                  [-10, -10],
+                  [10, 10],
+                ],
+              },
+            },
+          ],
+        })
+      ).map(([id, wrappedFeature], i) => [
+        id,
+        { ...wrappedFeature, folderId: i === 0 ? exampleFolder.id : null },
+      ])
+    );
+    const folderMap = new Map([[exampleFolder.id, exampleFolder]]);
+
+    it("PMTiles#back", async () => {
+      const res = (
+        await PMTiles.back(
+          {
+            geojson: { type: "FeatureCollection", features: [] },
+            featureMap,
+            folderMap,
+          },
+          {
+            type: PMTiles.id,
+            folderId: null,
+            vectorTileOptions: { minZoom: 0, maxZoom: 2 },
+          }
+        )
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.pmtiles");
+
+      const header = new DataView(await res.blob.arrayBuffer());
+      expect(
+        new TextDecoder().decode(new Uint8Array(header.buffer, 0, 7))
+      ).toEqual("PMTiles");
+      expect(header.getUint8(7)).toEqual(3);
+      // The line crosses the center of the map, so with the
+      // tile buffer it touches four tiles at zooms 1 and 2.
+      expect(header.getUint32(72, true)).toEqual(9);
+      expect(header.getUint8(100)).toEqual(0);
+      expect(header.getUint8(101)).toEqual(2);
+      expect(header.getInt32(102, true)).toEqual(-10e7);
+      expect(header.getInt32(114, true)).toEqual(10e7);
+    });
+
+    it("MBTiles#back", async () => {
+      const res = (
+        await MBTiles.back(
+          {
+            geojson: { type: "FeatureCollection", features: [] },
+            featureMap,
+            folderMap,
+          },
+          {
+            type: MBTiles.id,
+            folderId: null,
+            vectorTileOptions: { minZoom: 1, maxZoom: 2 },
+          }
+        )
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.mbtiles");
+
+      const db = await openSqlite(new Uint8Array(await res.blob.arrayBuffer()));
+      expect(
+        db.exec(
+          "SELECT zoom_level, tile_column, tile_row FROM tiles ORDER BY zoom_level, tile_column, tile_row"
+        )[0].values
+      ).toEqual([
+        [1, 0, 0],
+        [1, 0, 1],
+        [1, 1, 0],
+        [1, 1, 1],
+        [2, 1, 1],
+        [2, 1, 2],
+        [2, 2, 1],
+        [2, 2, 2],
+      ]);
+      const [json] = db.exec(
+        "SELECT value FROM metadata WHERE name = 'json'"
+      )[0].values[0];
+      expect(JSON.parse(String(json))).toEqual({
+        vector_layers: [
+          { id: "features", fields: { name: "String", count: "Number" } },
+          { id: "Example", fields: { name: "String" } },
+        ],
+      });
+      db.close();
+    });
+
+    it("encodes tiles that can be decoded", async () => {
+      const res = (
+        await MBTiles.back(
+          {
+            geojson: { type: "FeatureCollection", features: [] },
+            featureMap,
+            folderMap,
+          },
+          {
+            type: MBTiles.id,
+            folderId: null,
+            vectorTileOptions: { minZoom: 0, maxZoom: 0 },
+          }
+        )
+      ).unsafeCoerce();
+      const db = await openSqlite(new Uint8Array(await res.blob.arrayBuffer()));
+      const [data] = db.exec("SELECT tile_data FROM tiles")[0].values[0];
+      db.close();
+
+      const tile = new VectorTile(
+        new PbfReader(gunzipSync(data as Uint8Array))
+      );
+      expect(Object.keys(tile.layers).sort()).toEqual(["Example", "features"]);
+
+      const example = tile.layers.Example;
+      expect(example.extent).toEqual(4096);
+      expect(example.length).toEqual(1);
+      const point = example.feature(0).toGeoJSON(0, 0, 0);
+      expect(point.properties).toEqual({ name: "a" });
+      expect(point.geometry.type).toEqual("Point");
+      const [lon, lat] = (point.geometry as Point).coordinates;
+      expect(lon).toBeCloseTo(1, 0);
+      expect(lat).toBeCloseTo(2, 0);
+
+      const line = tile.layers.features.feature(0).toGeoJSON(0, 0, 0);
+      expect(line.properties).toEqual({ name: "b", count: 2 });
+      expect(line.geometry.type).toEqual("LineString");
+      const coordinates = (line.geometry as LineString).coordinates;
+      expect(coordinates).toHaveLength(2);
+      expect(coordinates[0][0]).toBeCloseTo(-10, 0);
+      expect(coordinates[0][1]).toBeCloseTo(-10, 0);
+      expect(coordinates[1][0]).toBeCloseTo(10, 0);
+      expect(coordinates[1][1]).toBeCloseTo(10, 0);
+    });
+
+    it("rejects a minimum zoom above the maximum zoom", async () => {
+      for (const driver of [PMTiles, MBTiles]) {
+        const res = await driver
+          .back(
+            {
+              geojson: { type: "FeatureCollection", features: [] },
+              featureMap,
+              folderMap,
+            },
+            {
+              type: driver.id,
+              folderId: null,
+              vectorTileOptions: { minZoom: 3, maxZoom: 2 },
+            }
+          )
+          .run();
+        expect(res.isLeft()).toBeTruthy();
+      }
+    });
+
+    it("stops past the tile limit", async () => {
+      const worldMap: FeatureMap = new Map(
+        wrapMap({
+          type: "FeatureCollection",
+          features: [
+            {
+              type: "Feature",
+              properties: {},
+              geometry: {
+                type: "Polygon",
+                coordinates: [
+                  [
+                    [-180, -85],
+                    [180, -85],
+                    [180, 85],
+                    [-180, 85],
+                    [-180, -85],
+                  ],
+                ],
+              },
+            },
+          ],
+        })
+      );
+      const res = await PMTiles.back(
+        {
+          geojson: { type: "FeatureCollection", features: [] },
+          featureMap: worldMap,
+          folderMap: new Map(),
+        },
+        {
+          type: PMTiles.id,
+          folderId: null,
+          // Covering the world, this is 87,381 tiles.
+          vectorTileOptions: { minZoom: 0, maxZoom: 8 },
+        }
+      ).run();
+      expect(res.extract()).toHaveProperty(
+        "message",
+        "This export has more than 50,000 tiles. Try a lower maximum zoom."
+      );
+    });
+
+    it("PMTiles cannot be imported", async () => {
+      expect(
+        (await PMTiles.forwardBinary(new ArrayBuffer(0)).run()).isLeft()
+      ).toBeTruthy();
+    });
+  });
   describe("BBOX", () => {
     const res = {
       features: [
@@ -98,6 +512,161 @@ describe("convert", () => {
     it("id", () => {
       expect(TCX.id).toEqual("tcx");
     });
+    it("round-trips tracks", async () => {
+      const track: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            properties: {
+              coordinateProperties: {
+                times: ["2020-01-01T00:00:00Z", "2020-01-01T00:01:00Z"],
+                heart: [100, 120],
+              },
+            },
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [1, 2, 10],
+                [3, 4, 20],
+              ],
+            },
+          },
+        ],
+      };
+      const res = (
+        await TCX.back({ geojson: track }, { type: TCX.id, folderId: null })
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.tcx");
+      const loop = (await TCX.forwardString(await res.blob.text()))
+        .map(flattenResult)
+        .unsafeCoerce();
+      expect(loop.features[0].geometry).toEqual(track.features[0].geometry);
+      expect(loop.features[0].properties).toHaveProperty(
+        "coordinateProperties",
+        track.features[0].properties!.coordinateProperties
+      );
+    });
+  });
+
+  describe("GPX", () => {
+    it("round-trips waypoints and tracks", async () => {
+      const input: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            properties: {
+              name: "Track & field",
+              desc: "A <track>",
+              coordinateProperties: {
+                times: ["2020-01-01T00:00:00Z", "2020-01-01T00:01:00Z"],
+              },
+            },
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [1, 2],
+                [3, 4],
+              ],
+            },
+          },
+          {
+            type: "Feature",
+            properties: {
+              name: "Camp",
+              desc: "Tents",
+              time: "2020-01-01T00:00:00Z",
+            },
+            geometry: { type: "Point", coordinates: [5, 6, 7] },
+          },
+          {
+            type: "Feature",
+            properties: {},
+            geometry: fcPoly.features[0].geometry,
+          },
+        ],
+      };
+      const res = (
+        await GPX.back({ geojson: input }, { type: GPX.id, folderId: null })
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.gpx");
+      const loop = (await GPX.forwardString(await res.blob.text()))
+        .map(flattenResult)
+        .unsafeCoerce();
+      expect(loop.features).toEqual([
+        {
+          type: "Feature",
+          properties: {
+            _gpxType: "trk",
+            // togeojson picks up the first trackpoint's time
+            time: "2020-01-01T00:00:00Z",
+            ...input.features[0].properties,
+          },
+          geometry: input.features[0].geometry,
+        },
+        input.features[1],
+      ]);
+    });
+  });
+
+  describe("OSM", () => {
+    it("round-trips tagged nodes, ways and areas", async () => {
+      const input: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            properties: { amenity: "cafe", name: "Joe's" },
+            geometry: { type: "Point", coordinates: [1, 2] },
+          },
+          {
+            type: "Feature",
+            properties: { highway: "residential" },
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [0, 0],
+                [1, 1],
+              ],
+            },
+          },
+          {
+            type: "Feature",
+            properties: { building: "yes" },
+            geometry: {
+              type: "Polygon",
+              coordinates: [
+                [
+                  [0, 0],
+                  [1, 0],
+                  [1, 1],
+                  [0, 0],
+                ],
+              ],
+            },
+          },
+        ],
+      };
+      const res = (
+        await OSM.back({ geojson: input }, { type: OSM.id, folderId: null })
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.osm");
+      const text = await res.blob.text();
+      expect(text).not.toMatch(/id="\d/);
+      const loop = (await OSM.forwardString(text))
+        .map(flattenResult)
+        .unsafeCoerce();
+      expect(loop.features).toHaveLength(3);
+      for (const feature of input.features) {
+        expect(loop.features).toContainEqual(
+          expect.objectContaining({
+            geometry: feature.geometry,
+            properties: expect.objectContaining(feature.properties),
+          })
+        );
+      }
+    });
   });
 
   describe("CoordinateString", () => {
@@ -274,6 +843,53 @@ describe("convert", () => {
         ],
       });
     });
+    it("back", async () => {
+      const res = (
+        await WKT.back(
+          {
+            geojson: {
+              type: "FeatureCollection",
+              features: [
+                ...fcLineString.features,
+                { type: "Feature", properties: {}, geometry: null },
+                ...twoPoints.features,
+              ],
+            },
+          },
+          { type: WKT.id, folderId: null }
+        )
+      ).unsafeCoerce();
+      expect(res).toHaveProperty("name", "features.wkt");
+      expect((await res.blob.text()).split("\n")).toEqual([
+        "LINESTRING (0 0,1 1,2 2)",
+        "POINT (0 1)",
+        "POINT (2 3)",
+      ]);
+    });
+    it("round-trips every feature", async () => {
+      const input: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [...fcLineString.features, ...twoPoints.features],
+      };
+      const res = (
+        await WKT.back({ geojson: input }, { type: WKT.id, folderId: null })
+      ).unsafeCoerce();
+      const loop = (await WKT.forwardString(await res.blob.text()))
+        .map(flattenResult)
+        .unsafeCoerce();
+      expect(loop.features.map((feature) => feature.geometry)).toEqual(
+        input.features.map((feature) => feature.geometry)
+      );
+    });
+    it("reads a geometry split across lines", async () => {
+      const loop = (
+        await WKT.forwardString("POLYGON ((0 0,\n1 0,\n1 1,\n0 0))")
+      )
+        .map(flattenResult)
+        .unsafeCoerce();
+      expect(loop.features).toHaveLength(1);
+      expect(loop.features[0].geometry).toHaveProperty("type", "Polygon");
+    });
     it("featureToString", async () => {
       await expect(
         WKT.featureToString({
@@ -347,6 +963,64 @@ describe("convert", () => {
     });
   });
 
+  describe("fromGeoJSON", () => {
+    const UTM = {
+      name: "EPSG:32633",
+      definition: "+proj=utm +zone=33 +datum=WGS84 +units=m +no_defs",
+      code: "32633",
+    };
+    const featureMap = wrapMap({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: {},
+          geometry: { type: "Point", coordinates: [15, 0] },
+        },
+      ],
+    });
+
+    it("reprojects to the target coordinate system", async () => {
+      const { result } = (
+        await fromGeoJSON(
+          { featureMap, folderMap: new Map() },
+          {
+            type: "geojson",
+            folderId: null,
+            geojsonOptions: DEFAULT_EXPORT_GEOJSON_OPTIONS,
+            targetCrs: UTM,
+          }
+        ).run()
+      ).unsafeCoerce();
+      const geojson = JSON.parse(await result.blob.text());
+      expect(geojson.crs).toEqual({
+        type: "name",
+        properties: { name: "urn:ogc:def:crs:EPSG::32633" },
+      });
+      const [x, y] = geojson.features[0].geometry.coordinates;
+      expect(x).toBeCloseTo(500000, 3);
+      expect(y).toBeCloseTo(0, 3);
+    });
+
+    it("rejects types that are always WGS84", async () => {
+      expect(
+        await fromGeoJSON(
+          { featureMap, folderMap: new Map() },
+          { type: "gpx", folderId: null, targetCrs: UTM }
+        ).run()
+      ).toBeLeft();
+    });
+
+    it("rejects KML, which is WGS84 by definition", async () => {
+      expect(
+        await fromGeoJSON(
+          { featureMap, folderMap: new Map() },
+          { type: "kml", folderId: null, targetCrs: UTM }
+        ).run()
+      ).toBeLeft();
+    });
+  });
+
   describe("GeoJSON", () => {
     const OPTIONS = {
       ...DEFAULT_IMPORT_OPTIONS,
@@ -397,6 +1071,24 @@ describe("convert", () => {
         ).unsafeCoerce()
       ).toHaveProperty("geojson", featureOut);
     });
+    it("forward from a source coordinate system", async () => {
+      const result = (
+        await GeoJSON.forwardString(
+          JSON.stringify({ type: "Point", coordinates: [500000, 0] }),
+          {
+            ...OPTIONS,
+            sourceCrs: {
+              name: "EPSG:32633",
+              definition: "+proj=utm +zone=33 +datum=WGS84 +units=m +no_defs",
+            },
+          }
+        )
+      ).unsafeCoerce();
+      const [lon, lat] = (flattenResult(result).features[0].geometry as Point)
+        .coordinates;
+      expect(lon).toBeCloseTo(15, 6);
+      expect(lat).toBeCloseTo(0, 6);
+    });
     it("back", async () => {
       expect(
         (
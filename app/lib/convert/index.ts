@@ -30,8 +30,21 @@ import { CoordinateString } from "./coordinate_string";
 import isPlainObject from "lodash/isPlainObject";
 import { JsonObject, JsonValue, SetOptional } from "type-fest";
 import { FlatGeobuf } from "./flatgeobuf";
+import { GeoPackage } from "./geopackage";
+import { PMTiles } from "./pmtiles";
+import { MBTiles } from "./mbtiles";
 import { Data } from "state/jotai";
 import { ProxyMarked } from "comlink";
+import {
+  findCrsCode,
+  getProjector,
+  reprojectFeatureMap,
+} from "./local/reproject";
+import {
+  epsgToCoordinateSystem,
+  getEpsg,
+  getEpsgDB,
+} from "app/lib/get_epsg_db";
 
 export enum GeocodingBehavior {
   NULL_GEOMETRY,
@@ -70,6 +83,7 @@ export const DEFAULT_IMPORT_OPTIONS: Omit<ImportOptions, "type"> = {
     order: "LONLAT",
   },
   removeCoincidents: true,
+  sourceCrs: null,
   csvOptions: {
     sheet: "",
     longitudeHeader: "",
@@ -98,6 +112,19 @@ export const DEFAULT_IMPORT_OPTIONS: Omit<ImportOptions, "type"> = {
   },
 } as const;
 
+/**
+ * A coordinate system that imports are converted
+ * from, or exports are converted to.
+ */
+export interface CoordinateSystem {
+  /** An EPSG code and name, or "Custom" */
+  name: string;
+  /** A proj4 string or WKT */
+  definition: string;
+  /** The EPSG code, if this came from the EPSG database */
+  code?: string;
+}
+
 /**
  * Import options with object type.
  */
@@ -108,6 +135,11 @@ export interface ImportOptions {
     order: "LONLAT" | "LATLON";
   };
   removeCoincidents?: boolean;
+  /**
+   * For GeoJSON, GeoJSONL, FlatGeobuf, and the
+   * coordinate and WKT kinds of CSV.
+   */
+  sourceCrs?: CoordinateSystem | null;
   csvOptions: {
     // For XLSX, technically. Shoving it in here.
     sheet: string;
@@ -165,8 +197,42 @@ export interface ExportOptions {
     includeId: boolean;
   };
   csvOptions?: ImportOptions["csvOptions"];
+  vectorTileOptions?: {
+    minZoom: number;
+    maxZoom: number;
+  };
+  /**
+   * Coordinates are WGS84 unless this is set,
+   * for the types in EXPORT_CRS_TYPES.
+   */
+  targetCrs?: CoordinateSystem | null;
 }
 
+/**
+ * Types that can be exported in a coordinate system
+ * other than WGS84. The others are WGS84 by definition,
+ * or would need their coordinate system recorded in
+ * a way that we don't write.
+ */
+export const EXPORT_CRS_TYPES = new Set<FileType["id"]>([
+  "geojson",
+  "geojsonl",
+  "csv",
+  "xls",
+  "shapefile",
+  "flatgeobuf",
+  "wkt",
+]);
+
+/**
+ * Types that can be exported, but not imported,
+ * so they aren't offered as import formats.
+ */
+export const EXPORT_ONLY_TYPES = new Set<FileType["id"]>([
+  "pmtiles",
+  "mbtiles",
+]);
+
 export const DEFAULT_EXPORT_GEOJSON_OPTIONS: ExportOptions["geojsonOptions"] = {
   winding: "RFC7946",
   truncate: true,
@@ -175,6 +241,19 @@ export const DEFAULT_EXPORT_GEOJSON_OPTIONS: ExportOptions["geojsonOptions"] = {
   includeId: false,
 };
 
+export const DEFAULT_EXPORT_VECTOR_TILE_OPTIONS: NonNullable<
+  ExportOptions["vectorTileOptions"]
+> = {
+  minZoom: 0,
+  maxZoom: 12,
+};
+
+/**
+ * Vector tile counts grow fourfold with each zoom level,
+ * so exports are limited to this zoom.
+ */
+export const MAX_EXPORT_VECTOR_TILE_ZOOM = 16;
+
 export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
   geojsonOptions: DEFAULT_EXPORT_GEOJSON_OPTIONS,
   folderId: null,
@@ -214,6 +293,9 @@ export interface FileType {
     | "coordinate-string"
     | "xls"
     | "flatgeobuf"
+    | "geopackage"
+    | "pmtiles"
+    | "mbtiles"
     | "osm";
   readonly label: string | string[];
   readonly extensions: string[];
@@ -257,6 +339,9 @@ export const FILE_TYPES = [
   BBOX,
   Shapefile,
   FlatGeobuf,
+  GeoPackage,
+  PMTiles,
+  MBTiles,
   CoordinateString,
   OSM,
 ] as const;
@@ -265,6 +350,26 @@ function assertIsObject(obj: JsonValue): obj is JsonObject {
   return isPlainObject(obj);
 }
 
+/**
+ * How much of a GeoJSON file to search for a crs member.
+ */
+const CRS_HEAD_LENGTH = 4096;
+
+/**
+ * GeoJSON written to the 2008 spec can name a coordinate
+ * system other than WGS84 in its crs member.
+ */
+async function detectSourceCrs(head: string): Promise<CoordinateSystem | null> {
+  const code = findCrsCode(head);
+  if (!code) return null;
+  try {
+    const entry = getEpsg(await getEpsgDB(), code);
+    return entry && epsgToCoordinateSystem(entry);
+  } catch (e) {
+    return null;
+  }
+}
+
 async function detectJson(file: File) {
   // performance here is rough:
   // we're parsing the full json object.
@@ -278,7 +383,11 @@ async function detectJson(file: File) {
       if (obj.type === "Topology") {
         return { ...DEFAULT_IMPORT_OPTIONS, type: TopoJSON.id };
       } else if (typeof obj.type === "string" && GEOJSON_TYPES.has(obj.type)) {
-        return { ...DEFAULT_IMPORT_OPTIONS, type: GeoJSON.id };
+        return {
+          ...DEFAULT_IMPORT_OPTIONS,
+          type: GeoJSON.id,
+          sourceCrs: await detectSourceCrs(text.slice(0, CRS_HEAD_LENGTH)),
+        };
       }
       return throwE(new PlacemarkError("Could not determine JSON type"));
     }
@@ -312,6 +421,12 @@ export async function detectType(file: File) {
           return {
             ...DEFAULT_IMPORT_OPTIONS,
             type: type.id,
+            sourceCrs:
+              type.id === GeoJSON.id
+                ? await detectSourceCrs(
+                    await file.slice(0, CRS_HEAD_LENGTH).text()
+                  )
+                : null,
           };
         }
       }
@@ -360,7 +475,7 @@ export function fromGeoJSON(
   exportOptions: ExportOptions
 ) {
   return EitherAsync<ConvertError, ExportedData>(
-    async ({ throwE, fromPromise }) => {
+    async ({ throwE, fromPromise, liftEither }) => {
       const type = findType(exportOptions.type);
       if (!("back" in type)) {
         return throwE(new ConvertError("Unexpected missing type"));
@@ -373,13 +488,29 @@ export function fromGeoJSON(
           exportOptions.folderId
         );
 
+      let exportedFeatures = filteredFeatures;
+      const { targetCrs } = exportOptions;
+      if (targetCrs) {
+        if (!EXPORT_CRS_TYPES.has(type.id)) {
+          return throwE(
+            new ConvertError(
+              "This format can only be exported in WGS84 coordinates"
+            )
+          );
+        }
+        const project = await liftEither(
+          await getProjector("EPSG:4326", targetCrs.definition)
+        );
+        exportedFeatures = reprojectFeatureMap(filteredFeatures, project);
+      }
+
       const geojson = UWrappedFeature.toFeatureCollection(
-        Array.from(filteredFeatures.values())
+        Array.from(exportedFeatures.values())
       );
 
       const result = await fromPromise(
         type.back(
-          { geojson, featureMap: filteredFeatures, folderMap: filteredFolders },
+          { geojson, featureMap: exportedFeatures, folderMap: filteredFolders },
           exportOptions
         )
       );
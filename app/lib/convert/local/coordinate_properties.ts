@@ -0,0 +1,24 @@
+import type { Feature } from "types";
+import type { JsonObject, JsonValue } from "type-fest";
+import isPlainObject from "lodash/isPlainObject";
+
+/**
+ * Read a per-vertex array from coordinateProperties, like times
+ * or heart rates, in the shape that togeojson produces: a flat array
+ * for LineStrings and an array of arrays for MultiLineStrings.
+ */
+export function getCoordinateProperty(
+  feature: Feature,
+  name: string,
+  segment: number
+): JsonValue[] {
+  const coordinateProperties = feature.properties?.coordinateProperties;
+  if (!isPlainObject(coordinateProperties)) return [];
+  const values = (coordinateProperties as JsonObject)[name];
+  if (!Array.isArray(values)) return [];
+  if (feature.geometry?.type === "MultiLineString") {
+    const segmentValues = values[segment] as JsonValue;
+    return Array.isArray(segmentValues) ? (segmentValues as JsonValue[]) : [];
+  }
+  return values as JsonValue[];
+}
@@ -21,6 +21,7 @@ import {
 } from "./shared";
 import { JsonObject, JsonValue } from "type-fest";
 import { MAX_GEOCODER_ROWS } from "app/lib/constants";
+import { getProjector, Projector, reprojectFeature } from "./reproject";
 
 interface Scores {
   latitudeScore: number;
@@ -154,12 +155,14 @@ function scoreColumn(column: string, regex: RegExp) {
 export async function csvToGeoJSON(
   csv: string,
   options: ImportOptions["csvOptions"],
-  progress: ProgressCb
+  progress: ProgressCb,
+  sourceCrs: ImportOptions["sourceCrs"] = null
 ): Promise<FeatureCollection> {
   if (!options) throw new Error("Options should not be undefined");
   const { kind, delimiter } = options;
 
   let zipDb: ZipDB;
+  let project: Projector | null = null;
   let i = 0;
   const rows = dsvFormat(delimiter).parse(csv);
   const features: Feature[] = [];
@@ -178,11 +181,20 @@ export async function csvToGeoJSON(
       }
       break;
     }
-    case "geojson":
     case "wkt":
-    case "join":
-    case "polyline":
     case "lonlat": {
+      // Only coordinates and WKT can be in another
+      // coordinate system, the other kinds are WGS84.
+      if (sourceCrs) {
+        const projector = await getProjector(sourceCrs.definition);
+        if (!projector.isRight()) throw projector.extract();
+        project = projector.extract();
+      }
+      break;
+    }
+    case "geojson":
+    case "join":
+    case "polyline": {
       break;
     }
   }
@@ -200,14 +212,14 @@ export async function csvToGeoJSON(
           EnforcedLonLatOptions.parse(options)
         );
         if (feature) {
-          features.push(feature);
+          features.push(project ? reprojectFeature(feature, project) : feature);
         }
         break;
       }
       case "wkt": {
         const feature = castRowWKT(castRow, EnforcedWKTOptions.parse(options));
         if (feature) {
-          features.push(feature);
+          features.push(project ? reprojectFeature(feature, project) : feature);
         }
         break;
       }
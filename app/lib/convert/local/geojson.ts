@@ -47,12 +47,32 @@ export function wrappedFeaturesToFeatureCollection(
   return featureCollection;
 }
 
+/**
+ * RFC 7946 removed the crs member, but it's still the
+ * way to tell other tools that coordinates aren't WGS84.
+ */
+function crsMember(targetCrs: ExportOptions["targetCrs"]) {
+  if (!targetCrs) return {};
+  return {
+    crs: {
+      type: "name",
+      properties: {
+        name: targetCrs.code
+          ? `urn:ogc:def:crs:EPSG::${targetCrs.code}`
+          : targetCrs.definition,
+      },
+    },
+  };
+}
+
 export function geojsonToString(
   featureMap: FeatureMap,
-  options: ExportOptions["geojsonOptions"]
+  options: ExportOptions["geojsonOptions"],
+  targetCrs: ExportOptions["targetCrs"] = null
 ) {
   const featureCollection: FeatureCollection = {
     type: "FeatureCollection",
+    ...crsMember(targetCrs),
     features: Array.from(featureMap.values(), (wrappedFeature) => {
       return rewindFeature(
         wrappedFeatureToExportable(wrappedFeature, options),
@@ -5,12 +5,19 @@ import { geoJSONToWkt } from "betterknown";
 import { Maybe } from "purify-ts/Maybe";
 import { geoJSONToPolyline } from "@placemarkio/polyline";
 
+type Row = Record<string, unknown>;
+
+/**
+ * Flatten features into table rows, with geometries encoded
+ * according to the CSV options. Shared by the CSV and XLSX
+ * exporters.
+ */
 // TODO: what if the feature has latitude & longitude properties?
-export function geojsonToCSV(
+export function geojsonToRows(
   geojson: FeatureCollection,
   options: ExportOptions
-) {
-  const rows = [];
+): Row[] {
+  const rows: Row[] = [];
 
   const kind = options.csvOptions?.kind || "lonlat";
 
@@ -67,5 +74,12 @@ export function geojsonToCSV(
     }
   }
 
-  return csvFormat(rows);
+  return rows;
+}
+
+export function geojsonToCSV(
+  geojson: FeatureCollection,
+  options: ExportOptions
+) {
+  return csvFormat(geojsonToRows(geojson, options));
 }
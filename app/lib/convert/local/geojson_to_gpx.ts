@@ -0,0 +1,98 @@
+import type { Feature, FeatureCollection, Position } from "types";
+import type { JsonValue } from "type-fest";
+import { escapeXml } from "../utils";
+import { getCoordinateProperty } from "./coordinate_properties";
+
+function textElement(name: string, value: JsonValue | undefined) {
+  if (value === null || value === undefined || value === "") return "";
+  return `<${name}>${escapeXml(value)}</${name}>`;
+}
+
+function point(
+  name: "wpt" | "trkpt",
+  position: Position,
+  children: string
+): string {
+  const [lon, lat, ele] = position;
+  return `<${name} lat="${lat}" lon="${lon}">${
+    ele === undefined ? "" : textElement("ele", ele)
+  }${children}</${name}>`;
+}
+
+function waypoint(feature: Feature, position: Position) {
+  const properties = feature.properties || {};
+  return point(
+    "wpt",
+    position,
+    [
+      textElement("time", properties.time),
+      textElement("name", properties.name),
+      textElement("cmt", properties.cmt),
+      textElement("desc", properties.desc),
+      textElement("sym", properties.sym),
+      textElement("type", properties.type),
+    ].join("")
+  );
+}
+
+function track(feature: Feature, segments: Position[][]) {
+  const properties = feature.properties || {};
+  return `<trk>${[
+    textElement("name", properties.name),
+    textElement("cmt", properties.cmt),
+    textElement("desc", properties.desc),
+    textElement("type", properties.type),
+  ].join("")}${segments
+    .map((segment, i) => {
+      const times = getCoordinateProperty(feature, "times", i);
+      return `<trkseg>${segment
+        .map((position, j) =>
+          point("trkpt", position, textElement("time", times[j]))
+        )
+        .join("")}</trkseg>`;
+    })
+    .join("")}</trk>`;
+}
+
+/**
+ * Convert GeoJSON to GPX 1.1. Points become waypoints and
+ * lines become tracks: other geometry types are not
+ * representable in GPX and are skipped.
+ */
+export function geojsonToGPX(geojson: FeatureCollection): string {
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  for (const feature of geojson.features) {
+    const { geometry } = feature;
+    switch (geometry?.type) {
+      case "Point": {
+        waypoints.push(waypoint(feature, geometry.coordinates));
+        break;
+      }
+      case "MultiPoint": {
+        for (const position of geometry.coordinates) {
+          waypoints.push(waypoint(feature, position));
+        }
+        break;
+      }
+      case "LineString": {
+        tracks.push(track(feature, [geometry.coordinates]));
+        break;
+      }
+      case "MultiLineString": {
+        tracks.push(track(feature, geometry.coordinates));
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+
+  // GPX requires waypoints to come before tracks.
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx xmlns="http://www.topografix.com/GPX/1/1" version="1.1" creator="Placemark">
+${[...waypoints, ...tracks].join("\n")}
+</gpx>`;
+}
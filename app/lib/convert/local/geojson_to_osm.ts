@@ -0,0 +1,197 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "types";
+import type { JsonValue } from "type-fest";
+import { escapeXml } from "../utils";
+
+/**
+ * Properties that osmtogeojson adds from element metadata
+ * rather than tags. These are skipped when writing tags so that
+ * an import-export round trip doesn't turn them into tags.
+ */
+const OSM_META_KEYS = new Set([
+  "id",
+  "timestamp",
+  "version",
+  "changeset",
+  "user",
+  "uid",
+]);
+
+type Tags = Array<[string, string]>;
+
+interface Member {
+  type: "way";
+  ref: number;
+  role: "outer" | "inner";
+}
+
+function tagValue(value: JsonValue): string | null {
+  if (value === null || value === "") return null;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function getTags(feature: Feature): Tags {
+  const tags: Tags = [];
+  for (const [key, value] of Object.entries(feature.properties || {})) {
+    if (OSM_META_KEYS.has(key)) continue;
+    const str = tagValue(value);
+    if (str !== null) tags.push([key, str]);
+  }
+  return tags;
+}
+
+function tagsToXml(tags: Tags) {
+  return tags
+    .map(([k, v]) => `<tag k="${escapeXml(k)}" v="${escapeXml(v)}"/>`)
+    .join("");
+}
+
+/**
+ * Builds an .osm document with new (negative) ids, the
+ * convention that JOSM and other editors use for objects
+ * that have not yet been uploaded.
+ */
+class OsmWriter {
+  nextId = -1;
+  nodes: string[] = [];
+  ways: string[] = [];
+  relations: string[] = [];
+  /**
+   * Reuse nodes for identical untagged positions so that
+   * shared vertices and closed rings stay connected.
+   */
+  nodeIds = new Map<string, number>();
+
+  id() {
+    return this.nextId--;
+  }
+
+  node(position: Position, tags: Tags = []) {
+    const [lon, lat] = position;
+    const key = `${lon},${lat}`;
+    if (!tags.length) {
+      const existing = this.nodeIds.get(key);
+      if (existing !== undefined) return existing;
+    }
+    const id = this.id();
+    if (!tags.length) this.nodeIds.set(key, id);
+    this.nodes.push(
+      tags.length
+        ? `<node id="${id}" lat="${lat}" lon="${lon}">${tagsToXml(tags)}</node>`
+        : `<node id="${id}" lat="${lat}" lon="${lon}"/>`
+    );
+    return id;
+  }
+
+  way(positions: Position[], tags: Tags = []) {
+    const refs = positions.map((position) => this.node(position));
+    const id = this.id();
+    this.ways.push(
+      `<way id="${id}">${refs
+        .map((ref) => `<nd ref="${ref}"/>`)
+        .join("")}${tagsToXml(tags)}</way>`
+    );
+    return id;
+  }
+
+  relation(members: Member[], tags: Tags) {
+    const id = this.id();
+    this.relations.push(
+      `<relation id="${id}">${members
+        .map(
+          (member) =>
+            `<member type="${member.type}" ref="${member.ref}" role="${member.role}"/>`
+        )
+        .join("")}${tagsToXml(tags)}</relation>`
+    );
+    return id;
+  }
+
+  polygons(polygons: Position[][][], tags: Tags) {
+    // A simple polygon can be a closed way, but anything
+    // with holes or multiple parts needs a multipolygon relation.
+    if (polygons.length === 1 && polygons[0].length === 1) {
+      this.way(
+        polygons[0][0],
+        tags.some(([k]) => k === "area") ? tags : [...tags, ["area", "yes"]]
+      );
+      return;
+    }
+    const members: Member[] = [];
+    for (const polygon of polygons) {
+      polygon.forEach((ring, i) => {
+        members.push({
+          type: "way",
+          ref: this.way(ring),
+          role: i === 0 ? "outer" : "inner",
+        });
+      });
+    }
+    this.relation(members, [
+      ["type", "multipolygon"],
+      ...tags.filter(([k]) => k !== "type"),
+    ]);
+  }
+
+  geometry(geometry: Geometry, tags: Tags) {
+    switch (geometry.type) {
+      case "Point": {
+        this.node(geometry.coordinates, tags);
+        break;
+      }
+      case "MultiPoint": {
+        for (const position of geometry.coordinates) {
+          this.node(position, tags);
+        }
+        break;
+      }
+      case "LineString": {
+        this.way(geometry.coordinates, tags);
+        break;
+      }
+      case "MultiLineString": {
+        for (const line of geometry.coordinates) {
+          this.way(line, tags);
+        }
+        break;
+      }
+      case "Polygon": {
+        this.polygons([geometry.coordinates], tags);
+        break;
+      }
+      case "MultiPolygon": {
+        this.polygons(geometry.coordinates, tags);
+        break;
+      }
+      case "GeometryCollection": {
+        for (const child of geometry.geometries) {
+          this.geometry(child, tags);
+        }
+        break;
+      }
+    }
+  }
+
+  toString() {
+    // Elements must be ordered nodes, ways, relations.
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6" generator="Placemark">
+${[...this.nodes, ...this.ways, ...this.relations].join("\n")}
+</osm>`;
+  }
+}
+
+/**
+ * Convert GeoJSON to OpenStreetMap XML. Every element gets a
+ * negative id, so editors treat all of them as new objects.
+ * Features without geometries are skipped.
+ */
+export function geojsonToOSM(geojson: FeatureCollection): string {
+  const writer = new OsmWriter();
+  for (const feature of geojson.features) {
+    if (feature.geometry) {
+      writer.geometry(feature.geometry, getTags(feature));
+    }
+  }
+  return writer.toString();
+}
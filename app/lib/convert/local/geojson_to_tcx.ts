@@ -0,0 +1,96 @@
+import type { Feature, FeatureCollection, Position } from "types";
+import type { JsonValue } from "type-fest";
+import { escapeXml } from "../utils";
+import { getCoordinateProperty } from "./coordinate_properties";
+import measureLength from "@turf/length";
+
+function trackpoint(
+  position: Position,
+  time: JsonValue | undefined,
+  heartRate: JsonValue | undefined
+) {
+  const [lon, lat, ele] = position;
+  return `<Trackpoint>${
+    typeof time === "string" ? `<Time>${escapeXml(time)}</Time>` : ""
+  }<Position><LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>${lon}</LongitudeDegrees></Position>${
+    ele === undefined ? "" : `<AltitudeMeters>${ele}</AltitudeMeters>`
+  }${
+    typeof heartRate === "number"
+      ? `<HeartRateBpm><Value>${Math.round(heartRate)}</Value></HeartRateBpm>`
+      : ""
+  }</Trackpoint>`;
+}
+
+function lap(feature: Feature, segments: Position[][]) {
+  const properties = feature.properties || {};
+  const firstTime = getCoordinateProperty(feature, "times", 0)[0];
+  const startTime =
+    typeof firstTime === "string" ? firstTime : new Date(0).toISOString();
+  return `<Lap StartTime="${escapeXml(startTime)}">${[
+    `<TotalTimeSeconds>${
+      Number(properties.totalTimeSeconds) || 0
+    }</TotalTimeSeconds>`,
+    `<DistanceMeters>${
+      Number(properties.distanceMeters) ||
+      measureLength(
+        {
+          type: "Feature",
+          properties: {},
+          geometry: { type: "MultiLineString", coordinates: segments },
+        },
+        { units: "meters" }
+      )
+    }</DistanceMeters>`,
+    `<Intensity>Active</Intensity>`,
+    `<TriggerMethod>Manual</TriggerMethod>`,
+  ].join("")}${segments
+    .map((segment, i) => {
+      const times = getCoordinateProperty(feature, "times", i);
+      const heart = getCoordinateProperty(feature, "heart", i);
+      return `<Track>${segment
+        .map((position, j) => trackpoint(position, times[j], heart[j]))
+        .join("")}</Track>`;
+    })
+    .join("")}</Lap>`;
+}
+
+/**
+ * Convert GeoJSON to TCX. Each LineString or MultiLineString
+ * becomes a lap in a single activity, and times and heart rates
+ * stored in coordinateProperties are written per-trackpoint.
+ */
+export function geojsonToTCX(geojson: FeatureCollection): string {
+  const laps: string[] = [];
+  let id: string | null = null;
+
+  for (const feature of geojson.features) {
+    const { geometry } = feature;
+    switch (geometry?.type) {
+      case "LineString": {
+        laps.push(lap(feature, [geometry.coordinates]));
+        break;
+      }
+      case "MultiLineString": {
+        laps.push(lap(feature, geometry.coordinates));
+        break;
+      }
+      default: {
+        continue;
+      }
+    }
+    if (id === null) {
+      const firstTime = getCoordinateProperty(feature, "times", 0)[0];
+      id = typeof firstTime === "string" ? firstTime : null;
+    }
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+<Activities>
+<Activity Sport="Other">
+<Id>${escapeXml(id || new Date(0).toISOString())}</Id>
+${laps.join("\n")}
+</Activity>
+</Activities>
+</TrainingCenterDatabase>`;
+}
@@ -0,0 +1,71 @@
+import type { ExportOptions } from "app/lib/convert";
+import type { FeatureTable } from "../utils";
+import { utils, write } from "xlsx";
+import { geojsonToRows } from "./geojson_to_csv";
+
+/**
+ * Excel limits sheet names to 31 characters and
+ * disallows a handful of punctuation characters.
+ */
+const MAX_SHEET_NAME = 31;
+const INVALID_SHEET_CHARACTERS = /[[\]:*?/\\]/g;
+
+function sheetName(name: string, used: Set<string>) {
+  const base =
+    name
+      .replace(INVALID_SHEET_CHARACTERS, " ")
+      .trim()
+      .slice(0, MAX_SHEET_NAME) || "Sheet";
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function cellValue(value: unknown) {
+  return value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : value;
+}
+
+/**
+ * Write each table to its own sheet. Geometries are
+ * encoded into columns the same way as CSV export, while
+ * numbers and booleans keep their types as cells.
+ */
+export function tablesToXLSX(
+  tables: FeatureTable[],
+  options: ExportOptions
+): ArrayBuffer {
+  const workbook = utils.book_new();
+  const used = new Set<string>();
+
+  for (const table of tables) {
+    const rows = geojsonToRows(
+      { type: "FeatureCollection", features: table.features },
+      options
+    ).map((row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key, cellValue(value)])
+      )
+    );
+    utils.book_append_sheet(
+      workbook,
+      utils.json_to_sheet(rows),
+      sheetName(table.name, used)
+    );
+  }
+
+  // An empty workbook is not a valid file.
+  if (!tables.length) {
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet([]), "Sheet1");
+  }
+
+  return write(workbook, {
+    type: "array",
+    bookType: "xlsx",
+  }) as ArrayBuffer;
+}
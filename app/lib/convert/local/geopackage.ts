@@ -0,0 +1,393 @@
+import type { Folder, Root } from "@tmcw/togeojson";
+import type { Database, SqlValue } from "sql.js";
+import type { Feature, Geometry } from "types";
+import type { JsonValue } from "type-fest";
+import { geoJSONToWkb, geometryHasZ, wkbToGeoJSON } from "./wkb";
+import { getExtent } from "app/lib/geometry";
+import { openSqlite } from "./sqlite";
+import { getProjector, mapPositions, Projector } from "./reproject";
+import type { FeatureTable } from "../utils";
+
+/**
+ * 'GPKG' in ASCII, required by the GeoPackage spec
+ * as the SQLite application_id.
+ */
+const GPKG_APPLICATION_ID = 0x47504b47;
+const GPKG_USER_VERSION = 10300;
+const WGS84_SRS_ID = 4326;
+
+const WGS84_DEFINITION = `GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]`;
+
+type ColumnType = "BOOLEAN" | "INTEGER" | "REAL" | "TEXT";
+
+function queryRows(db: Database, sql: string, params: SqlValue[] = []) {
+  const statement = db.prepare(sql, params);
+  const rows: Record<string, SqlValue>[] = [];
+  while (statement.step()) {
+    rows.push(statement.getAsObject());
+  }
+  statement.free();
+  return rows;
+}
+
+function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Decode a GeoPackage binary geometry blob: a small header with
+ * the srs_id and an optional envelope, followed by standard WKB.
+ */
+export function decodeGeoPackageGeometry(blob: Uint8Array): {
+  srsId: number;
+  geometry: Geometry | null;
+} {
+  if (blob[0] !== 0x47 || blob[1] !== 0x50) {
+    throw new Error("Invalid GeoPackage geometry header");
+  }
+  const flags = blob[3];
+  const littleEndian = (flags & 0b1) === 1;
+  const envelopeIndicator = (flags >> 1) & 0b111;
+  const empty = ((flags >> 4) & 0b1) === 1;
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+  const srsId = view.getInt32(4, littleEndian);
+
+  if (empty) return { srsId, geometry: null };
+
+  const envelopeSize = [0, 32, 48, 48, 64][envelopeIndicator] ?? 0;
+  return { srsId, geometry: wkbToGeoJSON(blob, 8 + envelopeSize) };
+}
+
+export function encodeGeoPackageGeometry(
+  geometry: Geometry,
+  srsId = WGS84_SRS_ID
+): Uint8Array {
+  const wkb = geoJSONToWkb(geometry);
+  const extent = getExtent(geometry, true);
+  const header = new Uint8Array(extent.isJust() ? 40 : 8);
+  const view = new DataView(header.buffer);
+  header[0] = 0x47;
+  header[1] = 0x50;
+  header[2] = 0;
+  // Little-endian, with an [minx, maxx, miny, maxy] envelope
+  // when the geometry has one.
+  header[3] = extent.isJust() ? 0b011 : 0b10001;
+  view.setInt32(4, srsId, true);
+  extent.ifJust(([minX, minY, maxX, maxY]) => {
+    view.setFloat64(8, minX, true);
+    view.setFloat64(16, maxX, true);
+    view.setFloat64(24, minY, true);
+    view.setFloat64(32, maxY, true);
+  });
+  const bytes = new Uint8Array(header.length + wkb.length);
+  bytes.set(header);
+  bytes.set(wkb, header.length);
+  return bytes;
+}
+
+function castValue(value: SqlValue, type: string): JsonValue | undefined {
+  if (value === null) return null;
+  if (value instanceof Uint8Array) return undefined;
+  if (type === "BOOLEAN") return value === 1;
+  return value;
+}
+
+/**
+ * Read every feature table in a GeoPackage as its own folder,
+ * reprojecting to WGS84 when the table's spatial reference
+ * system has a definition that proj4 understands.
+ */
+export async function geoPackageToRoot(
+  file: ArrayBuffer
+): Promise<{ root: Root; notes: string[] }> {
+  const db = await openSqlite(new Uint8Array(file));
+  const notes: string[] = [];
+  const root: Root = { type: "root", children: [] };
+
+  try {
+    const tables = queryRows(
+      db,
+      `SELECT c.table_name, c.identifier, g.column_name, g.srs_id, s.definition
+       FROM gpkg_contents c
+       JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+       LEFT JOIN gpkg_spatial_ref_sys s ON s.srs_id = g.srs_id
+       WHERE c.data_type = 'features'`
+    );
+
+    for (const table of tables) {
+      const tableName = String(table.table_name);
+      const geometryColumn = String(table.column_name);
+      const srsId = Number(table.srs_id);
+      const columns = queryRows(
+        db,
+        `PRAGMA table_info(${quoteIdentifier(tableName)})`
+      );
+      const columnTypes = new Map<string, string>();
+      for (const column of columns) {
+        const name = String(column.name);
+        if (column.pk || name === geometryColumn) continue;
+        columnTypes.set(name, String(column.type).toUpperCase());
+      }
+
+      let project: Projector | null = null;
+      if (srsId > 0 && srsId !== WGS84_SRS_ID && table.definition) {
+        const projector = await getProjector(String(table.definition));
+        if (projector.isRight()) {
+          project = projector.extract();
+        } else {
+          notes.push(
+            `Could not reproject ${tableName} from SRS ${srsId}, coordinates were imported as-is`
+          );
+        }
+      }
+
+      const skipped = new Set<string>();
+      const folder: Folder = {
+        type: "folder",
+        meta: {
+          name: table.identifier ? String(table.identifier) : tableName,
+        },
+        children: [],
+      };
+
+      for (const row of queryRows(
+        db,
+        `SELECT * FROM ${quoteIdentifier(tableName)}`
+      )) {
+        const properties: Record<string, JsonValue> = {};
+        for (const [name, type] of columnTypes) {
+          const value = castValue(row[name], type);
+          if (value === undefined) {
+            skipped.add(name);
+            continue;
+          }
+          properties[name] = value;
+        }
+
+        const blob = row[geometryColumn];
+        let geometry: Geometry | null = null;
+        if (blob instanceof Uint8Array) {
+          geometry = decodeGeoPackageGeometry(blob).geometry;
+          if (geometry && project) {
+            geometry = mapPositions(geometry, project);
+          }
+        }
+
+        folder.children.push({ type: "Feature", properties, geometry });
+      }
+
+      for (const name of skipped) {
+        notes.push(`Skipped binary column ${name} in ${tableName}`);
+      }
+
+      root.children.push(folder);
+    }
+  } finally {
+    db.close();
+  }
+
+  return { root, notes };
+}
+
+function inferColumnType(values: JsonValue[]): ColumnType {
+  const present = values.filter((value) => value !== null);
+  if (!present.length) return "TEXT";
+  if (present.every((value) => typeof value === "boolean")) return "BOOLEAN";
+  if (present.every((value) => typeof value === "number")) {
+    return present.every((value) => Number.isInteger(value))
+      ? "INTEGER"
+      : "REAL";
+  }
+  return "TEXT";
+}
+
+function toSqlValue(value: JsonValue | undefined, type: ColumnType): SqlValue {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case "BOOLEAN":
+      return value ? 1 : 0;
+    case "INTEGER":
+    case "REAL":
+      return value as number;
+    case "TEXT":
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+function uniqueName(name: string, taken: Set<string>) {
+  let candidate = name;
+  for (let i = 1; taken.has(candidate.toLowerCase()); i++) {
+    candidate = `${name}_${i}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function geometryTypeName(features: Feature[]) {
+  const types = new Set(
+    features.flatMap((feature) =>
+      feature.geometry ? [feature.geometry.type.toUpperCase()] : []
+    )
+  );
+  return types.size === 1 ? Array.from(types)[0] : "GEOMETRY";
+}
+
+function createMetadataTables(db: Database) {
+  db.run(`PRAGMA application_id = ${GPKG_APPLICATION_ID}`);
+  db.run(`PRAGMA user_version = ${GPKG_USER_VERSION}`);
+  db.run(`CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL PRIMARY KEY,
+    organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL,
+    definition TEXT NOT NULL,
+    description TEXT
+  )`);
+  db.run(`CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY,
+    data_type TEXT NOT NULL,
+    identifier TEXT UNIQUE,
+    description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE,
+    min_y DOUBLE,
+    max_x DOUBLE,
+    max_y DOUBLE,
+    srs_id INTEGER,
+    CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+  )`);
+  db.run(`CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL,
+    column_name TEXT NOT NULL,
+    geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL,
+    z TINYINT NOT NULL,
+    m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+    CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+  )`);
+
+  const insertSrs = `INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)`;
+  db.run(insertSrs, [
+    "Undefined cartesian SRS",
+    -1,
+    "NONE",
+    -1,
+    "undefined",
+    "undefined cartesian coordinate reference system",
+  ]);
+  db.run(insertSrs, [
+    "Undefined geographic SRS",
+    0,
+    "NONE",
+    0,
+    "undefined",
+    "undefined geographic coordinate reference system",
+  ]);
+  db.run(insertSrs, [
+    "WGS 84 geodetic",
+    WGS84_SRS_ID,
+    "EPSG",
+    WGS84_SRS_ID,
+    WGS84_DEFINITION,
+    "longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid",
+  ]);
+}
+
+function writeTable(db: Database, table: FeatureTable) {
+  const { name, features } = table;
+
+  const keys = Array.from(
+    new Set(
+      features.flatMap((feature) => Object.keys(feature.properties || {}))
+    )
+  );
+  const taken = new Set(keys.map((key) => key.toLowerCase()));
+  const fid = uniqueName("fid", taken);
+  const geom = uniqueName("geom", taken);
+  const columns = keys.map((key) => ({
+    key,
+    type: inferColumnType(
+      features.map((feature) => feature.properties?.[key] ?? null)
+    ),
+  }));
+
+  db.run(
+    `CREATE TABLE ${quoteIdentifier(name)} (${[
+      `${quoteIdentifier(fid)} INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL`,
+      `${quoteIdentifier(geom)} GEOMETRY`,
+      ...columns.map(
+        (column) => `${quoteIdentifier(column.key)} ${column.type}`
+      ),
+    ].join(", ")})`
+  );
+
+  let hasZ = false;
+
+  const insert = db.prepare(
+    `INSERT INTO ${quoteIdentifier(name)} (${[geom, ...keys]
+      .map(quoteIdentifier)
+      .join(", ")}) VALUES (${[geom, ...keys].map(() => "?").join(", ")})`
+  );
+
+  for (const feature of features) {
+    const { geometry } = feature;
+    if (geometry) {
+      hasZ = hasZ || geometryHasZ(geometry);
+    }
+    insert.run([
+      geometry ? encodeGeoPackageGeometry(geometry) : null,
+      ...columns.map((column) =>
+        toSqlValue(feature.properties?.[column.key], column.type)
+      ),
+    ]);
+  }
+  insert.free();
+
+  const [minX, minY, maxX, maxY] = getExtent(features, true).mapOrDefault(
+    (bbox): Array<number | null> => bbox.slice(0, 4),
+    [null, null, null, null]
+  );
+
+  db.run(
+    `INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id)
+     VALUES (?, 'features', ?, ?, ?, ?, ?, ?)`,
+    [name, name, minX, minY, maxX, maxY, WGS84_SRS_ID]
+  );
+  db.run(`INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, ?, 0)`, [
+    name,
+    geom,
+    geometryTypeName(features),
+    WGS84_SRS_ID,
+    hasZ ? 1 : 0,
+  ]);
+}
+
+/**
+ * Write a list of tables as a GeoPackage file, in WGS84.
+ * Property columns get SQLite types based on their values:
+ * columns with mixed types are written as TEXT.
+ */
+export async function tablesToGeoPackage(
+  tables: FeatureTable[]
+): Promise<Uint8Array> {
+  const db = await openSqlite();
+  try {
+    createMetadataTables(db);
+    const taken = new Set<string>(
+      ["gpkg_spatial_ref_sys", "gpkg_contents", "gpkg_geometry_columns"].map(
+        (name) => name.toLowerCase()
+      )
+    );
+    for (const table of tables) {
+      writeTable(db, {
+        ...table,
+        name: uniqueName(table.name || "features", taken),
+      });
+    }
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,68 @@
+import { gzipSync } from "fflate";
+import type { FeatureTable } from "../utils";
+import {
+  DEFAULT_EXPORT_VECTOR_TILE_OPTIONS,
+  ExportOptions,
+} from "app/lib/convert";
+import { openSqlite } from "./sqlite";
+import {
+  forEachVectorTile,
+  getTilesetBounds,
+  getVectorLayers,
+} from "./vector_tiles";
+
+/**
+ * Write features to an MBTiles (version 1.3) database of
+ * gzipped vector tiles, with one source layer per table.
+ */
+export async function tablesToMBTiles(
+  tables: FeatureTable[],
+  options: ExportOptions["vectorTileOptions"] = DEFAULT_EXPORT_VECTOR_TILE_OPTIONS
+): Promise<Uint8Array> {
+  const db = await openSqlite();
+  try {
+    db.run(`CREATE TABLE metadata (name TEXT, value TEXT)`);
+    db.run(
+      `CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)`
+    );
+    db.run(
+      `CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row)`
+    );
+
+    const [minLon, minLat, maxLon, maxLat] = getTilesetBounds(tables);
+    const metadata: Array<[string, string]> = [
+      ["name", "Placemark"],
+      ["format", "pbf"],
+      ["type", "overlay"],
+      ["version", "1"],
+      ["minzoom", String(options.minZoom)],
+      ["maxzoom", String(options.maxZoom)],
+      ["bounds", [minLon, minLat, maxLon, maxLat].join(",")],
+      [
+        "center",
+        [(minLon + maxLon) / 2, (minLat + maxLat) / 2, options.minZoom].join(
+          ","
+        ),
+      ],
+      ["json", JSON.stringify({ vector_layers: getVectorLayers(tables) })],
+    ];
+    for (const row of metadata) {
+      db.run(`INSERT INTO metadata (name, value) VALUES (?, ?)`, row);
+    }
+
+    db.run("BEGIN");
+    const insert = db.prepare(
+      `INSERT INTO tiles (zoom_level, tile_column, tile_row, tile_data) VALUES (?, ?, ?, ?)`
+    );
+    forEachVectorTile(tables, options, ({ z, x, y, data }) => {
+      // MBTiles rows use the TMS scheme, with y pointing up.
+      insert.run([z, x, 2 ** z - 1 - y, gzipSync(data)]);
+    });
+    insert.free();
+    db.run("COMMIT");
+
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,17 @@
+import { expect, test } from "vitest";
+import { zxyToTileId } from "./pmtiles";
+
+test("zxyToTileId", () => {
+  expect(zxyToTileId(0, 0, 0)).toEqual(0);
+  // Zoom 1 follows the Hilbert curve
+  expect(
+    [
+      [0, 0],
+      [0, 1],
+      [1, 1],
+      [1, 0],
+    ].map(([x, y]) => zxyToTileId(1, x, y))
+  ).toEqual([1, 2, 3, 4]);
+  expect(zxyToTileId(2, 0, 0)).toEqual(5);
+  expect(zxyToTileId(3, 0, 0)).toEqual(21);
+});
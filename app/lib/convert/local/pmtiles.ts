@@ -0,0 +1,251 @@
+import { gzipSync } from "fflate";
+import type { FeatureTable } from "../utils";
+import {
+  DEFAULT_EXPORT_VECTOR_TILE_OPTIONS,
+  ExportOptions,
+} from "app/lib/convert";
+import {
+  forEachVectorTile,
+  getTilesetBounds,
+  getVectorLayers,
+  PbfWriter,
+} from "./vector_tiles";
+
+const HEADER_LENGTH = 127;
+/**
+ * Clients fetch the header and root directory with a
+ * single request of this size, so the root directory
+ * has to fit inside of it.
+ */
+const ROOT_LENGTH = 16384;
+
+enum Compression {
+  Gzip = 2,
+}
+
+enum TileType {
+  Mvt = 1,
+}
+
+interface Entry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+/**
+ * Tile ids are ordered by zoom and then along a
+ * Hilbert curve, which keeps nearby tiles close together.
+ */
+export function zxyToTileId(z: number, x: number, y: number) {
+  let acc = (4 ** z - 1) / 3;
+  const n = 2 ** z;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = x & s ? 1 : 0;
+    const ry = y & s ? 1 : 0;
+    acc += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = n - 1 - x;
+        y = n - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return acc;
+}
+
+function serializeDirectory(entries: Entry[]) {
+  const pbf = new PbfWriter();
+  pbf.varint(entries.length);
+  let lastId = 0;
+  for (const entry of entries) {
+    pbf.varint(entry.tileId - lastId);
+    lastId = entry.tileId;
+  }
+  for (const entry of entries) pbf.varint(entry.runLength);
+  for (const entry of entries) pbf.varint(entry.length);
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    // Zero means "directly after the previous entry"
+    pbf.varint(
+      previous && entry.offset === previous.offset + previous.length
+        ? 0
+        : entry.offset + 1
+    );
+  });
+  return gzipSync(pbf.finish());
+}
+
+/**
+ * Split entries into leaf directories until the root
+ * directory is small enough.
+ */
+function buildDirectories(entries: Entry[]) {
+  let root = serializeDirectory(entries);
+  if (root.length <= ROOT_LENGTH - HEADER_LENGTH) {
+    return { root, leaves: new Uint8Array() };
+  }
+
+  for (let leafSize = 4096; ; leafSize = Math.ceil(leafSize * 1.2)) {
+    const leaves: Uint8Array[] = [];
+    const rootEntries: Entry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leaf = serializeDirectory(entries.slice(i, i + leafSize));
+      rootEntries.push({
+        tileId: entries[i].tileId,
+        offset,
+        length: leaf.length,
+        runLength: 0,
+      });
+      leaves.push(leaf);
+      offset += leaf.length;
+    }
+    root = serializeDirectory(rootEntries);
+    if (root.length <= ROOT_LENGTH - HEADER_LENGTH) {
+      return { root, leaves: concat(leaves) };
+    }
+  }
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Content key for deduplication: identical tiles, like
+ * those inside of a large polygon, are stored once.
+ */
+function contentKey(data: Uint8Array) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash = Math.imul(hash ^ data[i], 0x01000193);
+  }
+  return `${data.length}:${hash >>> 0}`;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+function setUint64(view: DataView, offset: number, value: number) {
+  view.setUint32(offset, value % 2 ** 32, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+}
+
+/**
+ * Write features to a PMTiles (version 3) archive of
+ * gzipped vector tiles, with one source layer per table.
+ */
+export function tablesToPMTiles(
+  tables: FeatureTable[],
+  options: ExportOptions["vectorTileOptions"] = DEFAULT_EXPORT_VECTOR_TILE_OPTIONS
+): Uint8Array {
+  const tiles: Array<{ tileId: number; data: Uint8Array }> = [];
+  forEachVectorTile(tables, options, ({ z, x, y, data }) => {
+    tiles.push({ tileId: zxyToTileId(z, x, y), data });
+  });
+  tiles.sort((a, b) => a.tileId - b.tileId);
+
+  const entries: Entry[] = [];
+  const contents = new Map<string, { entry: Entry; data: Uint8Array }>();
+  const tileData: Uint8Array[] = [];
+  let tileDataLength = 0;
+
+  for (const { tileId, data } of tiles) {
+    const key = contentKey(data);
+    const last = entries[entries.length - 1];
+    const content = contents.get(key);
+    const existing =
+      content && bytesEqual(content.data, data) ? content.entry : null;
+    if (existing) {
+      if (
+        last.offset === existing.offset &&
+        last.tileId + last.runLength === tileId
+      ) {
+        last.runLength++;
+      } else {
+        entries.push({ ...existing, tileId, runLength: 1 });
+      }
+      continue;
+    }
+    const compressed = gzipSync(data);
+    const entry = {
+      tileId,
+      offset: tileDataLength,
+      length: compressed.length,
+      runLength: 1,
+    };
+    contents.set(key, { entry, data });
+    entries.push(entry);
+    tileData.push(compressed);
+    tileDataLength += compressed.length;
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = getTilesetBounds(tables);
+  const metadata = gzipSync(
+    new TextEncoder().encode(
+      JSON.stringify({
+        name: "Placemark",
+        format: "pbf",
+        vector_layers: getVectorLayers(tables).map((layer) => ({
+          ...layer,
+          minzoom: options.minZoom,
+          maxzoom: options.maxZoom,
+        })),
+      })
+    )
+  );
+  const { root, leaves } = buildDirectories(entries);
+
+  const header = new Uint8Array(HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode("PMTiles"), 0);
+  header[7] = 3;
+  const rootOffset = HEADER_LENGTH;
+  const metadataOffset = rootOffset + root.length;
+  const leavesOffset = metadataOffset + metadata.length;
+  const tileDataOffset = leavesOffset + leaves.length;
+  setUint64(view, 8, rootOffset);
+  setUint64(view, 16, root.length);
+  setUint64(view, 24, metadataOffset);
+  setUint64(view, 32, metadata.length);
+  setUint64(view, 40, leavesOffset);
+  setUint64(view, 48, leaves.length);
+  setUint64(view, 56, tileDataOffset);
+  setUint64(view, 64, tileDataLength);
+  setUint64(
+    view,
+    72,
+    entries.reduce((sum, entry) => sum + entry.runLength, 0)
+  );
+  setUint64(view, 80, entries.length);
+  setUint64(view, 88, tileData.length);
+  header[96] = 1; // clustered
+  header[97] = Compression.Gzip;
+  header[98] = Compression.Gzip;
+  header[99] = TileType.Mvt;
+  header[100] = options.minZoom;
+  header[101] = options.maxZoom;
+  view.setInt32(102, Math.round(minLon * 1e7), true);
+  view.setInt32(106, Math.round(minLat * 1e7), true);
+  view.setInt32(110, Math.round(maxLon * 1e7), true);
+  view.setInt32(114, Math.round(maxLat * 1e7), true);
+  header[118] = options.minZoom;
+  view.setInt32(119, Math.round(((minLon + maxLon) / 2) * 1e7), true);
+  view.setInt32(123, Math.round(((minLat + maxLat) / 2) * 1e7), true);
+
+  return concat([header, root, metadata, leaves, ...tileData]);
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  canRepresentExtent,
+  findCrsCode,
+  parseCrsName,
+  reprojectFromSource,
+} from "./reproject";
+import { searchEpsg } from "app/lib/get_epsg_db";
+import type { FeatureCollection, Point } from "types";
+
+const MERCATOR =
+  "+proj=merc +a=6378137 +b=6378137 +lat_ts=0.0 +lon_0=0.0 +x_0=0.0 +y_0=0 +k=1.0 +units=m +nadgrids=@null +wktext +no_defs";
+
+describe("reproject", () => {
+  it("parseCrsName", () => {
+    expect(parseCrsName("urn:ogc:def:crs:EPSG::3857")).toEqual("3857");
+    expect(parseCrsName("urn:ogc:def:crs:EPSG:6.6:2263")).toEqual("2263");
+    expect(parseCrsName("EPSG:27700")).toEqual("27700");
+    expect(parseCrsName("EPSG:4326")).toBeNull();
+    expect(parseCrsName("urn:ogc:def:crs:OGC:1.3:CRS84")).toBeNull();
+  });
+
+  it("findCrsCode", () => {
+    expect(
+      findCrsCode(
+        `{"type":"FeatureCollection","crs":{"type":"name","properties":{"name":"urn:ogc:def:crs:EPSG::3857"}},"features":[`
+      )
+    ).toEqual("3857");
+    expect(findCrsCode(`{"type":"FeatureCollection","features":[`)).toBeNull();
+  });
+
+  it("reprojectFromSource", async () => {
+    const geojson: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: {},
+          geometry: { type: "Point", coordinates: [1113194.9, 0, 10] },
+        },
+        { type: "Feature", properties: {}, geometry: null },
+      ],
+    };
+    expect(await reprojectFromSource(geojson, null)).toEqualRight(geojson);
+
+    const [point, empty] = (
+      await reprojectFromSource(geojson, {
+        name: "EPSG:3857",
+        definition: MERCATOR,
+      })
+    ).unsafeCoerce().features;
+    const [lon, lat, z] = (point.geometry as Point).coordinates;
+    expect(lon).toBeCloseTo(10, 5);
+    expect(lat).toBeCloseTo(0, 5);
+    expect(z).toEqual(10);
+    expect(empty.geometry).toBeNull();
+
+    expect(
+      await reprojectFromSource(geojson, {
+        name: "Custom",
+        definition: "+proj=nothing",
+      })
+    ).toBeLeft();
+  });
+
+  it("canRepresentExtent", async () => {
+    const utm = "+proj=utm +zone=33 +datum=WGS84 +units=m +no_defs";
+    expect(await canRepresentExtent(utm, [12, 40, 18, 50])).toBe(true);
+    expect(await canRepresentExtent(utm, [-100, 40, -90, 50])).toBe(false);
+    expect(await canRepresentExtent(MERCATOR, [-10, 35, 30, 55])).toBe(true);
+    expect(await canRepresentExtent(MERCATOR, [-10, 35, 30, 89])).toBe(false);
+    expect(
+      await canRepresentExtent(
+        "+proj=longlat +ellps=GRS80",
+        [-180, -90, 180, 90]
+      )
+    ).toBe(true);
+  });
+
+  it("searchEpsg", () => {
+    const db = {
+      "3857": ["WGS 84 / Pseudo-Mercator", MERCATOR] as [string, string],
+      "2263": ["NAD83 / New York Long Island (ftUS)", "+proj=lcc"] as [
+        string,
+        string
+      ],
+    };
+    expect(searchEpsg(db, "EPSG:38").map((entry) => entry.code)).toEqual([
+      "3857",
+    ]);
+    expect(searchEpsg(db, "nad83 long").map((entry) => entry.code)).toEqual([
+      "2263",
+    ]);
+    expect(searchEpsg(db, " ")).toEqual([]);
+  });
+});
@@ -0,0 +1,192 @@
+import type {
+  Feature,
+  FeatureCollection,
+  FeatureMap,
+  Geometry,
+  Position,
+} from "types";
+import type { CoordinateSystem } from "..";
+import { ConvertError } from "app/lib/errors";
+import { Either, Left, Right } from "purify-ts/Either";
+
+export type Projector = (position: Position) => Position;
+
+export function mapPositions(geometry: Geometry, fn: Projector): Geometry {
+  switch (geometry.type) {
+    case "Point":
+      return { ...geometry, coordinates: fn(geometry.coordinates) };
+    case "LineString":
+    case "MultiPoint":
+      return { ...geometry, coordinates: geometry.coordinates.map(fn) };
+    case "Polygon":
+    case "MultiLineString":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((ring) => ring.map(fn)),
+      };
+    case "MultiPolygon":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(fn))
+        ),
+      };
+    case "GeometryCollection":
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((g) => mapPositions(g, fn)),
+      };
+  }
+}
+
+/**
+ * Create a function that converts positions between proj4
+ * or WKT definitions, keeping any Z values.
+ */
+export async function getProjector(
+  from: string,
+  to = "EPSG:4326"
+): Promise<Either<ConvertError, Projector>> {
+  const proj4 = await import("proj4").then((m) => m.default);
+  try {
+    const converter = proj4(from, to);
+    return Right((position) => {
+      const [x, y] = converter.forward([position[0], position[1]]);
+      return position.length > 2 ? [x, y, position[2]] : [x, y];
+    });
+  } catch (e) {
+    return Left(new ConvertError("Could not understand the coordinate system"));
+  }
+}
+
+export function reprojectFeature(
+  feature: Feature,
+  project: Projector
+): Feature {
+  return feature.geometry
+    ? { ...feature, geometry: mapPositions(feature.geometry, project) }
+    : feature;
+}
+
+export function reprojectFeatureCollection(
+  geojson: FeatureCollection,
+  project: Projector
+): FeatureCollection {
+  return {
+    ...geojson,
+    features: geojson.features.map((feature) =>
+      reprojectFeature(feature, project)
+    ),
+  };
+}
+
+export function reprojectFeatureMap(
+  featureMap: FeatureMap,
+  project: Projector
+): FeatureMap {
+  return new Map(
+    Array.from(featureMap, ([id, wrappedFeature]) => [
+      id,
+      {
+        ...wrappedFeature,
+        feature: reprojectFeature(wrappedFeature.feature, project),
+      },
+    ])
+  );
+}
+
+/**
+ * Convert features from the source coordinate system chosen
+ * on import, if there is one.
+ */
+export async function reprojectFromSource(
+  geojson: FeatureCollection,
+  sourceCrs: CoordinateSystem | null | undefined
+): Promise<Either<ConvertError, FeatureCollection>> {
+  if (!sourceCrs) return Right(geojson);
+  return (await getProjector(sourceCrs.definition)).map((project) =>
+    reprojectFeatureCollection(geojson, project)
+  );
+}
+
+/**
+ * Coordinate systems that stretch or shrink distances more
+ * than this are a poor fit for the data.
+ */
+const MAX_SCALE = 2;
+
+/**
+ * Whether a coordinate system can represent an extent in WGS84:
+ * positions across the extent should convert to finite values,
+ * convert back to where they started, and not be distorted or
+ * rotated too far, like coordinates far outside of a UTM zone.
+ */
+export async function canRepresentExtent(
+  definition: string,
+  [minX, minY, maxX, maxY]: BBox4
+): Promise<boolean> {
+  const proj4 = await import("proj4").then((m) => m.default);
+  // Meters in a thousandth of a degree of latitude.
+  const delta = 0.001;
+  const deltaMeters = delta * 111_320;
+
+  try {
+    const converter = proj4("EPSG:4326", definition);
+    // proj4's types leave out the parsed definition.
+    const projection = proj4.Proj(definition) as ReturnType<
+      typeof proj4.Proj
+    > & { projName?: string; to_meter?: number };
+    const isProjected = projection.projName !== "longlat";
+    const toMeter = projection.to_meter || 1;
+
+    for (const x of [minX, (minX + maxX) / 2, maxX]) {
+      for (const y of [minY, (minY + maxY) / 2, maxY]) {
+        const [px, py] = converter.forward([x, y]);
+        if (!Number.isFinite(px) || !Number.isFinite(py)) return false;
+        const [ix, iy] = converter.inverse([px, py]);
+        if (Math.abs(ix - x) > 1e-6 || Math.abs(iy - y) > 1e-6) return false;
+        if (isProjected) {
+          // Step toward the equator to stay in range near the poles.
+          const step = y > 0 ? -delta : delta;
+          const [qx, qy] = converter.forward([x, y + step]);
+          const northX = (qx - px) * Math.sign(step);
+          const northY = (qy - py) * Math.sign(step);
+          const scale = (Math.hypot(northX, northY) * toMeter) / deltaMeters;
+          if (!(scale < MAX_SCALE && scale > 1 / MAX_SCALE)) return false;
+          // North should be up, give or take 45°.
+          if (northY <= Math.abs(northX)) return false;
+        }
+      }
+    }
+  } catch (e) {
+    return false;
+  }
+  return true;
+}
+
+const EPSG_NAME = /EPSG:(?:[\d.]*:)?(\d+)$/i;
+
+/**
+ * Get the EPSG code from a GeoJSON 2008 named crs, like
+ * urn:ogc:def:crs:EPSG::3857 or EPSG:3857. Names for WGS84,
+ * which is what GeoJSON uses anyway, return null.
+ */
+export function parseCrsName(name: string): string | null {
+  const match = name.trim().match(EPSG_NAME);
+  if (!match) return null;
+  const code = String(Number(match[1]));
+  return code === "4326" ? null : code;
+}
+
+const CRS_MEMBER =
+  /"crs"\s*:\s*\{[^{}]*"properties"\s*:\s*\{[^{}]*"name"\s*:\s*"([^"]+)"/;
+
+/**
+ * Find the EPSG code of a named crs member in the start of a
+ * GeoJSON file. Writers like GDAL put the crs member before
+ * the features, so this avoids parsing the whole file.
+ */
+export function findCrsCode(head: string): string | null {
+  const match = head.match(CRS_MEMBER);
+  return match ? parseCrsName(match[1]) : null;
+}
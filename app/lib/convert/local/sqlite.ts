@@ -0,0 +1,9 @@
+export async function openSqlite(data?: Uint8Array) {
+  // The asm.js build avoids having to serve a separate
+  // .wasm file alongside the worker.
+  const initSqlJs = await import("sql.js/dist/sql-asm.js").then(
+    (m) => m.default
+  );
+  const SQL = await initSqlJs();
+  return new SQL.Database(data);
+}
@@ -0,0 +1,648 @@
+import type { Feature, Geometry, Position } from "types";
+import type { JsonValue } from "type-fest";
+import type { FeatureTable } from "../utils";
+import { simplifyJS } from "app/lib/map_operations/simplify";
+import { getExtent } from "app/lib/geometry";
+import { ConvertError } from "app/lib/errors";
+import type { BBox } from "types";
+
+/**
+ * Tile coordinate space and the amount of each
+ * neighboring tile that is included, so that lines and
+ * polygon edges don't show seams at tile boundaries.
+ */
+const EXTENT = 4096;
+const BUFFER = 64;
+/**
+ * Simplification tolerance, in tile units.
+ */
+const TOLERANCE = 1;
+const MAX_LATITUDE = 85.0511287798;
+/**
+ * Archives are built in memory, so tiling stops
+ * with an error past this many tiles.
+ */
+export const MAX_VECTOR_TILES = 50_000;
+
+enum GeomType {
+  Point = 1,
+  LineString = 2,
+  Polygon = 3,
+}
+
+enum Command {
+  MoveTo = 1,
+  LineTo = 2,
+  ClosePath = 7,
+}
+
+/**
+ * Geometries here are in world coordinates: the
+ * web mercator plane scaled to the unit square.
+ */
+type TileGeometry =
+  | { type: GeomType.Point; points: Position[] }
+  | { type: GeomType.LineString; lines: Position[][] }
+  | { type: GeomType.Polygon; polygons: Position[][][] };
+
+interface TileFeature {
+  geometry: TileGeometry;
+  properties: Feature["properties"];
+}
+
+interface TileLayer {
+  name: string;
+  features: TileFeature[];
+}
+
+export interface VectorTile {
+  z: number;
+  x: number;
+  y: number;
+  /**
+   * Uncompressed Mapbox Vector Tile data
+   */
+  data: Uint8Array;
+}
+
+export interface VectorTileLayerInfo {
+  id: string;
+  fields: Record<string, "String" | "Number" | "Boolean">;
+}
+
+interface ZoomRange {
+  minZoom: number;
+  maxZoom: number;
+}
+
+/**
+ * A minimal protocol buffers writer, covering only
+ * what the vector tile spec requires.
+ */
+export class PbfWriter {
+  buf = new Uint8Array(256);
+  pos = 0;
+
+  private realloc(min: number) {
+    if (this.pos + min <= this.buf.length) return;
+    let length = this.buf.length * 2;
+    while (length < this.pos + min) length *= 2;
+    const buf = new Uint8Array(length);
+    buf.set(this.buf);
+    this.buf = buf;
+  }
+
+  varint(value: number) {
+    this.realloc(10);
+    // Avoid bitwise operators, which truncate to 32 bits.
+    while (value >= 0x80) {
+      this.buf[this.pos++] = value % 0x80 | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buf[this.pos++] = value;
+  }
+
+  bytes(bytes: Uint8Array) {
+    this.realloc(bytes.length);
+    this.buf.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  tag(field: number, wireType: 0 | 1 | 2) {
+    this.varint(field * 8 + wireType);
+  }
+
+  varintField(field: number, value: number) {
+    this.tag(field, 0);
+    this.varint(value);
+  }
+
+  doubleField(field: number, value: number) {
+    this.tag(field, 1);
+    this.realloc(8);
+    new DataView(this.buf.buffer).setFloat64(this.pos, value, true);
+    this.pos += 8;
+  }
+
+  bytesField(field: number, bytes: Uint8Array) {
+    this.tag(field, 2);
+    this.varint(bytes.length);
+    this.bytes(bytes);
+  }
+
+  stringField(field: number, value: string) {
+    this.bytesField(field, new TextEncoder().encode(value));
+  }
+
+  packedField(field: number, values: number[]) {
+    const packed = new PbfWriter();
+    for (const value of values) packed.varint(value);
+    this.bytesField(field, packed.finish());
+  }
+
+  messageField(field: number, write: (pbf: PbfWriter) => void) {
+    const message = new PbfWriter();
+    write(message);
+    this.bytesField(field, message.finish());
+  }
+
+  finish() {
+    return this.buf.slice(0, this.pos);
+  }
+}
+
+function zigzag(value: number) {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function projectPosition(position: Position): Position {
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, position[1]));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return [
+    position[0] / 360 + 0.5,
+    0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI,
+  ];
+}
+
+function projectGeometry(geometry: Geometry): TileGeometry[] {
+  switch (geometry.type) {
+    case "Point": {
+      return [
+        {
+          type: GeomType.Point,
+          points: [projectPosition(geometry.coordinates)],
+        },
+      ];
+    }
+    case "MultiPoint": {
+      return [
+        {
+          type: GeomType.Point,
+          points: geometry.coordinates.map(projectPosition),
+        },
+      ];
+    }
+    case "LineString": {
+      return [
+        {
+          type: GeomType.LineString,
+          lines: [geometry.coordinates.map(projectPosition)],
+        },
+      ];
+    }
+    case "MultiLineString": {
+      return [
+        {
+          type: GeomType.LineString,
+          lines: geometry.coordinates.map((line) => line.map(projectPosition)),
+        },
+      ];
+    }
+    case "Polygon": {
+      return [
+        {
+          type: GeomType.Polygon,
+          polygons: [
+            geometry.coordinates.map((ring) => ring.map(projectPosition)),
+          ],
+        },
+      ];
+    }
+    case "MultiPolygon": {
+      return [
+        {
+          type: GeomType.Polygon,
+          polygons: geometry.coordinates.map((polygon) =>
+            polygon.map((ring) => ring.map(projectPosition))
+          ),
+        },
+      ];
+    }
+    case "GeometryCollection": {
+      return geometry.geometries.flatMap(projectGeometry);
+    }
+  }
+}
+
+function intersect(a: Position, b: Position, k: number, axis: 0 | 1) {
+  const t = (k - a[axis]) / (b[axis] - a[axis]);
+  return axis === 0
+    ? [k, a[1] + (b[1] - a[1]) * t]
+    : [a[0] + (b[0] - a[0]) * t, k];
+}
+
+function clipLine(line: Position[], k1: number, k2: number, axis: 0 | 1) {
+  const lines: Position[][] = [];
+  let slice: Position[] = [];
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = line[i];
+    const b = line[i + 1];
+    const ak = a[axis];
+    const bk = b[axis];
+    if ((ak < k1 && bk < k1) || (ak > k2 && bk > k2)) continue;
+    const start =
+      ak < k1
+        ? intersect(a, b, k1, axis)
+        : ak > k2
+        ? intersect(a, b, k2, axis)
+        : a;
+    const end =
+      bk < k1
+        ? intersect(a, b, k1, axis)
+        : bk > k2
+        ? intersect(a, b, k2, axis)
+        : b;
+    if (!slice.length) slice.push(start);
+    slice.push(end);
+    // The line left the clip area: start a new part.
+    if (end !== b) {
+      lines.push(slice);
+      slice = [];
+    }
+  }
+  if (slice.length) lines.push(slice);
+  return lines;
+}
+
+/**
+ * Sutherland-Hodgman clipping against a pair of
+ * parallel lines. This keeps rings closed, at the cost of
+ * some degenerate edges along the clip boundary, which
+ * are hidden by the tile buffer.
+ */
+function clipRing(ring: Position[], k1: number, k2: number, axis: 0 | 1) {
+  const out: Position[] = [];
+  for (let i = 0; i < ring.length - 1; i++) {
+    const a = ring[i];
+    const b = ring[i + 1];
+    const ak = a[axis];
+    const bk = b[axis];
+    if (ak >= k1 && ak <= k2) out.push(a);
+    const crossings: number[] = [];
+    if ((ak - k1) * (bk - k1) < 0) crossings.push(k1);
+    if ((ak - k2) * (bk - k2) < 0) crossings.push(k2);
+    if (ak > bk) crossings.reverse();
+    for (const k of crossings) out.push(intersect(a, b, k, axis));
+  }
+  if (out.length) out.push(out[0]);
+  return out.length >= 4 ? out : null;
+}
+
+function clipGeometry(
+  geometry: TileGeometry,
+  k1: number,
+  k2: number,
+  axis: 0 | 1
+): TileGeometry | null {
+  switch (geometry.type) {
+    case GeomType.Point: {
+      const points = geometry.points.filter(
+        (point) => point[axis] >= k1 && point[axis] <= k2
+      );
+      return points.length ? { type: geometry.type, points } : null;
+    }
+    case GeomType.LineString: {
+      const lines = geometry.lines.flatMap((line) =>
+        clipLine(line, k1, k2, axis)
+      );
+      return lines.length ? { type: geometry.type, lines } : null;
+    }
+    case GeomType.Polygon: {
+      const polygons: Position[][][] = [];
+      for (const polygon of geometry.polygons) {
+        const [outer, ...inners] = polygon;
+        const clippedOuter = clipRing(outer, k1, k2, axis);
+        if (!clippedOuter) continue;
+        const rings = [clippedOuter];
+        for (const inner of inners) {
+          const clippedInner = clipRing(inner, k1, k2, axis);
+          if (clippedInner) rings.push(clippedInner);
+        }
+        polygons.push(rings);
+      }
+      return polygons.length ? { type: geometry.type, polygons } : null;
+    }
+  }
+}
+
+function clipFeatures(
+  features: TileFeature[],
+  bounds: [number, number, number, number]
+) {
+  const [minX, minY, maxX, maxY] = bounds;
+  const clipped: TileFeature[] = [];
+  for (const feature of features) {
+    const x = clipGeometry(feature.geometry, minX, maxX, 0);
+    const geometry = x && clipGeometry(x, minY, maxY, 1);
+    if (geometry) {
+      clipped.push({ geometry, properties: feature.properties });
+    }
+  }
+  return clipped;
+}
+
+/**
+ * Convert world coordinates to tile coordinates, dropping
+ * repeated points that the rounding produces.
+ */
+function toTileCoordinates(
+  points: Position[],
+  z: number,
+  x: number,
+  y: number
+) {
+  const scale = 2 ** z;
+  const out: Position[] = [];
+  for (const point of points) {
+    const tx = Math.round((point[0] * scale - x) * EXTENT);
+    const ty = Math.round((point[1] * scale - y) * EXTENT);
+    const last = out[out.length - 1];
+    if (!last || last[0] !== tx || last[1] !== ty) out.push([tx, ty]);
+  }
+  return out;
+}
+
+function ringArea(ring: Position[]) {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+}
+
+/**
+ * Encodes geometries into the vector tile command
+ * stream, with coordinates delta-encoded from a cursor
+ * that carries across parts.
+ */
+class GeometryEncoder {
+  commands: number[] = [];
+  cursor: Position = [0, 0];
+
+  command(id: Command, count: number) {
+    this.commands.push((id & 0x7) | (count << 3));
+  }
+
+  points(points: Position[]) {
+    for (const point of points) {
+      this.commands.push(
+        zigzag(point[0] - this.cursor[0]),
+        zigzag(point[1] - this.cursor[1])
+      );
+      this.cursor = point;
+    }
+  }
+
+  line(line: Position[]) {
+    this.command(Command.MoveTo, 1);
+    this.points(line.slice(0, 1));
+    this.command(Command.LineTo, line.length - 1);
+    this.points(line.slice(1));
+  }
+
+  ring(ring: Position[]) {
+    // The closing point is implied by ClosePath.
+    this.line(ring.slice(0, -1));
+    this.command(Command.ClosePath, 1);
+  }
+}
+
+function encodeGeometry(
+  geometry: TileGeometry,
+  z: number,
+  x: number,
+  y: number
+) {
+  const encoder = new GeometryEncoder();
+  const simplifyOptions = { tolerance: TOLERANCE, highQuality: true };
+  switch (geometry.type) {
+    case GeomType.Point: {
+      const points = toTileCoordinates(geometry.points, z, x, y);
+      encoder.command(Command.MoveTo, points.length);
+      encoder.points(points);
+      break;
+    }
+    case GeomType.LineString: {
+      for (const line of geometry.lines) {
+        const tileLine = simplifyJS(
+          toTileCoordinates(line, z, x, y),
+          simplifyOptions
+        );
+        if (tileLine.length >= 2) encoder.line(tileLine);
+      }
+      break;
+    }
+    case GeomType.Polygon: {
+      for (const polygon of geometry.polygons) {
+        for (let i = 0; i < polygon.length; i++) {
+          const tileRing = simplifyJS(
+            toTileCoordinates(polygon[i], z, x, y),
+            simplifyOptions
+          );
+          const area = ringArea(tileRing);
+          if (tileRing.length < 4 || area === 0) {
+            // Without an exterior ring, holes are meaningless.
+            if (i === 0) break;
+            continue;
+          }
+          // Exterior rings must have a positive area in
+          // tile coordinates, where y points down.
+          if (i === 0 ? area < 0 : area > 0) tileRing.reverse();
+          encoder.ring(tileRing);
+        }
+      }
+      break;
+    }
+  }
+  return encoder.commands;
+}
+
+function encodeValue(pbf: PbfWriter, value: JsonValue) {
+  if (typeof value === "string") {
+    pbf.stringField(1, value);
+  } else if (typeof value === "boolean") {
+    pbf.varintField(7, value ? 1 : 0);
+  } else if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      pbf.doubleField(3, value);
+    } else if (value < 0) {
+      pbf.varintField(6, zigzag(value));
+    } else {
+      pbf.varintField(5, value);
+    }
+  } else {
+    pbf.stringField(1, JSON.stringify(value));
+  }
+}
+
+function encodeLayer(
+  pbf: PbfWriter,
+  layer: TileLayer,
+  z: number,
+  x: number,
+  y: number
+) {
+  const keys = new Map<string, number>();
+  const values = new Map<string, [number, JsonValue]>();
+
+  pbf.varintField(15, 2);
+  pbf.stringField(1, layer.name);
+
+  for (const feature of layer.features) {
+    const commands = encodeGeometry(feature.geometry, z, x, y);
+    if (!commands.length) continue;
+
+    const tags: number[] = [];
+    for (const [key, value] of Object.entries(feature.properties || {})) {
+      if (value === null || value === undefined) continue;
+      let keyIndex = keys.get(key);
+      if (keyIndex === undefined) {
+        keyIndex = keys.size;
+        keys.set(key, keyIndex);
+      }
+      const valueKey = `${typeof value}:${
+        typeof value === "object" ? JSON.stringify(value) : String(value)
+      }`;
+      let valueIndex = values.get(valueKey)?.[0];
+      if (valueIndex === undefined) {
+        valueIndex = values.size;
+        values.set(valueKey, [valueIndex, value]);
+      }
+      tags.push(keyIndex, valueIndex);
+    }
+
+    pbf.messageField(2, (featurePbf) => {
+      featurePbf.packedField(2, tags);
+      featurePbf.varintField(3, feature.geometry.type);
+      featurePbf.packedField(4, commands);
+    });
+  }
+
+  for (const key of keys.keys()) {
+    pbf.stringField(3, key);
+  }
+  for (const [, value] of values.values()) {
+    pbf.messageField(4, (valuePbf) => encodeValue(valuePbf, value));
+  }
+  pbf.varintField(5, EXTENT);
+}
+
+/**
+ * Source layer names must be unique in a tileset.
+ */
+function tablesToLayers(tables: FeatureTable[]): TileLayer[] {
+  const used = new Set<string>();
+  return tables.map((table) => {
+    let name = table.name;
+    for (let i = 2; used.has(name); i++) {
+      name = `${table.name} ${i}`;
+    }
+    used.add(name);
+    return {
+      name,
+      features: table.features.flatMap((feature) =>
+        feature.geometry
+          ? projectGeometry(feature.geometry).map((geometry) => ({
+              geometry,
+              properties: feature.properties,
+            }))
+          : []
+      ),
+    };
+  });
+}
+
+/**
+ * Describe the layers and their attribute types, as
+ * the TileJSON vector_layers member.
+ */
+export function getVectorLayers(tables: FeatureTable[]): VectorTileLayerInfo[] {
+  return tablesToLayers(tables).map((layer) => {
+    const fields: VectorTileLayerInfo["fields"] = {};
+    for (const feature of layer.features) {
+      for (const [key, value] of Object.entries(feature.properties || {})) {
+        if (value === null || value === undefined) continue;
+        const type =
+          typeof value === "number"
+            ? "Number"
+            : typeof value === "boolean"
+            ? "Boolean"
+            : "String";
+        fields[key] = fields[key] && fields[key] !== type ? "String" : type;
+      }
+    }
+    return { id: layer.name, fields };
+  });
+}
+
+export function getTilesetBounds(tables: FeatureTable[]): BBox {
+  return getExtent(
+    tables.flatMap((table) => table.features),
+    true
+  ).orDefault([-180, -MAX_LATITUDE, 180, MAX_LATITUDE]);
+}
+
+/**
+ * Cut features into vector tiles over a zoom range,
+ * with one source layer per table. Tiles are produced
+ * top-down, with each tile clipped from its parent,
+ * and tiles without any features are skipped.
+ *
+ * Throws a ConvertError past MAX_VECTOR_TILES tiles.
+ */
+export function forEachVectorTile(
+  tables: FeatureTable[],
+  { minZoom, maxZoom }: ZoomRange,
+  callback: (tile: VectorTile) => void
+) {
+  const buffer = BUFFER / EXTENT;
+  let count = 0;
+
+  function tile(z: number, x: number, y: number, layers: TileLayer[]) {
+    if (z >= minZoom) {
+      if (++count > MAX_VECTOR_TILES) {
+        throw new ConvertError(
+          `This export has more than ${MAX_VECTOR_TILES.toLocaleString(
+            "en-US"
+          )} tiles. Try a lower maximum zoom.`
+        );
+      }
+      const pbf = new PbfWriter();
+      for (const layer of layers) {
+        pbf.messageField(3, (layerPbf) =>
+          encodeLayer(layerPbf, layer, z, x, y)
+        );
+      }
+      callback({ z, x, y, data: pbf.finish() });
+    }
+
+    if (z >= maxZoom) return;
+
+    const scale = 2 ** (z + 1);
+    for (const [cx, cy] of [
+      [x * 2, y * 2],
+      [x * 2 + 1, y * 2],
+      [x * 2, y * 2 + 1],
+      [x * 2 + 1, y * 2 + 1],
+    ]) {
+      const bounds: [number, number, number, number] = [
+        (cx - buffer) / scale,
+        (cy - buffer) / scale,
+        (cx + 1 + buffer) / scale,
+        (cy + 1 + buffer) / scale,
+      ];
+      const children = layers
+        .map((layer) => ({
+          name: layer.name,
+          features: clipFeatures(layer.features, bounds),
+        }))
+        .filter((layer) => layer.features.length);
+      if (children.length) tile(z + 1, cx, cy, children);
+    }
+  }
+
+  const layers = tablesToLayers(tables).filter(
+    (layer) => layer.features.length
+  );
+  if (layers.length) tile(0, 0, 0, layers);
+}
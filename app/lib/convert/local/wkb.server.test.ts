@@ -0,0 +1,49 @@
+import { expect, test } from "vitest";
+import { geoJSONToWkb, wkbToGeoJSON } from "./wkb";
+import { fcPolyHoles, multiPoly2, realMultiLineString } from "test/helpers";
+import type { Geometry } from "types";
+
+test("wkb round-trip", () => {
+  const geometries: Geometry[] = [
+    { type: "Point", coordinates: [1, 2] },
+    { type: "Point", coordinates: [1, 2, 3] },
+    {
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [1, 1],
+      ],
+    },
+    fcPolyHoles.features[0].geometry as Geometry,
+    multiPoly2.geometry as Geometry,
+    realMultiLineString.geometry as Geometry,
+    {
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [1, 2] },
+        {
+          type: "MultiPoint",
+          coordinates: [
+            [1, 2],
+            [3, 4],
+          ],
+        },
+      ],
+    },
+  ];
+  for (const geometry of geometries) {
+    expect(wkbToGeoJSON(geoJSONToWkb(geometry))).toEqual(geometry);
+  }
+});
+
+test("wkbToGeoJSON – big-endian and M values", () => {
+  // POINT M (1 2 3), big-endian, ISO type 2001
+  const bytes = new Uint8Array(29);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, 0);
+  view.setUint32(1, 2001);
+  view.setFloat64(5, 1);
+  view.setFloat64(13, 2);
+  view.setFloat64(21, 3);
+  expect(wkbToGeoJSON(bytes)).toEqual({ type: "Point", coordinates: [1, 2] });
+});
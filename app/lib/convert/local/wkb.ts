@@ -0,0 +1,283 @@
+import type { Geometry, LineString, Point, Polygon, Position } from "types";
+
+/**
+ * A small Well-Known Binary codec, used by the GeoPackage
+ * driver. Reads ISO and EWKB-style Z flags, ignores M values,
+ * and always writes little-endian ISO WKB.
+ */
+
+const WKB_TYPES = [
+  "Point",
+  "LineString",
+  "Polygon",
+  "MultiPoint",
+  "MultiLineString",
+  "MultiPolygon",
+  "GeometryCollection",
+] as const;
+
+type WkbType = (typeof WKB_TYPES)[number];
+
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+class Reader {
+  view: DataView;
+  offset: number;
+  littleEndian = true;
+
+  constructor(bytes: Uint8Array, offset = 0) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = offset;
+  }
+
+  uint8() {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  uint32() {
+    const value = this.view.getUint32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  double() {
+    const value = this.view.getFloat64(this.offset, this.littleEndian);
+    this.offset += 8;
+    return value;
+  }
+}
+
+function readPosition(reader: Reader, hasZ: boolean, hasM: boolean) {
+  const position: Position = [reader.double(), reader.double()];
+  if (hasZ) position.push(reader.double());
+  if (hasM) reader.double();
+  return position;
+}
+
+function readPositions(reader: Reader, hasZ: boolean, hasM: boolean) {
+  const count = reader.uint32();
+  const positions: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    positions.push(readPosition(reader, hasZ, hasM));
+  }
+  return positions;
+}
+
+function readRings(reader: Reader, hasZ: boolean, hasM: boolean) {
+  const count = reader.uint32();
+  const rings: Position[][] = [];
+  for (let i = 0; i < count; i++) {
+    rings.push(readPositions(reader, hasZ, hasM));
+  }
+  return rings;
+}
+
+function readGeometry(reader: Reader): Geometry {
+  reader.littleEndian = reader.uint8() === 1;
+  let type = reader.uint32();
+
+  let hasZ = (type & EWKB_Z) !== 0;
+  let hasM = (type & EWKB_M) !== 0;
+  if (type & EWKB_SRID) {
+    // Skip the embedded SRID: GeoPackage stores it in the header.
+    reader.uint32();
+  }
+  type &= 0x0fffffff;
+
+  const dimensions = Math.floor(type / 1000);
+  type %= 1000;
+  if (dimensions === 1 || dimensions === 3) hasZ = true;
+  if (dimensions === 2 || dimensions === 3) hasM = true;
+
+  const name: WkbType | undefined = WKB_TYPES[type - 1];
+
+  function readChildren<T extends Geometry>() {
+    const count = reader.uint32();
+    const children: T[] = [];
+    for (let i = 0; i < count; i++) {
+      children.push(readGeometry(reader) as T);
+    }
+    return children;
+  }
+
+  switch (name) {
+    case "Point": {
+      return { type: "Point", coordinates: readPosition(reader, hasZ, hasM) };
+    }
+    case "LineString": {
+      return {
+        type: "LineString",
+        coordinates: readPositions(reader, hasZ, hasM),
+      };
+    }
+    case "Polygon": {
+      return { type: "Polygon", coordinates: readRings(reader, hasZ, hasM) };
+    }
+    case "MultiPoint": {
+      return {
+        type: "MultiPoint",
+        coordinates: readChildren<Point>().map((p) => p.coordinates),
+      };
+    }
+    case "MultiLineString": {
+      return {
+        type: "MultiLineString",
+        coordinates: readChildren<LineString>().map((l) => l.coordinates),
+      };
+    }
+    case "MultiPolygon": {
+      return {
+        type: "MultiPolygon",
+        coordinates: readChildren<Polygon>().map((p) => p.coordinates),
+      };
+    }
+    case "GeometryCollection": {
+      return {
+        type: "GeometryCollection",
+        geometries: readChildren(),
+      };
+    }
+    default: {
+      throw new Error(`Unsupported WKB geometry type: ${type}`);
+    }
+  }
+}
+
+export function wkbToGeoJSON(bytes: Uint8Array, offset = 0): Geometry {
+  return readGeometry(new Reader(bytes, offset));
+}
+
+/**
+ * Whether any coordinate in this geometry has a Z value,
+ * which decides whether the geometry is written as XYZ.
+ */
+export function geometryHasZ(geometry: Geometry): boolean {
+  switch (geometry.type) {
+    case "Point":
+      return geometry.coordinates.length > 2;
+    case "LineString":
+    case "MultiPoint":
+      return geometry.coordinates.some((p) => p.length > 2);
+    case "Polygon":
+    case "MultiLineString":
+      return geometry.coordinates.some((r) => r.some((p) => p.length > 2));
+    case "MultiPolygon":
+      return geometry.coordinates.some((poly) =>
+        poly.some((r) => r.some((p) => p.length > 2))
+      );
+    case "GeometryCollection":
+      return geometry.geometries.some(geometryHasZ);
+  }
+}
+
+class Writer {
+  parts: Uint8Array[] = [];
+
+  uint8(value: number) {
+    this.parts.push(new Uint8Array([value]));
+  }
+
+  uint32(value: number) {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    this.parts.push(bytes);
+  }
+
+  double(value: number) {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value, true);
+    this.parts.push(bytes);
+  }
+
+  toBytes() {
+    const length = this.parts.reduce((sum, part) => sum + part.length, 0);
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const part of this.parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+}
+
+function writeHeader(writer: Writer, type: WkbType, hasZ: boolean) {
+  writer.uint8(1);
+  writer.uint32(WKB_TYPES.indexOf(type) + 1 + (hasZ ? 1000 : 0));
+}
+
+function writePosition(writer: Writer, position: Position, hasZ: boolean) {
+  writer.double(position[0]);
+  writer.double(position[1]);
+  if (hasZ) writer.double(position[2] ?? 0);
+}
+
+function writePositions(writer: Writer, positions: Position[], hasZ: boolean) {
+  writer.uint32(positions.length);
+  for (const position of positions) {
+    writePosition(writer, position, hasZ);
+  }
+}
+
+function writeRings(writer: Writer, rings: Position[][], hasZ: boolean) {
+  writer.uint32(rings.length);
+  for (const ring of rings) {
+    writePositions(writer, ring, hasZ);
+  }
+}
+
+function writeGeometry(writer: Writer, geometry: Geometry, hasZ: boolean) {
+  writeHeader(writer, geometry.type, hasZ);
+  switch (geometry.type) {
+    case "Point": {
+      writePosition(writer, geometry.coordinates, hasZ);
+      break;
+    }
+    case "LineString": {
+      writePositions(writer, geometry.coordinates, hasZ);
+      break;
+    }
+    case "Polygon": {
+      writeRings(writer, geometry.coordinates, hasZ);
+      break;
+    }
+    case "MultiPoint": {
+      writer.uint32(geometry.coordinates.length);
+      for (const coordinates of geometry.coordinates) {
+        writeGeometry(writer, { type: "Point", coordinates }, hasZ);
+      }
+      break;
+    }
+    case "MultiLineString": {
+      writer.uint32(geometry.coordinates.length);
+      for (const coordinates of geometry.coordinates) {
+        writeGeometry(writer, { type: "LineString", coordinates }, hasZ);
+      }
+      break;
+    }
+    case "MultiPolygon": {
+      writer.uint32(geometry.coordinates.length);
+      for (const coordinates of geometry.coordinates) {
+        writeGeometry(writer, { type: "Polygon", coordinates }, hasZ);
+      }
+      break;
+    }
+    case "GeometryCollection": {
+      writer.uint32(geometry.geometries.length);
+      for (const child of geometry.geometries) {
+        writeGeometry(writer, child, hasZ);
+      }
+      break;
+    }
+  }
+}
+
+export function geoJSONToWkb(geometry: Geometry): Uint8Array {
+  const writer = new Writer();
+  writeGeometry(writer, geometry, geometryHasZ(geometry));
+  return writer.toBytes();
+}
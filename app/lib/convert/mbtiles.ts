@@ -0,0 +1,66 @@
+import type { ExportOptions, ExportResult, FileType } from ".";
+import { ConvertResult, rootToTables } from "./utils";
+import { EitherAsync } from "purify-ts/EitherAsync";
+import { Left } from "purify-ts/Either";
+import { ConvertError } from "app/lib/errors";
+import type { FeatureCollection, FeatureMap, FolderMap } from "types";
+import { solveRootItems } from "app/components/panels/feature_editor/feature_editor_folder/math";
+
+export class CMBTiles implements FileType {
+  id = "mbtiles" as const;
+  label = "Vector tiles (MBTiles)";
+  extensions = [".mbtiles"];
+  filenames = [] as string[];
+  mimes = [] as string[];
+  forwardBinary(_file: ArrayBuffer) {
+    return EitherAsync.liftEither(
+      Left<ConvertError, ConvertResult>(
+        new ConvertError("MBTiles files can be exported, but not imported")
+      )
+    );
+  }
+  back(
+    {
+      featureMap,
+      folderMap,
+    }: {
+      geojson: FeatureCollection;
+      featureMap: FeatureMap;
+      folderMap: FolderMap;
+    },
+    options: ExportOptions
+  ) {
+    return EitherAsync<ConvertError, ExportResult>(async function backMBTiles({
+      throwE,
+    }) {
+      const zoomRange = options.vectorTileOptions;
+      if (zoomRange && zoomRange.minZoom > zoomRange.maxZoom) {
+        return throwE(
+          new ConvertError(
+            "The minimum zoom should be less than or equal to the maximum zoom"
+          )
+        );
+      }
+      const { tablesToMBTiles } = await import("app/lib/convert/local/mbtiles");
+      try {
+        const tables = rootToTables(
+          solveRootItems(featureMap, folderMap),
+          "features"
+        );
+        const res = await tablesToMBTiles(tables, options.vectorTileOptions);
+        return {
+          blob: new Blob([res]),
+          name: "features.mbtiles",
+        };
+      } catch (e) {
+        return throwE(
+          e instanceof ConvertError
+            ? e
+            : new ConvertError("Could not convert to MBTiles")
+        );
+      }
+    });
+  }
+}
+
+export const MBTiles = new CMBTiles();
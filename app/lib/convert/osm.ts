@@ -1,8 +1,9 @@
-import type { FileType, ImportOptions } from ".";
+import type { ExportOptions, ExportResult, FileType, ImportOptions } from ".";
 import { EitherAsync } from "purify-ts/EitherAsync";
 import type { ConvertError } from "app/lib/errors";
 import readAsText from "app/lib/read_as_text";
-import { ConvertResult, okResult, toDom } from "./utils";
+import { ConvertResult, okResult, stringToBlob, toDom } from "./utils";
+import type { FeatureCollection } from "types";
 
 export class COSM implements FileType {
   id = "osm" as const;
@@ -27,6 +28,17 @@ export class COSM implements FileType {
       return OSM.forwardString(text);
     });
   }
+  back({ geojson }: { geojson: FeatureCollection }, _options: ExportOptions) {
+    return EitherAsync<ConvertError, ExportResult>(async function backOsm() {
+      const { geojsonToOSM } = await import(
+        "app/lib/convert/local/geojson_to_osm"
+      );
+      return {
+        blob: stringToBlob(geojsonToOSM(geojson)),
+        name: "features.osm",
+      };
+    });
+  }
 }
 
 export const OSM = new COSM();
@@ -241,7 +241,7 @@ class CShapefile implements FileType {
       }
     );
   }
-  back({ geojson }: { geojson: FeatureCollection }, _options: ExportOptions) {
+  back({ geojson }: { geojson: FeatureCollection }, options: ExportOptions) {
     return EitherAsync<ConvertError, ExportResult>(
       async function backShapefile() {
         const { importContent } = await import(
@@ -250,6 +250,9 @@ class CShapefile implements FileType {
         const { exportFileContent } = await import(
           "vendor/mapshaper/io/mapshaper-export"
         );
+        const { getCRS, looksLikeProj4String } = await import(
+          "vendor/mapshaper/crs/mapshaper-projections"
+        );
         const fflate = await import("fflate");
 
         const out = importContent({
@@ -259,6 +262,19 @@ class CShapefile implements FileType {
           },
         });
 
+        // Mapshaper only guesses WGS84 for the .prj file,
+        // so describe any other coordinate system. WKT
+        // definitions can be written as they are.
+        const { targetCrs } = options;
+        if (targetCrs) {
+          out.info = out.info || {};
+          if (looksLikeProj4String(targetCrs.definition)) {
+            out.info.crs = getCRS(targetCrs.definition);
+          } else {
+            out.info.prj = targetCrs.definition;
+          }
+        }
+
         const exported = exportFileContent(out, {
           format: "shapefile",
         });
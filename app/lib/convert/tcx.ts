@@ -1,6 +1,6 @@
 import readAsText from "app/lib/read_as_text";
-import type { FileType } from ".";
-import { toDom, okResult, ConvertResult } from "./utils";
+import type { ExportOptions, ExportResult, FileType } from ".";
+import { toDom, okResult, ConvertResult, stringToBlob } from "./utils";
 import { EitherAsync } from "purify-ts/EitherAsync";
 import type { ConvertError } from "app/lib/errors";
 import { FeatureCollection } from "types";
@@ -25,6 +25,17 @@ export class CTCX implements FileType {
       }
     );
   }
+  back({ geojson }: { geojson: FeatureCollection }, _options: ExportOptions) {
+    return EitherAsync<ConvertError, ExportResult>(async function backTcx() {
+      const { geojsonToTCX } = await import(
+        "app/lib/convert/local/geojson_to_tcx"
+      );
+      return {
+        blob: stringToBlob(geojsonToTCX(geojson)),
+        name: "features.tcx",
+      };
+    });
+  }
 }
 
 export const TCX = new CTCX();
@@ -1,5 +1,5 @@
-import { Root } from "@tmcw/togeojson";
-import { FeatureCollection } from "types";
+import type { Folder, Root } from "@tmcw/togeojson";
+import type { Feature, FeatureCollection } from "types";
 
 // https://github.com/browserify/path-browserify/blob/872fec31a8bac7b9b43be0e54ef3037e0202c5fb/index.js#L389
 /**
@@ -66,6 +66,22 @@ export async function toDom(str: string) {
   return new xmldom.DOMParser().parseFromString(str, "text/xml");
 }
 
+const XML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+/**
+ * Escape a value for use in XML text content or
+ * a double-quoted attribute.
+ */
+export function escapeXml(value: unknown) {
+  return String(value).replace(/[&<>"']/g, (char) => XML_ENTITIES[char]);
+}
+
 export function stringToBlob(str: string) {
   return new Blob([str], { type: "text/plain" });
 }
@@ -91,3 +107,36 @@ export function okResult(geojson: FeatureCollection): ConvertResult {
     notes: [],
   };
 }
+
+export interface FeatureTable {
+  name: string;
+  features: Feature[];
+}
+
+/**
+ * For formats that hold a flat list of tables or sheets
+ * rather than a tree: each folder becomes its own table, containing
+ * the features directly inside of it. Features outside of any folder
+ * go into a table named `rootName`.
+ */
+export function rootToTables(root: Root, rootName: string): FeatureTable[] {
+  const tables: FeatureTable[] = [];
+
+  function collect(parent: Root | Folder, name: string) {
+    const features = parent.children.filter(
+      (child): child is Feature => child.type === "Feature"
+    );
+    if (features.length) {
+      tables.push({ name, features });
+    }
+    for (const child of parent.children) {
+      if (child.type === "folder") {
+        collect(child, String(child.meta.name || "Folder"));
+      }
+    }
+  }
+
+  collect(root, rootName);
+
+  return tables;
+}
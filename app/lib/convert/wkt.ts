@@ -1,8 +1,8 @@
 import readAsText from "app/lib/read_as_text";
-import type { FileType } from ".";
-import type { Feature } from "types";
+import type { ExportOptions, ExportResult, FileType } from ".";
+import type { Feature, FeatureCollection } from "types";
 import { EitherAsync } from "purify-ts/EitherAsync";
-import { ConvertResult } from "./utils";
+import { ConvertResult, stringToBlob } from "./utils";
 import { ConvertError } from "app/lib/errors";
 import { rough } from "app/lib/roughly_geojson";
 import { Maybe } from "purify-ts/Maybe";
@@ -10,7 +10,7 @@ import { Maybe } from "purify-ts/Maybe";
 export class CWKT implements FileType {
   id = "wkt" as const;
   label = "WKT";
-  extensions = [] as string[];
+  extensions = [".wkt"];
   filenames = [] as string[];
   mimes = [] as string[];
   forwardBinary(file: ArrayBuffer) {
@@ -24,15 +24,33 @@ export class CWKT implements FileType {
     }) {
       const parse = await import("betterknown").then((mod) => mod.wktToGeoJSON);
       const proj = await import("proj4");
-      const geojson = await liftEither(
+      const parseGeometry = (wkt: string) =>
         Maybe.encase(() => {
-          return parse(text, {
+          return parse(wkt, {
             proj: (a, b, coord) => {
               return proj.default(a, b, coord);
             },
           });
-        })
-          .chainNullable((x) => x)
+        }).chainNullable((x) => x);
+
+      // Files written by back() have one geometry per line,
+      // but a single geometry can also be split across lines.
+      const lines = text.split(/\r?\n/).filter((line) => line.trim());
+      const geometries = Maybe.sequence(lines.map(parseGeometry));
+      const geojson = await liftEither(
+        (lines.length > 1 && geometries.isJust()
+          ? geometries.map(
+              (geometries): FeatureCollection => ({
+                type: "FeatureCollection",
+                features: geometries.map((geometry) => ({
+                  type: "Feature",
+                  properties: {},
+                  geometry,
+                })),
+              })
+            )
+          : parseGeometry(text.replace(/\s+/g, " "))
+        )
           .toEither(new ConvertError("Could not convert WKT"))
           .chain((geojson) => rough(geojson))
       );
@@ -50,6 +68,27 @@ export class CWKT implements FileType {
       }
     );
   }
+  /**
+   * Write one geometry per line. Features without
+   * a geometry are skipped.
+   */
+  back({ geojson }: { geojson: FeatureCollection }, _options: ExportOptions) {
+    return EitherAsync<ConvertError, ExportResult>(async function backWkt() {
+      const stringify = await import("betterknown").then(
+        (mod) => mod.geoJSONToWkt
+      );
+      const lines: string[] = [];
+      for (const feature of geojson.features) {
+        if (feature.geometry === null) continue;
+        const wkt = stringify(feature.geometry);
+        if (wkt) lines.push(wkt);
+      }
+      return {
+        blob: stringToBlob(lines.join("\n")),
+        name: "features.wkt",
+      };
+    });
+  }
 }
 
 export const WKT = new CWKT();
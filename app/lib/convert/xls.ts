@@ -1,12 +1,14 @@
-import type { FileType, ImportOptions } from ".";
-import { ConvertResult, okResult } from "./utils";
+import type { ExportOptions, ExportResult, FileType, ImportOptions } from ".";
+import { ConvertResult, okResult, rootToTables } from "./utils";
 import { EitherAsync } from "purify-ts/EitherAsync";
-import type { ConvertError } from "app/lib/errors";
+import { ConvertError } from "app/lib/errors";
+import type { FeatureCollection, FeatureMap, FolderMap } from "types";
+import { solveRootItems } from "app/components/panels/feature_editor/feature_editor_folder/math";
 
 export class CXLS implements FileType {
   id = "xls" as const;
   label = "Excel (.xls, .xlsx)";
-  extensions = [".xls", ".xlsx"];
+  extensions = [".xlsx", ".xls"];
   filenames = [] as string[];
   mimes = [] as string[];
   forwardBinary(file: ArrayBuffer, options: ImportOptions) {
@@ -20,6 +22,37 @@ export class CXLS implements FileType {
       }
     );
   }
+  back(
+    {
+      featureMap,
+      folderMap,
+    }: {
+      geojson: FeatureCollection;
+      featureMap: FeatureMap;
+      folderMap: FolderMap;
+    },
+    options: ExportOptions
+  ) {
+    return EitherAsync<ConvertError, ExportResult>(async function backXls({
+      throwE,
+    }) {
+      const { tablesToXLSX } = await import(
+        "app/lib/convert/local/geojson_to_xlsx"
+      );
+      try {
+        const tables = rootToTables(
+          solveRootItems(featureMap, folderMap),
+          "Features"
+        );
+        return {
+          blob: new Blob([tablesToXLSX(tables, options)]),
+          name: "features.xlsx",
+        };
+      } catch (e) {
+        return throwE(new ConvertError("Could not convert to Excel"));
+      }
+    });
+  }
 }
 
 export const XLS = new CXLS();
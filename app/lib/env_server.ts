@@ -65,6 +65,12 @@ export const env = envsafe({
   GITHUB_ISSUES_TOKEN: str({
     devDefault: "_",
   }),
+  /**
+   * Webhooks can't be sent to private, loopback, or link-local
+   * addresses, unless their host is in this comma-separated
+   * list, like `localhost,127.0.0.1` for development.
+   */
+  WEBHOOK_ALLOWED_HOSTS: str({ allowEmpty: true, default: "" }),
 });
 
 if (env.WORKOS_API_KEY === "off") {
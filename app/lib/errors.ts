@@ -14,10 +14,31 @@ export class GeometryError extends PlacemarkError {
   name = "GeometryError";
 }
 
+export class FilterError extends PlacemarkError {
+  name = "FilterError";
+}
+
+export class CalculationError extends PlacemarkError {
+  name = "CalculationError";
+}
+
 export class QuotaError extends PlacemarkError {
   name = "QuotaError";
 }
 
+/**
+ * Errors from the v1 API, with the HTTP
+ * status that they're sent with.
+ */
+export class ApiError extends PlacemarkError {
+  name = "ApiError";
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
 export class SSOError {
   code: keyof typeof ERROR_CODES;
   constructor(code: keyof typeof ERROR_CODES) {
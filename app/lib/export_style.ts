@@ -2,7 +2,10 @@ import { leaflet } from "app/lib/leaflet_export";
 import {
   asColorExpression,
   CIRCLE_PAINT,
+  CLUSTER_PAINT,
+  CLUSTER_SOURCE,
   FILL_PAINT,
+  HEATMAP_PAINT,
   LINE_PAINT,
 } from "app/lib/load_and_augment_style";
 import { ISymbolization } from "types";
@@ -13,6 +16,45 @@ export interface EOption {
 }
 
 export function exportStyle(symbolization: ISymbolization): EOption[] {
+  switch (symbolization.type) {
+    case "heatmap": {
+      return [
+        {
+          name: "Mapbox GL Style: Heatmap",
+          value: JSON.stringify(HEATMAP_PAINT(symbolization), null, 2),
+        },
+        {
+          name: "Leaflet",
+          value: leaflet(symbolization),
+        },
+      ];
+    }
+    case "cluster": {
+      return [
+        {
+          name: "Mapbox GL Source",
+          value: JSON.stringify(CLUSTER_SOURCE(symbolization), null, 2),
+        },
+        {
+          name: "Mapbox GL Style: Clusters",
+          value: JSON.stringify(CLUSTER_PAINT(symbolization), null, 2),
+        },
+        {
+          name: "Mapbox GL Style: Circle",
+          value: JSON.stringify(CIRCLE_PAINT(symbolization, false), null, 2),
+        },
+        {
+          name: "Leaflet",
+          value: leaflet(symbolization),
+        },
+      ];
+    }
+    case "none":
+    case "ramp":
+    case "categorical": {
+      break;
+    }
+  }
   return [
     {
       name: "Mapbox GL Style: Line",
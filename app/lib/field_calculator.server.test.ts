@@ -0,0 +1,123 @@
+import { expect, describe, it } from "vitest";
+import { evaluateCalculation, parseCalculation } from "./field_calculator";
+import type { Feature } from "types";
+
+const units = { lengthUnits: "kilometers", areaUnits: "meters" } as const;
+
+const square: Feature = {
+  type: "Feature",
+  properties: { name: "Main", count: "4", zero: 0 },
+  geometry: {
+    type: "Polygon",
+    coordinates: [
+      [
+        [0, 0],
+        [0, 1],
+        [1, 1],
+        [1, 0],
+        [0, 0],
+      ],
+    ],
+  },
+};
+
+const line: Feature = {
+  type: "Feature",
+  properties: {},
+  geometry: {
+    type: "LineString",
+    coordinates: [
+      [0, 0],
+      [0, 1],
+      [2, 1],
+    ],
+  },
+};
+
+function calculate(input: string, feature: Feature = square) {
+  return evaluateCalculation(
+    parseCalculation(input).unsafeCoerce(),
+    feature,
+    units
+  );
+}
+
+function error(input: string) {
+  return parseCalculation(input).swap().unsafeCoerce().message;
+}
+
+describe("parseCalculation", () => {
+  it("respects operator precedence", () => {
+    expect(parseCalculation("1 + 2 * -x").unsafeCoerce()).toEqual({
+      type: "binary",
+      operator: "+",
+      left: { type: "literal", value: 1 },
+      right: {
+        type: "binary",
+        operator: "*",
+        left: { type: "literal", value: 2 },
+        right: { type: "negate", argument: { type: "property", name: "x" } },
+      },
+    });
+  });
+
+  it("reports errors", () => {
+    expect(error("1 +")).toEqual(
+      "Expected a value, but found the end of the expression"
+    );
+    expect(error("eval(1)")).toEqual("Unknown function “eval” at character 1");
+    expect(error("constructor(1)")).toEqual(
+      "Unknown function “constructor” at character 1"
+    );
+    expect(error("__proto__(1)")).toEqual(
+      "Unknown function “__proto__” at character 1"
+    );
+    expect(error("$nope")).toMatch(/Unknown variable “\$nope”/);
+    expect(error("round()")).toEqual(
+      "round() takes 1 or 2 arguments, but was given 0"
+    );
+    expect(error("'open")).toEqual(
+      "Unterminated quote starting at character 1"
+    );
+    expect(error("a ; b")).toEqual("Unexpected “;” at character 3");
+  });
+});
+
+describe("evaluateCalculation", () => {
+  it("reads properties", () => {
+    expect(calculate("count * 2")).toEqual(8);
+    expect(calculate("`name` + ' Street'")).toEqual("Main Street");
+    expect(calculate("missing + 1")).toEqual(null);
+    expect(calculate("count / zero")).toEqual(null);
+    expect(calculate("name * 2")).toEqual(null);
+  });
+
+  it("ignores inherited properties", () => {
+    expect(calculate("constructor")).toEqual(null);
+    expect(calculate("toString")).toEqual(null);
+    expect(calculate("`__proto__`")).toEqual(null);
+  });
+
+  it("calls functions", () => {
+    expect(calculate("round(10 / 3, 2)")).toEqual(3.33);
+    expect(calculate("upper(name)")).toEqual("MAIN");
+    expect(calculate("coalesce(missing, name)")).toEqual("Main");
+    expect(calculate("concat(name, missing, count)")).toEqual("Main4");
+    expect(calculate("if(count > 3 and not zero, 'many', 'few')")).toEqual(
+      "many"
+    );
+    expect(calculate("max(1, count, 2)")).toEqual(4);
+  });
+
+  it("measures geometries", () => {
+    expect(calculate("$vertex_count")).toEqual(4);
+    expect(calculate("$centroid_x")).toEqual(0.5);
+    expect(calculate("$geometry_type")).toEqual("Polygon");
+    expect(calculate("round($area / 1000000)")).toEqual(12391);
+    expect(calculate("$length")).toEqual(0);
+    expect(calculate("round($perimeter)")).toEqual(445);
+    expect(calculate("round($length)", line)).toEqual(334);
+    expect(calculate("$area", line)).toEqual(0);
+    expect(calculate("$vertex_count", { ...line, geometry: null })).toEqual(0);
+  });
+});
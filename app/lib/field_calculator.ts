@@ -0,0 +1,626 @@
+import { Either, Left, Right } from "purify-ts/Either";
+import type { JsonValue } from "type-fest";
+import type { Feature, Geometry } from "types";
+import measureArea from "@turf/area";
+import measureLength from "@turf/length";
+import { convertArea } from "@turf/helpers";
+import type { AllGeoJSON, Units } from "@turf/helpers";
+import { coordEach } from "@turf/meta";
+import { CalculationError } from "app/lib/errors";
+import { cast, castExplicit, ExplicitCast } from "app/lib/cast";
+
+/**
+ * A small expression language for computing property values,
+ * like
+ *
+ *   round($area, 2)
+ *   upper(name) + " (" + kind + ")"
+ *   if(population > 10000, "city", "town")
+ *
+ * Expressions are parsed and interpreted here rather than
+ * evaluated as JavaScript, so they can only read the feature's
+ * properties, measurements of its geometry that start with $,
+ * and the functions in FUNCTIONS.
+ */
+
+type Value = JsonValue;
+
+type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "and"
+  | "or";
+
+export type CalculationExpression =
+  | { type: "literal"; value: Value }
+  | { type: "property"; name: string }
+  | { type: "measure"; name: Measure }
+  | { type: "negate" | "not"; argument: CalculationExpression }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: CalculationExpression;
+      right: CalculationExpression;
+    }
+  | { type: "call"; name: string; args: CalculationExpression[] };
+
+export interface CalculationUnits {
+  lengthUnits: Units;
+  areaUnits: Units;
+}
+
+type Token =
+  | { type: "word" | "field" | "string" | "operator"; value: string }
+  | { type: "number"; value: number }
+  | { type: "(" | ")" | "," | "end"; value?: undefined };
+
+type PositionedToken = Token & { start: number };
+
+const OPERATORS: Record<string, BinaryOperator> = {
+  "+": "+",
+  "-": "-",
+  "*": "*",
+  "/": "/",
+  "%": "%",
+  "=": "=",
+  "==": "=",
+  "!=": "!=",
+  "<>": "!=",
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+};
+
+const COMPARISONS = new Set<BinaryOperator>(["=", "!=", "<", "<=", ">", ">="]);
+
+const KEYWORDS = new Set(["and", "or", "not", "true", "false", "null"]);
+
+export const MEASURES = [
+  "$area",
+  "$length",
+  "$perimeter",
+  "$centroid_x",
+  "$centroid_y",
+  "$vertex_count",
+  "$geometry_type",
+] as const;
+
+type Measure = (typeof MEASURES)[number];
+
+function isMeasure(name: string): name is Measure {
+  return (MEASURES as readonly string[]).includes(name);
+}
+
+function toNumber(value: Value | undefined): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const casted = cast(value);
+    if (typeof casted === "number") return casted;
+  }
+  return null;
+}
+
+function toText(value: Value | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  return castExplicit(value, ExplicitCast.String) as string;
+}
+
+function truthy(value: Value | undefined) {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+/**
+ * Wrap a function that takes only numbers: if any of
+ * the arguments can't be read as a number, the result
+ * is null.
+ */
+function numeric(fn: (...args: number[]) => number) {
+  return (args: Value[]): Value => {
+    const numbers = args.map(toNumber);
+    if (numbers.some((n) => n === null)) return null;
+    return fn(...(numbers as number[]));
+  };
+}
+
+function textual(fn: (text: string) => Value) {
+  return ([value]: Value[]): Value => {
+    const text = toText(value);
+    return text === null ? null : fn(text);
+  };
+}
+
+const FUNCTIONS: Record<
+  string,
+  { min: number; max: number; fn: (args: Value[]) => Value }
+> = {
+  abs: { min: 1, max: 1, fn: numeric(Math.abs) },
+  ceil: { min: 1, max: 1, fn: numeric(Math.ceil) },
+  floor: { min: 1, max: 1, fn: numeric(Math.floor) },
+  round: {
+    min: 1,
+    max: 2,
+    fn: numeric((value, digits = 0) => {
+      const factor = 10 ** Math.round(digits);
+      return Math.round(value * factor) / factor;
+    }),
+  },
+  sqrt: { min: 1, max: 1, fn: numeric(Math.sqrt) },
+  min: { min: 1, max: Infinity, fn: numeric(Math.min) },
+  max: { min: 1, max: Infinity, fn: numeric(Math.max) },
+  lower: { min: 1, max: 1, fn: textual((text) => text.toLowerCase()) },
+  upper: { min: 1, max: 1, fn: textual((text) => text.toUpperCase()) },
+  trim: { min: 1, max: 1, fn: textual((text) => text.trim()) },
+  length: { min: 1, max: 1, fn: textual((text) => text.length) },
+  concat: {
+    min: 1,
+    max: Infinity,
+    fn: (args) => args.map((arg) => toText(arg) ?? "").join(""),
+  },
+  coalesce: {
+    min: 1,
+    max: Infinity,
+    fn: (args) => args.find((arg) => arg !== null && arg !== undefined) ?? null,
+  },
+  if: {
+    min: 2,
+    max: 3,
+    fn: ([condition, then, otherwise = null]) =>
+      truthy(condition) ? then : otherwise,
+  },
+  number: { min: 1, max: 1, fn: ([value]) => toNumber(value) },
+  string: { min: 1, max: 1, fn: ([value]) => toText(value) },
+};
+
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+function describe(token: PositionedToken) {
+  return token.type === "end"
+    ? "the end of the expression"
+    : `“${token.value ?? token.type}” at character ${token.start + 1}`;
+}
+
+function readQuoted(input: string, start: number) {
+  const quote = input[start];
+  let value = "";
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\\" && i + 1 < input.length) {
+      value += input[++i];
+    } else if (char === quote) {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+    }
+  }
+  throw new CalculationError(
+    `Unterminated quote starting at character ${start + 1}`
+  );
+}
+
+function tokenize(input: string): PositionedToken[] {
+  const tokens: PositionedToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    const rest = input.slice(i);
+    const number = /^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(rest);
+    const word = /^[$A-Za-z_\u00c0-\uffff][\w\u00c0-\uffff:.]*/.exec(rest);
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, start: i });
+      i++;
+    } else if (char === '"' || char === "'" || char === "`") {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ type: char === "`" ? "field" : "string", value, start: i });
+      i = end;
+    } else if (number) {
+      tokens.push({ type: "number", value: +number[0], start: i });
+      i += number[0].length;
+    } else if (word) {
+      tokens.push({ type: "word", value: word[0], start: i });
+      i += word[0].length;
+    } else {
+      const two = input.slice(i, i + 2);
+      const value = two in OPERATORS ? two : char;
+      if (!(value in OPERATORS)) {
+        throw new CalculationError(
+          `Unexpected “${char}” at character ${i + 1}`
+        );
+      }
+      tokens.push({ type: "operator", value, start: i });
+      i += value.length;
+    }
+  }
+  tokens.push({ type: "end", start: input.length });
+  return tokens;
+}
+
+class Parser {
+  tokens: PositionedToken[];
+  index = 0;
+
+  constructor(tokens: PositionedToken[]) {
+    this.tokens = tokens;
+  }
+
+  peek() {
+    return this.tokens[this.index];
+  }
+
+  next() {
+    return this.tokens[this.index++];
+  }
+
+  acceptKeyword(keyword: string) {
+    const token = this.peek();
+    if (token.type === "word" && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  acceptOperator(operators: BinaryOperator[]) {
+    const token = this.peek();
+    if (token.type === "operator") {
+      const operator = OPERATORS[token.value];
+      if (operators.includes(operator)) {
+        this.index++;
+        return operator;
+      }
+    }
+    return null;
+  }
+
+  expect(type: Token["type"], label: string) {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new CalculationError(
+        `Expected ${label}, but found ${describe(token)}`
+      );
+    }
+    return token;
+  }
+
+  parse(): CalculationExpression {
+    const expression = this.or();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new CalculationError(
+        `Expected an operator, but found ${describe(token)}`
+      );
+    }
+    return expression;
+  }
+
+  or(): CalculationExpression {
+    let left = this.and();
+    while (this.acceptKeyword("or")) {
+      left = { type: "binary", operator: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  and(): CalculationExpression {
+    let left = this.not();
+    while (this.acceptKeyword("and")) {
+      left = { type: "binary", operator: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  not(): CalculationExpression {
+    if (this.acceptKeyword("not")) {
+      return { type: "not", argument: this.not() };
+    }
+    return this.comparison();
+  }
+
+  comparison(): CalculationExpression {
+    const left = this.additive();
+    const operator = this.acceptOperator(Array.from(COMPARISONS));
+    if (!operator) return left;
+    return { type: "binary", operator, left, right: this.additive() };
+  }
+
+  additive(): CalculationExpression {
+    let left = this.multiplicative();
+    let operator: BinaryOperator | null;
+    while ((operator = this.acceptOperator(["+", "-"]))) {
+      left = { type: "binary", operator, left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  multiplicative(): CalculationExpression {
+    let left = this.unary();
+    let operator: BinaryOperator | null;
+    while ((operator = this.acceptOperator(["*", "/", "%"]))) {
+      left = { type: "binary", operator, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  unary(): CalculationExpression {
+    if (this.acceptOperator(["-"])) {
+      return { type: "negate", argument: this.unary() };
+    }
+    return this.primary();
+  }
+
+  primary(): CalculationExpression {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "field":
+        return { type: "property", name: token.value };
+      case "(": {
+        const expression = this.or();
+        this.expect(")", "a closing parenthesis");
+        return expression;
+      }
+      case "word":
+        return this.word(token);
+      case "operator":
+      case ")":
+      case ",":
+      case "end":
+        throw new CalculationError(
+          `Expected a value, but found ${describe(token)}`
+        );
+    }
+  }
+
+  word(token: PositionedToken & { value: string }): CalculationExpression {
+    const lower = token.value.toLowerCase();
+    if (lower === "true") return { type: "literal", value: true };
+    if (lower === "false") return { type: "literal", value: false };
+    if (lower === "null") return { type: "literal", value: null };
+    if (KEYWORDS.has(lower)) {
+      throw new CalculationError(
+        `Expected a value, but found ${describe(token)}`
+      );
+    }
+    if (token.value.startsWith("$")) {
+      if (!isMeasure(lower)) {
+        throw new CalculationError(
+          `Unknown variable “${
+            token.value
+          }”. Available variables are ${MEASURES.join(", ")}`
+        );
+      }
+      return { type: "measure", name: lower };
+    }
+    if (this.peek().type === "(") {
+      return this.call(token);
+    }
+    return { type: "property", name: token.value };
+  }
+
+  call(token: PositionedToken & { value: string }): CalculationExpression {
+    const name = token.value.toLowerCase();
+    // Names like “constructor” are on every object's
+    // prototype, so only look at FUNCTIONS' own keys.
+    const definition = Object.hasOwn(FUNCTIONS, name)
+      ? FUNCTIONS[name]
+      : undefined;
+    if (!definition) {
+      throw new CalculationError(
+        `Unknown function “${token.value}” at character ${token.start + 1}`
+      );
+    }
+    this.next();
+    const args: CalculationExpression[] = [];
+    if (this.peek().type !== ")") {
+      args.push(this.or());
+      while (this.peek().type === ",") {
+        this.next();
+        args.push(this.or());
+      }
+    }
+    this.expect(")", "a closing parenthesis");
+    if (args.length < definition.min || args.length > definition.max) {
+      const expected =
+        definition.min === definition.max
+          ? definition.min
+          : definition.max === Infinity
+          ? `at least ${definition.min}`
+          : `${definition.min} or ${definition.max}`;
+      throw new CalculationError(
+        `${name}() takes ${expected} argument${
+          expected === 1 ? "" : "s"
+        }, but was given ${args.length}`
+      );
+    }
+    return { type: "call", name, args };
+  }
+}
+
+export function parseCalculation(
+  input: string
+): Either<CalculationError, CalculationExpression> {
+  try {
+    return Right(new Parser(tokenize(input)).parse());
+  } catch (e) {
+    if (e instanceof CalculationError) return Left(e);
+    throw e;
+  }
+}
+
+/**
+ * The average of a geometry's vertices, skipping the
+ * closing vertex of rings, which is what the map uses
+ * to place labels and centroids.
+ */
+function vertexStats(geometry: Geometry) {
+  let count = 0;
+  let x = 0;
+  let y = 0;
+  coordEach(
+    geometry as AllGeoJSON,
+    (coord) => {
+      count++;
+      x += coord[0];
+      y += coord[1];
+    },
+    true
+  );
+  return {
+    count,
+    x: count ? x / count : null,
+    y: count ? y / count : null,
+  };
+}
+
+function measure(
+  name: Measure,
+  feature: Feature,
+  units: CalculationUnits
+): Value {
+  const { geometry } = feature;
+  if (!geometry) return name === "$vertex_count" ? 0 : null;
+  switch (name) {
+    case "$area":
+      return convertArea(measureArea(feature), "meters", units.areaUnits);
+    case "$length":
+      return geometry.type === "LineString" ||
+        geometry.type === "MultiLineString"
+        ? measureLength(feature, { units: units.lengthUnits })
+        : 0;
+    case "$perimeter":
+      return geometry.type === "Polygon" || geometry.type === "MultiPolygon"
+        ? measureLength(feature, { units: units.lengthUnits })
+        : 0;
+    case "$centroid_x":
+      return vertexStats(geometry).x;
+    case "$centroid_y":
+      return vertexStats(geometry).y;
+    case "$vertex_count":
+      return vertexStats(geometry).count;
+    case "$geometry_type":
+      return geometry.type;
+  }
+}
+
+function compare(left: Value, right: Value): number | null {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  const textA = toText(left);
+  const textB = toText(right);
+  if (textA === null || textB === null) return null;
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+}
+
+function binary(operator: BinaryOperator, left: Value, right: Value): Value {
+  switch (operator) {
+    case "and":
+      return truthy(left) && truthy(right);
+    case "or":
+      return truthy(left) || truthy(right);
+    case "=":
+    case "!=": {
+      const equal =
+        left === null || right === null
+          ? left === right
+          : compare(left, right) === 0;
+      return operator === "=" ? equal : !equal;
+    }
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const order = compare(left, right);
+      // Like SQL, comparisons with missing values are null.
+      if (order === null) return null;
+      if (operator === "<") return order < 0;
+      if (operator === "<=") return order <= 0;
+      if (operator === ">") return order > 0;
+      return order >= 0;
+    }
+    case "+":
+    case "-":
+    case "*":
+    case "/":
+    case "%": {
+      if (left === null || right === null) return null;
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) {
+        // + joins text, like "Main " + street
+        return operator === "+" ? `${toText(left)}${toText(right)}` : null;
+      }
+      if (operator === "+") return a + b;
+      if (operator === "-") return a - b;
+      if (operator === "*") return a * b;
+      if (operator === "/") return a / b;
+      return a % b;
+    }
+  }
+}
+
+function evaluate(
+  expression: CalculationExpression,
+  feature: Feature,
+  units: CalculationUnits
+): Value {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+    case "property": {
+      const { properties } = feature;
+      return properties && Object.hasOwn(properties, expression.name)
+        ? properties[expression.name] ?? null
+        : null;
+    }
+    case "measure":
+      return measure(expression.name, feature, units);
+    case "negate": {
+      const value = toNumber(evaluate(expression.argument, feature, units));
+      return value === null ? null : -value;
+    }
+    case "not":
+      return !truthy(evaluate(expression.argument, feature, units));
+    case "binary":
+      return binary(
+        expression.operator,
+        evaluate(expression.left, feature, units),
+        evaluate(expression.right, feature, units)
+      );
+    case "call":
+      return FUNCTIONS[expression.name].fn(
+        expression.args.map((arg) => evaluate(arg, feature, units))
+      );
+  }
+}
+
+/**
+ * Compute the value of an expression for a feature. Rather
+ * than failing, operations that don't make sense for
+ * the feature's values - like dividing by zero or
+ * multiplying text - produce null.
+ */
+export function evaluateCalculation(
+  expression: CalculationExpression,
+  feature: Feature,
+  units: CalculationUnits
+): Value {
+  const value = evaluate(expression, feature, units);
+  if (typeof value === "number" && !isFinite(value)) return null;
+  return value;
+}
@@ -0,0 +1,117 @@
+import { expect, describe, it } from "vitest";
+import {
+  evaluateFilterExpression,
+  parseFilterExpression,
+} from "./filter_expression";
+import type { Feature } from "types";
+
+function matches(input: string, properties: Feature["properties"]) {
+  return evaluateFilterExpression(
+    parseFilterExpression(input).unsafeCoerce(),
+    properties
+  );
+}
+
+function error(input: string) {
+  return parseFilterExpression(input).swap().unsafeCoerce().message;
+}
+
+describe("parseFilterExpression", () => {
+  it("parses comparisons and boolean logic", () => {
+    expect(
+      parseFilterExpression(
+        `population > 10000 AND status in ("open", 'pending')`
+      ).unsafeCoerce()
+    ).toEqual({
+      type: "and",
+      left: {
+        type: "compare",
+        field: "population",
+        operator: ">",
+        value: 10000,
+      },
+      right: { type: "in", field: "status", values: ["open", "pending"] },
+    });
+    expect(
+      parseFilterExpression("not `a b` is not null").unsafeCoerce()
+    ).toEqual({
+      type: "not",
+      expression: {
+        type: "not",
+        expression: { type: "null", field: "a b" },
+      },
+    });
+  });
+
+  it("reports errors with positions", () => {
+    expect(error("population >")).toEqual(
+      "Expected a value, but found the end of the filter"
+    );
+    expect(error("status = open")).toEqual(
+      `Expected a value, but found “open” at character 10. Text values need quotes, like "open"`
+    );
+    expect(error(`name = "x`)).toEqual(
+      "Unterminated quote starting at character 8"
+    );
+    expect(error("a = 1 b = 2")).toEqual(
+      "Expected AND or OR, but found “b” at character 7"
+    );
+    expect(error("(a = 1")).toEqual(
+      "Expected a closing parenthesis, but found the end of the filter"
+    );
+    expect(error("a ! 1")).toEqual(
+      "Unexpected “!” at character 3. Did you mean “!=”?"
+    );
+  });
+});
+
+describe("evaluateFilterExpression", () => {
+  it("compares numbers, including numeric strings", () => {
+    expect(matches("population > 10000", { population: 20000 })).toBeTruthy();
+    expect(matches("population > 10000", { population: "20000" })).toBeTruthy();
+    expect(matches("population > 10000", { population: 200 })).toBeFalsy();
+    expect(matches("population > 10000", { population: "many" })).toBeFalsy();
+    expect(
+      matches("area_m2 between 100 and 500", { area_m2: 100 })
+    ).toBeTruthy();
+    expect(
+      matches("area_m2 between 100 and 500", { area_m2: 501 })
+    ).toBeFalsy();
+  });
+
+  it("compares strings and booleans", () => {
+    expect(
+      matches(`status in ("open","pending")`, { status: "pending" })
+    ).toBeTruthy();
+    expect(
+      matches(`status not in ("open")`, { status: "closed" })
+    ).toBeTruthy();
+    expect(matches(`zip = "01234"`, { zip: "01234" })).toBeTruthy();
+    expect(matches(`zip = "10"`, { zip: 10 })).toBeTruthy();
+    expect(matches("open = true", { open: "true" })).toBeTruthy();
+    expect(matches("open = true", { open: false })).toBeFalsy();
+    expect(
+      matches(`name contains "MAIN"`, { name: "Main Street" })
+    ).toBeTruthy();
+  });
+
+  it("handles missing values", () => {
+    expect(matches("name is null", {})).toBeTruthy();
+    expect(matches("name is null", { name: null })).toBeTruthy();
+    expect(matches("name is not null", { name: "" })).toBeTruthy();
+    expect(matches("count > 1", null)).toBeFalsy();
+    expect(matches("count != 1", {})).toBeFalsy();
+  });
+
+  it("ignores inherited properties", () => {
+    expect(matches("constructor is null", {})).toBeTruthy();
+    expect(matches("toString is not null", { name: "A" })).toBeFalsy();
+    expect(matches("hasOwnProperty contains 'function'", {})).toBeFalsy();
+  });
+
+  it("respects precedence", () => {
+    expect(matches("a = 1 or a = 2 and b = 3", { a: 1, b: 0 })).toBeTruthy();
+    expect(matches("(a = 1 or a = 2) and b = 3", { a: 1, b: 0 })).toBeFalsy();
+    expect(matches("NOT a = 1", { a: 2 })).toBeTruthy();
+  });
+});
@@ -0,0 +1,400 @@
+import { Either, Left, Right } from "purify-ts/Either";
+import type { JsonValue } from "type-fest";
+import type { Feature } from "types";
+import { FilterError } from "app/lib/errors";
+import { cast, castExplicit, ExplicitCast } from "app/lib/cast";
+
+/**
+ * A small predicate language for filtering features by
+ * their properties, like
+ *
+ *   population > 10000 AND status in ("open", "pending")
+ *
+ * Keywords are case-insensitive. Strings are quoted with single
+ * or double quotes, and column names that aren't simple words
+ * can be quoted with backticks.
+ */
+
+type Literal = string | number | boolean;
+
+type CompareOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type FilterExpression =
+  | { type: "and" | "or"; left: FilterExpression; right: FilterExpression }
+  | { type: "not"; expression: FilterExpression }
+  | {
+      type: "compare";
+      field: string;
+      operator: CompareOperator;
+      value: Literal;
+    }
+  | { type: "null"; field: string }
+  | { type: "in"; field: string; values: Literal[] }
+  | { type: "between"; field: string; min: Literal; max: Literal }
+  | { type: "contains"; field: string; value: string };
+
+type Token =
+  | { type: "word" | "field" | "string" | "operator"; value: string }
+  | { type: "(" | ")" | "," | "end"; value?: undefined };
+
+type PositionedToken = Token & { start: number };
+
+const OPERATORS: Record<string, CompareOperator> = {
+  "=": "=",
+  "==": "=",
+  "!=": "!=",
+  "<>": "!=",
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+};
+
+const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "is",
+  "null",
+  "in",
+  "between",
+  "contains",
+  "true",
+  "false",
+]);
+
+function describe(token: PositionedToken) {
+  return token.type === "end"
+    ? "the end of the filter"
+    : `“${token.value ?? token.type}” at character ${token.start + 1}`;
+}
+
+function readQuoted(input: string, start: number) {
+  const quote = input[start];
+  let value = "";
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\\" && i + 1 < input.length) {
+      value += input[++i];
+    } else if (char === quote) {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+    }
+  }
+  throw new FilterError(
+    `Unterminated quote starting at character ${start + 1}`
+  );
+}
+
+function tokenize(input: string): PositionedToken[] {
+  const tokens: PositionedToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, start: i });
+      i++;
+    } else if (char === '"' || char === "'" || char === "`") {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ type: char === "`" ? "field" : "string", value, start: i });
+      i = end;
+    } else if ("=!<>".includes(char)) {
+      const two = input.slice(i, i + 2);
+      const value = two in OPERATORS ? two : char;
+      if (!(value in OPERATORS)) {
+        throw new FilterError(
+          `Unexpected “${char}” at character ${i + 1}. Did you mean “!=”?`
+        );
+      }
+      tokens.push({ type: "operator", value, start: i });
+      i += value.length;
+    } else {
+      const match = /^[^\s()=!<>,"'`]+/.exec(input.slice(i));
+      // The character classes above guarantee a match.
+      const value = match![0];
+      tokens.push({ type: "word", value, start: i });
+      i += value.length;
+    }
+  }
+  tokens.push({ type: "end", start: input.length });
+  return tokens;
+}
+
+class Parser {
+  tokens: PositionedToken[];
+  index = 0;
+
+  constructor(tokens: PositionedToken[]) {
+    this.tokens = tokens;
+  }
+
+  peek() {
+    return this.tokens[this.index];
+  }
+
+  next() {
+    return this.tokens[this.index++];
+  }
+
+  acceptKeyword(keyword: string) {
+    const token = this.peek();
+    if (token.type === "word" && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  expect(type: Token["type"], label: string) {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new FilterError(`Expected ${label}, but found ${describe(token)}`);
+    }
+    return token;
+  }
+
+  parse(): FilterExpression {
+    const expression = this.or();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new FilterError(`Expected AND or OR, but found ${describe(token)}`);
+    }
+    return expression;
+  }
+
+  or(): FilterExpression {
+    let left = this.and();
+    while (this.acceptKeyword("or")) {
+      left = { type: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  and(): FilterExpression {
+    let left = this.not();
+    while (this.acceptKeyword("and")) {
+      left = { type: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  not(): FilterExpression {
+    if (this.acceptKeyword("not")) {
+      return { type: "not", expression: this.not() };
+    }
+    if (this.peek().type === "(") {
+      this.next();
+      const expression = this.or();
+      this.expect(")", "a closing parenthesis");
+      return expression;
+    }
+    return this.predicate();
+  }
+
+  field() {
+    const token = this.next();
+    if (
+      token.type === "field" ||
+      (token.type === "word" && !KEYWORDS.has(token.value.toLowerCase()))
+    ) {
+      return token.value;
+    }
+    throw new FilterError(
+      `Expected a column name, but found ${describe(token)}`
+    );
+  }
+
+  literal(): Literal {
+    const token = this.next();
+    if (token.type === "string") return token.value;
+    if (token.type === "word") {
+      const value = token.value.toLowerCase();
+      if (value === "true") return true;
+      if (value === "false") return false;
+      const number = cast(token.value);
+      if (typeof number === "number") return number;
+      throw new FilterError(
+        `Expected a value, but found ${describe(
+          token
+        )}. Text values need quotes, like "${token.value}"`
+      );
+    }
+    throw new FilterError(`Expected a value, but found ${describe(token)}`);
+  }
+
+  predicate(): FilterExpression {
+    const field = this.field();
+    const token = this.peek();
+
+    if (token.type === "operator") {
+      this.next();
+      return {
+        type: "compare",
+        field,
+        operator: OPERATORS[token.value],
+        value: this.literal(),
+      };
+    }
+
+    if (this.acceptKeyword("is")) {
+      const negated = this.acceptKeyword("not");
+      if (!this.acceptKeyword("null")) {
+        throw new FilterError(
+          `Expected NULL, but found ${describe(this.peek())}`
+        );
+      }
+      const expression: FilterExpression = { type: "null", field };
+      return negated ? { type: "not", expression } : expression;
+    }
+
+    const negated = this.acceptKeyword("not");
+    let expression: FilterExpression;
+
+    if (this.acceptKeyword("in")) {
+      this.expect("(", "an opening parenthesis");
+      const values = [this.literal()];
+      while (this.peek().type === ",") {
+        this.next();
+        values.push(this.literal());
+      }
+      this.expect(")", "a closing parenthesis");
+      expression = { type: "in", field, values };
+    } else if (this.acceptKeyword("between")) {
+      const min = this.literal();
+      if (!this.acceptKeyword("and")) {
+        throw new FilterError(
+          `Expected AND, but found ${describe(this.peek())}`
+        );
+      }
+      expression = { type: "between", field, min, max: this.literal() };
+    } else if (this.acceptKeyword("contains")) {
+      expression = {
+        type: "contains",
+        field,
+        value: String(this.literal()),
+      };
+    } else {
+      throw new FilterError(
+        `Expected a comparison after “${field}”, but found ${describe(
+          this.peek()
+        )}`
+      );
+    }
+
+    return negated ? { type: "not", expression } : expression;
+  }
+}
+
+export function parseFilterExpression(
+  input: string
+): Either<FilterError, FilterExpression> {
+  try {
+    return Right(new Parser(tokenize(input)).parse());
+  } catch (e) {
+    if (e instanceof FilterError) return Left(e);
+    throw e;
+  }
+}
+
+/**
+ * Coerce a property value to the type of the value
+ * it's compared with, so that "10" matches 10: values in
+ * imported CSV files are often numbers stored as strings.
+ * Returns undefined if they can't be compared.
+ */
+function coerce(
+  value: JsonValue | undefined,
+  target: Literal
+): Literal | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof target === "string") {
+    return castExplicit(value, ExplicitCast.String) as string;
+  }
+  const casted = typeof value === "string" ? cast(value) : value;
+  return typeof casted === typeof target ? (casted as Literal) : undefined;
+}
+
+function compare(
+  value: JsonValue | undefined,
+  operator: CompareOperator,
+  target: Literal
+) {
+  const left = coerce(value, target);
+  // Like SQL, missing values don't match any comparison.
+  if (left === undefined) return false;
+  switch (operator) {
+    case "=":
+      return left === target;
+    case "!=":
+      return left !== target;
+    case "<":
+      return left < target;
+    case "<=":
+      return left <= target;
+    case ">":
+      return left > target;
+    case ">=":
+      return left >= target;
+  }
+}
+
+/**
+ * Only a feature's own properties, so that names
+ * like `constructor` aren't found on every feature.
+ */
+function getProperty(properties: Feature["properties"], field: string) {
+  return properties && Object.hasOwn(properties, field)
+    ? properties[field]
+    : undefined;
+}
+
+export function evaluateFilterExpression(
+  expression: FilterExpression,
+  properties: Feature["properties"]
+): boolean {
+  switch (expression.type) {
+    case "and":
+      return (
+        evaluateFilterExpression(expression.left, properties) &&
+        evaluateFilterExpression(expression.right, properties)
+      );
+    case "or":
+      return (
+        evaluateFilterExpression(expression.left, properties) ||
+        evaluateFilterExpression(expression.right, properties)
+      );
+    case "not":
+      return !evaluateFilterExpression(expression.expression, properties);
+    case "compare":
+      return compare(
+        getProperty(properties, expression.field),
+        expression.operator,
+        expression.value
+      );
+    case "null": {
+      const value = getProperty(properties, expression.field);
+      return value === null || value === undefined;
+    }
+    case "in": {
+      const value = getProperty(properties, expression.field);
+      return expression.values.some((target) => compare(value, "=", target));
+    }
+    case "between": {
+      const value = getProperty(properties, expression.field);
+      return (
+        compare(value, ">=", expression.min) &&
+        compare(value, "<=", expression.max)
+      );
+    }
+    case "contains": {
+      const value = coerce(getProperty(properties, expression.field), "");
+      return (
+        typeof value === "string" &&
+        value.toLowerCase().includes(expression.value.toLowerCase())
+      );
+    }
+  }
+}
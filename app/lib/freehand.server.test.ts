@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { freehandTolerance, freehandToGeometry } from "./freehand";
+
+/**
+ * A wobbly path along the equator, with one real corner.
+ */
+const path: Pos2[] = [
+  [0, 0],
+  [0.25, 0.0001],
+  [0.5, -0.0001],
+  [0.75, 0.0001],
+  [1, 0],
+  [1, 0.5],
+  [1, 1],
+];
+
+describe("freehand", () => {
+  it("freehandTolerance", () => {
+    expect(freehandTolerance(1)).toBeCloseTo(2 * freehandTolerance(2));
+  });
+
+  it("simplifies lines at the current zoom", () => {
+    expect(freehandToGeometry(path, { closed: false, zoom: 5 })).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+      ],
+    });
+    // Zoomed in far enough, the wobbles are kept.
+    expect(
+      freehandToGeometry(path, { closed: false, zoom: 18 })
+    ).toHaveProperty("coordinates.length", 6);
+  });
+
+  it("closes polygons", () => {
+    expect(freehandToGeometry(path, { closed: true, zoom: 5 })).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    });
+  });
+
+  it("paths that are too short", () => {
+    expect(freehandToGeometry([[0, 0]], { closed: false, zoom: 5 })).toBeNull();
+    expect(
+      freehandToGeometry(
+        [
+          [0, 0],
+          [1, 1],
+        ],
+        { closed: true, zoom: 5 }
+      )
+    ).toBeNull();
+  });
+});
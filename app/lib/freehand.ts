@@ -0,0 +1,52 @@
+import simplify from "app/lib/map_operations/simplify";
+import type { LineString, Polygon } from "types";
+
+/**
+ * How far, in pixels, a simplified freehand path can
+ * stray from the path that was drawn.
+ */
+const FREEHAND_TOLERANCE = 2;
+
+/**
+ * The simplification tolerance, in degrees, that matches
+ * FREEHAND_TOLERANCE at a zoom level.
+ */
+export function freehandTolerance(zoom: number) {
+  return (FREEHAND_TOLERANCE * 360) / (512 * Math.pow(2, zoom));
+}
+
+/**
+ * Turn a path drawn freehand into a simplified line or polygon,
+ * or null if it's too short to be one.
+ */
+export function freehandToGeometry(
+  positions: Pos2[],
+  { closed, zoom }: { closed: boolean; zoom: number }
+): LineString | Polygon | null {
+  const options = { tolerance: freehandTolerance(zoom), highQuality: false };
+  if (closed) {
+    if (positions.length < 3) return null;
+    const geometry = simplify(
+      {
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "Polygon",
+          coordinates: [positions.concat([positions[0]])],
+        },
+      },
+      options
+    ).geometry as Polygon;
+    return geometry.coordinates[0].length >= 4 ? geometry : null;
+  }
+  if (positions.length < 2) return null;
+  const geometry = simplify(
+    {
+      type: "Feature",
+      properties: {},
+      geometry: { type: "LineString", coordinates: positions },
+    },
+    options
+  ).geometry as LineString;
+  return geometry.coordinates.length >= 2 ? geometry : null;
+}
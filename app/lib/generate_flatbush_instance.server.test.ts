@@ -2,6 +2,7 @@ import { expect, describe, it } from "vitest";
 
 import {
   generateFeaturesFlatbushInstance,
+  generateSnapFlatbushInstance,
   generateVertexFlatbushInstance,
 } from "./generate_flatbush_instance";
 import { twoPoints, wrap } from "test/helpers";
@@ -175,3 +176,56 @@ describe("generateFeaturesFlatbushInstance", () => {
     });
   });
 });
+
+describe("generateSnapFlatbushInstance", () => {
+  const instance = generateSnapFlatbushInstance(
+    wrap({
+      type: "FeatureCollection",
+      features: [multipoly],
+    })
+  );
+
+  // Pretend that each degree is 10 pixels.
+  function snap(cursor: Pos2) {
+    return instance.snap({
+      box: [
+        [cursor[0] - 1, cursor[1] - 1],
+        [cursor[0] + 1, cursor[1] + 1],
+      ],
+      cursor: [cursor[0] * 10, cursor[1] * 10],
+      project: (position) => [position[0] * 10, position[1] * 10],
+      tolerance: 5,
+    });
+  }
+
+  it("snaps to vertexes before edges", () => {
+    expect(snap([1.1, 1.3])).toEqual({
+      type: "vertex",
+      position: [1, 1],
+      vertex: {
+        featureId: "0".repeat(21),
+        line: multipoly.geometry.coordinates[0][0],
+        index: 1,
+      },
+    });
+  });
+
+  it("snaps to edges", () => {
+    expect(snap([0.5, 0.6])).toEqual({ type: "edge", position: [0.55, 0.55] });
+  });
+
+  it("ignores features outside of the tolerance", () => {
+    expect(snap([10, 10])).toBeNull();
+    expect(
+      generateSnapFlatbushInstance([]).snap({
+        box: [
+          [0, 0],
+          [1, 1],
+        ],
+        cursor: [0, 0],
+        project: (position) => [position[0], position[1]],
+        tolerance: 5,
+      })
+    ).toBeNull();
+  });
+});
@@ -1,7 +1,13 @@
 import Flatbush from "flatbush";
-import type { IFeature, IWrappedFeature, Point } from "types";
+import type {
+  Geometry,
+  IFeature,
+  IWrappedFeature,
+  Point,
+  Position,
+} from "types";
 import { generateSyntheticPoints } from "app/lib/pmap/generate_synthetic_points";
-import { getExtents } from "app/lib/geometry";
+import { e6position, getExtents } from "app/lib/geometry";
 import uniq from "lodash/uniq";
 import { USelection } from "state";
 import { decodeId } from "./id";
@@ -131,6 +137,170 @@ class FlatbushVertexIndex {
   }
 }
 
+/**
+ * Where a vertex is in a feature, so that drawing
+ * can trace along the line or ring it belongs to.
+ */
+export interface SnapVertex {
+  featureId: IWrappedFeature["id"];
+  line: Position[];
+  index: number;
+}
+
+export interface SnapResult {
+  type: "vertex" | "edge";
+  position: Pos2;
+  vertex?: SnapVertex;
+}
+
+type Segment = [Position, Position];
+
+function addSegments(
+  featureId: IWrappedFeature["id"],
+  geometry: Geometry | null,
+  segments: Segment[],
+  vertexes: Map<number, SnapVertex>
+) {
+  function addLine(line: Position[]) {
+    for (let i = 0; i < line.length; i++) {
+      vertexes.set(segments.length, { featureId, line, index: i });
+      segments.push([line[i], line[i]]);
+      if (i > 0) segments.push([line[i - 1], line[i]]);
+    }
+  }
+  switch (geometry?.type) {
+    case "Point":
+      addLine([geometry.coordinates]);
+      break;
+    case "MultiPoint":
+      for (const point of geometry.coordinates) addLine([point]);
+      break;
+    case "LineString":
+      addLine(geometry.coordinates);
+      break;
+    case "MultiLineString":
+    case "Polygon":
+      geometry.coordinates.forEach(addLine);
+      break;
+    case "MultiPolygon":
+      for (const polygon of geometry.coordinates) polygon.forEach(addLine);
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) {
+        addSegments(featureId, child, segments, vertexes);
+      }
+      break;
+    case undefined:
+      break;
+  }
+}
+
+export class FlatbushSnapIndex {
+  type = "snap" as const;
+  private index: Flatbush | null;
+
+  /**
+   * Vertexes are stored as segments that start
+   * and end at the same position.
+   */
+  private segments: Segment[];
+  private vertexes: Map<number, SnapVertex>;
+
+  constructor(features: IWrappedFeature[]) {
+    const segments: Segment[] = [];
+    const vertexes = new Map<number, SnapVertex>();
+    for (const { id, feature } of features) {
+      addSegments(id, feature.geometry, segments, vertexes);
+    }
+    this.segments = segments;
+    this.vertexes = vertexes;
+    if (!segments.length) {
+      this.index = null;
+      return;
+    }
+    const fb = new Flatbush(segments.length);
+    for (const [a, b] of segments) {
+      fb.add(
+        Math.min(a[0], b[0]),
+        Math.min(a[1], b[1]),
+        Math.max(a[0], b[0]),
+        Math.max(a[1], b[1])
+      );
+    }
+    fb.finish();
+    this.index = fb;
+  }
+
+  /**
+   * Find the nearest vertex within `tolerance` pixels of the
+   * cursor, or failing that, the nearest point on an edge.
+   * `box` is the tolerance around the cursor in longitude
+   * and latitude, and `project` converts positions to pixels.
+   */
+  snap({
+    box,
+    cursor,
+    project,
+    tolerance,
+  }: {
+    box: Box;
+    cursor: Pos2;
+    project: (position: Position) => Pos2;
+    tolerance: number;
+  }): SnapResult | null {
+    if (!this.index) return null;
+    let vertex: SnapResult | null = null;
+    let vertexDistance = tolerance;
+    let edge: SnapResult | null = null;
+    let edgeDistance = tolerance;
+
+    for (const i of this.index.search(...boxTosearchArgs(box))) {
+      const [a, b] = this.segments[i];
+      const pa = project(a);
+      if (a === b) {
+        const distance = Math.hypot(pa[0] - cursor[0], pa[1] - cursor[1]);
+        if (distance <= vertexDistance) {
+          vertexDistance = distance;
+          vertex = {
+            type: "vertex",
+            position: [a[0], a[1]],
+            vertex: this.vertexes.get(i),
+          };
+        }
+        continue;
+      }
+      const pb = project(b);
+      const dx = pb[0] - pa[0];
+      const dy = pb[1] - pa[1];
+      const lengthSquared = dx * dx + dy * dy;
+      if (!lengthSquared) continue;
+      const t = Math.max(
+        0,
+        Math.min(
+          1,
+          ((cursor[0] - pa[0]) * dx + (cursor[1] - pa[1]) * dy) / lengthSquared
+        )
+      );
+      const distance = Math.hypot(
+        pa[0] + t * dx - cursor[0],
+        pa[1] + t * dy - cursor[1]
+      );
+      if (distance <= edgeDistance) {
+        edgeDistance = distance;
+        edge = {
+          type: "edge",
+          position: e6position(
+            [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])],
+            7
+          ) as Pos2,
+        };
+      }
+    }
+
+    return vertex || edge;
+  }
+}
+
 // TODO: this should probably happen in a worker.
 export function generateFeaturesFlatbushInstance(
   features: IWrappedFeature[]
@@ -146,3 +316,9 @@ export function generateVertexFlatbushInstance(
 ): FlatbushLike {
   return new FlatbushVertexIndex(feature, index);
 }
+
+export function generateSnapFlatbushInstance(
+  features: IWrappedFeature[]
+): FlatbushSnapIndex {
+  return new FlatbushSnapIndex(features);
+}
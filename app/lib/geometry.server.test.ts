@@ -457,6 +457,49 @@ describe("removeDegenerates", () => {
       })
     ).toBeNull();
   });
+  it("keeps valid parts", () => {
+    const outer = [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 0],
+    ];
+    const hole = [
+      [1, 1],
+      [2, 1],
+      [2, 2],
+      [1, 1],
+    ];
+    expect(
+      removeDegenerates({
+        type: "Polygon",
+        coordinates: [outer, hole, hole.slice(0, 2)],
+      })
+    ).toEqual({
+      type: "Polygon",
+      coordinates: [outer, hole],
+    });
+    expect(
+      removeDegenerates({
+        type: "MultiLineString",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+          ],
+          [[0, 0]],
+        ],
+      })
+    ).toEqual({
+      type: "MultiLineString",
+      coordinates: [
+        [
+          [0, 0],
+          [1, 1],
+        ],
+      ],
+    });
+  });
 });
 
 describe("getExtents", () => {
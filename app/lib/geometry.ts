@@ -438,10 +438,13 @@ function degeneratePolygon(
       coordinates: outer.slice(0, 2),
     };
   }
-  remove(innerRings, (line) => line.length > 2);
+  // Inner rings need at least three distinct positions
+  // to enclose anything.
+  const closedInnerRings = innerRings.map(fixOuterRing);
+  remove(closedInnerRings, (line) => line.length < 4);
   return {
     type: "Polygon",
-    coordinates: [fixOuterRing(outer), ...innerRings],
+    coordinates: [fixOuterRing(outer), ...closedInnerRings],
   };
 }
 
@@ -458,7 +461,7 @@ export function removeDegenerates(geometry: Geometry): Geometry | null {
     }
     case "MultiLineString": {
       const coordinates = geometry.coordinates.filter(
-        (line) => line.length > 2
+        (line) => line.length >= 2
       );
       if (coordinates.length === 0) return null;
       return {
@@ -0,0 +1,62 @@
+import once from "lodash/once";
+import type { CoordinateSystem } from "app/lib/convert";
+
+/**
+ * EPSG codes, mapped to the name and proj4
+ * definition of each coordinate system.
+ *
+ * public/epsg.json is built from mproj's nad/epsg
+ * by _scripts/epsg.mjs.
+ */
+export type EpsgDB = { [code: string]: [name: string, definition: string] };
+
+export interface EpsgEntry {
+  code: string;
+  name: string;
+  definition: string;
+}
+
+export const getEpsgDB = once(async function getEpsgDB() {
+  const response = await fetch("/epsg.json");
+  if (!response.ok) throw new Error("Could not load EPSG Database");
+  return (await response.json()) as EpsgDB;
+});
+
+export function getEpsg(db: EpsgDB, code: string): EpsgEntry | null {
+  const entry = db[code];
+  if (!entry) return null;
+  return { code, name: entry[0], definition: entry[1] };
+}
+
+export function epsgToCoordinateSystem(entry: EpsgEntry): CoordinateSystem {
+  return {
+    name: `EPSG:${entry.code} ${entry.name}`,
+    definition: entry.definition,
+    code: entry.code,
+  };
+}
+
+/**
+ * Find coordinate systems by the start of their code,
+ * or by words in their name.
+ */
+export function searchEpsg(db: EpsgDB, query: string, limit = 20) {
+  const trimmed = query.trim().replace(/^epsg:/i, "");
+  const results: EpsgEntry[] = [];
+  if (!trimmed) return results;
+
+  const isCode = /^\d+$/.test(trimmed);
+  const words = trimmed.toLowerCase().split(/\s+/);
+  for (const code in db) {
+    const name = db[code][0].toLowerCase();
+    if (
+      isCode
+        ? code.startsWith(trimmed)
+        : words.every((word) => name.includes(word))
+    ) {
+      results.push({ code, name: db[code][0], definition: db[code][1] });
+      if (results.length === limit) break;
+    }
+  }
+  return results;
+}
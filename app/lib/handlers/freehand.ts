@@ -0,0 +1,104 @@
+import { useRef } from "react";
+import { useSetAtom } from "jotai";
+import noop from "lodash/noop";
+import * as Sentry from "@sentry/nextjs";
+import { USelection } from "state";
+import type { HandlerContext } from "types";
+import { ephemeralStateAtom, Mode, modeAtom, selectionAtom } from "state/jotai";
+import { freehandToGeometry } from "app/lib/freehand";
+import { createOrUpdateFeature, getMapCoord } from "./utils";
+
+/**
+ * Drag to draw: the path is kept in the ephemeral state
+ * while drawing, and simplified when the pointer is lifted.
+ */
+function useFreehandHandlers(
+  { featureMap, mode, selection, rep, pmap, dragTargetRef }: HandlerContext,
+  closed: boolean
+): Handlers {
+  const multi = mode.modeOptions?.multi;
+  const setSelection = useSetAtom(selectionAtom);
+  const setMode = useSetAtom(modeAtom);
+  const setEphemeralState = useSetAtom(ephemeralStateAtom);
+  const transact = rep.useTransact();
+  const path = useRef<Pos2[] | null>(null);
+
+  function finish() {
+    const positions = path.current;
+    path.current = null;
+    setEphemeralState({ type: "none" });
+    if (!positions) return;
+
+    const geometry = freehandToGeometry(positions, {
+      closed,
+      zoom: pmap.map.getZoom(),
+    });
+    if (!geometry) return;
+
+    const putFeature = createOrUpdateFeature({
+      featureMap,
+      geometry,
+      mode,
+      selection,
+    });
+    const id = putFeature.id;
+    transact({
+      note: closed ? "Drew a freehand polygon" : "Drew a freehand line",
+      putFeatures: [putFeature],
+    })
+      .then(() => {
+        if (!multi) setSelection(USelection.single(id));
+      })
+      .catch((e) => Sentry.captureException(e));
+    if (!multi) setMode({ mode: Mode.NONE });
+  }
+
+  const handlers: Handlers = {
+    click: noop,
+    down: (e) => {
+      e.preventDefault();
+      const position = getMapCoord(e);
+      path.current = [position];
+      setEphemeralState({ type: "freehand", positions: [position], closed });
+    },
+    move: (e) => {
+      if (!path.current) return;
+      e.preventDefault();
+      path.current = path.current.concat([getMapCoord(e)]);
+      setEphemeralState({
+        type: "freehand",
+        positions: path.current,
+        closed,
+      });
+    },
+    up: () => {
+      dragTargetRef.current = null;
+      finish();
+    },
+    touchstart: (e) => {
+      handlers.down(e);
+    },
+    touchmove: (e) => {
+      handlers.move(e);
+    },
+    touchend: (e) => {
+      handlers.up(e);
+    },
+    double: noop,
+    enter() {
+      path.current = null;
+      setEphemeralState({ type: "none" });
+      setMode({ mode: Mode.NONE });
+    },
+  };
+
+  return handlers;
+}
+
+export function useFreehandLineHandlers(context: HandlerContext): Handlers {
+  return useFreehandHandlers(context, false);
+}
+
+export function useFreehandPolygonHandlers(context: HandlerContext): Handlers {
+  return useFreehandHandlers(context, true);
+}
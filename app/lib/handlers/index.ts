@@ -7,6 +7,11 @@ import { useCircleHandlers } from "app/lib/handlers/circle";
 import { useLineHandlers } from "app/lib/handlers/line";
 import { usePointHandlers } from "app/lib/handlers/point";
 import { usePolygonHandlers } from "app/lib/handlers/polygon";
+import {
+  useFreehandLineHandlers,
+  useFreehandPolygonHandlers,
+} from "app/lib/handlers/freehand";
+import { useMeasureHandlers } from "app/lib/handlers/measure";
 
 export function useHandlers(handlerContext: HandlerContext) {
   const HANDLERS: Record<Mode, Handlers> = {
@@ -16,7 +21,10 @@ export function useHandlers(handlerContext: HandlerContext) {
     [Mode.DRAW_POLYGON]: usePolygonHandlers(handlerContext),
     [Mode.DRAW_RECTANGLE]: useRectangleHandlers(handlerContext),
     [Mode.DRAW_CIRCLE]: useCircleHandlers(handlerContext),
+    [Mode.DRAW_FREEHAND_LINE]: useFreehandLineHandlers(handlerContext),
+    [Mode.DRAW_FREEHAND_POLYGON]: useFreehandPolygonHandlers(handlerContext),
     [Mode.LASSO]: useLassoHandlers(handlerContext),
+    [Mode.MEASURE]: useMeasureHandlers(handlerContext),
   };
   return HANDLERS;
 }
@@ -7,7 +7,9 @@ import replaceCoordinates from "app/lib/replace_coordinates";
 import { useSetAtom } from "jotai";
 import { usePopMoment } from "app/lib/persistence/shared";
 import { CURSOR_DEFAULT } from "app/lib/constants";
-import { createOrUpdateFeature, getMapCoord } from "./utils";
+import { createOrUpdateFeature } from "./utils";
+import { useSnap } from "./snap";
+import { useTrace } from "./trace";
 import { useRef } from "react";
 import { lockDirection, useShiftHeld } from "app/hooks/use_held";
 
@@ -18,6 +20,7 @@ export function useLineHandlers({
   selection,
   mode,
   dragTargetRef,
+  pmap,
 }: HandlerContext): Handlers {
   const multi = mode.modeOptions?.multi;
   const setSelection = useSetAtom(selectionAtom);
@@ -27,6 +30,8 @@ export function useLineHandlers({
   const popMoment = usePopMoment();
   const usingTouchEvents = useRef<boolean>(false);
   const shiftHeld = useShiftHeld();
+  const { snap, findSnap } = useSnap({ featureMap, folderMap, pmap });
+  const trace = useTrace(findSnap);
 
   const handlers: Handlers = {
     click: (e) => {
@@ -37,7 +42,8 @@ export function useLineHandlers({
          * Drawing a new line: create the line and set the new
          * selection
          */
-        const lineString = utils.newLineStringFromClickEvent(e);
+        const lineString = utils.newLineStringFromClickEvent(e, snap(e));
+        trace(e);
 
         const putFeature = createOrUpdateFeature({
           mode,
@@ -57,23 +63,33 @@ export function useLineHandlers({
          * Appending to an existing line. Push a coordinate
          * onto it.
          */
-        const position = getMapCoord(e);
+        const position = snap(e, selection.id);
+        const traced = trace(e, selection.id);
         const wrappedFeature = featureMap.get(selection.id);
         if (!wrappedFeature) {
           setSelection(USelection.none());
           return;
         }
         const feature = wrappedFeature.feature as IFeature<LineString>;
+        const { coordinates } = feature.geometry;
         void transact({
-          note: "Added to line",
+          note: traced.length ? "Traced a line" : "Added to line",
           putFeatures: [
             {
               ...wrappedFeature,
               feature: replaceCoordinates(
                 feature,
+                // The last position follows the cursor, so traced
+                // vertexes go before it.
                 modeOptions?.reverse
-                  ? [position as Position].concat(feature.geometry.coordinates)
-                  : feature.geometry.coordinates.concat([position])
+                  ? [position as Position].concat(
+                      coordinates.slice(0, 1),
+                      traced.reverse(),
+                      coordinates.slice(1)
+                    )
+                  : coordinates
+                      .slice(0, -1)
+                      .concat(traced, coordinates.slice(-1), [position])
               ),
             },
           ],
@@ -94,7 +110,10 @@ export function useLineHandlers({
      */
     move: (e) => {
       const { modeOptions } = mode;
-      if (selection.type !== "single") return;
+      if (selection.type !== "single") {
+        snap(e);
+        return;
+      }
 
       /**
        * Ignore mousemove events produced by the Apple Pencil.
@@ -109,7 +128,7 @@ export function useLineHandlers({
       }
       const feature = wrappedFeature.feature as IFeature<LineString>;
 
-      let nextCoord = getMapCoord(e) as Position;
+      let nextCoord: Position = snap(e, selection.id);
       const lastCoord = feature.geometry.coordinates.at(-2);
       if (shiftHeld.current && lastCoord) {
         nextCoord = lockDirection(lastCoord, nextCoord);
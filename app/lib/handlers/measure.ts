@@ -0,0 +1,141 @@
+import { useEffect } from "react";
+import { useAtom, useSetAtom } from "jotai";
+import noop from "lodash/noop";
+import type { EphemeralEditingStateMeasure } from "state/jotai";
+import { ephemeralStateAtom } from "state/jotai";
+import { Mode, modeAtom } from "state/mode";
+import type { HandlerContext } from "types";
+import { SNAP_TOLERANCE } from "app/lib/constants";
+import type { MouseOrTouchEvent } from "app/lib/map_component_utils";
+import { getMapCoord } from "./utils";
+import { useSnap } from "./snap";
+
+/**
+ * Measure distances and areas without creating features:
+ * vertexes live in the ephemeral state until the measurement
+ * is saved or cleared.
+ */
+export function useMeasureHandlers({
+  featureMap,
+  folderMap,
+  mode,
+  pmap,
+}: HandlerContext): Handlers {
+  const [ephemeralState, setEphemeralState] = useAtom(ephemeralStateAtom);
+  const setMode = useSetAtom(modeAtom);
+  const { findSnap } = useSnap({ featureMap, folderMap, pmap });
+
+  const measuring = mode.mode === Mode.MEASURE;
+  useEffect(() => {
+    if (measuring) return;
+    setEphemeralState((state) =>
+      state.type === "measure" ? { type: "none" } : state
+    );
+  }, [measuring, setEphemeralState]);
+
+  const current =
+    ephemeralState.type === "measure" &&
+    ephemeralState.cursor &&
+    !ephemeralState.closed
+      ? ephemeralState
+      : null;
+
+  function snapped(e: MouseOrTouchEvent) {
+    const snap = findSnap(e);
+    return { snap, position: snap ? snap.position : getMapCoord(e) };
+  }
+
+  /**
+   * Whether a click lands on the first vertex, which closes
+   * the shape so that its area can be measured.
+   */
+  function isClosing(
+    state: EphemeralEditingStateMeasure,
+    e: MouseOrTouchEvent
+  ) {
+    if (state.positions.length < 3) return false;
+    const first = pmap.map.project(state.positions[0]);
+    return (
+      Math.abs(first.x - e.point.x) <= SNAP_TOLERANCE &&
+      Math.abs(first.y - e.point.y) <= SNAP_TOLERANCE
+    );
+  }
+
+  function finish() {
+    if (!current?.positions.length) return false;
+    setEphemeralState({
+      ...current,
+      cursor: null,
+      snap: null,
+    });
+    return true;
+  }
+
+  const handlers: Handlers = {
+    click: (e) => {
+      const { snap, position } = snapped(e);
+      if (!current || !current.positions.length) {
+        setEphemeralState({
+          type: "measure",
+          positions: [position],
+          cursor: position,
+          closed: false,
+          snap,
+        });
+        return;
+      }
+      if (isClosing(current, e)) {
+        setEphemeralState({
+          ...current,
+          cursor: null,
+          closed: true,
+          snap: null,
+        });
+        return;
+      }
+      setEphemeralState({
+        ...current,
+        positions: current.positions.concat([position]),
+        cursor: position,
+        snap,
+      });
+    },
+    move: (e) => {
+      const { snap, position } = snapped(e);
+      if (current) {
+        setEphemeralState({ ...current, cursor: position, snap });
+      } else if (ephemeralState.type === "measure") {
+        setEphemeralState({ ...ephemeralState, snap });
+      } else {
+        setEphemeralState({
+          type: "measure",
+          positions: [],
+          cursor: position,
+          closed: false,
+          snap,
+        });
+      }
+    },
+    down: noop,
+    up: noop,
+    double: (e) => {
+      if (!current) return;
+      e.preventDefault();
+      // The second click of a double-click added a vertex
+      // where the first one already did.
+      setEphemeralState({
+        ...current,
+        positions: current.positions.slice(0, -1),
+        cursor: null,
+        snap: null,
+      });
+    },
+    enter() {
+      if (finish()) return;
+      setEphemeralState({ type: "none" });
+      setMode({ mode: Mode.NONE });
+    },
+  };
+
+  return handlers;
+}
@@ -23,6 +23,7 @@ import { filterLockedFeatures } from "app/lib/folder";
 import { CURSOR_DEFAULT, DECK_SYNTHETIC_ID } from "app/lib/constants";
 import { UIDMap } from "app/lib/id_mapper";
 import { getMapCoord } from "./utils";
+import { useSnap } from "./snap";
 import { useRef } from "react";
 import { useSpaceHeld } from "app/hooks/use_held";
 
@@ -47,6 +48,7 @@ export function useNoneHandlers({
   const startSnapshot = useStartSnapshot();
   const lastPoint = useRef<mapboxgl.LngLat | null>(null);
   const spaceHeld = useSpaceHeld();
+  const { snap, clearSnap } = useSnap({ featureMap, folderMap, pmap });
 
   const handlers: Handlers = {
     double: noop,
@@ -206,12 +208,14 @@ export function useNoneHandlers({
     },
     up: () => {
       dragTargetRef.current = null;
+      clearSnap();
       void endSnapshot();
       setCursor(CURSOR_DEFAULT);
     },
     move: (e) => {
       if (dragTargetRef.current === null) {
         throttledMovePointer(e.point);
+        clearSnap();
         return;
       }
 
@@ -267,7 +271,7 @@ export function useNoneHandlers({
             const feature = featureMap.get(selection.id);
             if (!feature) return;
 
-            const nextCoord = getMapCoord(e);
+            const nextCoord = snap(e, selection.id);
             const { feature: newFeature, wasRectangle } = ops.setCoordinates({
               feature: feature.feature,
               position: nextCoord,
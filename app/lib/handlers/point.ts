@@ -5,20 +5,24 @@ import * as Sentry from "@sentry/nextjs";
 import noop from "lodash/noop";
 import { useSetAtom } from "jotai";
 import { CURSOR_DEFAULT } from "app/lib/constants";
-import { createOrUpdateFeature, getMapCoord } from "./utils";
+import { createOrUpdateFeature } from "./utils";
+import { useSnap } from "./snap";
 
 export function usePointHandlers({
   dragTargetRef,
   mode,
   selection,
   featureMap,
+  folderMap,
   rep,
+  pmap,
 }: HandlerContext): Handlers {
   const setSelection = useSetAtom(selectionAtom);
   const setMode = useSetAtom(modeAtom);
   const setCursor = useSetAtom(cursorStyleAtom);
   const transact = rep.useTransact();
   const multi = mode.modeOptions?.multi;
+  const { snap } = useSnap({ featureMap, folderMap, pmap });
   return {
     click: (e) => {
       if (!multi) {
@@ -27,7 +31,7 @@ export function usePointHandlers({
 
       const point: Point = {
         type: "Point",
-        coordinates: getMapCoord(e),
+        coordinates: snap(e),
       };
 
       const putFeature = createOrUpdateFeature({
@@ -50,7 +54,10 @@ export function usePointHandlers({
         })
         .catch((e) => Sentry.captureException(e));
     },
-    move: noop,
+    move: (e) => {
+      // Only to show where the point would snap to.
+      snap(e);
+    },
     down: noop,
     up() {
       dragTargetRef.current = null;
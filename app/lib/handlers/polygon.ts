@@ -10,7 +10,9 @@ import { usePopMoment } from "app/lib/persistence/shared";
 import { closePolygon } from "app/lib/map_operations";
 import { CURSOR_DEFAULT, DECK_SYNTHETIC_ID } from "app/lib/constants";
 import { UIDMap } from "app/lib/id_mapper";
-import { createOrUpdateFeature, getMapCoord } from "./utils";
+import { createOrUpdateFeature } from "./utils";
+import { useSnap } from "./snap";
+import { useTrace } from "./trace";
 import { useRef } from "react";
 import { lockDirection, useShiftHeld } from "app/hooks/use_held";
 
@@ -36,14 +38,20 @@ export function usePolygonHandlers({
   const usingTouchEvents = useRef<boolean>(false);
 
   const shiftHeld = useShiftHeld();
+  const { snap, findSnap } = useSnap({ featureMap, folderMap, pmap });
+  const trace = useTrace(findSnap);
 
   const handlers: Handlers = {
     click: (e) => {
-      let nextCoord = getMapCoord(e);
+      let nextCoord = snap(
+        e,
+        selection.type === "single" ? selection.id : null
+      );
 
       // Starting a new polygon
       if (selection.type !== "single") {
-        const polygon = utils.newPolygonFromClickEvent(e);
+        const polygon = utils.newPolygonFromClickEvent(e, nextCoord);
+        trace(e);
         const putFeature = createOrUpdateFeature({
           featureMap,
           geometry: polygon,
@@ -115,10 +123,11 @@ export function usePolygonHandlers({
       if (shiftHeld.current && lastCoord) {
         nextCoord = lockDirection(lastCoord, nextCoord);
       }
+      const traced = trace(e, selection.id);
 
       // Adding a vertex to a polygon
       const newRing = feature.geometry.coordinates[0].slice();
-      newRing.splice(-2, 0, nextCoord);
+      newRing.splice(-2, 0, ...traced, nextCoord);
       transact({
         putFeatures: [
           {
@@ -126,13 +135,18 @@ export function usePolygonHandlers({
             feature: replaceCoordinates(feature, [newRing]),
           },
         ],
-        note: "Added a vertex to a polygon",
+        note: traced.length
+          ? "Traced a polygon"
+          : "Added a vertex to a polygon",
       }).catch((e) => Sentry.captureException(e));
       return;
     },
 
     move: (e) => {
-      if (selection?.type !== "single") return;
+      if (selection?.type !== "single") {
+        snap(e);
+        return;
+      }
 
       /**
        * Ignore mousemove events produced by the Apple Pencil.
@@ -141,7 +155,7 @@ export function usePolygonHandlers({
         return;
       }
 
-      let nextCoord = getMapCoord(e);
+      let nextCoord = snap(e, selection.id);
 
       const wrappedFeature = featureMap.get(selection.id);
 
@@ -2,14 +2,14 @@ import noop from "lodash/noop";
 import { USelection } from "state";
 import type { HandlerContext, Position, IFeature, Polygon } from "types";
 import { cursorStyleAtom, Mode, modeAtom, selectionAtom } from "state/jotai";
-import { useContext, useState } from "react";
+import { useState } from "react";
 import * as Sentry from "@sentry/nextjs";
 import { toast } from "react-hot-toast";
 import replaceCoordinates from "app/lib/replace_coordinates";
 import { isRectangleNonzero } from "app/lib/geometry";
-import { MapContext } from "app/context/map_context";
 import { useSetAtom } from "jotai";
-import { createOrUpdateFeature, getMapCoord } from "./utils";
+import { createOrUpdateFeature } from "./utils";
+import { useSnap } from "./snap";
 
 function lngLatToPolygon(position: Position): Polygon {
   return {
@@ -25,26 +25,31 @@ export function useRectangleHandlers({
   folderMap,
   mode,
   rep,
+  pmap,
 }: HandlerContext): Handlers {
   const multi = mode.modeOptions?.multi;
   const setSelection = useSetAtom(selectionAtom);
   const setMode = useSetAtom(modeAtom);
-  const pmap = useContext(MapContext);
   const setCursor = useSetAtom(cursorStyleAtom);
   const transact = rep.useTransact();
+  const { snap } = useSnap({ featureMap, folderMap, pmap });
   const [firstCorner, setFirstCorner] = useState<mapboxgl.Point | null>(null);
   return {
     click: noop,
     move: (e) => {
-      if (selection?.type !== "single" || !firstCorner || !pmap) return;
+      if (selection?.type !== "single" || !firstCorner) {
+        snap(e);
+        return;
+      }
       const shiftKey = e.originalEvent.shiftKey;
 
       const wrappedFeature = featureMap.get(selection.id);
       if (wrappedFeature) {
         const feature = wrappedFeature.feature as IFeature<Polygon>;
+        const snapped = pmap.map.project(snap(e, selection.id));
         const point = {
-          x: e.point.x,
-          y: e.point.y,
+          x: snapped.x,
+          y: snapped.y,
         };
 
         if (shiftKey) {
@@ -77,9 +82,10 @@ export function useRectangleHandlers({
     },
     down: (e) => {
       e.preventDefault();
-      setFirstCorner(e.point);
+      const position = snap(e);
+      setFirstCorner(pmap.map.project(position));
 
-      const polygon = lngLatToPolygon(getMapCoord(e));
+      const polygon = lngLatToPolygon(position);
 
       const putFeature = createOrUpdateFeature({
         geometry: polygon,
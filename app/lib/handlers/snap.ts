@@ -0,0 +1,144 @@
+import { useRef } from "react";
+import { useSetAtom } from "jotai";
+import { ephemeralStateAtom } from "state/jotai";
+import type {
+  FeatureMap,
+  FolderMap,
+  HandlerContext,
+  IWrappedFeature,
+} from "types";
+import {
+  FlatbushSnapIndex,
+  generateSnapFlatbushInstance,
+  SnapResult,
+} from "app/lib/generate_flatbush_instance";
+import { filterLockedFeatures } from "app/lib/folder";
+import { SNAP_TOLERANCE } from "app/lib/constants";
+import type { MouseOrTouchEvent } from "app/lib/map_component_utils";
+import { getMapCoord } from "./utils";
+
+type Exclude = IWrappedFeature["id"] | null;
+
+interface CachedIndex {
+  index: FlatbushSnapIndex;
+  featureMap: FeatureMap;
+  folderMap: FolderMap;
+  exclude: Exclude;
+}
+
+/**
+ * The feature being drawn changes on every mouse move, but
+ * it's excluded from the index, so only rebuild the index
+ * if something else changed.
+ */
+function isCurrent(
+  cached: CachedIndex,
+  featureMap: FeatureMap,
+  folderMap: FolderMap,
+  exclude: Exclude
+) {
+  if (cached.folderMap !== folderMap || cached.exclude !== exclude) {
+    return false;
+  }
+  if (cached.featureMap === featureMap) return true;
+  if (cached.featureMap.size !== featureMap.size) return false;
+  for (const [id, feature] of featureMap) {
+    if (id !== exclude && cached.featureMap.get(id) !== feature) return false;
+  }
+  return true;
+}
+
+function isSameSnap(a: SnapResult, b: SnapResult) {
+  return (
+    a.type === b.type &&
+    a.position[0] === b.position[0] &&
+    a.position[1] === b.position[1]
+  );
+}
+
+/**
+ * Snap the cursor to vertexes and edges of visible, unlocked
+ * features while drawing or dragging vertexes. Holding Cmd or
+ * Ctrl turns snapping off.
+ */
+export function useSnap({
+  featureMap,
+  folderMap,
+  pmap,
+}: Pick<HandlerContext, "featureMap" | "folderMap" | "pmap">) {
+  const setEphemeralState = useSetAtom(ephemeralStateAtom);
+  const cache = useRef<CachedIndex | null>(null);
+
+  function getIndex(exclude: Exclude) {
+    if (
+      cache.current &&
+      isCurrent(cache.current, featureMap, folderMap, exclude)
+    ) {
+      cache.current.featureMap = featureMap;
+      return cache.current.index;
+    }
+    const index = generateSnapFlatbushInstance(
+      filterLockedFeatures({ featureMap, folderMap }).filter(
+        (feature) => feature.id !== exclude
+      )
+    );
+    cache.current = { index, featureMap, folderMap, exclude };
+    return index;
+  }
+
+  function setSnap(snap: SnapResult | null) {
+    setEphemeralState((state) => {
+      if (!snap) {
+        return state.type === "snap" ? { type: "none" } : state;
+      }
+      if (state.type === "snap" && isSameSnap(state.snap, snap)) {
+        return state;
+      }
+      return { type: "snap", snap };
+    });
+  }
+
+  /**
+   * Find what the cursor would snap to, without showing it.
+   * The feature that is being drawn or edited should be
+   * excluded, so that it doesn't snap to itself.
+   */
+  function findSnap(
+    e: MouseOrTouchEvent,
+    exclude: Exclude = null
+  ): SnapResult | null {
+    const { originalEvent } = e;
+    if (originalEvent.metaKey || originalEvent.ctrlKey) return null;
+
+    const { map } = pmap;
+    const { x, y } = e.point;
+    return getIndex(exclude).snap({
+      box: [
+        map
+          .unproject([x - SNAP_TOLERANCE, y - SNAP_TOLERANCE])
+          .toArray() as Pos2,
+        map
+          .unproject([x + SNAP_TOLERANCE, y + SNAP_TOLERANCE])
+          .toArray() as Pos2,
+      ],
+      cursor: [x, y],
+      project: (position) => {
+        const point = map.project(position as Pos2);
+        return [point.x, point.y];
+      },
+      tolerance: SNAP_TOLERANCE,
+    });
+  }
+
+  /**
+   * Get the position under the cursor, snapped if it is near
+   * another feature.
+   */
+  function snap(e: MouseOrTouchEvent, exclude: Exclude = null): Pos2 {
+    const result = findSnap(e, exclude);
+    setSnap(result);
+    return result ? result.position : getMapCoord(e);
+  }
+
+  return { snap, findSnap, clearSnap: () => setSnap(null) };
+}
@@ -0,0 +1,41 @@
+import { useRef } from "react";
+import { useAtomValue } from "jotai";
+import { traceAtom } from "state/jotai";
+import type { IWrappedFeature, Position } from "types";
+import type {
+  SnapResult,
+  SnapVertex,
+} from "app/lib/generate_flatbush_instance";
+import type { MouseOrTouchEvent } from "app/lib/map_component_utils";
+import { tracePath } from "app/lib/trace";
+
+/**
+ * When tracing is on, clicking two vertexes of the same
+ * feature in a row fills in the vertexes between them.
+ * Holding Option traces the other way around a ring.
+ */
+export function useTrace(
+  findSnap: (
+    e: MouseOrTouchEvent,
+    exclude?: IWrappedFeature["id"] | null
+  ) => SnapResult | null
+) {
+  const enabled = useAtomValue(traceAtom);
+  const lastVertex = useRef<SnapVertex | null>(null);
+
+  /**
+   * Record a click, and get the vertexes to add
+   * before the clicked position.
+   */
+  return function trace(
+    e: MouseOrTouchEvent,
+    exclude: IWrappedFeature["id"] | null = null
+  ): Position[] {
+    if (!enabled) return [];
+    const vertex = findSnap(e, exclude)?.vertex || null;
+    const from = lastVertex.current;
+    lastVertex.current = vertex;
+    if (!from || !vertex) return [];
+    return tracePath(from, vertex, { other: e.originalEvent.altKey });
+  };
+}
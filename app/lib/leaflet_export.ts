@@ -87,6 +87,57 @@ export function leaflet(symbolization: ISymbolization) {
       return `function style(feature) {
   const properties = feature.properties || {};
   ${dataReturn({ symbolization, color: false })}
+}`;
+    }
+    case "heatmap": {
+      const { weightProperty, weightMax, radius, colors } = symbolization;
+      return `// Requires the Leaflet.heat plugin
+function heatmap(featureCollection) {
+  const points = featureCollection.features
+    .filter((feature) => feature.geometry && feature.geometry.type === "Point")
+    .map((feature) => {
+      const [lng, lat] = feature.geometry.coordinates;
+      ${
+        weightProperty
+          ? `const properties = feature.properties || {};
+      const weight = Number(properties[${JSON.stringify(weightProperty)}]) || 0;
+      return [lat, lng, Math.min(weight / ${weightMax}, 1)];`
+          : `return [lat, lng, 1];`
+      }
+    });
+  return L.heatLayer(points, {
+    radius: ${radius},
+    gradient: ${JSON.stringify(
+      Object.fromEntries(
+        colors.map((color, i) => [(i + 1) / colors.length, color])
+      ),
+      null,
+      2
+    )},
+  });
+}`;
+    }
+    case "cluster": {
+      return `// Requires the Leaflet.markercluster plugin
+function cluster(featureCollection) {
+  const markers = L.markerClusterGroup({
+    maxClusterRadius: ${symbolization.radius},
+    disableClusteringAtZoom: ${symbolization.maxZoom + 1},
+    showCoverageOnHover: false,
+  });
+  markers.addLayer(
+    L.geoJSON(featureCollection, {
+      pointToLayer: (feature, latlng) =>
+        L.circleMarker(latlng, {
+          radius: 5,
+          color: "white",
+          weight: 1,
+          fillColor: ${JSON.stringify(symbolization.defaultColor)},
+          fillOpacity: 1,
+        }),
+    })
+  );
+  return markers;
 }`;
     }
   }
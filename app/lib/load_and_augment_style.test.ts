@@ -131,6 +131,54 @@ describe("makeLayers", () => {
     } as ISymbolization;
     expect(exportStyle(categorical)).toMatchSnapshot();
   });
+  it("heatmap", () => {
+    const heatmap = {
+      ...NONE_NO_SIMPLESTYLE,
+      type: "heatmap",
+      weightProperty: "foo",
+      weightMax: 10,
+      radius: 20,
+      rampName: "YlOrRd",
+      colors: ["#ffffb2", "#fd8d3c", "#bd0026"],
+    } as ISymbolization;
+    const inputs = {
+      symbolization: heatmap,
+      previewProperty: NIL_PREVIEW,
+    } as const;
+    expect(exportStyle(heatmap)).toMatchSnapshot();
+    const emptyStyle: mapboxgl.Style = {
+      version: 8,
+      sources: {},
+      layers: [],
+    };
+    addEditingLayers({ style: emptyStyle, ...inputs });
+    expect(validate(emptyStyle)).toEqual([]);
+    expect(makeLayers(inputs)).toMatchSnapshot();
+  });
+  it("cluster", () => {
+    const cluster = {
+      ...NONE_NO_SIMPLESTYLE,
+      type: "cluster",
+      radius: 50,
+      maxZoom: 14,
+      labels: true,
+    } as ISymbolization;
+    const inputs = {
+      symbolization: cluster,
+      previewProperty: NIL_PREVIEW,
+    } as const;
+    expect(exportStyle(cluster)).toMatchSnapshot();
+    const emptyStyle: mapboxgl.Style = {
+      version: 8,
+      glyphs: "https://foo.com/foo{fontstack}/{range}",
+      sources: {},
+      layers: [],
+    };
+    addEditingLayers({ style: emptyStyle, ...inputs });
+    expect(validate(emptyStyle)).toEqual([]);
+    expect(emptyStyle.sources).toHaveProperty("features-cluster");
+    expect(makeLayers(inputs)).toMatchSnapshot();
+  });
 });
 
 test("loadAndAugmentStyle", async () => {
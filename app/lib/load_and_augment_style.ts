@@ -6,7 +6,12 @@ import {
   emptyFeatureCollection,
   LINE_COLORS_SELECTED,
 } from "app/lib/constants";
-import type { ISymbolization, LayerConfigMap } from "types";
+import type {
+  ISymbolization,
+  ISymbolizationCluster,
+  ISymbolizationHeatmap,
+  LayerConfigMap,
+} from "types";
 import {
   addMapboxStyle,
   addXYZStyle,
@@ -28,6 +33,7 @@ function getEmptyStyle() {
 const CIRCLE_LAYOUT: mapboxgl.CircleLayout = {};
 
 export const FEATURES_SOURCE_NAME = "features";
+export const FEATURES_CLUSTER_SOURCE_NAME = "features-cluster";
 export const EPHEMERAL_SOURCE_NAME = "ephemeral";
 
 export const EPHEMERAL_LINE_LAYER_NAME = "ephemeral-line";
@@ -42,6 +48,16 @@ export const FEATURES_LINE = "features-label";
 export const CURSORS_POINT_LAYER_NAME = "cursors-symbol";
 export const FEATURES_LINE_LAYER_NAME = "features-line";
 export const FEATURES_FILL_LAYER_NAME = "features-fill";
+export const FEATURES_HEATMAP_LAYER_NAME = "features-heatmap";
+export const FEATURES_CLUSTER_LAYER_NAME = "features-cluster";
+export const FEATURES_CLUSTER_COUNT_LAYER_NAME = "features-cluster-count";
+export const FEATURES_CLUSTER_POINT_LAYER_NAME = "features-cluster-point";
+
+/**
+ * Points in a heatmap can be seen and edited
+ * individually from this zoom on.
+ */
+export const HEATMAP_POINTS_MIN_ZOOM = 14;
 
 const emptyGeoJSONSource = {
   type: "geojson",
@@ -115,6 +131,9 @@ export function addEditingLayers({
 }) {
   style.sources[FEATURES_SOURCE_NAME] = emptyGeoJSONSource;
   style.sources[EPHEMERAL_SOURCE_NAME] = emptyGeoJSONSource;
+  if (symbolization.type === "cluster") {
+    style.sources[FEATURES_CLUSTER_SOURCE_NAME] = CLUSTER_SOURCE(symbolization);
+  }
 
   if (!style.layers) {
     throw new Error("Style unexpectedly had no layers");
@@ -132,6 +151,15 @@ export function makeLayers({
   symbolization: ISymbolization;
   previewProperty: PreviewProperty;
 }): mapboxgl.AnyLayer[] {
+  // Below this zoom, points are drawn as a heatmap
+  // or clusters rather than one by one.
+  const pointsMinZoom =
+    symbolization.type === "heatmap"
+      ? HEATMAP_POINTS_MIN_ZOOM
+      : symbolization.type === "cluster"
+      ? symbolization.maxZoom + 1
+      : undefined;
+
   return [
     // Real polygons, from the dataset.
     {
@@ -172,6 +200,20 @@ export function makeLayers({
       paint: LINE_PAINT(symbolization),
     },
 
+    ...(symbolization.type === "heatmap"
+      ? [
+          {
+            id: FEATURES_HEATMAP_LAYER_NAME,
+            type: "heatmap",
+            source: FEATURES_SOURCE_NAME,
+            filter: CONTENT_LAYER_FILTERS[FEATURES_POINT_LAYER_NAME],
+            paint: HEATMAP_PAINT(symbolization),
+          } as mapboxgl.AnyLayer,
+        ]
+      : []),
+
+    ...(symbolization.type === "cluster" ? clusterLayers(symbolization) : []),
+
     // Real points, from the dataset.
     {
       id: FEATURES_POINT_HALO_LAYER_NAME,
@@ -180,6 +222,7 @@ export function makeLayers({
       layout: CIRCLE_LAYOUT,
       filter: CONTENT_LAYER_FILTERS[FEATURES_POINT_LAYER_NAME],
       paint: CIRCLE_PAINT(symbolization, true),
+      ...(pointsMinZoom === undefined ? {} : { minzoom: pointsMinZoom }),
     },
 
     // Real points, from the dataset.
@@ -190,6 +233,7 @@ export function makeLayers({
       layout: CIRCLE_LAYOUT,
       filter: CONTENT_LAYER_FILTERS[FEATURES_POINT_LAYER_NAME],
       paint: CIRCLE_PAINT(symbolization),
+      ...(pointsMinZoom === undefined ? {} : { minzoom: pointsMinZoom }),
     },
 
     ...(typeof previewProperty === "string"
@@ -268,7 +312,9 @@ function asColorExpressionInner({
 }): mapboxgl.Expression | string {
   const { defaultColor } = symbolization;
   switch (symbolization.type) {
-    case "none": {
+    case "none":
+    case "heatmap":
+    case "cluster": {
       return defaultColor;
     }
     case "categorical": {
@@ -385,6 +431,126 @@ export function CIRCLE_PAINT(
   };
 }
 
+export function HEATMAP_PAINT(
+  symbolization: ISymbolizationHeatmap
+): mapboxgl.HeatmapPaint {
+  const { weightProperty, weightMax, radius, colors } = symbolization;
+  return {
+    "heatmap-weight": weightProperty
+      ? [
+          "interpolate",
+          ["linear"],
+          ["to-number", ["get", weightProperty], 0],
+          0,
+          0,
+          weightMax,
+          1,
+        ]
+      : 1,
+    "heatmap-radius": radius,
+    // Density starts out transparent, so that
+    // only the map shows where there are no points.
+    "heatmap-color": [
+      "interpolate",
+      ["linear"],
+      ["heatmap-density"],
+      0,
+      "rgba(0, 0, 0, 0)",
+      ...colors.flatMap((color, i) => [(i + 1) / colors.length, color]),
+    ],
+    "heatmap-opacity": [
+      "interpolate",
+      ["linear"],
+      ["zoom"],
+      HEATMAP_POINTS_MIN_ZOOM - 1,
+      0.8,
+      HEATMAP_POINTS_MIN_ZOOM + 1,
+      0.4,
+    ],
+  };
+}
+
+export function CLUSTER_SOURCE(
+  symbolization: ISymbolizationCluster
+): mapboxgl.GeoJSONSourceRaw {
+  return {
+    ...emptyGeoJSONSource,
+    cluster: true,
+    clusterRadius: symbolization.radius,
+    clusterMaxZoom: symbolization.maxZoom,
+  };
+}
+
+export function CLUSTER_PAINT(
+  symbolization: ISymbolizationCluster
+): mapboxgl.CirclePaint {
+  return {
+    "circle-color": symbolization.defaultColor,
+    "circle-opacity": 0.8,
+    "circle-stroke-color": "white",
+    "circle-stroke-width": 1,
+    "circle-radius": [
+      "step",
+      ["get", "point_count"],
+      12,
+      10,
+      16,
+      100,
+      20,
+      1000,
+      26,
+    ],
+  };
+}
+
+/**
+ * Clusters, their counts, and the points that aren't
+ * in any cluster, until the map is zoomed in enough to show
+ * points from the features source, which can be edited.
+ */
+function clusterLayers(
+  symbolization: ISymbolizationCluster
+): mapboxgl.AnyLayer[] {
+  const maxzoom = symbolization.maxZoom + 1;
+  return [
+    {
+      id: FEATURES_CLUSTER_LAYER_NAME,
+      type: "circle",
+      source: FEATURES_CLUSTER_SOURCE_NAME,
+      filter: ["has", "point_count"],
+      maxzoom,
+      paint: CLUSTER_PAINT(symbolization),
+    },
+    ...(symbolization.labels
+      ? [
+          {
+            id: FEATURES_CLUSTER_COUNT_LAYER_NAME,
+            type: "symbol",
+            source: FEATURES_CLUSTER_SOURCE_NAME,
+            filter: ["has", "point_count"],
+            maxzoom,
+            layout: {
+              "text-field": ["get", "point_count_abbreviated"],
+              "text-size": 12,
+              "text-allow-overlap": true,
+            },
+            paint: {
+              "text-color": "white",
+            },
+          } as mapboxgl.AnyLayer,
+        ]
+      : []),
+    {
+      id: FEATURES_CLUSTER_POINT_LAYER_NAME,
+      type: "circle",
+      source: FEATURES_CLUSTER_SOURCE_NAME,
+      filter: ["!", ["has", "point_count"]],
+      maxzoom,
+      paint: CIRCLE_PAINT(symbolization),
+    },
+  ];
+}
+
 /**
  * Optionally add a feature-state expression to emphasize this when
  * selected.
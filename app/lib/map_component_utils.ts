@@ -17,7 +17,7 @@ import { getMapCoord } from "./handlers/utils";
 import PMap from "app/lib/pmap";
 import { DECK_SYNTHETIC_ID } from "app/lib/constants";
 
-type MouseOrTouchEvent = mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent;
+export type MouseOrTouchEvent = mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent;
 
 export function wrappedFeaturesFromMapFeatures(
   clickedFeatures: mapboxgl.MapboxGeoJSONFeature[],
@@ -40,8 +40,10 @@ export function wrappedFeaturesFromMapFeatures(
   };
 }
 
-export function newLineStringFromClickEvent(e: MouseOrTouchEvent): LineString {
-  const pos = getMapCoord(e);
+export function newLineStringFromClickEvent(
+  e: MouseOrTouchEvent,
+  pos: Pos2 = getMapCoord(e)
+): LineString {
   return {
     type: "LineString",
     coordinates: [pos, pos],
@@ -51,8 +53,10 @@ export function newLineStringFromClickEvent(e: MouseOrTouchEvent): LineString {
 /**
  * Create a new, zero-area polygon from a position.
  */
-export function newPolygonFromClickEvent(e: MouseOrTouchEvent): Polygon {
-  const pos = getMapCoord(e);
+export function newPolygonFromClickEvent(
+  e: MouseOrTouchEvent,
+  pos: Pos2 = getMapCoord(e)
+): Polygon {
   return {
     type: "Polygon",
     coordinates: [[pos, pos, pos]],
@@ -0,0 +1,213 @@
+import { difference, intersection, Geom } from "polygon-clipping";
+import booleanPointInPolygon from "@turf/boolean-point-in-polygon";
+import type { Feature, Geometry, MultiPolygon, Polygon, Position } from "types";
+import { GeometryError } from "app/lib/errors";
+import { getExtent } from "app/lib/geometry";
+import { Either, Left, Right } from "purify-ts/Either";
+
+export type ClipMode = "clip" | "erase";
+
+/**
+ * What happened to each target feature. Failures leave
+ * the feature as it was, so that one bad geometry doesn't
+ * stop the rest from being clipped.
+ */
+export type ClipOutcome =
+  | { type: "clipped"; feature: Feature }
+  | { type: "empty" }
+  | { type: "failed"; message: string };
+
+interface Boundary {
+  geometry: Polygon | MultiPolygon;
+  rings: Position[][];
+  bbox: BBox4;
+}
+
+function bboxesOverlap(a: BBox4, b: BBox4) {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+/**
+ * Where segment a-b crosses segment c-d, as a
+ * fraction of the way along a-b.
+ */
+function crossing(a: Position, b: Position, c: Position, d: Position) {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const denominator = rx * sy - ry * sx;
+  if (!denominator) return null;
+  const t = ((c[0] - a[0]) * sy - (c[1] - a[1]) * sx) / denominator;
+  const u = ((c[0] - a[0]) * ry - (c[1] - a[1]) * rx) / denominator;
+  return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+function lerp(a: Position, b: Position, t: number): Position {
+  return [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+}
+
+/**
+ * Split a line wherever it crosses the boundary, and keep
+ * the pieces that are inside it, or outside it when erasing.
+ */
+function clipLine(
+  line: Position[],
+  boundary: Boundary,
+  keepInside: boolean
+): Position[][] {
+  const pieces: Position[][] = [];
+  let current: Position[] | null = null;
+
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const ts: number[] = [0];
+    for (const ring of boundary.rings) {
+      for (let j = 1; j < ring.length; j++) {
+        const t = crossing(a, b, ring[j - 1], ring[j]);
+        if (t !== null) ts.push(t);
+      }
+    }
+    ts.push(1);
+    ts.sort((x, y) => x - y);
+
+    for (let k = 1; k < ts.length; k++) {
+      if (ts[k] === ts[k - 1]) continue;
+      const start = k === 1 ? a : lerp(a, b, ts[k - 1]);
+      const end = k === ts.length - 1 ? b : lerp(a, b, ts[k]);
+      const middle = lerp(a, b, (ts[k - 1] + ts[k]) / 2);
+      const inside = booleanPointInPolygon(middle, boundary.geometry);
+      if (inside === keepInside) {
+        if (!current) {
+          current = [start];
+          pieces.push(current);
+        }
+        current.push(end);
+      } else {
+        current = null;
+      }
+    }
+  }
+
+  return pieces;
+}
+
+function clipGeometry(
+  geometry: Geometry,
+  boundary: Boundary,
+  mode: ClipMode
+): Geometry | null {
+  const keepInside = mode === "clip";
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint": {
+      const points = (
+        geometry.type === "Point"
+          ? [geometry.coordinates]
+          : geometry.coordinates
+      ).filter(
+        (point) =>
+          booleanPointInPolygon(point, boundary.geometry) === keepInside
+      );
+      if (!points.length) return null;
+      return points.length === 1
+        ? { type: "Point", coordinates: points[0] }
+        : { type: "MultiPoint", coordinates: points };
+    }
+    case "LineString":
+    case "MultiLineString": {
+      const lines = (
+        geometry.type === "LineString"
+          ? [geometry.coordinates]
+          : geometry.coordinates
+      ).flatMap((line) => clipLine(line, boundary, keepInside));
+      if (!lines.length) return null;
+      return lines.length === 1
+        ? { type: "LineString", coordinates: lines[0] }
+        : { type: "MultiLineString", coordinates: lines };
+    }
+    case "Polygon":
+    case "MultiPolygon": {
+      const result = (keepInside ? intersection : difference)(
+        geometry.coordinates as Geom,
+        boundary.geometry.coordinates as Geom
+      );
+      if (!result.length) return null;
+      return result.length === 1
+        ? { type: "Polygon", coordinates: result[0] as Position[][] }
+        : { type: "MultiPolygon", coordinates: result as Position[][][] };
+    }
+    case "GeometryCollection": {
+      const geometries = geometry.geometries.flatMap((child) => {
+        const clipped = clipGeometry(child, boundary, mode);
+        return clipped ? [clipped] : [];
+      });
+      return geometries.length
+        ? { type: "GeometryCollection", geometries }
+        : null;
+    }
+  }
+}
+
+function clipFeature(
+  feature: Feature,
+  boundary: Boundary,
+  mode: ClipMode
+): ClipOutcome {
+  if (!feature.geometry) return { type: "clipped", feature };
+
+  // Features that don't come near the boundary are
+  // either kept or dropped without any clipping.
+  const extent = getExtent(feature, true).extract() as BBox4 | undefined;
+  if (extent && !bboxesOverlap(extent, boundary.bbox)) {
+    return mode === "clip" ? { type: "empty" } : { type: "clipped", feature };
+  }
+
+  const geometry = clipGeometry(feature.geometry, boundary, mode);
+  return geometry
+    ? { type: "clipped", feature: { ...feature, geometry } }
+    : { type: "empty" };
+}
+
+/**
+ * Clip features to a boundary polygon, or erase the
+ * boundary from them. Properties are kept, lines are split
+ * where they cross the boundary, and features that end up
+ * with nothing left are reported as empty.
+ */
+export function clipFeatures(
+  boundary: Feature,
+  features: Feature[],
+  { mode }: { mode: ClipMode }
+): Either<GeometryError, ClipOutcome[]> {
+  const { geometry } = boundary;
+  if (geometry?.type !== "Polygon" && geometry?.type !== "MultiPolygon") {
+    return Left(new GeometryError("The boundary should be a polygon"));
+  }
+
+  const bbox = getExtent(boundary, true).extract() as BBox4 | undefined;
+  if (!bbox) return Left(new GeometryError("The boundary is empty"));
+
+  const prepared: Boundary = {
+    geometry,
+    rings:
+      geometry.type === "Polygon"
+        ? geometry.coordinates
+        : geometry.coordinates.flat(),
+    bbox,
+  };
+
+  return Right(
+    features.map((feature) => {
+      try {
+        return clipFeature(feature, prepared, mode);
+      } catch (e) {
+        return {
+          type: "failed",
+          message: e instanceof Error ? e.message : "Failed to clip",
+        };
+      }
+    })
+  );
+}
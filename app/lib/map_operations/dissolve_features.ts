@@ -0,0 +1,210 @@
+import { union, Geom } from "polygon-clipping";
+import type { JsonObject, JsonValue } from "type-fest";
+import type { Feature, Geometry, Position } from "types";
+import { GeometryError } from "app/lib/errors";
+import { aggregate } from "app/lib/aggregate";
+import type { AggregateOperation } from "app/lib/aggregate";
+import { Either, Left, Right } from "purify-ts/Either";
+import * as Sentry from "@sentry/nextjs";
+
+export interface DissolveOptions {
+  /**
+   * Features with the same values for these
+   * properties are dissolved together.
+   */
+  groupBy: string[];
+  /**
+   * Other properties to keep, and how to
+   * combine their values.
+   */
+  aggregates: Record<string, AggregateOperation>;
+}
+
+/**
+ * The parts of a group with one kind of geometry,
+ * and the features that they came from.
+ */
+interface Part<T> {
+  features: Feature[];
+  coordinates: T[];
+}
+
+interface Group {
+  polygons: Part<Geom>;
+  lines: Part<Position[]>;
+  points: Part<Position>;
+  /**
+   * Features without a geometry.
+   */
+  empty: Feature[];
+}
+
+type Coordinates = Pick<Group, "polygons" | "lines" | "points">;
+
+interface Dissolved {
+  geometry: Geometry | null;
+  features: Feature[];
+}
+
+function emptyPart<T>(): Part<T> {
+  return { features: [], coordinates: [] };
+}
+
+function addGeometry(parts: Coordinates, geometry: Geometry | null) {
+  switch (geometry?.type) {
+    case "Point":
+      parts.points.coordinates.push(geometry.coordinates);
+      break;
+    case "MultiPoint":
+      parts.points.coordinates.push(...geometry.coordinates);
+      break;
+    case "LineString":
+      parts.lines.coordinates.push(geometry.coordinates);
+      break;
+    case "MultiLineString":
+      parts.lines.coordinates.push(...geometry.coordinates);
+      break;
+    case "Polygon":
+    case "MultiPolygon":
+      parts.polygons.coordinates.push(geometry.coordinates as Geom);
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) addGeometry(parts, child);
+      break;
+    case undefined:
+      break;
+  }
+}
+
+/**
+ * Add a feature to each part of a group that its
+ * geometry has coordinates for.
+ */
+function addFeature(group: Group, feature: Feature) {
+  const parts: Coordinates = {
+    polygons: emptyPart(),
+    lines: emptyPart(),
+    points: emptyPart(),
+  };
+  addGeometry(parts, feature.geometry);
+  let added = false;
+  for (const kind of ["polygons", "lines", "points"] as const) {
+    const { coordinates } = parts[kind];
+    if (!coordinates.length) continue;
+    const part = group[kind] as Part<unknown>;
+    part.features.push(feature);
+    part.coordinates.push(...coordinates);
+    added = true;
+  }
+  if (!added) group.empty.push(feature);
+}
+
+/**
+ * Polygons are unioned, so shared edges disappear.
+ * Lines and points don't overlap in the same way, so
+ * they're collected into multi-geometries. Each geometry
+ * comes with the features that it was made from.
+ */
+function groupGeometries(group: Group): Dissolved[] {
+  const geometries: Dissolved[] = [];
+  const { polygons, lines, points } = group;
+  if (polygons.coordinates.length) {
+    const result = union(
+      polygons.coordinates[0],
+      ...polygons.coordinates.slice(1)
+    );
+    // Slivers can union to nothing, but their
+    // features are still dissolved.
+    geometries.push({
+      geometry:
+        result.length === 0
+          ? null
+          : result.length === 1
+          ? { type: "Polygon", coordinates: result[0] as Position[][] }
+          : { type: "MultiPolygon", coordinates: result as Position[][][] },
+      features: polygons.features,
+    });
+  }
+  if (lines.coordinates.length) {
+    geometries.push({
+      geometry:
+        lines.coordinates.length === 1
+          ? { type: "LineString", coordinates: lines.coordinates[0] }
+          : { type: "MultiLineString", coordinates: lines.coordinates },
+      features: lines.features,
+    });
+  }
+  if (points.coordinates.length) {
+    geometries.push({
+      geometry:
+        points.coordinates.length === 1
+          ? { type: "Point", coordinates: points.coordinates[0] }
+          : { type: "MultiPoint", coordinates: points.coordinates },
+      features: points.features,
+    });
+  }
+  if (group.empty.length) {
+    geometries.push({ geometry: null, features: group.empty });
+  }
+  return geometries;
+}
+
+/**
+ * Group features by the values of some properties, and
+ * combine each group into one feature, or one feature per
+ * kind of geometry if a group has polygons and lines. Each
+ * of those aggregates only the features that went into it.
+ */
+export function dissolveFeatures(
+  features: Feature[],
+  { groupBy, aggregates }: DissolveOptions
+): Either<GeometryError, Feature[]> {
+  if (!groupBy.length) {
+    return Left(new GeometryError("Choose at least one property to group by"));
+  }
+
+  const groups = new Map<string, Group>();
+  for (const feature of features) {
+    const key = JSON.stringify(
+      groupBy.map((property) => feature.properties?.[property] ?? null)
+    );
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        polygons: emptyPart(),
+        lines: emptyPart(),
+        points: emptyPart(),
+        empty: [],
+      };
+      groups.set(key, group);
+    }
+    addFeature(group, feature);
+  }
+
+  try {
+    const dissolved: Feature[] = [];
+    for (const group of groups.values()) {
+      for (const { geometry, features } of groupGeometries(group)) {
+        const properties: JsonObject = {};
+        for (const property of groupBy) {
+          properties[property] = (features[0].properties?.[property] ??
+            null) as JsonValue;
+        }
+        for (const [property, operation] of Object.entries(aggregates)) {
+          if (groupBy.includes(property)) continue;
+          properties[property] = aggregate(
+            operation,
+            features.map(
+              (feature) => feature.properties?.[property] as JsonValue
+            )
+          );
+        }
+        dissolved.push({ type: "Feature", properties, geometry });
+      }
+    }
+    return Right(dissolved);
+  } catch (e) {
+    Sentry.captureException(e);
+    return Left(new GeometryError("Failed to dissolve features"));
+  }
+}
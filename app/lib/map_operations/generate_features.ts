@@ -0,0 +1,443 @@
+import { intersection, union, Geom } from "polygon-clipping";
+import { lengthToDegrees } from "@turf/helpers";
+import type { Units } from "@turf/helpers";
+import type { Feature, Geometry, Polygon, Position } from "types";
+import { GeometryError } from "app/lib/errors";
+import { getExtent } from "app/lib/geometry";
+import { Either, Left, Right } from "purify-ts/Either";
+import * as Sentry from "@sentry/nextjs";
+
+export const GRID_TYPES = ["square", "hexagon", "triangle"] as const;
+export type GridType = (typeof GRID_TYPES)[number];
+
+export const TESSELLATION_TYPES = ["voronoi", "delaunay"] as const;
+export type TessellationType = (typeof TESSELLATION_TYPES)[number];
+
+export type GenerateOptions =
+  | {
+      type: GridType;
+      /**
+       * The width of square cells, or the length of
+       * a side for hexagons and triangles.
+       */
+      cellSize: number;
+      units: Units;
+      /**
+       * Clip the grid to the selected polygons,
+       * instead of covering their extent.
+       */
+      clip: boolean;
+    }
+  | { type: TessellationType };
+
+/**
+ * More features than this would make the map unusable,
+ * and probably means that the cell size is a mistake.
+ */
+export const MAX_GENERATED_FEATURES = 50000;
+
+/**
+ * Generate analysis grids over selected features, or Voronoi
+ * and Delaunay polygons from selected points.
+ */
+export function generateFeatures(
+  features: Feature[],
+  options: GenerateOptions
+): Either<GeometryError, Feature[]> {
+  try {
+    switch (options.type) {
+      case "voronoi":
+      case "delaunay":
+        return tessellate(features, options.type);
+      default:
+        return generateGrid(features, options);
+    }
+  } catch (e) {
+    Sentry.captureException(e);
+    return Left(new GeometryError("Failed to generate features"));
+  }
+}
+
+function polygonFeature(coordinates: Position[][], properties = {}): Feature {
+  return {
+    type: "Feature",
+    properties,
+    geometry: { type: "Polygon", coordinates },
+  };
+}
+
+function tooMany(count: number) {
+  return Left(
+    new GeometryError(
+      `That would make ${count.toLocaleString()} features, more than the limit of ${MAX_GENERATED_FEATURES.toLocaleString()}. Try a larger cell size.`
+    )
+  );
+}
+
+function addPolygons(geometry: Geometry | null, polygons: Geom[]) {
+  switch (geometry?.type) {
+    case "Polygon":
+    case "MultiPolygon":
+      polygons.push(geometry.coordinates as Geom);
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) addPolygons(child, polygons);
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Cells as rings, in degrees. Longitudes are stretched by
+ * latitude, so that cells are about the right size on
+ * the ground in the middle of the extent.
+ */
+function gridCells(
+  [west, south, east, north]: BBox4,
+  type: GridType,
+  cellSize: number,
+  units: Units
+): Either<GeometryError, Position[][]> {
+  const dy = lengthToDegrees(cellSize, units);
+  const dx = dy / Math.cos((((south + north) / 2) * Math.PI) / 180);
+  const width = east - west;
+  const height = north - south;
+
+  if (type === "hexagon") {
+    const columnSpacing = 1.5 * dx;
+    const rowSpacing = Math.sqrt(3) * dy;
+    const columns = Math.ceil(width / columnSpacing) + 1;
+    const rows = Math.ceil(height / rowSpacing) + 2;
+    if (columns * rows > MAX_GENERATED_FEATURES) return tooMany(columns * rows);
+    const cells: Position[][] = [];
+    for (let column = 0; column < columns; column++) {
+      const x = west + column * columnSpacing;
+      if (x - dx > east) continue;
+      const offset = column % 2 ? rowSpacing / 2 : 0;
+      for (let row = -1; row < rows - 1; row++) {
+        const y = south + row * rowSpacing + offset;
+        if (y - rowSpacing / 2 > north || y + rowSpacing / 2 < south) continue;
+        const ring: Position[] = [];
+        for (let i = 0; i < 6; i++) {
+          const angle = (i * Math.PI) / 3;
+          ring.push([x + dx * Math.cos(angle), y + dy * Math.sin(angle)]);
+        }
+        ring.push(ring[0]);
+        cells.push(ring);
+      }
+    }
+    return Right(cells);
+  }
+
+  // Square and triangle grids are centered over the extent.
+  const columns = Math.max(1, Math.ceil(width / dx));
+  const rows = Math.max(1, Math.ceil(height / dy));
+  const count = columns * rows * (type === "triangle" ? 2 : 1);
+  if (count > MAX_GENERATED_FEATURES) return tooMany(count);
+  const x0 = west - (columns * dx - width) / 2;
+  const y0 = south - (rows * dy - height) / 2;
+  const cells: Position[][] = [];
+  for (let column = 0; column < columns; column++) {
+    for (let row = 0; row < rows; row++) {
+      const x = x0 + column * dx;
+      const y = y0 + row * dy;
+      const sw = [x, y];
+      const se = [x + dx, y];
+      const ne = [x + dx, y + dy];
+      const nw = [x, y + dy];
+      if (type === "square") {
+        cells.push([sw, se, ne, nw, sw]);
+      } else if ((column + row) % 2) {
+        cells.push([sw, se, nw, sw], [se, ne, nw, se]);
+      } else {
+        cells.push([sw, se, ne, sw], [sw, ne, nw, sw]);
+      }
+    }
+  }
+  return Right(cells);
+}
+
+function generateGrid(
+  features: Feature[],
+  { type, cellSize, units, clip }: Extract<GenerateOptions, { type: GridType }>
+): Either<GeometryError, Feature[]> {
+  if (!(cellSize > 0)) {
+    return Left(new GeometryError("The cell size must be more than zero"));
+  }
+
+  const polygons: Geom[] = [];
+  if (clip) {
+    for (const feature of features) addPolygons(feature.geometry, polygons);
+    if (!polygons.length) {
+      return Left(new GeometryError("Select a polygon to clip the grid to"));
+    }
+  }
+
+  const area = clip ? union(polygons[0], ...polygons.slice(1)) : null;
+  const extent = getExtent(
+    area
+      ? { type: "MultiPolygon", coordinates: area as Position[][][] }
+      : features
+  );
+  if (extent.isNothing()) {
+    return Left(new GeometryError("Select features to cover with a grid"));
+  }
+
+  return gridCells(extent.extract() as BBox4, type, cellSize, units).map(
+    (cells) => {
+      if (!area) return cells.map((ring) => polygonFeature([ring]));
+      return cells.flatMap((ring): Feature[] => {
+        const clipped = intersection([ring] as Geom, area);
+        if (!clipped.length) return [];
+        return [
+          {
+            type: "Feature",
+            properties: {},
+            geometry:
+              clipped.length === 1
+                ? { type: "Polygon", coordinates: clipped[0] as Position[][] }
+                : {
+                    type: "MultiPolygon",
+                    coordinates: clipped as Position[][][],
+                  },
+          },
+        ];
+      });
+    }
+  );
+}
+
+interface Site {
+  position: Pos2;
+  properties: Feature["properties"];
+}
+
+function addSites(
+  geometry: Geometry | null,
+  properties: Feature["properties"],
+  sites: Map<string, Site>
+) {
+  function addSite(position: Position) {
+    const key = `${position[0]},${position[1]}`;
+    if (!sites.has(key)) {
+      sites.set(key, { position: [position[0], position[1]], properties });
+    }
+  }
+  switch (geometry?.type) {
+    case "Point":
+      addSite(geometry.coordinates);
+      break;
+    case "MultiPoint":
+      geometry.coordinates.forEach(addSite);
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) {
+        addSites(child, properties, sites);
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+type Triangle = [number, number, number];
+
+interface Circumcircle {
+  triangle: Triangle;
+  x: number;
+  y: number;
+  r2: number;
+}
+
+function circumcircle(points: Pos2[], triangle: Triangle): Circumcircle {
+  const [[ax, ay], [bx, by], [cx, cy]] = triangle.map((i) => points[i]);
+  const d = 2 * (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by));
+  if (!d) return { triangle, x: 0, y: 0, r2: Infinity };
+  const a2 = ax * ax + ay * ay;
+  const b2 = bx * bx + by * by;
+  const c2 = cx * cx + cy * cy;
+  const x = (a2 * (by - cy) + b2 * (cy - ay) + c2 * (ay - by)) / d;
+  const y = (a2 * (cx - bx) + b2 * (ax - cx) + c2 * (bx - ax)) / d;
+  return { triangle, x, y, r2: (ax - x) ** 2 + (ay - y) ** 2 };
+}
+
+/**
+ * Bowyer-Watson triangulation. Returns triangles
+ * as indexes into `points`.
+ */
+export function delaunay(points: Pos2[]): Triangle[] {
+  const count = points.length;
+  if (count < 3) return [];
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+
+  // A triangle that contains every point, removed at the end.
+  const all = points.concat([
+    [midX - 20 * size, midY - size],
+    [midX, midY + 20 * size],
+    [midX + 20 * size, midY - size],
+  ]);
+  let circles = [circumcircle(all, [count, count + 1, count + 2])];
+
+  for (let i = 0; i < count; i++) {
+    const [px, py] = all[i];
+    const edges = new Map<string, [number, number]>();
+    const kept: Circumcircle[] = [];
+    for (const circle of circles) {
+      if ((px - circle.x) ** 2 + (py - circle.y) ** 2 < circle.r2) {
+        const [a, b, c] = circle.triangle;
+        for (const [u, v] of [
+          [a, b],
+          [b, c],
+          [c, a],
+        ]) {
+          const key = u < v ? `${u},${v}` : `${v},${u}`;
+          if (edges.has(key)) {
+            edges.delete(key);
+          } else {
+            edges.set(key, [u, v]);
+          }
+        }
+      } else {
+        kept.push(circle);
+      }
+    }
+    for (const [u, v] of edges.values()) {
+      kept.push(circumcircle(all, [u, v, i]));
+    }
+    circles = kept;
+  }
+
+  return circles
+    .map((circle) => circle.triangle)
+    .filter((triangle) => triangle.every((i) => i < count));
+}
+
+/**
+ * Clip a ring to the half of the plane that is
+ * closer to `site` than to `other`.
+ */
+function clipToBisector(ring: Pos2[], site: Pos2, other: Pos2): Pos2[] {
+  const nx = other[0] - site[0];
+  const ny = other[1] - site[1];
+  const offset =
+    (nx * (site[0] + other[0])) / 2 + (ny * (site[1] + other[1])) / 2;
+  const side = (p: Pos2) => nx * p[0] + ny * p[1] - offset;
+
+  const clipped: Pos2[] = [];
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    const sa = side(a);
+    const sb = side(b);
+    if (sa <= 0) clipped.push(a);
+    if ((sa < 0 && sb > 0) || (sa > 0 && sb < 0)) {
+      const t = sa / (sa - sb);
+      clipped.push([a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])]);
+    }
+  }
+  return clipped;
+}
+
+function closeRing(ring: Pos2[]): Position[] {
+  return [...ring, ring[0]];
+}
+
+function tessellate(
+  features: Feature[],
+  type: TessellationType
+): Either<GeometryError, Feature[]> {
+  const siteMap = new Map<string, Site>();
+  for (const feature of features) {
+    addSites(feature.geometry, feature.properties, siteMap);
+  }
+  const sites = Array.from(siteMap.values());
+  const points = sites.map((site) => site.position);
+  const triangles = delaunay(points);
+
+  if (type === "delaunay") {
+    if (!triangles.length) {
+      return Left(
+        new GeometryError(
+          "Select at least three points that aren't in a straight line"
+        )
+      );
+    }
+    return Right(
+      triangles.map(([a, b, c]) => {
+        const [pa, pb, pc] = [points[a], points[b], points[c]];
+        const clockwise =
+          (pb[0] - pa[0]) * (pc[1] - pa[1]) -
+            (pb[1] - pa[1]) * (pc[0] - pa[0]) <
+          0;
+        return polygonFeature([
+          closeRing(clockwise ? [pa, pc, pb] : [pa, pb, pc]),
+        ]);
+      })
+    );
+  }
+
+  if (sites.length < 2) {
+    return Left(new GeometryError("Select at least two points"));
+  }
+
+  const neighbors = points.map(() => new Set<number>());
+  for (const [a, b, c] of triangles) {
+    neighbors[a].add(b).add(c);
+    neighbors[b].add(a).add(c);
+    neighbors[c].add(a).add(b);
+  }
+
+  // Cells on the outside are cut off a little
+  // beyond the extent of the points.
+  const [west, south, east, north] = getExtent({
+    type: "MultiPoint",
+    coordinates: points,
+  }).extract() as BBox4;
+  const pad = Math.max(east - west, north - south) * 0.1 || 0.01;
+  const box: Pos2[] = [
+    [west - pad, south - pad],
+    [east + pad, south - pad],
+    [east + pad, north + pad],
+    [west - pad, north + pad],
+  ];
+
+  return Right(
+    sites.flatMap((site, i): Feature[] => {
+      // Without triangles, the points are in a line,
+      // and every other point is a neighbor.
+      const others = triangles.length
+        ? Array.from(neighbors[i])
+        : points.map((_, j) => j).filter((j) => j !== i);
+      let ring = box;
+      for (const j of others) {
+        ring = clipToBisector(ring, site.position, points[j]);
+      }
+      if (ring.length < 3) return [];
+      const geometry: Polygon = {
+        type: "Polygon",
+        coordinates: [closeRing(ring)],
+      };
+      return [
+        {
+          type: "Feature",
+          properties: { ...site.properties },
+          geometry,
+        },
+      ];
+    })
+  );
+}
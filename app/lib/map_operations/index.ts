@@ -1,6 +1,16 @@
 export { closePolygon } from "./close_polygon";
 export { booleanFeatures } from "./boolean_features";
 export type { BooleanOp } from "./boolean_features";
+export { spatialJoin } from "./spatial_join";
+export type { SpatialJoinOptions } from "./spatial_join";
+export { dissolveFeatures } from "./dissolve_features";
+export type { DissolveOptions } from "./dissolve_features";
+export { generateFeatures } from "./generate_features";
+export type { GenerateOptions } from "./generate_features";
+export { clipFeatures } from "./clip_features";
+export type { ClipMode, ClipOutcome } from "./clip_features";
+export { repairGeometry } from "./repair_geometry";
+export type { RepairType } from "./repair_geometry";
 export { setCoordinates } from "./set_coordinates";
 export { getCoordinates } from "./get_coordinates";
 export { mergeFeatures, mergeFeaturesMessage } from "./merge_features";
@@ -19,3 +29,5 @@ export { polygonToLine } from "./polygon_to_line";
 export { geometryToPoints } from "./geometry_to_points";
 export { moveFeature } from "./move_feature";
 export { rotateFeatures } from "./rotate_features";
+export { transformFeatures } from "./transform_features";
+export type { TransformOptions } from "./transform_features";
@@ -0,0 +1,114 @@
+import { union, Geom } from "polygon-clipping";
+import { rewindGeometry } from "@placemarkio/geojson-rewind";
+import isEqual from "lodash/isEqual";
+import type { Geometry, Position } from "types";
+import { removeDegenerates } from "app/lib/geometry";
+import type { IssueType } from "app/lib/validate_features";
+
+export type RepairType =
+  | "make-valid"
+  | "remove-duplicate-vertices"
+  | "fix-winding"
+  | "drop-degenerates";
+
+export const REPAIR_LABELS: Record<RepairType, string> = {
+  "make-valid": "Make valid",
+  "remove-duplicate-vertices": "Remove duplicate vertices",
+  "fix-winding": "Fix ring winding",
+  "drop-degenerates": "Drop degenerates",
+};
+
+/**
+ * The repair that fixes each kind of issue.
+ */
+export const REPAIR_FOR_ISSUE: Record<IssueType, RepairType> = {
+  invalid: "make-valid",
+  degenerate: "drop-degenerates",
+  "self-intersection": "make-valid",
+  "duplicate-vertices": "remove-duplicate-vertices",
+  winding: "fix-winding",
+};
+
+function dedupeLine(line: Position[]) {
+  return line.filter(
+    (position, i) => i === 0 || !isEqual(line[i - 1], position)
+  );
+}
+
+function removeDuplicateVertices(geometry: Geometry): Geometry {
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint":
+      return geometry;
+    case "LineString":
+      return { ...geometry, coordinates: dedupeLine(geometry.coordinates) };
+    case "MultiLineString":
+    case "Polygon":
+      return { ...geometry, coordinates: geometry.coordinates.map(dedupeLine) };
+    case "MultiPolygon":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map(dedupeLine)
+        ),
+      };
+    case "GeometryCollection":
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map(removeDuplicateVertices),
+      };
+  }
+}
+
+/**
+ * Rebuild polygons with polygon-clipping, which splits
+ * self-intersecting rings into simple ones.
+ */
+function rebuildPolygons(geometry: Geometry): Geometry | null {
+  switch (geometry.type) {
+    case "Polygon":
+    case "MultiPolygon": {
+      const result = union(geometry.coordinates as Geom);
+      if (!result.length) return null;
+      return result.length === 1
+        ? { type: "Polygon", coordinates: result[0] as Position[][] }
+        : { type: "MultiPolygon", coordinates: result as Position[][][] };
+    }
+    case "GeometryCollection": {
+      const geometries = geometry.geometries.flatMap((child) => {
+        const rebuilt = rebuildPolygons(child);
+        return rebuilt ? [rebuilt] : [];
+      });
+      if (!geometries.length) return null;
+      return { type: "GeometryCollection", geometries };
+    }
+    default:
+      return geometry;
+  }
+}
+
+/**
+ * Apply one repair to a geometry. Returns null if
+ * nothing is left of it, in which case the feature
+ * should be deleted.
+ */
+export function repairGeometry(
+  geometry: Geometry,
+  repair: RepairType
+): Geometry | null {
+  switch (repair) {
+    case "remove-duplicate-vertices":
+      // Rings can collapse once repeated vertices are gone.
+      return removeDegenerates(removeDuplicateVertices(geometry));
+    case "fix-winding":
+      return rewindGeometry(geometry);
+    case "drop-degenerates":
+      return removeDegenerates(geometry);
+    case "make-valid": {
+      const cleaned = removeDegenerates(removeDuplicateVertices(geometry));
+      if (!cleaned) return null;
+      const rebuilt = rebuildPolygons(cleaned);
+      return rebuilt && rewindGeometry(rebuilt);
+    }
+  }
+}
@@ -0,0 +1,382 @@
+import Flatbush from "flatbush";
+import booleanPointInPolygon from "@turf/boolean-point-in-polygon";
+import type { JsonObject, JsonValue } from "type-fest";
+import type { Feature, Geometry, Position } from "types";
+import { GeometryError } from "app/lib/errors";
+import { aggregate } from "app/lib/aggregate";
+import type { AggregateOperation } from "app/lib/aggregate";
+import { getExtent } from "app/lib/geometry";
+import { Either, Left, Right } from "purify-ts/Either";
+import * as Sentry from "@sentry/nextjs";
+
+export type SpatialPredicate = "intersects" | "within" | "contains" | "nearest";
+
+export type JoinAggregate = Extract<
+  AggregateOperation,
+  "count" | "sum" | "mean" | "first"
+>;
+
+export const SPATIAL_PREDICATES: Array<{
+  value: SpatialPredicate;
+  label: string;
+}> = [
+  { value: "intersects", label: "Intersects" },
+  { value: "within", label: "Is within" },
+  { value: "contains", label: "Contains" },
+  { value: "nearest", label: "Nearest" },
+];
+
+export const JOIN_AGGREGATES: JoinAggregate[] = [
+  "count",
+  "sum",
+  "mean",
+  "first",
+];
+
+/**
+ * Either copy the properties of the first matching
+ * feature, or summarize some properties of all matching
+ * features. New properties are named with the prefix, like
+ * join_count or join_population_sum.
+ */
+export type SpatialJoinOptions = {
+  predicate: SpatialPredicate;
+  prefix: string;
+} & (
+  | { mode: "copy" }
+  | { mode: "aggregate"; operation: JoinAggregate; properties: string[] }
+);
+
+type Segment = [Position, Position];
+
+/**
+ * Geometries, broken down into the pieces
+ * that the predicates below compare.
+ */
+interface Parts {
+  points: Position[];
+  segments: Segment[];
+  polygons: Position[][][];
+  bbox: BBox4;
+}
+
+function decompose(geometry: Geometry | null, scale: number): Parts {
+  const parts: Parts = {
+    points: [],
+    segments: [],
+    polygons: [],
+    bbox: [Infinity, Infinity, -Infinity, -Infinity],
+  };
+
+  // Longitudes are scaled so that distances are roughly
+  // proportional near the data.
+  const project = (position: Position): Position => [
+    position[0] * scale,
+    position[1],
+  ];
+
+  function addLine(line: Position[]) {
+    const projected = line.map(project);
+    for (const point of projected) {
+      parts.points.push(point);
+      parts.bbox[0] = Math.min(parts.bbox[0], point[0]);
+      parts.bbox[1] = Math.min(parts.bbox[1], point[1]);
+      parts.bbox[2] = Math.max(parts.bbox[2], point[0]);
+      parts.bbox[3] = Math.max(parts.bbox[3], point[1]);
+    }
+    for (let i = 1; i < projected.length; i++) {
+      parts.segments.push([projected[i - 1], projected[i]]);
+    }
+    return projected;
+  }
+
+  function add(geometry: Geometry) {
+    switch (geometry.type) {
+      case "Point":
+        addLine([geometry.coordinates]);
+        break;
+      case "MultiPoint":
+        addLine(geometry.coordinates);
+        break;
+      case "LineString":
+        addLine(geometry.coordinates);
+        break;
+      case "MultiLineString":
+        geometry.coordinates.forEach(addLine);
+        break;
+      case "Polygon":
+        parts.polygons.push(geometry.coordinates.map(addLine));
+        break;
+      case "MultiPolygon":
+        for (const polygon of geometry.coordinates) {
+          parts.polygons.push(polygon.map(addLine));
+        }
+        break;
+      case "GeometryCollection":
+        geometry.geometries.forEach(add);
+        break;
+    }
+  }
+
+  if (geometry) add(geometry);
+  return parts;
+}
+
+function orientation(a: Position, b: Position, c: Position) {
+  const value = (b[1] - a[1]) * (c[0] - b[0]) - (b[0] - a[0]) * (c[1] - b[1]);
+  return Math.abs(value) < 1e-18 ? 0 : Math.sign(value);
+}
+
+function onSegment(p: Position, [a, b]: Segment) {
+  return (
+    orientation(a, b, p) === 0 &&
+    p[0] >= Math.min(a[0], b[0]) &&
+    p[0] <= Math.max(a[0], b[0]) &&
+    p[1] >= Math.min(a[1], b[1]) &&
+    p[1] <= Math.max(a[1], b[1])
+  );
+}
+
+function segmentsIntersect(s: Segment, t: Segment) {
+  const o1 = orientation(s[0], s[1], t[0]);
+  const o2 = orientation(s[0], s[1], t[1]);
+  const o3 = orientation(t[0], t[1], s[0]);
+  const o4 = orientation(t[0], t[1], s[1]);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && onSegment(t[0], s)) ||
+    (o2 === 0 && onSegment(t[1], s)) ||
+    (o3 === 0 && onSegment(s[0], t)) ||
+    (o4 === 0 && onSegment(s[1], t))
+  );
+}
+
+/**
+ * Whether two segments cross each other, rather than
+ * only touching.
+ */
+function segmentsCross(s: Segment, t: Segment) {
+  const o1 = orientation(s[0], s[1], t[0]);
+  const o2 = orientation(s[0], s[1], t[1]);
+  const o3 = orientation(t[0], t[1], s[0]);
+  const o4 = orientation(t[0], t[1], s[1]);
+  return o1 * o2 < 0 && o3 * o4 < 0;
+}
+
+function pointIntersects(point: Position, parts: Parts) {
+  return (
+    parts.points.some((p) => p[0] === point[0] && p[1] === point[1]) ||
+    parts.segments.some((segment) => onSegment(point, segment)) ||
+    parts.polygons.some((coordinates) =>
+      booleanPointInPolygon(point, { type: "Polygon", coordinates })
+    )
+  );
+}
+
+function midpoint([a, b]: Segment): Position {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+}
+
+function intersects(a: Parts, b: Parts) {
+  return (
+    a.points.some((point) => pointIntersects(point, b)) ||
+    b.points.some((point) => pointIntersects(point, a)) ||
+    a.segments.some((s) => b.segments.some((t) => segmentsIntersect(s, t)))
+  );
+}
+
+/**
+ * Whether two geometries share any point, for
+ * filtering features by area.
+ */
+export function geometriesIntersect(a: Geometry | null, b: Geometry | null) {
+  const partsA = decompose(a, 1);
+  const partsB = decompose(b, 1);
+  if (!partsA.points.length || !partsB.points.length) return false;
+  if (
+    partsA.bbox[0] > partsB.bbox[2] ||
+    partsA.bbox[2] < partsB.bbox[0] ||
+    partsA.bbox[1] > partsB.bbox[3] ||
+    partsA.bbox[3] < partsB.bbox[1]
+  ) {
+    return false;
+  }
+  return intersects(partsA, partsB);
+}
+
+/**
+ * Whether a lies inside of b, allowing it to touch
+ * the edges of b.
+ */
+function within(a: Parts, b: Parts) {
+  if (!a.points.length) return false;
+  return (
+    a.points.every((point) => pointIntersects(point, b)) &&
+    a.segments.every((segment) => pointIntersects(midpoint(segment), b)) &&
+    !(
+      b.polygons.length &&
+      a.segments.some((s) => b.segments.some((t) => segmentsCross(s, t)))
+    )
+  );
+}
+
+function pointSegmentDistance(p: Position, [a, b]: Segment) {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared
+    ? Math.max(
+        0,
+        Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared)
+      )
+    : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+function pointDistance(point: Position, parts: Parts) {
+  let min = Infinity;
+  for (const p of parts.points) {
+    min = Math.min(min, Math.hypot(point[0] - p[0], point[1] - p[1]));
+  }
+  for (const segment of parts.segments) {
+    min = Math.min(min, pointSegmentDistance(point, segment));
+  }
+  return min;
+}
+
+function distance(a: Parts, b: Parts) {
+  if (intersects(a, b)) return 0;
+  let min = Infinity;
+  for (const point of a.points) min = Math.min(min, pointDistance(point, b));
+  for (const point of b.points) min = Math.min(min, pointDistance(point, a));
+  return min;
+}
+
+function joinProperties(
+  matches: Feature[],
+  options: SpatialJoinOptions
+): JsonObject {
+  const properties: JsonObject = {};
+  const { prefix } = options;
+  if (options.mode === "copy") {
+    for (const [key, value] of Object.entries(matches[0]?.properties || {})) {
+      properties[`${prefix}${key}`] = value as JsonValue;
+    }
+    return properties;
+  }
+  if (options.operation === "count") {
+    properties[`${prefix}count`] = matches.length;
+    return properties;
+  }
+  for (const property of options.properties) {
+    const name =
+      options.operation === "first"
+        ? `${prefix}${property}`
+        : `${prefix}${property}_${options.operation}`;
+    properties[name] = aggregate(
+      options.operation,
+      matches.map((match) => match.properties?.[property] as JsonValue)
+    );
+  }
+  return properties;
+}
+
+/**
+ * Find the features in `joins` that match each feature in
+ * `targets`, and add their properties to the target. Returns
+ * the targets in the same order, with new properties.
+ */
+export function spatialJoin(
+  targets: Feature[],
+  joins: Feature[],
+  options: SpatialJoinOptions
+): Either<GeometryError, Feature[]> {
+  const joinParts = joins
+    .map((feature, index) => ({ feature, index }))
+    .filter(({ feature }) => feature.geometry);
+
+  if (!joinParts.length) {
+    return Left(new GeometryError("There are no features to join"));
+  }
+
+  try {
+    const midLatitude = getExtent(joins)
+      .map(([, minY, , maxY]) => (minY + maxY) / 2)
+      .orDefault(0);
+    const scale = Math.cos((midLatitude * Math.PI) / 180);
+
+    const decomposed = joinParts.map(({ feature }) =>
+      decompose(feature.geometry, scale)
+    );
+    const index = new Flatbush(decomposed.length);
+    for (const { bbox } of decomposed) {
+      index.add(bbox[0], bbox[1], bbox[2], bbox[3]);
+    }
+    index.finish();
+
+    const results = targets.map((target) => {
+      const parts = decompose(target.geometry, scale);
+      let matches: number[] = [];
+
+      if (parts.points.length) {
+        const [minX, minY, maxX, maxY] = parts.bbox;
+        switch (options.predicate) {
+          case "intersects": {
+            matches = index
+              .search(minX, minY, maxX, maxY)
+              .filter((i) => intersects(parts, decomposed[i]));
+            break;
+          }
+          case "within": {
+            matches = index
+              .search(minX, minY, maxX, maxY)
+              .filter((i) => within(parts, decomposed[i]));
+            break;
+          }
+          case "contains": {
+            matches = index
+              .search(minX, minY, maxX, maxY)
+              .filter((i) => within(decomposed[i], parts));
+            break;
+          }
+          case "nearest": {
+            // Anything nearer than the closest box has to be
+            // within its distance, plus the size of this feature.
+            const x = (minX + maxX) / 2;
+            const y = (minY + maxY) / 2;
+            const radius = Math.hypot(maxX - minX, maxY - minY) / 2;
+            const [closest] = index.neighbors(x, y, 1);
+            const limit = distance(parts, decomposed[closest]) + radius;
+            let best = Infinity;
+            for (const i of index.neighbors(x, y, Infinity, limit)) {
+              const d = distance(parts, decomposed[i]);
+              if (d < best) {
+                best = d;
+                matches = [i];
+              }
+            }
+            break;
+          }
+        }
+      }
+
+      matches.sort((a, b) => a - b);
+
+      return {
+        ...target,
+        properties: {
+          ...target.properties,
+          ...joinProperties(
+            matches.map((i) => joinParts[i].feature),
+            options
+          ),
+        },
+      };
+    });
+
+    return Right(results);
+  } catch (e) {
+    Sentry.captureException(e);
+    return Left(new GeometryError("Failed to join features"));
+  }
+}
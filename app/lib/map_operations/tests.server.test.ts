@@ -42,7 +42,7 @@ import {
 import { getIssues } from "@placemarkio/check-geojson";
 import { decodeId } from "app/lib/id";
 import { USelection } from "state";
-import type { Feature, FeatureMap } from "types";
+import type { Feature, FeatureMap, IWrappedFeature, Point } from "types";
 import { EMPTY_MOMENT } from "app/lib/persistence/moment";
 import { SELECTION_NONE } from "state/jotai";
 import { popLineStringCoordinate } from "./pop_line_string_coordinate";
@@ -55,6 +55,13 @@ import { makeConvexHull } from "./make_convex_hull";
 import { spliceNewVertex } from "./splice_new_vertex";
 import { splitLine } from "./split_line";
 import { mergeFeatures, mergeFeaturesMessage } from "./merge_features";
+import { spatialJoin } from "./spatial_join";
+import { dissolveFeatures } from "./dissolve_features";
+import { delaunay, generateFeatures } from "./generate_features";
+import { clipFeatures } from "./clip_features";
+import { transformFeatures } from "./transform_features";
+import { repairGeometry } from "./repair_geometry";
+import { validateFeatures } from "app/lib/validate_features";
 
 const engine = new Random(MersenneTwister19937.seed(1));
 
@@ -1401,4 +1408,750 @@ describe("map_operations", () => {
       });
     });
   });
+
+  describe("spatialJoin", () => {
+    const square = (
+      x: number,
+      y: number,
+      size: number,
+      properties: Feature["properties"]
+    ): Feature => ({
+      type: "Feature",
+      properties,
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [x, y],
+            [x + size, y],
+            [x + size, y + size],
+            [x, y + size],
+            [x, y],
+          ],
+        ],
+      },
+    });
+    const point = (x: number, y: number, properties = {}): Feature => ({
+      type: "Feature",
+      properties,
+      geometry: { type: "Point", coordinates: [x, y] },
+    });
+    const districts = [
+      square(0, 0, 10, { name: "A" }),
+      square(10, 0, 10, { name: "B" }),
+    ];
+    const points = [
+      point(1, 1, { n: 1 }),
+      point(2, 2, { n: "2" }),
+      point(15, 5, { n: 4 }),
+      point(30, 5, { n: 8 }),
+    ];
+
+    it("copies properties of the polygon a point is within", () => {
+      expect(
+        spatialJoin(points, districts, {
+          predicate: "within",
+          prefix: "district_",
+          mode: "copy",
+        })
+          .unsafeCoerce()
+          .map((feature) => feature.properties)
+      ).toEqual([
+        { n: 1, district_name: "A" },
+        { n: "2", district_name: "A" },
+        { n: 4, district_name: "B" },
+        { n: 8 },
+      ]);
+    });
+
+    it("aggregates the points in each polygon", () => {
+      expect(
+        spatialJoin(districts, points, {
+          predicate: "contains",
+          prefix: "join_",
+          mode: "aggregate",
+          operation: "count",
+          properties: [],
+        })
+          .unsafeCoerce()
+          .map((feature) => feature.properties)
+      ).toEqual([
+        { name: "A", join_count: 2 },
+        { name: "B", join_count: 1 },
+      ]);
+      expect(
+        spatialJoin(districts, points, {
+          predicate: "intersects",
+          prefix: "",
+          mode: "aggregate",
+          operation: "mean",
+          properties: ["n"],
+        })
+          .unsafeCoerce()
+          .map((feature) => feature.properties?.n_mean)
+      ).toEqual([1.5, 4]);
+    });
+
+    it("finds the nearest feature", () => {
+      expect(
+        spatialJoin(points, districts, {
+          predicate: "nearest",
+          prefix: "",
+          mode: "aggregate",
+          operation: "first",
+          properties: ["name"],
+        })
+          .unsafeCoerce()
+          .map((feature) => feature.properties?.name)
+      ).toEqual(["A", "A", "B", "B"]);
+    });
+
+    it("handles lines and overlaps", () => {
+      const line: Feature = {
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [-5, 5],
+            [25, 5],
+          ],
+        },
+      };
+      const result = spatialJoin([line], districts, {
+        predicate: "intersects",
+        prefix: "",
+        mode: "aggregate",
+        operation: "count",
+        properties: [],
+      }).unsafeCoerce();
+      expect(result[0].properties).toEqual({ count: 2 });
+      expect(
+        spatialJoin([line], districts, {
+          predicate: "within",
+          prefix: "",
+          mode: "aggregate",
+          operation: "count",
+          properties: [],
+        }).unsafeCoerce()[0].properties
+      ).toEqual({ count: 0 });
+    });
+
+    it("requires features to join", () => {
+      expect(
+        spatialJoin(points, [], {
+          predicate: "within",
+          prefix: "",
+          mode: "copy",
+        })
+      ).toBeLeft();
+    });
+  });
+
+  describe("dissolveFeatures", () => {
+    const parcel = (x: number, properties: Feature["properties"]): Feature => ({
+      type: "Feature",
+      properties,
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [x, 0],
+            [x + 1, 0],
+            [x + 1, 1],
+            [x, 1],
+            [x, 0],
+          ],
+        ],
+      },
+    });
+    const parcels = [
+      parcel(0, { zone: "R1", value: 10, owner: "a" }),
+      parcel(1, { zone: "R1", value: "20", owner: "b" }),
+      parcel(5, { zone: "C", value: 5, owner: "c" }),
+      parcel(2, { zone: "R1", value: null, owner: "d" }),
+    ];
+
+    it("unions polygons in each group", () => {
+      const result = dissolveFeatures(parcels, {
+        groupBy: ["zone"],
+        aggregates: { value: "sum", owner: "concat" },
+      }).unsafeCoerce();
+      expect(result).toHaveLength(2);
+      expect(result.map((feature) => feature.properties)).toEqual([
+        { zone: "R1", value: 30, owner: "a, b, d" },
+        { zone: "C", value: 5, owner: "c" },
+      ]);
+      expect(result[0].geometry).toHaveProperty("type", "Polygon");
+      expect(getIssues(JSON.stringify(result[0]))).toEqual([]);
+      expect(getExtent(result[0]).extract()).toEqual([0, 0, 3, 1]);
+    });
+
+    it("keeps lines and points separate from polygons", () => {
+      const result = dissolveFeatures(
+        [
+          ...parcels.slice(0, 2),
+          {
+            type: "Feature",
+            properties: { zone: "R1" },
+            geometry: { type: "Point", coordinates: [9, 9] },
+          },
+        ],
+        { groupBy: ["zone"], aggregates: { value: "count" } }
+      ).unsafeCoerce();
+      expect(result.map((feature) => feature.geometry?.type)).toEqual([
+        "Polygon",
+        "Point",
+      ]);
+      expect(result.map((feature) => feature.properties)).toEqual([
+        { zone: "R1", value: 2 },
+        { zone: "R1", value: 1 },
+      ]);
+    });
+
+    it("requires a property to group by", () => {
+      expect(
+        dissolveFeatures(parcels, { groupBy: [], aggregates: {} })
+      ).toBeLeft();
+    });
+  });
+
+  describe("generateFeatures", () => {
+    const square: Feature = {
+      type: "Feature",
+      properties: {},
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 1],
+            [0, 0],
+          ],
+        ],
+      },
+    };
+    const point = (x: number, y: number, name: string): Feature => ({
+      type: "Feature",
+      properties: { name },
+      geometry: { type: "Point", coordinates: [x, y] },
+    });
+    const points = [
+      point(0, 0, "a"),
+      point(1, 0, "b"),
+      point(0, 1, "c"),
+      point(1, 1, "d"),
+      point(0.4, 0.6, "e"),
+    ];
+
+    it("square and triangle grids over the extent", () => {
+      const squares = generateFeatures([square], {
+        type: "square",
+        cellSize: 0.25,
+        units: "degrees",
+        clip: false,
+      }).unsafeCoerce();
+      // Cells are wider at this latitude to stay square.
+      expect(squares).toHaveLength(16);
+      expect(getIssues(JSON.stringify(squares[0]))).toEqual([]);
+      const [west, south, east, north] = getExtent(squares).unsafeCoerce();
+      expect(west).toBeLessThanOrEqual(0);
+      expect(south).toBeCloseTo(0);
+      expect(east).toBeGreaterThanOrEqual(1);
+      expect(north).toBeCloseTo(1);
+
+      expect(
+        generateFeatures([square], {
+          type: "triangle",
+          cellSize: 0.25,
+          units: "degrees",
+          clip: false,
+        }).unsafeCoerce()
+      ).toHaveLength(32);
+    });
+
+    it("hexagon grids cover the extent", () => {
+      const hexagons = generateFeatures([square], {
+        type: "hexagon",
+        cellSize: 0.25,
+        units: "degrees",
+        clip: false,
+      }).unsafeCoerce();
+      expect(hexagons.length).toBeGreaterThan(4);
+      expect(getIssues(JSON.stringify(hexagons[0]))).toEqual([]);
+      const [west, south, east, north] = getExtent(hexagons).unsafeCoerce();
+      expect(west).toBeLessThanOrEqual(0);
+      expect(south).toBeLessThanOrEqual(0);
+      expect(east).toBeGreaterThanOrEqual(1);
+      expect(north).toBeGreaterThanOrEqual(1);
+    });
+
+    it("clips grids to polygons", () => {
+      const triangle: Feature = {
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [0, 0],
+              [1, 0],
+              [0, 1],
+              [0, 0],
+            ],
+          ],
+        },
+      };
+      const cells = generateFeatures([triangle], {
+        type: "square",
+        cellSize: 0.5,
+        units: "degrees",
+        clip: true,
+      }).unsafeCoerce();
+      expect(cells).toHaveLength(3);
+      expect(getExtent(cells).unsafeCoerce()).toEqual([0, 0, 1, 1]);
+      expect(
+        generateFeatures([points[0]], {
+          type: "square",
+          cellSize: 0.5,
+          units: "degrees",
+          clip: true,
+        })
+      ).toBeLeft();
+    });
+
+    it("limits the number of cells", () => {
+      expect(
+        generateFeatures([square], {
+          type: "square",
+          cellSize: 1,
+          units: "meters",
+          clip: false,
+        })
+      ).toBeLeft();
+      expect(
+        generateFeatures([square], {
+          type: "square",
+          cellSize: 0,
+          units: "meters",
+          clip: false,
+        })
+      ).toBeLeft();
+    });
+
+    it("delaunay", () => {
+      expect(
+        delaunay([
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1.1],
+        ])
+      ).toHaveLength(2);
+      expect(
+        delaunay([
+          [0, 0],
+          [1, 0],
+          [2, 0],
+        ])
+      ).toEqual([]);
+
+      const triangles = generateFeatures(points, {
+        type: "delaunay",
+      }).unsafeCoerce();
+      expect(triangles).toHaveLength(4);
+      for (const triangle of triangles) {
+        expect(getIssues(JSON.stringify(triangle))).toEqual([]);
+      }
+    });
+
+    it("voronoi polygons keep point properties", () => {
+      const cells = generateFeatures(points, {
+        type: "voronoi",
+      }).unsafeCoerce();
+      expect(cells.map((cell) => cell.properties)).toEqual(
+        points.map((point) => point.properties)
+      );
+      for (const cell of cells) {
+        expect(getIssues(JSON.stringify(cell))).toEqual([]);
+      }
+      // Each point is inside its own cell.
+      const [west, south, east, north] = getExtent(cells[4]).unsafeCoerce();
+      expect(west).toBeLessThan(0.4);
+      expect(east).toBeGreaterThan(0.4);
+      expect(south).toBeLessThan(0.6);
+      expect(north).toBeGreaterThan(0.6);
+
+      expect(
+        generateFeatures([point(0, 0, "a"), point(1, 0, "b")], {
+          type: "voronoi",
+        }).unsafeCoerce()
+      ).toHaveLength(2);
+      expect(
+        generateFeatures([point(0, 0, "a")], { type: "voronoi" })
+      ).toBeLeft();
+    });
+  });
+
+  describe("clipFeatures", () => {
+    const boundary: Feature = {
+      type: "Feature",
+      properties: { name: "county" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [0, 10],
+            [0, 0],
+          ],
+        ],
+      },
+    };
+    const parcel: Feature = {
+      type: "Feature",
+      properties: { owner: "a" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [5, 5],
+            [15, 5],
+            [15, 15],
+            [5, 15],
+            [5, 5],
+          ],
+        ],
+      },
+    };
+    const road: Feature = {
+      type: "Feature",
+      properties: { name: "Main St" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [-5, 5],
+          [5, 5],
+          [15, 5],
+        ],
+      },
+    };
+    const points: Feature = {
+      type: "Feature",
+      properties: {},
+      geometry: {
+        type: "MultiPoint",
+        coordinates: [
+          [1, 1],
+          [20, 20],
+        ],
+      },
+    };
+    const faraway: Feature = {
+      type: "Feature",
+      properties: {},
+      geometry: { type: "Point", coordinates: [50, 50] },
+    };
+
+    it("clips to the boundary", () => {
+      const [clippedParcel, clippedRoad, clippedPoints, dropped] = clipFeatures(
+        boundary,
+        [parcel, road, points, faraway],
+        { mode: "clip" }
+      ).unsafeCoerce();
+      expect(clippedParcel).toMatchObject({
+        type: "clipped",
+        feature: { properties: { owner: "a" } },
+      });
+      expect(
+        clippedParcel.type === "clipped" &&
+          getExtent(clippedParcel.feature).extract()
+      ).toEqual([5, 5, 10, 10]);
+      expect(clippedRoad).toEqual({
+        type: "clipped",
+        feature: {
+          ...road,
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [0, 5],
+              [5, 5],
+              [10, 5],
+            ],
+          },
+        },
+      });
+      expect(clippedPoints).toEqual({
+        type: "clipped",
+        feature: {
+          ...points,
+          geometry: { type: "Point", coordinates: [1, 1] },
+        },
+      });
+      expect(dropped).toEqual({ type: "empty" });
+    });
+
+    it("erases the boundary", () => {
+      const [erasedParcel, erasedRoad, erasedPoints, kept] = clipFeatures(
+        boundary,
+        [parcel, road, points, faraway],
+        { mode: "erase" }
+      ).unsafeCoerce();
+      expect(
+        erasedParcel.type === "clipped" &&
+          getExtent(erasedParcel.feature).extract()
+      ).toEqual([5, 5, 15, 15]);
+      expect(erasedRoad).toMatchObject({
+        type: "clipped",
+        feature: {
+          geometry: {
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [-5, 5],
+                [0, 5],
+              ],
+              [
+                [10, 5],
+                [15, 5],
+              ],
+            ],
+          },
+        },
+      });
+      expect(erasedPoints).toMatchObject({
+        type: "clipped",
+        feature: { geometry: { type: "Point", coordinates: [20, 20] } },
+      });
+      expect(kept).toEqual({ type: "clipped", feature: faraway });
+    });
+
+    it("reports failures per feature", () => {
+      const [broken, clipped] = clipFeatures(
+        boundary,
+        [
+          {
+            type: "Feature",
+            properties: {},
+            geometry: {
+              type: "Polygon",
+              coordinates: [[[1, 1], [2]]],
+            },
+          },
+          points,
+        ],
+        { mode: "clip" }
+      ).unsafeCoerce();
+      expect(broken).toHaveProperty("type", "failed");
+      expect(clipped).toHaveProperty("type", "clipped");
+    });
+
+    it("requires a polygon boundary", () => {
+      expect(clipFeatures(road, [parcel], { mode: "clip" })).toBeLeft();
+    });
+  });
+
+  describe("transformFeatures", () => {
+    function point(coordinates: Pos2, properties = {}): IWrappedFeature {
+      return {
+        ...wrap(fc)[0],
+        feature: {
+          type: "Feature",
+          properties,
+          geometry: { type: "Point", coordinates },
+        },
+      };
+    }
+
+    function coordinates(wrappedFeatures: IWrappedFeature[]) {
+      return wrappedFeatures.map(
+        (f) => (f.feature.geometry as Point).coordinates
+      );
+    }
+
+    it("moves east and north by meters", () => {
+      const [[x, y]] = coordinates(
+        transformFeatures([point([0, 0])], {
+          type: "offset",
+          dx: 0,
+          dy: 111195.08,
+        })
+      );
+      expect(x).toBeCloseTo(0, 6);
+      expect(y).toBeCloseTo(1, 4);
+    });
+
+    it("moves by distance and bearing", () => {
+      const [[x, y]] = coordinates(
+        transformFeatures([point([10, 60])], {
+          type: "translate",
+          distance: 100,
+          bearing: 90,
+          units: "kilometers",
+        })
+      );
+      // A degree of longitude is half as long at 60°
+      expect(x).toBeCloseTo(10 + 100 / 111.19508 / 0.5, 4);
+      expect(y).toBeCloseTo(60, 6);
+    });
+
+    it("rotates clockwise around a point", () => {
+      const [[x, y]] = coordinates(
+        transformFeatures([point([1, 0])], {
+          type: "rotate",
+          angle: 90,
+          origin: [0, 0],
+        })
+      );
+      expect(x).toBeCloseTo(0, 6);
+      expect(y).toBeCloseTo(-1, 6);
+    });
+
+    it("scales around the centroid", () => {
+      expect(
+        coordinates(
+          transformFeatures([point([0, 0]), point([0, 0]), point([3, 3])], {
+            type: "scale",
+            factor: 2,
+            origin: null,
+          })
+        )
+      ).toEqual([
+        [-1, -1],
+        [-1, -1],
+        [5, 5],
+      ]);
+    });
+
+    it("moves the center of circles", () => {
+      const [moved] = transformFeatures(
+        [
+          point([0, 0], {
+            "@circle": { type: "Degrees", center: [0, 0] },
+          }),
+        ],
+        { type: "scale", factor: 2, origin: [1, 1] }
+      );
+      expect(moved.feature.properties).toEqual({
+        "@circle": { type: "Degrees", center: [-1, -1] },
+      });
+    });
+  });
+
+  describe("repairGeometry", () => {
+    const bowtie: Polygon = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [2, 2],
+          [2, 0],
+          [0, 2],
+          [0, 0],
+        ],
+      ],
+    };
+
+    it("make-valid", () => {
+      const repaired = repairGeometry(bowtie, "make-valid");
+      expect(repaired).toHaveProperty("type", "MultiPolygon");
+      expect(
+        getIssues(
+          JSON.stringify({
+            type: "Feature",
+            properties: {},
+            geometry: repaired,
+          })
+        )
+      ).toEqual([]);
+      expect(
+        validateFeatures([
+          {
+            ...wrap(fcLineString)[0],
+            feature: { type: "Feature", properties: {}, geometry: repaired },
+          },
+        ])
+      ).toEqual([]);
+    });
+
+    it("remove-duplicate-vertices", () => {
+      expect(
+        repairGeometry(
+          {
+            type: "LineString",
+            coordinates: [
+              [0, 0],
+              [0, 0],
+              [1, 1],
+            ],
+          },
+          "remove-duplicate-vertices"
+        )
+      ).toEqual({
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      });
+      expect(
+        repairGeometry(
+          {
+            type: "Polygon",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 1],
+                [1, 1],
+                [0, 0],
+              ],
+            ],
+          },
+          "remove-duplicate-vertices"
+        )
+      ).toHaveProperty("type", "LineString");
+    });
+
+    it("fix-winding", () => {
+      expect(
+        repairGeometry(
+          {
+            type: "Polygon",
+            coordinates: [
+              [
+                [0, 0],
+                [0, 1],
+                [1, 1],
+                [0, 0],
+              ],
+            ],
+          },
+          "fix-winding"
+        )
+      ).toEqual({
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+            [0, 1],
+            [0, 0],
+          ],
+        ],
+      });
+    });
+
+    it("drop-degenerates", () => {
+      expect(
+        repairGeometry(
+          { type: "LineString", coordinates: [[0, 0]] },
+          "drop-degenerates"
+        )
+      ).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import type { Feature, Geometry, IWrappedFeature, Position } from "types";
+import centroid from "@turf/centroid";
+import { lengthToDegrees } from "@turf/helpers";
+import type { AllGeoJSON, Units } from "@turf/helpers";
+import { CircleProp } from "app/lib/circle";
+
+/**
+ * Translations are given as a distance and bearing, offsets
+ * in meters east and north, and rotations in degrees clockwise.
+ * Rotating and scaling happen around the centroid of the
+ * features unless there's an origin.
+ */
+export type TransformOptions =
+  | { type: "translate"; distance: number; bearing: number; units: Units }
+  | { type: "offset"; dx: number; dy: number }
+  | { type: "rotate"; angle: number; origin: Pos2 | null }
+  | { type: "scale"; factor: number; origin: Pos2 | null };
+
+const D2R = Math.PI / 180;
+
+export function getTransformCenter(wrappedFeatures: IWrappedFeature[]) {
+  const features = wrappedFeatures
+    .map((f) => f.feature)
+    .filter((f) => f.geometry);
+  if (!features.length) return null;
+  return centroid({
+    type: "FeatureCollection",
+    features,
+  } as AllGeoJSON).geometry.coordinates as Pos2;
+}
+
+/**
+ * Get a function that transforms a single position. Everything
+ * happens in a flat frame around the origin, where a degree of
+ * longitude is shrunk to its length at the origin's latitude,
+ * so that shapes keep their proportions away from the equator.
+ */
+function getTransform(
+  options: TransformOptions,
+  origin: Pos2
+): (position: Position) => Position {
+  const scaleX = Math.cos(origin[1] * D2R) || 1;
+
+  switch (options.type) {
+    case "translate":
+    case "offset": {
+      const [east, north] =
+        options.type === "translate"
+          ? [
+              options.distance * Math.sin(options.bearing * D2R),
+              options.distance * Math.cos(options.bearing * D2R),
+            ]
+          : [options.dx, options.dy];
+      const units = options.type === "translate" ? options.units : "meters";
+      const dx = lengthToDegrees(east, units) / scaleX;
+      const dy = lengthToDegrees(north, units);
+      return ([x, y, ...rest]) => [x + dx, y + dy, ...rest];
+    }
+    case "rotate": {
+      const sin = Math.sin(-options.angle * D2R);
+      const cos = Math.cos(-options.angle * D2R);
+      return ([x, y, ...rest]) => {
+        const lx = (x - origin[0]) * scaleX;
+        const ly = y - origin[1];
+        return [
+          origin[0] + (lx * cos - ly * sin) / scaleX,
+          origin[1] + lx * sin + ly * cos,
+          ...rest,
+        ];
+      };
+    }
+    case "scale": {
+      const { factor } = options;
+      return ([x, y, ...rest]) => [
+        origin[0] + (x - origin[0]) * factor,
+        origin[1] + (y - origin[1]) * factor,
+        ...rest,
+      ];
+    }
+  }
+}
+
+function transformGeometry(
+  geometry: Geometry,
+  fn: (position: Position) => Position
+): Geometry {
+  switch (geometry.type) {
+    case "Point": {
+      return { ...geometry, coordinates: fn(geometry.coordinates) };
+    }
+    case "MultiPoint":
+    case "LineString": {
+      return { ...geometry, coordinates: geometry.coordinates.map(fn) };
+    }
+    case "MultiLineString":
+    case "Polygon": {
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((line) => line.map(fn)),
+      };
+    }
+    case "MultiPolygon": {
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(fn))
+        ),
+      };
+    }
+    case "GeometryCollection": {
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((geometry) =>
+          transformGeometry(geometry, fn)
+        ),
+      };
+    }
+  }
+}
+
+function transformFeature(
+  feature: Feature,
+  fn: (position: Position) => Position
+): Feature {
+  if (!feature.geometry) return feature;
+  const geometry = transformGeometry(feature.geometry, fn);
+
+  // Circles keep their center alongside the geometry,
+  // and their radius is measured from the first vertex,
+  // so moving both keeps them editable as circles.
+  const prop = CircleProp.safeParse(feature.properties);
+  if (prop.success) {
+    const circle = prop.data["@circle"];
+    return {
+      ...feature,
+      properties: {
+        ...feature.properties,
+        "@circle": {
+          ...circle,
+          center: fn(circle.center) as Pos2,
+        },
+      },
+      geometry,
+    };
+  }
+
+  return { ...feature, geometry };
+}
+
+/**
+ * Translate, rotate or scale features by exact amounts.
+ */
+export function transformFeatures(
+  wrappedFeatures: IWrappedFeature[],
+  options: TransformOptions
+): IWrappedFeature[] {
+  const origin =
+    (options.type === "rotate" || options.type === "scale"
+      ? options.origin
+      : null) || getTransformCenter(wrappedFeatures);
+  if (!origin) return wrappedFeatures;
+  const fn = getTransform(options, origin);
+  return wrappedFeatures.map((wrappedFeature) => ({
+    ...wrappedFeature,
+    feature: transformFeature(wrappedFeature.feature, fn),
+  }));
+}
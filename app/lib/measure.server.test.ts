@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { measure, measurementToGeometry } from "./measure";
+import type { EphemeralEditingStateMeasure } from "state/jotai";
+
+const units = { lengthUnits: "kilometers", areaUnits: "kilometers" } as const;
+
+function state(
+  partial: Partial<EphemeralEditingStateMeasure>
+): EphemeralEditingStateMeasure {
+  return {
+    type: "measure",
+    positions: [],
+    cursor: null,
+    closed: false,
+    snap: null,
+    ...partial,
+  };
+}
+
+describe("measure", () => {
+  it("measures segments to the cursor", () => {
+    const { segment, total, area } = measure(
+      state({
+        positions: [
+          [0, 0],
+          [1, 0],
+        ],
+        cursor: [2, 0],
+      }),
+      units
+    );
+    expect(segment).toBeCloseTo(111.195, 2);
+    expect(total).toBeCloseTo(222.39, 1);
+    expect(area).toBeNull();
+  });
+
+  it("measures the area of a closed shape", () => {
+    const { segment, total, area } = measure(
+      state({
+        positions: [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 1],
+        ],
+        closed: true,
+      }),
+      units
+    );
+    expect(segment).toBeNull();
+    expect(total).toBeCloseTo(444.76, 0);
+    expect(area).toBeCloseTo(12391.4, 0);
+  });
+});
+
+describe("measurementToGeometry", () => {
+  it("lines and polygons", () => {
+    expect(
+      measurementToGeometry(
+        state({
+          positions: [
+            [0, 0],
+            [1, 0],
+          ],
+          cursor: [2, 0],
+        })
+      )
+    ).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [1, 0],
+      ],
+    });
+    expect(
+      measurementToGeometry(
+        state({
+          positions: [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+          ],
+          closed: true,
+        })
+      )
+    ).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    });
+    expect(measurementToGeometry(state({ positions: [[0, 0]] }))).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import measureArea from "@turf/area";
+import measureLength from "@turf/length";
+import { convertArea } from "@turf/helpers";
+import type { Units } from "@turf/helpers";
+import type { IFeature, LineString, Polygon } from "types";
+import type { EphemeralEditingStateMeasure } from "state/jotai";
+
+export interface Measurement {
+  /** The segment that is being drawn, to the cursor */
+  segment: number | null;
+  /** Every segment, including the one being drawn */
+  total: number;
+  /** If the shape is closed */
+  area: number | null;
+}
+
+function lineLength(coordinates: Pos2[], lengthUnits: Units) {
+  if (coordinates.length < 2) return 0;
+  return measureLength(
+    {
+      type: "Feature",
+      properties: {},
+      geometry: { type: "LineString", coordinates },
+    } as IFeature<LineString>,
+    { units: lengthUnits }
+  );
+}
+
+/**
+ * The positions of a measurement, optionally including
+ * where the cursor is while it is still being drawn.
+ */
+function measuredPositions(
+  state: EphemeralEditingStateMeasure,
+  includeCursor: boolean
+): Pos2[] {
+  const { positions, cursor, closed } = state;
+  if (closed) return positions.concat([positions[0]]);
+  return cursor && includeCursor ? positions.concat([cursor]) : positions;
+}
+
+/**
+ * Geodesic lengths and areas of a measurement,
+ * in the user's units.
+ */
+export function measure(
+  state: EphemeralEditingStateMeasure,
+  { lengthUnits, areaUnits }: { lengthUnits: Units; areaUnits: Units }
+): Measurement {
+  const positions = measuredPositions(state, true);
+  return {
+    segment:
+      state.cursor && !state.closed && state.positions.length
+        ? lineLength([state.positions.at(-1)!, state.cursor], lengthUnits)
+        : null,
+    total: lineLength(positions, lengthUnits),
+    area:
+      state.closed && positions.length >= 4
+        ? convertArea(
+            measureArea({ type: "Polygon", coordinates: [positions] }),
+            "meters",
+            areaUnits
+          )
+        : null,
+  };
+}
+
+/**
+ * The shape that was measured, to save it as a feature:
+ * a polygon if it was closed, otherwise a line.
+ */
+export function measurementToGeometry(
+  state: EphemeralEditingStateMeasure
+): LineString | Polygon | null {
+  const positions = measuredPositions(state, false);
+  if (state.closed) {
+    return positions.length >= 4
+      ? { type: "Polygon", coordinates: [positions] }
+      : null;
+  }
+  return positions.length >= 2
+    ? { type: "LineString", coordinates: positions }
+    : null;
+}
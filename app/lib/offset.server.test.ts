@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+
+import { offsetFeature, offsetPath } from "./offset";
+import type { Feature, LineString } from "types";
+
+const corner: Pos2[] = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+];
+
+function round(positions: Pos2[]) {
+  return positions.map(([x, y]) => [+x.toFixed(6), +y.toFixed(6)]);
+}
+
+describe("offsetPath", () => {
+  it("cuts corners on the inside of turns", () => {
+    expect(round(offsetPath(corner, 1, "round", false))).toEqual([
+      [0, 1],
+      [9, 1],
+      [9, 10],
+    ]);
+  });
+
+  it("joins corners on the outside of turns", () => {
+    expect(round(offsetPath(corner, -1, "mitre", false))).toEqual([
+      [0, -1],
+      [11, -1],
+      [11, 10],
+    ]);
+    expect(round(offsetPath(corner, -1, "bevel", false))).toEqual([
+      [0, -1],
+      [10, -1],
+      [11, 0],
+      [11, 10],
+    ]);
+    const rounded = offsetPath(corner, -1, "round", false);
+    expect(rounded).toHaveLength(2 + 9);
+    for (const [x, y] of rounded.slice(1, -1)) {
+      expect(Math.hypot(x - 10, y)).toBeCloseTo(1, 6);
+    }
+  });
+
+  it("offsets rings", () => {
+    expect(
+      round(
+        offsetPath(
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [0, 10],
+            [0, 0],
+          ],
+          -1,
+          "mitre",
+          true
+        )
+      )
+    ).toEqual([
+      [-1, -1],
+      [11, -1],
+      [11, 11],
+      [-1, 11],
+      [-1, -1],
+    ]);
+  });
+
+  it("skips lines that are too short", () => {
+    expect(
+      offsetPath(
+        [
+          [0, 0],
+          [0, 0],
+        ],
+        1,
+        "round",
+        false
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("offsetFeature", () => {
+  const line: Feature = {
+    type: "Feature",
+    properties: { name: "Main St" },
+    geometry: {
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [0.01, 0],
+      ],
+    },
+  };
+
+  it("offsets to the left of lines", () => {
+    const offset = offsetFeature(line, {
+      distance: 10,
+      units: "meters",
+      join: "round",
+    })!;
+    expect(offset.properties).toEqual({ name: "Main St" });
+    const [[x, y]] = (offset.geometry as LineString).coordinates;
+    expect(x).toBeCloseTo(0, 6);
+    expect(y).toBeCloseTo(10 / 111195, 6);
+  });
+
+  it("offsets polygons outward", () => {
+    const offset = offsetFeature(
+      {
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [0, 0],
+              [0.01, 0],
+              [0.01, 0.01],
+              [0, 0.01],
+              [0, 0],
+            ],
+          ],
+        },
+      },
+      { distance: 10, units: "meters", join: "mitre" }
+    )!;
+    const [[x, y]] = (offset.geometry as LineString).coordinates;
+    expect(x).toBeLessThan(0);
+    expect(y).toBeLessThan(0);
+  });
+
+  it("skips points", () => {
+    expect(
+      offsetFeature(
+        {
+          type: "Feature",
+          properties: {},
+          geometry: { type: "Point", coordinates: [0, 0] },
+        },
+        { distance: 10, units: "meters", join: "round" }
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+import type { Units } from "@turf/helpers";
+import { radiansToLength, lengthToRadians } from "@turf/helpers";
+import type { GeoProjection } from "d3-geo";
+import type { Feature, Geometry, Position } from "types";
+import { defineProjection } from "app/lib/buffer";
+
+export const JOIN_STYLES = ["round", "mitre", "bevel"] as const;
+export type JoinStyle = (typeof JOIN_STYLES)[number];
+
+/**
+ * Positive distances offset lines to their left, and
+ * polygon rings away from the inside of the polygon.
+ */
+export interface OffsetOptions {
+  distance: number;
+  units: Units;
+  join: JoinStyle;
+}
+
+/**
+ * Mitred corners longer than this many times the
+ * distance are beveled instead, like in JTS.
+ */
+const MITRE_LIMIT = 5;
+
+/**
+ * How many segments approximate a quarter
+ * circle in round joins.
+ */
+const QUADRANT_SEGMENTS = 8;
+
+function sub(a: Pos2, b: Pos2): Pos2 {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+function add(a: Pos2, b: Pos2): Pos2 {
+  return [a[0] + b[0], a[1] + b[1]];
+}
+
+function scale(a: Pos2, n: number): Pos2 {
+  return [a[0] * n, a[1] * n];
+}
+
+function cross(a: Pos2, b: Pos2) {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+function unit(a: Pos2): Pos2 {
+  const length = Math.hypot(a[0], a[1]);
+  return [a[0] / length, a[1] / length];
+}
+
+function leftNormal([x, y]: Pos2): Pos2 {
+  return [-y, x];
+}
+
+function angle([x, y]: Pos2) {
+  return Math.atan2(y, x);
+}
+
+/**
+ * Twice the signed area of a ring: positive
+ * if it winds counterclockwise.
+ */
+function ringArea(ring: Pos2[]) {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    area += cross(ring[i], ring[(i + 1) % ring.length]);
+  }
+  return area;
+}
+
+function dedupe(points: Pos2[]) {
+  return points.filter(
+    (point, i) =>
+      i === 0 || point[0] !== points[i - 1][0] || point[1] !== points[i - 1][1]
+  );
+}
+
+/**
+ * The corner where two offset segments meet at a vertex,
+ * given the directions of the segments on either side of it.
+ */
+function joinCorner(
+  vertex: Pos2,
+  before: Pos2,
+  after: Pos2,
+  distance: number,
+  join: JoinStyle
+): Pos2[] {
+  const end = add(vertex, scale(leftNormal(before), distance));
+  const start = add(vertex, scale(leftNormal(after), distance));
+  const turn = cross(before, after);
+
+  // Nearly straight: the offset segments already meet.
+  if (Math.abs(turn) < 1e-12) return [end];
+
+  const t = cross(sub(start, end), after) / turn;
+  const mitre = add(end, scale(before, t));
+
+  // On the inside of a turn the offset segments
+  // cross, so they're cut where they meet.
+  if (turn * distance > 0) return [mitre];
+
+  switch (join) {
+    case "mitre": {
+      const length = Math.hypot(...sub(mitre, vertex));
+      return length <= MITRE_LIMIT * Math.abs(distance)
+        ? [mitre]
+        : [end, start];
+    }
+    case "bevel": {
+      return [end, start];
+    }
+    case "round": {
+      const a1 = angle(sub(end, vertex));
+      let sweep = angle(sub(start, vertex)) - a1;
+      if (sweep > Math.PI) sweep -= 2 * Math.PI;
+      if (sweep < -Math.PI) sweep += 2 * Math.PI;
+      const steps = Math.max(
+        1,
+        Math.ceil(Math.abs(sweep) / (Math.PI / 2 / QUADRANT_SEGMENTS))
+      );
+      const radius = Math.abs(distance);
+      const arc: Pos2[] = [];
+      for (let i = 0; i <= steps; i++) {
+        const a = a1 + (sweep * i) / steps;
+        arc.push([
+          vertex[0] + radius * Math.cos(a),
+          vertex[1] + radius * Math.sin(a),
+        ]);
+      }
+      return arc;
+    }
+  }
+}
+
+/**
+ * Offset a path in a flat coordinate system. Closed paths
+ * are rings, without the repeated last position.
+ */
+export function offsetPath(
+  path: Pos2[],
+  distance: number,
+  join: JoinStyle,
+  closed: boolean
+): Pos2[] {
+  const points = dedupe(path);
+  if (closed && points.length > 1) {
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (first[0] === last[0] && first[1] === last[1]) points.pop();
+  }
+  if (points.length < (closed ? 3 : 2)) return [];
+
+  const count = closed ? points.length : points.length - 1;
+  const directions: Pos2[] = [];
+  for (let i = 0; i < count; i++) {
+    directions.push(unit(sub(points[(i + 1) % points.length], points[i])));
+  }
+
+  const result: Pos2[] = [];
+  if (closed) {
+    for (let i = 0; i < points.length; i++) {
+      result.push(
+        ...joinCorner(
+          points[i],
+          directions[(i - 1 + count) % count],
+          directions[i],
+          distance,
+          join
+        )
+      );
+    }
+    result.push(result[0]);
+  } else {
+    result.push(add(points[0], scale(leftNormal(directions[0]), distance)));
+    for (let i = 1; i < points.length - 1; i++) {
+      result.push(
+        ...joinCorner(
+          points[i],
+          directions[i - 1],
+          directions[i],
+          distance,
+          join
+        )
+      );
+    }
+    result.push(
+      add(
+        points[points.length - 1],
+        scale(leftNormal(directions[count - 1]), distance)
+      )
+    );
+  }
+  return result;
+}
+
+function offsetGeometry(
+  geometry: Geometry,
+  distance: number,
+  join: JoinStyle,
+  projection: GeoProjection
+): Position[][] {
+  // Projected y grows downward, so it's flipped to keep
+  // left and counterclockwise the same as on the map.
+  const project = (positions: Position[]) =>
+    positions.map((position) => {
+      const [x, y] = projection(position as Pos2)!;
+      return [x, -y] as Pos2;
+    });
+  const unproject = (positions: Pos2[]) =>
+    positions.map(([x, y]) => projection.invert!([x, -y]) as Position);
+
+  switch (geometry.type) {
+    case "LineString":
+    case "MultiLineString": {
+      const lines =
+        geometry.type === "LineString"
+          ? [geometry.coordinates]
+          : geometry.coordinates;
+      return lines
+        .map((line) => offsetPath(project(line), distance, join, false))
+        .filter((line) => line.length)
+        .map(unproject);
+    }
+    case "Polygon":
+    case "MultiPolygon": {
+      const polygons =
+        geometry.type === "Polygon"
+          ? [geometry.coordinates]
+          : geometry.coordinates;
+      return polygons.flatMap((polygon) =>
+        polygon
+          .map((ring, i) => {
+            // The left of a counterclockwise ring is its inside,
+            // which is outside of the polygon for holes.
+            const projected = project(ring);
+            const inside = ringArea(projected) > 0 ? 1 : -1;
+            const sign = i === 0 ? -inside : inside;
+            return offsetPath(projected, sign * distance, join, true);
+          })
+          .filter((ring) => ring.length)
+          .map(unproject)
+      );
+    }
+    case "GeometryCollection": {
+      return geometry.geometries.flatMap((geometry) =>
+        offsetGeometry(geometry, distance, join, projection)
+      );
+    }
+    default: {
+      return [];
+    }
+  }
+}
+
+/**
+ * Draw lines parallel to lines and polygon rings, at a
+ * distance measured around the center of the feature. Returns
+ * null for features without lines or rings to offset.
+ */
+export function offsetFeature(
+  feature: Feature,
+  options: OffsetOptions
+): Feature | null {
+  if (!feature.geometry) return null;
+  const distance = radiansToLength(
+    lengthToRadians(options.distance, options.units),
+    "meters"
+  );
+  const lines = offsetGeometry(
+    feature.geometry,
+    distance,
+    options.join,
+    defineProjection(feature.geometry)
+  );
+  if (!lines.length) return null;
+  return {
+    ...feature,
+    geometry:
+      lines.length === 1
+        ? { type: "LineString", coordinates: lines[0] }
+        : { type: "MultiLineString", coordinates: lines },
+  };
+}
@@ -1,10 +1,16 @@
 import mapboxgl from "mapbox-gl";
 import loadAndAugmentStyle, {
   FEATURES_SOURCE_NAME,
+  FEATURES_CLUSTER_SOURCE_NAME,
   EPHEMERAL_SOURCE_NAME,
 } from "app/lib/load_and_augment_style";
 import type {
   EphemeralEditingState,
+  EphemeralEditingStateFreehand,
+  EphemeralEditingStateMeasure,
+  EphemeralEditingStateSnap,
+  EphemeralEditingStateTransform,
+  EphemeralEditingStateHistory,
   Sel,
   Data,
   PreviewProperty,
@@ -15,10 +21,17 @@ import {
   emptySelection,
   LASSO_YELLOW,
   LASSO_DARK_YELLOW,
+  HISTORY_BLUE,
+  HISTORY_DARK_BLUE,
   LINE_COLORS_SELECTED_RGB,
   WHITE,
   DECK_SYNTHETIC_ID,
   DECK_LASSO_ID,
+  DECK_SNAP_ID,
+  DECK_MEASURE_ID,
+  DECK_FREEHAND_ID,
+  DECK_TRANSFORM_ID,
+  DECK_HISTORY_ID,
 } from "app/lib/constants";
 import { splitFeatureGroups } from "app/lib/pmap/split_feature_groups";
 import type {
@@ -28,6 +41,7 @@ import type {
   ISymbolization,
   LayerConfigMap,
   IFeature,
+  Geometry,
   Point,
 } from "types";
 import { makeRectangle } from "app/lib/pmap/merge_ephemeral_state";
@@ -36,7 +50,12 @@ import type { Presence } from "@prisma/client";
 import { IDMap } from "app/lib/id_mapper";
 import { shallowArrayEqual } from "app/lib/utils";
 import { MapboxOverlay } from "@deck.gl/mapbox/typed";
-import { PolygonLayer, ScatterplotLayer } from "@deck.gl/layers/typed";
+import {
+  GeoJsonLayer,
+  PathLayer,
+  PolygonLayer,
+  ScatterplotLayer,
+} from "@deck.gl/layers/typed";
 
 const MAP_OPTIONS: Omit<mapboxgl.MapboxOptions, "container"> = {
   style: { version: 8, layers: [], sources: {} },
@@ -46,6 +65,133 @@ const MAP_OPTIONS: Omit<mapboxgl.MapboxOptions, "container"> = {
   fadeDuration: 0,
 };
 
+/**
+ * The path being drawn freehand, closed if it will
+ * become a polygon.
+ */
+function freehandLayer({ positions, closed }: EphemeralEditingStateFreehand) {
+  return new PathLayer<Pos2[]>({
+    id: DECK_FREEHAND_ID,
+    data: [closed ? positions.concat([positions[0]]) : positions],
+    pickable: false,
+    widthUnits: "pixels",
+    getPath: (d) => d,
+    getColor: LINE_COLORS_SELECTED_RGB,
+    getWidth: 2,
+  });
+}
+
+/**
+ * Deck only draws features that have a geometry.
+ */
+function drawableFeatures(features: Feature[]) {
+  return features.filter((f): f is IFeature<Geometry> => !!f.geometry);
+}
+
+/**
+ * A preview of features being transformed
+ * by exact amounts, before they're saved.
+ */
+function transformLayer({ features }: EphemeralEditingStateTransform) {
+  return new GeoJsonLayer({
+    id: DECK_TRANSFORM_ID,
+    data: drawableFeatures(features),
+    pickable: false,
+    stroked: true,
+    filled: true,
+    pointType: "circle",
+    lineWidthUnits: "pixels",
+    pointRadiusUnits: "pixels",
+    getFillColor: LASSO_YELLOW,
+    getLineColor: LASSO_DARK_YELLOW,
+    getLineWidth: 2,
+    getPointRadius: 4,
+  });
+}
+
+/**
+ * A preview of the map at a past version,
+ * drawn over the current features.
+ */
+function historyLayer({ features }: EphemeralEditingStateHistory) {
+  return new GeoJsonLayer({
+    id: DECK_HISTORY_ID,
+    data: drawableFeatures(features),
+    pickable: false,
+    stroked: true,
+    filled: true,
+    pointType: "circle",
+    lineWidthUnits: "pixels",
+    pointRadiusUnits: "pixels",
+    getFillColor: HISTORY_BLUE,
+    getLineColor: HISTORY_DARK_BLUE,
+    getLineWidth: 2,
+    getPointRadius: 4,
+  });
+}
+
+/**
+ * A measurement is drawn as a path, or a polygon
+ * once it is closed, with its vertexes and snap target.
+ */
+function measureLayers(state: EphemeralEditingStateMeasure) {
+  const { positions, cursor, closed, snap } = state;
+  const path = cursor ? positions.concat([cursor]) : positions;
+  return [
+    closed
+      ? new PolygonLayer<Pos2[]>({
+          id: DECK_MEASURE_ID,
+          data: [positions],
+          pickable: false,
+          stroked: true,
+          filled: true,
+          lineWidthUnits: "pixels",
+          getPolygon: (d) => d,
+          getFillColor: LASSO_YELLOW,
+          getLineColor: LASSO_DARK_YELLOW,
+          getLineWidth: 2,
+        })
+      : new PathLayer<Pos2[]>({
+          id: DECK_MEASURE_ID,
+          data: [path],
+          pickable: false,
+          widthUnits: "pixels",
+          getPath: (d) => d,
+          getColor: LASSO_DARK_YELLOW,
+          getWidth: 2,
+        }),
+    new ScatterplotLayer<Pos2>({
+      id: `${DECK_MEASURE_ID}-vertexes`,
+      data: positions,
+      pickable: false,
+      stroked: true,
+      filled: true,
+      radiusUnits: "pixels",
+      lineWidthUnits: "pixels",
+      getPosition: (d) => d,
+      getFillColor: WHITE,
+      getLineColor: LASSO_DARK_YELLOW,
+      getLineWidth: 1.5,
+      getRadius: 4,
+    }),
+    snap &&
+      new ScatterplotLayer<EphemeralEditingStateSnap["snap"]>({
+        id: DECK_SNAP_ID,
+        data: [snap],
+        pickable: false,
+        stroked: true,
+        filled: snap.type === "vertex",
+        radiusUnits: "pixels",
+        lineWidthUnits: "pixels",
+        getPosition: (d) => d.position,
+        getFillColor: LASSO_DARK_YELLOW,
+        getLineColor: LASSO_DARK_YELLOW,
+        getLineWidth: 2,
+        getRadius: 6,
+      }),
+  ];
+}
+
 const cursorSvg = (color: string) => {
   const div = document.createElement("div");
   div.style.color = color;
@@ -332,6 +478,19 @@ export default class PMap {
     mSetData(ephemeralSource, groups.ephemeral, "ephem");
     mSetData(featuresSource, groups.features, "features", force);
 
+    // Only there when points are symbolized as clusters.
+    const clusterSource = this.map.getSource(FEATURES_CLUSTER_SOURCE_NAME) as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    if (clusterSource) {
+      mSetData(
+        clusterSource,
+        groups.features.filter((f) => f.geometry?.type === "Point"),
+        "cluster",
+        force
+      );
+    }
+
     this.overlay.setProps({
       layers: [
         new ScatterplotLayer<IFeature<Point>>({
@@ -380,6 +539,32 @@ export default class PMap {
             getLineColor: LASSO_DARK_YELLOW,
             getLineWidth: 1,
           }),
+
+        ephemeralState.type === "snap" &&
+          new ScatterplotLayer<EphemeralEditingStateSnap["snap"]>({
+            id: DECK_SNAP_ID,
+            data: [ephemeralState.snap],
+            pickable: false,
+            stroked: true,
+            filled: ephemeralState.snap.type === "vertex",
+            radiusUnits: "pixels",
+            lineWidthUnits: "pixels",
+            getPosition: (d) => d.position,
+            getFillColor: LASSO_DARK_YELLOW,
+            getLineColor: LASSO_DARK_YELLOW,
+            getLineWidth: 2,
+            getRadius: 6,
+          }),
+
+        ephemeralState.type === "freehand" && freehandLayer(ephemeralState),
+
+        ephemeralState.type === "transform" && transformLayer(ephemeralState),
+
+        ephemeralState.type === "history" && historyLayer(ephemeralState),
+
+        ...(ephemeralState.type === "measure"
+          ? measureLayers(ephemeralState)
+          : []),
       ],
     });
 
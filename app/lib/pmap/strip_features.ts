@@ -62,6 +62,13 @@ export function getKeepProperties({
       keepProperties.push(symbolization.property);
       break;
     }
+    case "heatmap": {
+      if (symbolization.weightProperty) {
+        keepProperties.push(symbolization.weightProperty);
+      }
+      break;
+    }
+    case "cluster":
     case "none":
     case undefined: {
       break;
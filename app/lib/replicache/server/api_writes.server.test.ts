@@ -0,0 +1,183 @@
+import { expect, vi, test } from "vitest";
+
+import { getRandomMockCtxAndUser, nanoid } from "test/shared";
+import db from "db";
+import { v1 } from "uuid";
+import { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
+import { getPokeBackend } from "pages/api/poke";
+import {
+  deleteApiFeature,
+  patchApiFeature,
+  putApiFeatures,
+} from "./api_writes";
+
+vi.mock("integrations/log", () => {
+  return {
+    logger: {
+      info: vi.fn(),
+      error: vi.fn(),
+      warn: vi.fn(),
+    },
+  };
+});
+
+const point = {
+  type: "Feature",
+  properties: { name: "A" },
+  geometry: { type: "Point", coordinates: [1, 2] },
+};
+
+async function setup() {
+  const { ctx } = await getRandomMockCtxAndUser();
+  const wrappedFeatureCollectionId = nanoid();
+  await db.wrappedFeatureCollection.create({
+    data: {
+      id: wrappedFeatureCollectionId,
+      name: "Foo",
+      organization: {
+        connect: {
+          id: ctx.session.orgId!,
+        },
+      },
+      createdBy: {
+        connect: {
+          id: ctx.session.userId!,
+        },
+      },
+    },
+  });
+  return {
+    wrappedFeatureCollectionId,
+    session: ctx.session as SimplifiedAuthenticatedSessionContext,
+  };
+}
+
+test("putApiFeatures", async () => {
+  const { wrappedFeatureCollectionId, session } = await setup();
+  const poke = vi.spyOn(getPokeBackend(), "poke");
+  const id = v1();
+
+  const created = (
+    await putApiFeatures({
+      wrappedFeatureCollectionId,
+      session,
+      features: [
+        point,
+        { ...point, properties: { ...point.properties, "@id": id } },
+      ],
+    })
+  ).unsafeCoerce();
+
+  expect(created).toHaveLength(2);
+  expect(created[1].id).toEqual(id);
+  expect(created[0].at < created[1].at).toBeTruthy();
+  expect(created[1].feature.properties).toEqual({ name: "A" });
+  expect(poke).toHaveBeenCalledWith(wrappedFeatureCollectionId);
+
+  const replaced = (
+    await putApiFeatures({
+      wrappedFeatureCollectionId,
+      session,
+      id,
+      features: [{ ...point, properties: { name: "B" } }],
+    })
+  ).unsafeCoerce();
+
+  expect(replaced[0].at).toEqual(created[1].at);
+  await expect(
+    db.wrappedFeature.count({ where: { wrappedFeatureCollectionId } })
+  ).resolves.toEqual(2);
+
+  await expect(
+    putApiFeatures({
+      wrappedFeatureCollectionId,
+      session,
+      features: [{ ...point, geometry: { type: "Point" } }],
+    })
+  ).resolves.toBeLeft();
+
+  await expect(
+    putApiFeatures({
+      wrappedFeatureCollectionId,
+      session,
+      features: [point],
+      folderId: v1(),
+    })
+  ).resolves.toBeLeft();
+});
+
+test("putApiFeatures with a feature from another map", async () => {
+  const other = await setup();
+  const [{ id }] = (
+    await putApiFeatures({
+      wrappedFeatureCollectionId: other.wrappedFeatureCollectionId,
+      session: other.session,
+      features: [point],
+    })
+  ).unsafeCoerce();
+  const { wrappedFeatureCollectionId, session } = await setup();
+
+  const copied = (
+    await putApiFeatures({
+      wrappedFeatureCollectionId,
+      session,
+      features: [{ ...point, properties: { name: "B", "@id": id } }],
+    })
+  ).unsafeCoerce();
+  expect(copied[0].id).not.toEqual(id);
+
+  const conflict = await putApiFeatures({
+    wrappedFeatureCollectionId,
+    session,
+    id,
+    features: [{ ...point, properties: { name: "B" } }],
+  });
+  expect(conflict.extract()).toHaveProperty("status", 409);
+
+  const original = await db.wrappedFeature.findUniqueOrThrow({
+    where: { id },
+  });
+  expect(original.wrappedFeatureCollectionId).toEqual(
+    other.wrappedFeatureCollectionId
+  );
+  expect(original.feature.properties).toEqual({ name: "A" });
+  await expect(
+    db.featureRevision.count({ where: { featureId: id } })
+  ).resolves.toEqual(0);
+});
+
+test("patchApiFeature and deleteApiFeature", async () => {
+  const { wrappedFeatureCollectionId, session } = await setup();
+  const [{ id }] = (
+    await putApiFeatures({
+      wrappedFeatureCollectionId,
+      session,
+      features: [{ ...point, properties: { name: "A", height: 1 } }],
+    })
+  ).unsafeCoerce();
+
+  const patched = (
+    await patchApiFeature({
+      wrappedFeatureCollectionId,
+      session,
+      id,
+      patch: { properties: { name: "B", height: null } },
+    })
+  ).unsafeCoerce();
+
+  expect(patched.feature.properties).toEqual({ name: "B" });
+  expect(patched.feature.geometry).toEqual(point.geometry);
+
+  await expect(
+    deleteApiFeature({ wrappedFeatureCollectionId, session, id })
+  ).resolves.toEqualRight(true);
+
+  await expect(
+    patchApiFeature({
+      wrappedFeatureCollectionId,
+      session,
+      id,
+      patch: {},
+    })
+  ).resolves.toBeLeft();
+});
@@ -0,0 +1,404 @@
+import type { PoolClient } from "pg";
+import * as Sentry from "@sentry/nextjs";
+import { generateNKeysBetween } from "fractional-indexing";
+import type { Either } from "purify-ts/Either";
+import { Left, Right } from "purify-ts/Either";
+import { z } from "zod";
+import type { JsonValue } from "type-fest";
+import { pool } from "integrations/pg";
+import { logger } from "integrations/log";
+import { getPokeBackend } from "pages/api/poke";
+import { ServerStorage } from "app/lib/replicache/server/storage";
+import type { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
+import { ApiError } from "app/lib/errors";
+import {
+  getFeatureChanges,
+  hasWebhooks,
+  sendWebhooks,
+} from "app/lib/webhooks_server";
+import { newFeatureId } from "app/lib/id";
+import { PLACEMARK_FOLDER_PROP, PLACEMARK_ID_PROP } from "app/lib/constants";
+import { WrappedFeatureWithoutAt } from "types";
+import type { Feature, IWrappedFeature } from "types";
+
+/**
+ * Writes from the API don't come from a Replicache client,
+ * but storage needs a client id.
+ */
+const API_CLIENT_ID = "api-v1";
+
+const uuid = z.string().uuid();
+
+export const ApiFeatureCollection = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(z.unknown()),
+});
+
+/**
+ * Geometries are replaced, and properties are merged
+ * into the existing ones. Null properties are removed.
+ */
+export const ApiFeaturePatch = z.object({
+  geometry: z.unknown().optional(),
+  properties: z.record(z.unknown()).nullable().optional(),
+});
+
+type ExistingFeature = Pick<
+  IWrappedFeature,
+  "id" | "at" | "folderId" | "feature"
+>;
+
+/**
+ * Run writes in a transaction with the next version, like
+ * replicache-push, so that clients pick them up when
+ * they're poked.
+ */
+export async function withServerStorage<T>(
+  wrappedFeatureCollectionId: string,
+  session: SimplifiedAuthenticatedSessionContext,
+  write: (storage: ServerStorage, client: PoolClient) => Promise<T>,
+  clientID = API_CLIENT_ID
+): Promise<Either<ApiError, T>> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const {
+      rows: [{ version }],
+    } = await client.query<{ version: number }>(
+      `INSERT INTO "ReplicacheVersionSingleton" (id, version) VALUES (0, 0) ON CONFLICT (id) DO UPDATE SET version = "ReplicacheVersionSingleton".version + 1 RETURNING version;`
+    );
+    const storage = new ServerStorage(client, version, session, clientID);
+    await storage.enforceFeatureCollection(wrappedFeatureCollectionId);
+    const result = await write(storage, client);
+    const featureChanges = (await hasWebhooks(
+      client,
+      wrappedFeatureCollectionId
+    ))
+      ? await getFeatureChanges(client, wrappedFeatureCollectionId, version)
+      : null;
+    await client.query("COMMIT");
+
+    if (featureChanges) {
+      void sendWebhooks(wrappedFeatureCollectionId, version, featureChanges);
+    }
+
+    try {
+      getPokeBackend().poke(wrappedFeatureCollectionId);
+    } catch (e) {
+      Sentry.captureException(e);
+    }
+
+    return Right(result);
+  } catch (e) {
+    await client.query("ROLLBACK");
+    if (e instanceof ApiError) return Left(e);
+    logger.error(e);
+    Sentry.captureException(e);
+    return Left(new ApiError("Failed to save changes", 500));
+  } finally {
+    client.release();
+  }
+}
+
+async function getExistingFeatures(
+  client: PoolClient,
+  ids: string[],
+  wrappedFeatureCollectionId: string
+): Promise<Map<string, ExistingFeature>> {
+  const { rows } = await client.query<ExistingFeature>(
+    `SELECT id, at, "folderId", feature FROM "WrappedFeature"
+    WHERE id = ANY ($1::uuid[]) AND "wrappedFeatureCollectionId" = $2 AND deleted = false`,
+    [ids, wrappedFeatureCollectionId]
+  );
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+/**
+ * Feature ids are unique across maps, so an id
+ * from another map can't be written to this one.
+ */
+async function getOtherMapFeatureIds(
+  client: PoolClient,
+  ids: string[],
+  wrappedFeatureCollectionId: string
+): Promise<Set<string>> {
+  if (!ids.length) return new Set();
+  const { rows } = await client.query<{ id: string }>(
+    `SELECT id FROM "WrappedFeature"
+    WHERE id = ANY ($1::uuid[]) AND "wrappedFeatureCollectionId" <> $2`,
+    [ids, wrappedFeatureCollectionId]
+  );
+  return new Set(rows.map((row) => row.id));
+}
+
+async function enforceFolders(
+  client: PoolClient,
+  folderIds: Set<string>,
+  wrappedFeatureCollectionId: string
+) {
+  if (!folderIds.size) return;
+  const { rows } = await client.query<{ id: string }>(
+    `SELECT id FROM "Folder"
+    WHERE id = ANY ($1::uuid[]) AND "wrappedFeatureCollectionId" = $2 AND deleted = false`,
+    [[...folderIds], wrappedFeatureCollectionId]
+  );
+  if (rows.length !== folderIds.size) {
+    throw new ApiError("Folder not found", 404);
+  }
+}
+
+/**
+ * New features go after the existing ones. The keys are
+ * compared bytewise, like fractional-indexing does.
+ */
+async function getLastAt(
+  client: PoolClient,
+  wrappedFeatureCollectionId: string
+): Promise<string | null> {
+  const { rows } = await client.query<{ at: string | null }>(
+    `SELECT MAX(at COLLATE "C") AS at FROM "WrappedFeature"
+    WHERE "wrappedFeatureCollectionId" = $1 AND deleted = false`,
+    [wrappedFeatureCollectionId]
+  );
+  return rows[0]?.at ?? null;
+}
+
+function validateFeature(
+  wrappedFeature: Omit<IWrappedFeature, "at">,
+  index?: number
+) {
+  const parsed = WrappedFeatureWithoutAt.safeParse(wrappedFeature);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const where = index === undefined ? "" : ` at index ${index}`;
+    throw new ApiError(
+      `Invalid feature${where}: ${issue.path.join(".")} ${issue.message}`
+    );
+  }
+}
+
+/**
+ * Features are GeoJSON. Their ids and folders can also be
+ * given in the properties that the read endpoints add, so
+ * that features can be read, changed, and written back.
+ */
+function getFeatureInput(
+  input: unknown,
+  options: { id?: string; folderId?: string | null }
+) {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return null;
+  }
+  const { id: featureId, ...feature } = input as Feature;
+  const {
+    [PLACEMARK_ID_PROP]: idProp,
+    [PLACEMARK_FOLDER_PROP]: folderProp,
+    ...properties
+  } = feature.properties || {};
+
+  const id =
+    options.id ||
+    [featureId, idProp].find((id) => uuid.safeParse(id).success) ||
+    null;
+  const folderId =
+    options.folderId !== undefined
+      ? options.folderId
+      : uuid.safeParse(folderProp).success
+      ? (folderProp as string)
+      : undefined;
+
+  return {
+    id: id as string | null,
+    folderId,
+    feature: {
+      ...feature,
+      properties: feature.properties === null ? null : properties,
+    } as Feature,
+  };
+}
+
+/**
+ * Create or replace features. Features keep their place and
+ * folder if they exist, unless a folder is given. Features
+ * copied from another map are given new ids.
+ */
+export function putApiFeatures({
+  wrappedFeatureCollectionId,
+  session,
+  features,
+  id,
+  folderId,
+}: {
+  wrappedFeatureCollectionId: string;
+  session: SimplifiedAuthenticatedSessionContext;
+  features: unknown[];
+  /**
+   * The id, when replacing a single feature.
+   */
+  id?: string;
+  folderId?: string | null;
+}): Promise<Either<ApiError, IWrappedFeature[]>> {
+  return withServerStorage(
+    wrappedFeatureCollectionId,
+    session,
+    async (storage, client) => {
+      const parsedInputs = features.map((input, i) => {
+        const featureInput = getFeatureInput(input, { id, folderId });
+        if (!featureInput) {
+          throw new ApiError(`Invalid feature at index ${i}`);
+        }
+        return featureInput;
+      });
+
+      const otherMapIds = await getOtherMapFeatureIds(
+        client,
+        parsedInputs.flatMap((input) => (input.id ? [input.id] : [])),
+        wrappedFeatureCollectionId
+      );
+      if (id && otherMapIds.has(id)) {
+        throw new ApiError("Feature belongs to another map", 409);
+      }
+      const inputs = parsedInputs.map((input) =>
+        input.id && otherMapIds.has(input.id) ? { ...input, id: null } : input
+      );
+
+      const existing = await getExistingFeatures(
+        client,
+        inputs.flatMap((input) => (input.id ? [input.id] : [])),
+        wrappedFeatureCollectionId
+      );
+
+      const newCount = inputs.filter(
+        (input) => !(input.id && existing.has(input.id))
+      ).length;
+      const ats = newCount
+        ? generateNKeysBetween(
+            await getLastAt(client, wrappedFeatureCollectionId),
+            null,
+            newCount
+          )
+        : [];
+
+      const wrappedFeatures: IWrappedFeature[] = inputs.map((input, i) => {
+        const old = input.id ? existing.get(input.id) : undefined;
+        const wrappedFeature = {
+          id: input.id || newFeatureId(),
+          folderId:
+            input.folderId === undefined
+              ? old?.folderId || null
+              : input.folderId,
+          feature: input.feature,
+        };
+        validateFeature(wrappedFeature, id ? undefined : i);
+        return {
+          ...wrappedFeature,
+          at: old ? old.at : ats.shift()!,
+        };
+      });
+
+      await enforceFolders(
+        client,
+        new Set(
+          wrappedFeatures.flatMap((wrappedFeature) =>
+            wrappedFeature.folderId ? [wrappedFeature.folderId] : []
+          )
+        ),
+        wrappedFeatureCollectionId
+      );
+
+      await storage.putFeatures(wrappedFeatures, wrappedFeatureCollectionId);
+      return wrappedFeatures;
+    }
+  );
+}
+
+/**
+ * Change part of an existing feature.
+ */
+export function patchApiFeature({
+  wrappedFeatureCollectionId,
+  session,
+  id,
+  patch,
+  folderId,
+}: {
+  wrappedFeatureCollectionId: string;
+  session: SimplifiedAuthenticatedSessionContext;
+  id: string;
+  patch: z.infer<typeof ApiFeaturePatch>;
+  folderId?: string | null;
+}): Promise<Either<ApiError, IWrappedFeature>> {
+  return withServerStorage(
+    wrappedFeatureCollectionId,
+    session,
+    async (storage, client) => {
+      const old = (
+        await getExistingFeatures(client, [id], wrappedFeatureCollectionId)
+      ).get(id);
+      if (!old) throw new ApiError("Feature not found", 404);
+
+      const properties = { ...old.feature.properties };
+      for (const [key, value] of Object.entries(patch.properties || {})) {
+        if (value === null) {
+          delete properties[key];
+        } else {
+          properties[key] = value as JsonValue;
+        }
+      }
+
+      const wrappedFeature = {
+        id,
+        folderId: folderId === undefined ? old.folderId : folderId,
+        feature: {
+          ...old.feature,
+          ...(patch.geometry === undefined
+            ? {}
+            : { geometry: patch.geometry as Feature["geometry"] }),
+          properties:
+            patch.properties === null
+              ? {}
+              : patch.properties === undefined
+              ? old.feature.properties
+              : properties,
+        },
+      };
+      validateFeature(wrappedFeature);
+      if (wrappedFeature.folderId) {
+        await enforceFolders(
+          client,
+          new Set([wrappedFeature.folderId]),
+          wrappedFeatureCollectionId
+        );
+      }
+
+      const result = { ...wrappedFeature, at: old.at };
+      await storage.putFeatures([result], wrappedFeatureCollectionId);
+      return result;
+    }
+  );
+}
+
+export function deleteApiFeature({
+  wrappedFeatureCollectionId,
+  session,
+  id,
+}: {
+  wrappedFeatureCollectionId: string;
+  session: SimplifiedAuthenticatedSessionContext;
+  id: string;
+}): Promise<Either<ApiError, true>> {
+  return withServerStorage(
+    wrappedFeatureCollectionId,
+    session,
+    async (storage, client) => {
+      const existing = await getExistingFeatures(
+        client,
+        [id],
+        wrappedFeatureCollectionId
+      );
+      if (!existing.has(id)) throw new ApiError("Feature not found", 404);
+      await storage.deleteFeatures([id], wrappedFeatureCollectionId);
+      return true as const;
+    }
+  );
+}
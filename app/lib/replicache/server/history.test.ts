@@ -0,0 +1,137 @@
+import { expect, vi, test } from "vitest";
+
+import { getRandomMockCtxAndUser, nanoid } from "test/shared";
+import db from "db";
+import { v1 } from "uuid";
+import { pool } from "integrations/pg";
+import { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
+import type { IWrappedFeature } from "types";
+import { withServerStorage } from "./api_writes";
+import { getMapAtVersion, restoreMapVersion } from "./history";
+
+vi.mock("integrations/log", () => {
+  return {
+    logger: {
+      info: vi.fn(),
+      error: vi.fn(),
+      warn: vi.fn(),
+    },
+  };
+});
+
+function wrapped(id: string, at: string, name: string): IWrappedFeature {
+  return {
+    id,
+    at,
+    folderId: null,
+    feature: {
+      type: "Feature",
+      properties: { name },
+      geometry: { type: "Point", coordinates: [1, 2] },
+    },
+  };
+}
+
+async function setup() {
+  const { ctx } = await getRandomMockCtxAndUser();
+  const wrappedFeatureCollectionId = nanoid();
+  await db.wrappedFeatureCollection.create({
+    data: {
+      id: wrappedFeatureCollectionId,
+      name: "Foo",
+      organization: {
+        connect: {
+          id: ctx.session.orgId!,
+        },
+      },
+      createdBy: {
+        connect: {
+          id: ctx.session.userId!,
+        },
+      },
+    },
+  });
+  return {
+    wrappedFeatureCollectionId,
+    session: ctx.session as SimplifiedAuthenticatedSessionContext,
+  };
+}
+
+async function getNames(wrappedFeatureCollectionId: string) {
+  const features = await db.wrappedFeature.findMany({
+    where: { wrappedFeatureCollectionId, deleted: false },
+    orderBy: { at: "asc" },
+  });
+  return features.map(
+    (row: { feature: IWrappedFeature["feature"] }) =>
+      row.feature.properties!.name
+  );
+}
+
+test("history and restoring", async () => {
+  const { wrappedFeatureCollectionId, session } = await setup();
+  const [a, b, c] = [v1(), v1(), v1()];
+
+  (
+    await withServerStorage(wrappedFeatureCollectionId, session, (storage) =>
+      storage.putFeatures(
+        [wrapped(a, "a0", "A"), wrapped(b, "a1", "B")],
+        wrappedFeatureCollectionId
+      )
+    )
+  ).unsafeCoerce();
+  const { version } = await db.wrappedFeature.findUniqueOrThrow({
+    where: { id: a },
+  });
+
+  (
+    await withServerStorage(
+      wrappedFeatureCollectionId,
+      session,
+      async (storage) => {
+        await storage.putFeatures(
+          [wrapped(a, "a0", "A2"), wrapped(c, "a2", "C")],
+          wrappedFeatureCollectionId
+        );
+        await storage.deleteFeatures([b], wrappedFeatureCollectionId);
+      }
+    )
+  ).unsafeCoerce();
+
+  await expect(getNames(wrappedFeatureCollectionId)).resolves.toEqual([
+    "A2",
+    "C",
+  ]);
+  await expect(
+    db.featureRevision.count({ where: { wrappedFeatureCollectionId } })
+  ).resolves.toEqual(2);
+  await expect(
+    db.mapVersion.count({ where: { wrappedFeatureCollectionId } })
+  ).resolves.toEqual(2);
+
+  const past = await getMapAtVersion(pool, wrappedFeatureCollectionId, version);
+  expect(
+    past.features.map((feature) => feature.feature.properties!.name).sort()
+  ).toEqual(["A", "B"]);
+
+  await expect(
+    restoreMapVersion({
+      wrappedFeatureCollectionId,
+      session,
+      version,
+      featureIds: [a],
+    })
+  ).resolves.toEqualRight({ features: 1, folders: 0 });
+  await expect(getNames(wrappedFeatureCollectionId)).resolves.toEqual([
+    "A",
+    "C",
+  ]);
+
+  await expect(
+    restoreMapVersion({ wrappedFeatureCollectionId, session, version })
+  ).resolves.toEqualRight({ features: 3, folders: 0 });
+  await expect(getNames(wrappedFeatureCollectionId)).resolves.toEqual([
+    "A",
+    "B",
+  ]);
+});
@@ -0,0 +1,179 @@
+import type { PoolClient } from "pg";
+import type { Either } from "purify-ts/Either";
+import { withServerStorage } from "app/lib/replicache/server/api_writes";
+import type { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
+import type { ApiError } from "app/lib/errors";
+import type { IFolder, IWrappedFeature } from "types";
+
+/**
+ * Restores don't come from a Replicache client,
+ * but storage needs a client id.
+ */
+const HISTORY_CLIENT_ID = "history";
+
+export interface MapAtVersion {
+  features: IWrappedFeature[];
+  folders: IFolder[];
+}
+
+export interface RestoredCounts {
+  features: number;
+  folders: number;
+}
+
+/**
+ * A map as it was at a version. Rows that haven't changed
+ * since are current, and the rest are the revisions that
+ * were current then. Changes from before history was
+ * recorded can't be seen.
+ */
+export async function getMapAtVersion(
+  client: Pick<PoolClient, "query">,
+  wrappedFeatureCollectionId: string,
+  version: number
+): Promise<MapAtVersion> {
+  const { rows: features } = await client.query<IWrappedFeature>(
+    `SELECT id, at, "folderId", feature FROM "WrappedFeature"
+    WHERE "wrappedFeatureCollectionId" = $1 AND version <= $2 AND deleted = false
+    UNION ALL
+    SELECT "featureId" AS id, at, "folderId", feature FROM "FeatureRevision"
+    WHERE "wrappedFeatureCollectionId" = $1 AND version <= $2 AND "replacedVersion" > $2 AND deleted = false`,
+    [wrappedFeatureCollectionId, version]
+  );
+
+  const { rows: folders } = await client.query<IFolder>(
+    `SELECT id, at, name, expanded, locked, "folderId", visibility FROM "Folder"
+    WHERE "wrappedFeatureCollectionId" = $1 AND version <= $2 AND deleted = false
+    UNION ALL
+    SELECT "folderId" AS id, at, name, expanded, locked, "parentId" AS "folderId", visibility FROM "FolderRevision"
+    WHERE "wrappedFeatureCollectionId" = $1 AND version <= $2 AND "replacedVersion" > $2 AND deleted = false`,
+    [wrappedFeatureCollectionId, version]
+  );
+
+  return { features, folders };
+}
+
+async function getChangedSince(
+  client: PoolClient,
+  table: "WrappedFeature" | "Folder",
+  wrappedFeatureCollectionId: string,
+  version: number
+) {
+  const { rows } = await client.query<{ id: string; deleted: boolean }>(
+    `SELECT id, deleted FROM "${table}"
+    WHERE "wrappedFeatureCollectionId" = $1 AND version > $2`,
+    [wrappedFeatureCollectionId, version]
+  );
+  return rows;
+}
+
+/**
+ * Put everything that changed since a version back the way
+ * it was, as a new version, so that the restore itself
+ * can be undone. With featureIds, only those features are
+ * restored, along with any of their folders that are gone.
+ */
+export function restoreMapVersion({
+  wrappedFeatureCollectionId,
+  session,
+  version,
+  featureIds,
+}: {
+  wrappedFeatureCollectionId: string;
+  session: SimplifiedAuthenticatedSessionContext;
+  version: number;
+  featureIds?: string[];
+}): Promise<Either<ApiError, RestoredCounts>> {
+  return withServerStorage(
+    wrappedFeatureCollectionId,
+    session,
+    async (storage, client) => {
+      const past = await getMapAtVersion(
+        client,
+        wrappedFeatureCollectionId,
+        version
+      );
+      const pastFeatures = new Map(
+        past.features.map((feature) => [feature.id, feature])
+      );
+      const pastFolders = new Map(
+        past.folders.map((folder) => [folder.id, folder])
+      );
+      const selected = featureIds && new Set(featureIds);
+
+      const changedFeatures = (
+        await getChangedSince(
+          client,
+          "WrappedFeature",
+          wrappedFeatureCollectionId,
+          version
+        )
+      ).filter((row) => !selected || selected.has(row.id));
+
+      const putFeatures = changedFeatures.flatMap(
+        (row) => pastFeatures.get(row.id) || []
+      );
+      const deleteFeatures = changedFeatures
+        .filter((row) => !row.deleted && !pastFeatures.has(row.id))
+        .map((row) => row.id);
+
+      let putFolders: IFolder[] = [];
+      let deleteFolders: string[] = [];
+
+      if (selected) {
+        const { rows: liveFolders } = await client.query<{ id: string }>(
+          `SELECT id FROM "Folder"
+          WHERE "wrappedFeatureCollectionId" = $1 AND deleted = false`,
+          [wrappedFeatureCollectionId]
+        );
+        const live = new Set(liveFolders.map((folder) => folder.id));
+        const missing = new Map<string, IFolder>();
+        for (const feature of putFeatures) {
+          let folder = feature.folderId && pastFolders.get(feature.folderId);
+          while (folder && !live.has(folder.id) && !missing.has(folder.id)) {
+            missing.set(folder.id, folder);
+            folder = folder.folderId && pastFolders.get(folder.folderId);
+          }
+        }
+        putFolders = [...missing.values()];
+      } else {
+        const changedFolders = await getChangedSince(
+          client,
+          "Folder",
+          wrappedFeatureCollectionId,
+          version
+        );
+        putFolders = changedFolders.flatMap(
+          (row) => pastFolders.get(row.id) || []
+        );
+        deleteFolders = changedFolders
+          .filter((row) => !row.deleted && !pastFolders.has(row.id))
+          .map((row) => row.id);
+      }
+
+      // Folders go first, because deleting folders takes
+      // features out of them.
+      if (putFolders.length) {
+        await storage.putFolders(putFolders, wrappedFeatureCollectionId);
+      }
+      if (deleteFolders.length) {
+        await storage.deleteFolders(deleteFolders, wrappedFeatureCollectionId);
+      }
+      if (putFeatures.length) {
+        await storage.putFeatures(putFeatures, wrappedFeatureCollectionId);
+      }
+      if (deleteFeatures.length) {
+        await storage.deleteFeatures(
+          deleteFeatures,
+          wrappedFeatureCollectionId
+        );
+      }
+
+      return {
+        features: putFeatures.length + deleteFeatures.length,
+        folders: putFolders.length + deleteFolders.length,
+      };
+    },
+    HISTORY_CLIENT_ID
+  );
+}
@@ -17,6 +17,7 @@ export class ServerStorage implements IStorage {
   private session: SimplifiedAuthenticatedSessionContext;
   private clientID: string;
   private allowedWrappedFeatureCollections: Set<string>;
+  private recordedWrappedFeatureCollections: Set<string>;
 
   constructor(
     client: PoolClient,
@@ -25,13 +26,82 @@ export class ServerStorage implements IStorage {
     clientID: string
   ) {
     this.allowedWrappedFeatureCollections = new Set();
+    this.recordedWrappedFeatureCollections = new Set();
     this.client = client;
     this.version = version;
     this.session = session;
     this.clientID = clientID;
   }
 
+  /**
+   * Record that this version changed a map, and who
+   * changed it, for the map's history.
+   */
+  private async recordVersion(wrappedFeatureCollectionId: string) {
+    if (
+      this.recordedWrappedFeatureCollections.has(wrappedFeatureCollectionId)
+    ) {
+      return;
+    }
+    await this.client.query(
+      `INSERT INTO "MapVersion" ("wrappedFeatureCollectionId", version, "userId")
+      VALUES ($1, $2, $3)
+      ON CONFLICT DO NOTHING`,
+      [wrappedFeatureCollectionId, this.version, this.session.userId]
+    );
+    this.recordedWrappedFeatureCollections.add(wrappedFeatureCollectionId);
+  }
+
+  /**
+   * Keep the values of features before they're overwritten.
+   * Only the first write in a version keeps them, so that
+   * revisions hold values from earlier versions.
+   */
+  private async recordFeatureRevisions(
+    column: "id" | "folderId",
+    ids: string[],
+    wrappedFeatureCollectionId: string
+  ) {
+    await this.client.query(
+      `INSERT INTO "FeatureRevision"
+      ("featureId", version, "replacedVersion", feature, at, "folderId", deleted, "updatedAt", "wrappedFeatureCollectionId")
+      SELECT id, version, $1, feature, at, "folderId", deleted, "updatedAt", "wrappedFeatureCollectionId"
+      FROM "WrappedFeature"
+      WHERE
+      "${column}" = ANY ($2::uuid[]) AND
+      "wrappedFeatureCollectionId" = $3 AND
+      version < $1`,
+      [this.version, ids, wrappedFeatureCollectionId]
+    );
+  }
+
+  private async recordFolderRevisions(
+    ids: string[],
+    wrappedFeatureCollectionId: string
+  ) {
+    await this.client.query(
+      `INSERT INTO "FolderRevision"
+      ("folderId", version, "replacedVersion", name, at, "parentId", visibility, locked, expanded, deleted, "updatedAt", "wrappedFeatureCollectionId")
+      SELECT id, version, $1, name, at, "folderId", visibility, locked, expanded, deleted, "updatedAt", "wrappedFeatureCollectionId"
+      FROM "Folder"
+      WHERE
+      id = ANY ($2::uuid[]) AND
+      "wrappedFeatureCollectionId" = $3 AND
+      version < $1`,
+      [this.version, ids, wrappedFeatureCollectionId]
+    );
+  }
+
   async deleteFolders(ids: string[], wrappedFeatureCollectionId: string) {
+    await this.enforceFeatureCollection(wrappedFeatureCollectionId);
+    await this.recordVersion(wrappedFeatureCollectionId);
+    await this.recordFolderRevisions(ids, wrappedFeatureCollectionId);
+    await this.recordFeatureRevisions(
+      "folderId",
+      ids,
+      wrappedFeatureCollectionId
+    );
+
     await this.client.query(
       `UPDATE "Folder" SET
       version = $1,
@@ -130,6 +200,12 @@ export class ServerStorage implements IStorage {
       })
     );
 
+    await this.recordVersion(wrappedFeatureCollectionId);
+    await this.recordFolderRevisions(
+      folders.map((folder) => folder.id),
+      wrappedFeatureCollectionId
+    );
+
     await this.client.query(
       `INSERT INTO "Folder"
       (version, "wrappedFeatureCollectionId", id, deleted, "updatedAt", name, visibility, at, "folderId", expanded, locked, "createdById")
@@ -155,6 +231,8 @@ export class ServerStorage implements IStorage {
 
   async deleteFeatures(ids: string[], wrappedFeatureCollectionId: string) {
     await this.enforceFeatureCollection(wrappedFeatureCollectionId);
+    await this.recordVersion(wrappedFeatureCollectionId);
+    await this.recordFeatureRevisions("id", ids, wrappedFeatureCollectionId);
     await this.client.query(
       `UPDATE "WrappedFeature" SET
       version = $1,
@@ -262,8 +340,15 @@ export class ServerStorage implements IStorage {
       ] as const;
     });
 
+    await this.recordVersion(wrappedFeatureCollectionId);
+
     const batches = chunk(args, INSERT_CHUNK_SIZE);
     for (const batch of batches) {
+      await this.recordFeatureRevisions(
+        "id",
+        batch.map((arg) => arg[4]),
+        wrappedFeatureCollectionId
+      );
       await this.client.query(
         `INSERT INTO "WrappedFeature"
       (feature, at, version, "wrappedFeatureCollectionId", id, "createdById", deleted, "updatedAt", "folderId")
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { tracePath } from "./trace";
+import type { Position } from "types";
+
+const featureId = "0".repeat(21);
+
+const ring: Position[] = [
+  [0, 0],
+  [1, 0],
+  [2, 0],
+  [2, 1],
+  [0, 1],
+  [0, 0],
+];
+
+const line: Position[] = [
+  [0, 0],
+  [1, 0],
+  [2, 0],
+  [3, 0],
+];
+
+function vertex(positions: Position[], index: number) {
+  return { featureId, line: positions, index };
+}
+
+describe("tracePath", () => {
+  it("traces along lines", () => {
+    expect(tracePath(vertex(line, 0), vertex(line, 3))).toEqual([
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(tracePath(vertex(line, 3), vertex(line, 0))).toEqual([
+      [2, 0],
+      [1, 0],
+    ]);
+    expect(
+      tracePath(vertex(line, 0), vertex(line, 3), { other: true })
+    ).toEqual([
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(tracePath(vertex(line, 1), vertex(line, 1))).toEqual([]);
+  });
+
+  it("traces the shorter way around rings", () => {
+    expect(tracePath(vertex(ring, 1), vertex(ring, 3))).toEqual([[2, 0]]);
+    expect(tracePath(vertex(ring, 3), vertex(ring, 1))).toEqual([[2, 0]]);
+    expect(tracePath(vertex(ring, 4), vertex(ring, 1))).toEqual([[0, 0]]);
+    // The closing position is the same vertex as the first.
+    expect(tracePath(vertex(ring, 5), vertex(ring, 2))).toEqual([[1, 0]]);
+  });
+
+  it("traces the other way around rings", () => {
+    expect(
+      tracePath(vertex(ring, 1), vertex(ring, 3), { other: true })
+    ).toEqual([
+      [0, 0],
+      [0, 1],
+    ]);
+  });
+
+  it("only traces along the same line", () => {
+    expect(
+      tracePath(vertex(line, 0), { ...vertex(line, 3), featureId: "other" })
+    ).toEqual([]);
+    expect(tracePath(vertex(line, 0), vertex(ring, 2))).toEqual([]);
+  });
+});
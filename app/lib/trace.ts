@@ -0,0 +1,67 @@
+import type { Position } from "types";
+import type { SnapVertex } from "app/lib/generate_flatbush_instance";
+
+function isRing(line: Position[]) {
+  const first = line[0];
+  const last = line[line.length - 1];
+  return line.length >= 4 && first[0] === last[0] && first[1] === last[1];
+}
+
+function pathLength(path: Position[]) {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += Math.hypot(
+      path[i][0] - path[i - 1][0],
+      path[i][1] - path[i - 1][1]
+    );
+  }
+  return length;
+}
+
+/**
+ * Walk around a ring from one vertex to another,
+ * collecting the vertexes in between.
+ */
+function walk(ring: Position[], from: number, to: number, step: 1 | -1) {
+  const count = ring.length - 1;
+  const between: Position[] = [];
+  for (let i = (from + step + count) % count; i !== to; ) {
+    between.push(ring[i]);
+    i = (i + step + count) % count;
+  }
+  return between;
+}
+
+/**
+ * The vertexes between two vertexes of the same line or ring,
+ * in order from `from` to `to`. Rings can be traced in either
+ * direction: the shorter one, unless `other` is set.
+ */
+export function tracePath(
+  from: SnapVertex,
+  to: SnapVertex,
+  { other = false }: { other?: boolean } = {}
+): Position[] {
+  if (from.featureId !== to.featureId || from.line !== to.line) return [];
+  const { line } = from;
+
+  if (!isRing(line)) {
+    if (from.index === to.index) return [];
+    return from.index < to.index
+      ? line.slice(from.index + 1, to.index)
+      : line.slice(to.index + 1, from.index).reverse();
+  }
+
+  // The last position of a ring repeats the first.
+  const count = line.length - 1;
+  const start = from.index % count;
+  const end = to.index % count;
+  if (start === end) return [];
+
+  const forward = walk(line, start, end, 1);
+  const backward = walk(line, start, end, -1);
+  const forwardIsShorter =
+    pathLength([line[start], ...forward, line[end]]) <=
+    pathLength([line[start], ...backward, line[end]]);
+  return forwardIsShorter !== other ? forward : backward;
+}
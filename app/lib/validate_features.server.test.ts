@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import type { FeatureCollection, Geometry } from "types";
+import { validateFeatures } from "./validate_features";
+import { wrap, fcLineString } from "test/helpers";
+
+function fcFromGeometries(...geometries: Geometry[]): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: geometries.map((geometry) => ({
+      type: "Feature",
+      properties: {},
+      geometry,
+    })),
+  };
+}
+
+describe("validateFeatures", () => {
+  it("passes valid features", () => {
+    expect(validateFeatures(wrap(fcLineString))).toEqual([]);
+    expect(
+      validateFeatures(
+        wrap(
+          fcFromGeometries({
+            type: "Polygon",
+            coordinates: [
+              [
+                [0, 0],
+                [4, 0],
+                [4, 4],
+                [0, 4],
+                [0, 0],
+              ],
+              [
+                [1, 1],
+                [1, 2],
+                [2, 2],
+                [2, 1],
+                [1, 1],
+              ],
+            ],
+          })
+        )
+      )
+    ).toEqual([]);
+  });
+
+  it("finds self-intersections", () => {
+    const issues = validateFeatures(
+      wrap(
+        fcFromGeometries({
+          type: "Polygon",
+          coordinates: [
+            [
+              [0, 0],
+              [2, 2],
+              [2, 0],
+              [0, 2],
+              [0, 0],
+            ],
+          ],
+        })
+      )
+    );
+    expect(issues).toEqual([
+      {
+        id: "000000000000000000000",
+        type: "self-intersection",
+        message: "Polygon edges cross each other",
+        position: [1, 1],
+      },
+    ]);
+  });
+
+  it("finds duplicate vertices and wrong winding", () => {
+    const issues = validateFeatures(
+      wrap(
+        fcFromGeometries({
+          type: "Polygon",
+          coordinates: [
+            [
+              [0, 0],
+              [0, 1],
+              [1, 1],
+              [1, 1],
+              [1, 0],
+              [0, 0],
+            ],
+          ],
+        })
+      )
+    );
+    expect(issues.map((issue) => [issue.type, issue.position])).toEqual([
+      ["duplicate-vertices", [1, 1]],
+      ["winding", [0, 0]],
+    ]);
+  });
+
+  it("finds degenerate and invalid geometries", () => {
+    const issues = validateFeatures(
+      wrap(
+        fcFromGeometries(
+          {
+            type: "Polygon",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+                [0, 1],
+              ],
+            ],
+          },
+          {
+            type: "LineString",
+            coordinates: [[0, 0]],
+          },
+          {
+            type: "Point",
+            coordinates: [0, "1"],
+          } as unknown as Geometry
+        )
+      )
+    );
+    expect(issues.map((issue) => issue.type)).toEqual([
+      "degenerate",
+      "degenerate",
+      "invalid",
+    ]);
+  });
+});
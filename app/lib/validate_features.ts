@@ -0,0 +1,247 @@
+import Flatbush from "flatbush";
+import { getIssues } from "@placemarkio/check-geojson";
+import isEqual from "lodash/isEqual";
+import type { Geometry, IWrappedFeature, Position } from "types";
+import { removeDegenerates } from "app/lib/geometry";
+
+export type IssueType =
+  | "invalid"
+  | "degenerate"
+  | "self-intersection"
+  | "duplicate-vertices"
+  | "winding";
+
+export const ISSUE_LABELS: Record<IssueType, string> = {
+  invalid: "Invalid GeoJSON",
+  degenerate: "Degenerate geometry",
+  "self-intersection": "Self-intersection",
+  "duplicate-vertices": "Duplicate vertices",
+  winding: "Ring winding",
+};
+
+export interface FeatureIssue {
+  id: IWrappedFeature["id"];
+  type: IssueType;
+  message: string;
+  /**
+   * Where the problem is, if it can be pinned
+   * to one spot.
+   */
+  position: Position | null;
+}
+
+type Segment = [Position, Position];
+
+function firstPosition(geometry: Geometry | null): Position | null {
+  switch (geometry?.type) {
+    case "Point":
+      return geometry.coordinates || null;
+    case "MultiPoint":
+    case "LineString":
+      return geometry.coordinates[0] || null;
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates[0]?.[0] || null;
+    case "MultiPolygon":
+      return geometry.coordinates[0]?.[0]?.[0] || null;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) {
+        const position = firstPosition(child);
+        if (position) return position;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+function getLines(geometry: Geometry): Position[][] {
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint":
+      return [];
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates;
+    case "MultiPolygon":
+      return geometry.coordinates.flat();
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(getLines);
+  }
+}
+
+function getPolygons(geometry: Geometry): Position[][][] {
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates];
+    case "MultiPolygon":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(getPolygons);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Twice the signed area of a ring: positive
+ * if it is counterclockwise.
+ */
+function ringArea(ring: Position[]) {
+  let sum = 0;
+  for (let i = 1; i < ring.length; i++) {
+    sum += (ring[i - 1][0] - ring[i][0]) * (ring[i][1] + ring[i - 1][1]);
+  }
+  return sum;
+}
+
+/**
+ * Where two segments cross, not counting segments
+ * that only touch at their ends.
+ */
+function crossing([a, b]: Segment, [c, d]: Segment): Position | null {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) return null;
+  const t = ((c[0] - a[0]) * sy - (c[1] - a[1]) * sx) / denominator;
+  const u = ((c[0] - a[0]) * ry - (c[1] - a[1]) * rx) / denominator;
+  if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return null;
+  return [a[0] + t * rx, a[1] + t * ry];
+}
+
+/**
+ * Find the first place where the rings of a polygon
+ * cross themselves or each other.
+ */
+function findSelfIntersection(polygon: Position[][]): Position | null {
+  const segments: Segment[] = [];
+  for (const ring of polygon) {
+    for (let i = 1; i < ring.length; i++) {
+      segments.push([ring[i - 1], ring[i]]);
+    }
+  }
+  if (segments.length < 2) return null;
+
+  const index = new Flatbush(segments.length);
+  for (const [a, b] of segments) {
+    index.add(
+      Math.min(a[0], b[0]),
+      Math.min(a[1], b[1]),
+      Math.max(a[0], b[0]),
+      Math.max(a[1], b[1])
+    );
+  }
+  index.finish();
+
+  for (let i = 0; i < segments.length; i++) {
+    const [a, b] = segments[i];
+    const candidates = index.search(
+      Math.min(a[0], b[0]),
+      Math.min(a[1], b[1]),
+      Math.max(a[0], b[0]),
+      Math.max(a[1], b[1])
+    );
+    for (const j of candidates) {
+      if (j <= i) continue;
+      const position = crossing(segments[i], segments[j]);
+      if (position) return position;
+    }
+  }
+  return null;
+}
+
+function findDuplicateVertex(lines: Position[][]): Position | null {
+  for (const line of lines) {
+    for (let i = 1; i < line.length; i++) {
+      if (isEqual(line[i - 1], line[i])) return line[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * RFC 7946 winds exterior rings counterclockwise,
+ * and holes clockwise.
+ */
+function findWrongWinding(polygons: Position[][][]): Position | null {
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const area = ringArea(polygon[i]);
+      if (i === 0 ? area < 0 : area > 0) return polygon[i][0];
+    }
+  }
+  return null;
+}
+
+function validateFeature(wrappedFeature: IWrappedFeature): FeatureIssue[] {
+  const { id, feature } = wrappedFeature;
+  const { geometry } = feature;
+  if (!geometry) return [];
+
+  const issue = (
+    type: IssueType,
+    message: string,
+    position: Position | null = firstPosition(geometry)
+  ): FeatureIssue => ({ id, type, message, position });
+
+  // Structural problems make the geometric checks
+  // below meaningless, so stop at the first one.
+  const hints = getIssues(JSON.stringify(feature));
+  if (hints.length) {
+    return [
+      isEqual(removeDegenerates(geometry), geometry)
+        ? issue("invalid", hints[0].message)
+        : issue(
+            "degenerate",
+            "Has unclosed rings, or rings or lines with too few vertices"
+          ),
+    ];
+  }
+
+  const issues: FeatureIssue[] = [];
+  const lines = getLines(geometry);
+  const polygons = getPolygons(geometry);
+
+  const duplicate = findDuplicateVertex(lines);
+  if (duplicate) {
+    issues.push(
+      issue("duplicate-vertices", "Has repeated vertices in a row", duplicate)
+    );
+  }
+
+  for (const polygon of polygons) {
+    const intersection = findSelfIntersection(polygon);
+    if (intersection) {
+      issues.push(
+        issue(
+          "self-intersection",
+          "Polygon edges cross each other",
+          intersection
+        )
+      );
+      break;
+    }
+  }
+
+  const wound = findWrongWinding(polygons);
+  if (wound) {
+    issues.push(
+      issue("winding", "Rings are wound in the wrong direction", wound)
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Check every feature for problems that break
+ * operations like buffer and boolean operations.
+ */
+export function validateFeatures(features: IWrappedFeature[]): FeatureIssue[] {
+  return features.flatMap(validateFeature);
+}
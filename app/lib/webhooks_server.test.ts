@@ -0,0 +1,230 @@
+import { afterAll, beforeAll, expect, describe, it, vi } from "vitest";
+import { createServer } from "http";
+import type { IncomingMessage, Server } from "http";
+import type { AddressInfo } from "net";
+
+import createWrappedFeatureCollection from "app/wrappedFeatureCollections/mutations/createWrappedFeatureCollection";
+import createWebhook from "app/webhooks/mutations/createWebhook";
+import { getRandomMockCtxAndUser, nanoid } from "test/shared";
+import db from "db";
+import { putFeaturesContent } from "test/helpers";
+import { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
+import { replicachePushInner } from "pages/api/replicache-push";
+import { v1 } from "uuid";
+import {
+  sendWebhooks,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "./webhooks_server";
+
+vi.mock("app/lib/env_server", async () => {
+  const { env } = await vi.importActual<typeof import("app/lib/env_server")>(
+    "app/lib/env_server"
+  );
+  return { env: { ...env, WEBHOOK_ALLOWED_HOSTS: "127.0.0.1" } };
+});
+
+vi.mock("integrations/log", () => {
+  return {
+    logger: {
+      info: vi.fn(),
+      error: vi.fn(),
+      warn: vi.fn(),
+    },
+  };
+});
+
+interface Received {
+  body: string;
+  signature: string;
+}
+
+/**
+ * A local stand-in for a webhook receiver, which
+ * responds with the status for its path.
+ */
+let server: Server;
+let received: Array<Received & { status: number }> = [];
+const waiting: Array<(request: Received) => void> = [];
+
+function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+}
+
+function nextRequest() {
+  return new Promise<Received>((resolve) => waiting.push(resolve));
+}
+
+function url(status: number, host = "127.0.0.1") {
+  const { port } = server.address() as AddressInfo;
+  return `http://${host}:${port}/${status}`;
+}
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const status = Number(req.url!.slice(1));
+    const request = {
+      body: await readBody(req),
+      signature: String(req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]),
+    };
+    received.push({ ...request, status });
+    res.statusCode = status;
+    res.end();
+    waiting.shift()?.(request);
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function setup(status: number, host?: string) {
+  const { ctx } = await getRandomMockCtxAndUser();
+  const wrappedFeatureCollectionId = await createWrappedFeatureCollection(
+    { name: "Foo" },
+    ctx
+  );
+  const webhook = await createWebhook(
+    { wrappedFeatureCollectionId, url: url(status, host) },
+    ctx
+  );
+  const { secret } = await db.webhook.findUniqueOrThrow({
+    where: { id: webhook.id },
+  });
+  return { ctx, wrappedFeatureCollectionId, webhookId: webhook.id, secret };
+}
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body", () => {
+    expect(signWebhookPayload("secret", "{}", 1000)).toMatchInlineSnapshot(
+      '"t=1000,v1=026360fb6284f077f1148b1ae7c62679730497810a6a0321574de01e8b009e7a"'
+    );
+  });
+});
+
+describe("sendWebhooks", () => {
+  it("sends changes after a push", async () => {
+    const { ctx, wrappedFeatureCollectionId, secret } = await setup(200);
+    const featureId = v1();
+    const request = nextRequest();
+
+    await expect(
+      replicachePushInner(
+        wrappedFeatureCollectionId,
+        {
+          clientID: nanoid(),
+          schemaVersion: "0.0.0",
+          pushVersion: 0,
+          mutations: [
+            putFeaturesContent(1, wrappedFeatureCollectionId, featureId),
+          ],
+        },
+        ctx.session as SimplifiedAuthenticatedSessionContext
+      )
+    ).resolves.toEqualRight(true);
+
+    const { body, signature } = await request;
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({
+      type: "features.changed",
+      wrappedFeatureCollectionId,
+      features: {
+        added: [featureId],
+        changed: [],
+        deleted: [],
+      },
+    });
+    expect(typeof payload.version).toEqual("number");
+
+    const timestamp = Number(signature.match(/^t=(\d+),/)![1]);
+    expect(signature).toEqual(signWebhookPayload(secret, body, timestamp));
+  });
+
+  it("logs deliveries and schedules retries", async () => {
+    const { webhookId, wrappedFeatureCollectionId } = await setup(500);
+    received = [];
+
+    await sendWebhooks(wrappedFeatureCollectionId, 1, {
+      added: [],
+      changed: [v1()],
+      deleted: [],
+    });
+
+    expect(received).toHaveLength(1);
+    const delivery = await db.webhookDelivery.findFirstOrThrow({
+      where: { webhookId },
+    });
+    expect(delivery).toMatchObject({
+      status: "PENDING",
+      attempts: 1,
+      responseStatus: 500,
+      error: "Responded with 500",
+    });
+    expect(delivery.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("doesn't send to private addresses", async () => {
+    const { webhookId, wrappedFeatureCollectionId } = await setup(
+      200,
+      "localhost"
+    );
+    received = [];
+
+    await sendWebhooks(wrappedFeatureCollectionId, 1, {
+      added: [],
+      changed: [v1()],
+      deleted: [],
+    });
+
+    expect(received).toHaveLength(0);
+    await expect(
+      db.webhookDelivery.findFirstOrThrow({ where: { webhookId } })
+    ).resolves.toMatchObject({
+      status: "PENDING",
+      responseStatus: null,
+      error: "localhost resolves to a private address",
+    });
+  });
+
+  it("doesn't send to private addresses in URLs", async () => {
+    const { webhookId, wrappedFeatureCollectionId } = await setup(
+      200,
+      "127.0.0.2"
+    );
+    received = [];
+
+    await sendWebhooks(wrappedFeatureCollectionId, 1, {
+      added: [],
+      changed: [v1()],
+      deleted: [],
+    });
+
+    expect(received).toHaveLength(0);
+    await expect(
+      db.webhookDelivery.findFirstOrThrow({ where: { webhookId } })
+    ).resolves.toMatchObject({
+      status: "PENDING",
+      responseStatus: null,
+      error: "127.0.0.2 is a private address",
+    });
+  });
+
+  it("skips empty changes", async () => {
+    const { webhookId, wrappedFeatureCollectionId } = await setup(200);
+
+    await sendWebhooks(wrappedFeatureCollectionId, 1, {
+      added: [],
+      changed: [],
+      deleted: [],
+    });
+
+    await expect(
+      db.webhookDelivery.count({ where: { webhookId } })
+    ).resolves.toEqual(0);
+  });
+});
@@ -0,0 +1,360 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, isIPv4 } from "net";
+import type { LookupFunction } from "net";
+import type { PoolClient } from "pg";
+import type { Prisma } from "@prisma/client";
+import * as Sentry from "@sentry/nextjs";
+import db from "db";
+import { logger } from "integrations/log";
+import { env } from "app/lib/env_server";
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+export const WEBHOOK_SIGNATURE_HEADER = "Placemark-Signature";
+export const WEBHOOK_DELIVERY_HEADER = "Placemark-Delivery";
+
+/**
+ * Seconds to wait before each retry. Deliveries
+ * fail after the last one.
+ */
+export const WEBHOOK_RETRY_DELAYS = [10, 60, 10 * 60, 60 * 60, 6 * 60 * 60];
+
+const WEBHOOK_TIMEOUT = 10_000;
+const WEBHOOK_RETRY_INTERVAL = 60_000;
+
+/**
+ * Addresses inside our network, which webhooks
+ * shouldn't be able to reach.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// These are types rather than interfaces, so that
+// payloads can be stored as JSON.
+export type FeatureChanges = {
+  added: string[];
+  changed: string[];
+  deleted: string[];
+};
+
+export type WebhookPayload = {
+  type: "features.changed";
+  wrappedFeatureCollectionId: string;
+  version: number;
+  features: FeatureChanges;
+};
+
+/**
+ * Whether a map has webhooks, so that pushes to
+ * maps without them can skip finding changes.
+ */
+export async function hasWebhooks(
+  client: PoolClient,
+  wrappedFeatureCollectionId: string
+) {
+  const { rows } = await client.query(
+    `SELECT 1 FROM "Webhook" WHERE "wrappedFeatureCollectionId" = $1 LIMIT 1`,
+    [wrappedFeatureCollectionId]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Find the features that were written with a version, in
+ * the transaction that wrote them. Features that were inserted
+ * in this transaction were created by it: now() is the time
+ * that the transaction started.
+ */
+export async function getFeatureChanges(
+  client: PoolClient,
+  wrappedFeatureCollectionId: string,
+  version: number
+): Promise<FeatureChanges> {
+  const { rows } = await client.query<{
+    id: string;
+    deleted: boolean;
+    created: boolean;
+  }>(
+    `SELECT id, deleted, "createdAt" = now()::timestamp(3) AS created
+    FROM "WrappedFeature"
+    WHERE "wrappedFeatureCollectionId" = $1 AND version = $2`,
+    [wrappedFeatureCollectionId, version]
+  );
+
+  const changes: FeatureChanges = { added: [], changed: [], deleted: [] };
+  for (const { id, deleted, created } of rows) {
+    if (deleted) {
+      if (!created) changes.deleted.push(id);
+    } else {
+      (created ? changes.added : changes.changed).push(id);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Sign the timestamp and body of a request, so that receivers
+ * can check that it came from us and isn't being replayed.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number
+) {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function isPrivateAddress(address: string) {
+  return PRIVATE_ADDRESSES.check(address, isIPv4(address) ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolve a webhook's host as the request connects, so
+ * that it can't be pointed at private addresses after it's
+ * created, or between a check and the connection.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 4);
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(
+        new Error(`${hostname} resolves to a private address`),
+        "",
+        4
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    const [{ address, family }] = addresses;
+    callback(null, address, family);
+  });
+};
+
+/**
+ * POST a body and resolve with the response status.
+ * Redirects aren't followed, since they could lead
+ * anywhere.
+ */
+function post(url: string, headers: http.OutgoingHttpHeaders, body: string) {
+  const { hostname, protocol } = new URL(url);
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const allowed = env.WEBHOOK_ALLOWED_HOSTS.split(",")
+    .map((allowedHost) => allowedHost.trim())
+    .includes(host);
+  // Addresses in URLs aren't looked up.
+  if (!allowed && isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new Error(`${host} is a private address`));
+  }
+
+  return new Promise<number>((resolve, reject) => {
+    const request = (protocol === "https:" ? https : http).request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: allowed ? undefined : lookupPublicAddress,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode!);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Make one attempt at a delivery, if it's due, and
+ * schedule a retry if it fails.
+ */
+export async function attemptDelivery(id: number) {
+  // Claim the delivery, so that it's only attempted once
+  // even if several processes find it.
+  const { count } = await db.webhookDelivery.updateMany({
+    where: {
+      id,
+      status: "PENDING",
+      nextAttemptAt: { lte: new Date() },
+    },
+    data: {
+      nextAttemptAt: null,
+      attempts: { increment: 1 },
+    },
+  });
+  if (count !== 1) return;
+
+  const delivery = await db.webhookDelivery.findUniqueOrThrow({
+    where: { id },
+    include: {
+      webhook: {
+        select: {
+          url: true,
+          secret: true,
+        },
+      },
+    },
+  });
+
+  const body = JSON.stringify(delivery.payload);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await post(
+      delivery.webhook.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "Placemark-Webhooks",
+        [WEBHOOK_DELIVERY_HEADER]: String(id),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          delivery.webhook.secret,
+          body,
+          Math.floor(Date.now() / 1000)
+        ),
+      },
+      body
+    );
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Responded with ${responseStatus}`;
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const retryDelay: number | undefined =
+    WEBHOOK_RETRY_DELAYS[delivery.attempts - 1];
+  const status =
+    error === null
+      ? "SUCCEEDED"
+      : retryDelay === undefined
+      ? "FAILED"
+      : "PENDING";
+
+  await db.webhookDelivery.update({
+    where: { id },
+    data: {
+      status,
+      responseStatus,
+      error,
+      nextAttemptAt:
+        status === "PENDING" ? new Date(Date.now() + retryDelay * 1000) : null,
+    },
+  });
+
+  if (status === "PENDING") {
+    setTimeout(() => {
+      attemptDelivery(id).catch((e) => Sentry.captureException(e));
+    }, retryDelay * 1000).unref();
+  }
+}
+
+/**
+ * Retries are scheduled in the process that made the
+ * first attempt. If it stopped, they're picked up here.
+ */
+export async function retryDueDeliveries() {
+  const due = await db.webhookDelivery.findMany({
+    select: { id: true },
+    where: {
+      status: "PENDING",
+      nextAttemptAt: { lte: new Date() },
+    },
+    take: 100,
+  });
+  await Promise.all(
+    due.map((delivery: { id: number }) => attemptDelivery(delivery.id))
+  );
+}
+
+let retryInterval: NodeJS.Timeout | undefined;
+
+/**
+ * Check for due retries every minute, so that they're
+ * sent after a restart, or when a map has no more pushes.
+ */
+export function scheduleWebhookRetries() {
+  if (retryInterval) return;
+  retryInterval = setInterval(() => {
+    retryDueDeliveries().catch((e) => Sentry.captureException(e));
+  }, WEBHOOK_RETRY_INTERVAL).unref();
+}
+
+/**
+ * Send changes to a map's webhooks. This doesn't throw,
+ * so it can run after a response has been sent.
+ */
+export async function sendWebhooks(
+  wrappedFeatureCollectionId: string,
+  version: number,
+  features: FeatureChanges
+) {
+  try {
+    if (
+      !features.added.length &&
+      !features.changed.length &&
+      !features.deleted.length
+    ) {
+      return;
+    }
+
+    const payload: WebhookPayload = {
+      type: "features.changed",
+      wrappedFeatureCollectionId,
+      version,
+      features,
+    };
+
+    const webhooks = await db.webhook.findMany({
+      select: { id: true },
+      where: { wrappedFeatureCollectionId },
+    });
+
+    const deliveries = await db.$transaction(
+      webhooks.map((webhook: { id: number }) =>
+        db.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            payload: payload satisfies Prisma.InputJsonValue,
+            nextAttemptAt: new Date(),
+          },
+          select: { id: true },
+        })
+      )
+    );
+
+    await Promise.all([
+      ...deliveries.map((delivery: { id: number }) =>
+        attemptDelivery(delivery.id)
+      ),
+      retryDueDeliveries(),
+    ]);
+  } catch (e) {
+    logger.error(e);
+    Sentry.captureException(e);
+  }
+}
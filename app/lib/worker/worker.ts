@@ -3,12 +3,24 @@ import { fromGeoJSON, fileToGeoJSON } from "app/lib/convert";
 import * as Comlink from "comlink";
 import { EitherHandler } from "./shared";
 import { bufferFeature } from "app/lib/buffer";
+import { offsetFeature } from "app/lib/offset";
 import { booleanFeatures } from "app/lib/map_operations/boolean_features";
+import { spatialJoin } from "app/lib/map_operations/spatial_join";
+import { dissolveFeatures } from "app/lib/map_operations/dissolve_features";
+import { generateFeatures } from "app/lib/map_operations/generate_features";
+import { clipFeatures } from "app/lib/map_operations/clip_features";
+import { validateFeatures } from "app/lib/validate_features";
 
 const lib = {
   getIssues,
+  validateFeatures,
   bufferFeature,
+  offsetFeature,
   booleanFeatures,
+  spatialJoin,
+  dissolveFeatures,
+  generateFeatures,
+  clipFeatures,
   fileToGeoJSON,
   fromGeoJSON,
 };
@@ -0,0 +1,47 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+import { CreateMapSnapshot } from "app/mapHistory/validations";
+
+/**
+ * Name the map's current version, which is the
+ * latest version of any of its features or folders.
+ */
+export default resolver.pipe(
+  resolver.zod(CreateMapSnapshot),
+  resolver.authorize(),
+  async ({ wrappedFeatureCollectionId, name }, ctx) => {
+    await db.wrappedFeatureCollection.findFirstOrThrow({
+      where: {
+        id: wrappedFeatureCollectionId,
+        organizationId: ctx.session.orgId,
+      },
+    });
+
+    const [features, folders] = await Promise.all([
+      db.wrappedFeature.aggregate({
+        _max: { version: true },
+        where: { wrappedFeatureCollectionId },
+      }),
+      db.folder.aggregate({
+        _max: { version: true },
+        where: { wrappedFeatureCollectionId },
+      }),
+    ]);
+
+    return db.mapSnapshot.create({
+      data: {
+        name,
+        version: Math.max(
+          features._max.version ?? 0,
+          folders._max.version ?? 0
+        ),
+        wrappedFeatureCollectionId,
+        createdById: ctx.session.userId,
+      },
+      select: {
+        id: true,
+        version: true,
+      },
+    });
+  }
+);
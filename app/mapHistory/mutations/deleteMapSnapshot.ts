@@ -0,0 +1,23 @@
+import { resolver } from "@blitzjs/rpc";
+import { NotFoundError } from "blitz";
+import db from "db";
+import { DeleteMapSnapshot } from "app/mapHistory/validations";
+
+export default resolver.pipe(
+  resolver.zod(DeleteMapSnapshot),
+  resolver.authorize(),
+  async ({ id }, ctx) => {
+    const { count } = await db.mapSnapshot.deleteMany({
+      where: {
+        id,
+        wrappedFeatureCollection: {
+          organizationId: ctx.session.orgId,
+        },
+      },
+    });
+
+    if (count !== 1) {
+      throw new NotFoundError();
+    }
+  }
+);
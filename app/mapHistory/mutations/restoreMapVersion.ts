@@ -0,0 +1,27 @@
+import { resolver } from "@blitzjs/rpc";
+import { RestoreMapVersion } from "app/mapHistory/validations";
+import { restoreMapVersion } from "app/lib/replicache/server/history";
+import type { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
+
+/**
+ * Restore the whole map, or only some features, to
+ * a version. Clients get the changes when they're poked.
+ */
+export default resolver.pipe(
+  resolver.zod(RestoreMapVersion),
+  resolver.authorize(),
+  async ({ wrappedFeatureCollectionId, version, featureIds }, ctx) => {
+    const result = await restoreMapVersion({
+      wrappedFeatureCollectionId,
+      session: ctx.session as SimplifiedAuthenticatedSessionContext,
+      version,
+      featureIds,
+    });
+    return result.caseOf({
+      Left: (error) => {
+        throw error;
+      },
+      Right: (counts) => counts,
+    });
+  }
+);
@@ -0,0 +1,24 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+import { pool } from "integrations/pg";
+import { GetMapAtVersion } from "app/mapHistory/validations";
+import { getMapAtVersion } from "app/lib/replicache/server/history";
+
+/**
+ * The features and folders of a map at a past
+ * version, for previewing it before a restore.
+ */
+export default resolver.pipe(
+  resolver.zod(GetMapAtVersion),
+  resolver.authorize(),
+  async ({ wrappedFeatureCollectionId, version }, ctx) => {
+    await db.wrappedFeatureCollection.findFirstOrThrow({
+      where: {
+        id: wrappedFeatureCollectionId,
+        organizationId: ctx.session.orgId,
+      },
+    });
+
+    return getMapAtVersion(pool, wrappedFeatureCollectionId, version);
+  }
+);
@@ -0,0 +1,115 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+import { GetMapHistory } from "app/mapHistory/validations";
+
+/**
+ * How many versions to load at a time.
+ */
+const PAGE_SIZE = 50;
+
+interface VersionRow {
+  version: number;
+  createdAt: Date;
+  user: { name: string | null; email: string } | null;
+}
+
+interface VersionCount {
+  version: number;
+  _count: { _all: number };
+}
+
+/**
+ * The versions that changed a map, newest first, with who
+ * made them and how many features they changed. Snapshots
+ * are returned in full, because there are few of them.
+ */
+const getMapHistory = resolver.pipe(
+  resolver.zod(GetMapHistory),
+  resolver.authorize(),
+  async ({ wrappedFeatureCollectionId, before }, ctx) => {
+    await db.wrappedFeatureCollection.findFirstOrThrow({
+      where: {
+        id: wrappedFeatureCollectionId,
+        organizationId: ctx.session.orgId,
+      },
+    });
+
+    const versions: VersionRow[] = await db.mapVersion.findMany({
+      select: {
+        version: true,
+        createdAt: true,
+        user: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+      where: {
+        wrappedFeatureCollectionId,
+        version: before === undefined ? undefined : { lt: before },
+      },
+      orderBy: {
+        version: "desc",
+      },
+      take: PAGE_SIZE + 1,
+    });
+
+    const page = versions.slice(0, PAGE_SIZE);
+    const where = {
+      wrappedFeatureCollectionId,
+      version: { in: page.map((row) => row.version) },
+    };
+
+    // A version's changes are either still current,
+    // or have since been replaced by revisions.
+    const [current, replaced] = await Promise.all([
+      db.wrappedFeature.groupBy({
+        by: ["version"],
+        _count: { _all: true },
+        where,
+      }),
+      db.featureRevision.groupBy({
+        by: ["version"],
+        _count: { _all: true },
+        where,
+      }),
+    ]);
+
+    const counts = new Map<number, number>();
+    for (const row of [...current, ...replaced] as VersionCount[]) {
+      counts.set(row.version, (counts.get(row.version) || 0) + row._count._all);
+    }
+
+    const snapshots = await db.mapSnapshot.findMany({
+      select: {
+        id: true,
+        name: true,
+        version: true,
+        createdAt: true,
+        createdBy: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+      where: { wrappedFeatureCollectionId },
+      orderBy: { version: "desc" },
+    });
+
+    return {
+      versions: page.map((row) => ({
+        ...row,
+        features: counts.get(row.version) || 0,
+      })),
+      snapshots,
+      nextBefore:
+        versions.length > PAGE_SIZE ? page[page.length - 1].version : undefined,
+    };
+  }
+);
+
+export default getMapHistory;
+
+export type MapHistory = Awaited<ReturnType<typeof getMapHistory>>;
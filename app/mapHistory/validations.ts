@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+export const CreateMapSnapshot = z.object({
+  wrappedFeatureCollectionId: z.string(),
+  name: z.string().trim().min(1).max(256),
+});
+
+export const DeleteMapSnapshot = z.object({
+  id: z.number(),
+});
+
+export const RestoreMapVersion = z.object({
+  wrappedFeatureCollectionId: z.string(),
+  version: z.number().int().min(0),
+  featureIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+export const GetMapHistory = z.object({
+  wrappedFeatureCollectionId: z.string(),
+  before: z.number().int().optional(),
+});
+
+export const GetMapAtVersion = z.object({
+  wrappedFeatureCollectionId: z.string(),
+  version: z.number().int().min(0),
+});
@@ -0,0 +1,30 @@
+import { generateToken } from "@blitzjs/auth";
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+import { CreateWebhook } from "app/webhooks/validations";
+import { WEBHOOK_SECRET_PREFIX } from "app/lib/webhooks_server";
+
+export default resolver.pipe(
+  resolver.zod(CreateWebhook),
+  resolver.authorize(),
+  async ({ wrappedFeatureCollectionId, url }, ctx) => {
+    await db.wrappedFeatureCollection.findFirstOrThrow({
+      where: {
+        id: wrappedFeatureCollectionId,
+        organizationId: ctx.session.orgId,
+      },
+    });
+
+    return db.webhook.create({
+      data: {
+        url,
+        secret: `${WEBHOOK_SECRET_PREFIX}${generateToken()}`,
+        wrappedFeatureCollectionId,
+        createdById: ctx.session.userId,
+      },
+      select: {
+        id: true,
+      },
+    });
+  }
+);
@@ -0,0 +1,23 @@
+import { resolver } from "@blitzjs/rpc";
+import { NotFoundError } from "blitz";
+import db from "db";
+import { DeleteWebhook } from "app/webhooks/validations";
+
+export default resolver.pipe(
+  resolver.zod(DeleteWebhook),
+  resolver.authorize(),
+  async ({ id }, ctx) => {
+    const { count } = await db.webhook.deleteMany({
+      where: {
+        id,
+        wrappedFeatureCollection: {
+          organizationId: ctx.session.orgId,
+        },
+      },
+    });
+
+    if (count !== 1) {
+      throw new NotFoundError();
+    }
+  }
+);
@@ -0,0 +1,55 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+import { GetWebhooks } from "app/webhooks/validations";
+
+/**
+ * How many recent deliveries to show for each webhook.
+ */
+const DELIVERY_LOG_LENGTH = 10;
+
+/**
+ * A map's webhooks, with their latest deliveries.
+ */
+const getWebhooks = resolver.pipe(
+  resolver.zod(GetWebhooks),
+  resolver.authorize(),
+  ({ wrappedFeatureCollectionId }, ctx) => {
+    return db.webhook.findMany({
+      select: {
+        id: true,
+        url: true,
+        secret: true,
+        createdAt: true,
+        deliveries: {
+          select: {
+            id: true,
+            createdAt: true,
+            updatedAt: true,
+            status: true,
+            attempts: true,
+            nextAttemptAt: true,
+            responseStatus: true,
+            error: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+          take: DELIVERY_LOG_LENGTH,
+        },
+      },
+      where: {
+        wrappedFeatureCollectionId,
+        wrappedFeatureCollection: {
+          organizationId: ctx.session.orgId,
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+  }
+);
+
+export default getWebhooks;
+
+export type WebhookListItem = Awaited<ReturnType<typeof getWebhooks>>[0];
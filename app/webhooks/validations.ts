@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  "PENDING",
+  "SUCCEEDED",
+  "FAILED",
+] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const CreateWebhook = z.object({
+  wrappedFeatureCollectionId: z.string(),
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "Use an http or https URL"),
+});
+
+export const DeleteWebhook = z.object({
+  id: z.number(),
+});
+
+export const GetWebhooks = z.object({
+  wrappedFeatureCollectionId: z.string(),
+});
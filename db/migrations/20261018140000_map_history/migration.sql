@@ -0,0 +1,86 @@
+-- CreateTable
+CREATE TABLE "MapVersion" (
+    "wrappedFeatureCollectionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER,
+
+    CONSTRAINT "MapVersion_pkey" PRIMARY KEY ("wrappedFeatureCollectionId","version")
+);
+
+-- CreateTable
+CREATE TABLE "MapSnapshot" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "wrappedFeatureCollectionId" TEXT NOT NULL,
+    "createdById" INTEGER,
+
+    CONSTRAINT "MapSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeatureRevision" (
+    "id" SERIAL NOT NULL,
+    "featureId" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "replacedVersion" INTEGER NOT NULL,
+    "feature" JSONB NOT NULL,
+    "at" TEXT NOT NULL,
+    "folderId" UUID,
+    "deleted" BOOLEAN NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "wrappedFeatureCollectionId" TEXT NOT NULL,
+
+    CONSTRAINT "FeatureRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FolderRevision" (
+    "id" SERIAL NOT NULL,
+    "folderId" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "replacedVersion" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "at" TEXT NOT NULL,
+    "parentId" UUID,
+    "visibility" BOOLEAN NOT NULL,
+    "locked" BOOLEAN NOT NULL,
+    "expanded" BOOLEAN NOT NULL,
+    "deleted" BOOLEAN NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "wrappedFeatureCollectionId" TEXT NOT NULL,
+
+    CONSTRAINT "FolderRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MapSnapshot_wrappedFeatureCollectionId_idx" ON "MapSnapshot"("wrappedFeatureCollectionId");
+
+-- CreateIndex
+CREATE INDEX "FeatureRevision_wrappedFeatureCollectionId_version_idx" ON "FeatureRevision"("wrappedFeatureCollectionId", "version");
+
+-- CreateIndex
+CREATE INDEX "FeatureRevision_featureId_idx" ON "FeatureRevision"("featureId");
+
+-- CreateIndex
+CREATE INDEX "FolderRevision_wrappedFeatureCollectionId_version_idx" ON "FolderRevision"("wrappedFeatureCollectionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "MapVersion" ADD CONSTRAINT "MapVersion_wrappedFeatureCollectionId_fkey" FOREIGN KEY ("wrappedFeatureCollectionId") REFERENCES "WrappedFeatureCollection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MapVersion" ADD CONSTRAINT "MapVersion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MapSnapshot" ADD CONSTRAINT "MapSnapshot_wrappedFeatureCollectionId_fkey" FOREIGN KEY ("wrappedFeatureCollectionId") REFERENCES "WrappedFeatureCollection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MapSnapshot" ADD CONSTRAINT "MapSnapshot_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeatureRevision" ADD CONSTRAINT "FeatureRevision_wrappedFeatureCollectionId_fkey" FOREIGN KEY ("wrappedFeatureCollectionId") REFERENCES "WrappedFeatureCollection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FolderRevision" ADD CONSTRAINT "FolderRevision_wrappedFeatureCollectionId_fkey" FOREIGN KEY ("wrappedFeatureCollectionId") REFERENCES "WrappedFeatureCollection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
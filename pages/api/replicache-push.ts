@@ -16,6 +16,11 @@ import { createSkipSet } from "app/lib/create_skip_set";
 import { pool } from "integrations/pg";
 import { AuthorizationError } from "blitz";
 import { api } from "app/blitz-server";
+import {
+  getFeatureChanges,
+  hasWebhooks,
+  sendWebhooks,
+} from "app/lib/webhooks_server";
 
 async function runMutation(
   mutation: IPushRequest["mutations"][number],
@@ -145,7 +150,15 @@ export async function replicachePushInner(
       [lastMutationId, push.clientID]
     );
 
+    const featureChanges = (await hasWebhooks(client, targetCollection))
+      ? await getFeatureChanges(client, targetCollection, version)
+      : null;
+
     await client.query("COMMIT");
+
+    if (featureChanges) {
+      void sendWebhooks(targetCollection, version, featureChanges);
+    }
     logger.info("push/end", {
       skippedMutations,
       skipsAvailable: skips.size,
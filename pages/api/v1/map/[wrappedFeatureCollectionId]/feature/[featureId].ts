@@ -4,26 +4,33 @@ import db from "db";
 import { z } from "zod";
 import type { Feature, IWrappedFeature } from "types";
 import { wrappedFeatureToExportable } from "app/lib/convert/local/geojson";
+import { getApiAccess, getApiCtx } from "app/lib/api_tokens_server";
+import {
+  ApiFeaturePatch,
+  deleteApiFeature,
+  patchApiFeature,
+  putApiFeatures,
+} from "app/lib/replicache/server/api_writes";
+import type { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
 
 const Q = z.object({
   wrappedFeatureCollectionId: z.string().length(21),
   featureId: z.string().uuid(),
 });
 
-/**
- * Reference {@link getAPIURLFeature} in lib/api, which
- * refers to the URL of this API.
- */
-const handler: NextApiHandler = async (req, res) => {
+const exportOptions = {
+  winding: "RFC7946",
+  truncate: true,
+  addBboxes: false,
+  indent: false,
+  includeId: true,
+} as const;
+
+const getFeature: NextApiHandler = async (req, res) => {
   const { wrappedFeatureCollectionId, featureId } = Q.parse(req.query);
 
-  const [wfc, wrappedFeature] = await Promise.all([
-    db.wrappedFeatureCollection.findFirst({
-      where: {
-        id: wrappedFeatureCollectionId,
-        access: "PUBLIC",
-      },
-    }),
+  const [access, wrappedFeature] = await Promise.all([
+    getApiAccess(req, wrappedFeatureCollectionId),
     db.wrappedFeature.findFirst({
       select: {
         feature: true,
@@ -37,7 +44,11 @@ const handler: NextApiHandler = async (req, res) => {
     }),
   ]);
 
-  if (!wfc) {
+  if (access === "UNAUTHORIZED") {
+    return res.status(401).send({ error: "Invalid API token" });
+  }
+
+  if (access === "NOT_FOUND") {
     return res.status(404).send({ error: "Map not found" });
   }
 
@@ -47,16 +58,98 @@ const handler: NextApiHandler = async (req, res) => {
 
   const f: Feature = wrappedFeatureToExportable(
     wrappedFeature as unknown as IWrappedFeature,
-    {
-      winding: "RFC7946",
-      truncate: true,
-      addBboxes: false,
-      indent: false,
-      includeId: true,
-    }
+    exportOptions
   );
 
   return res.send(f);
 };
 
+const WriteQ = Q.extend({
+  folder: z.optional(z.string().uuid()),
+});
+
+/**
+ * PUT replaces a feature, creating it if it doesn't exist,
+ * PATCH changes its geometry or some of its properties, and
+ * DELETE deletes it. Features can be moved with ?folder=.
+ */
+const writeFeature: NextApiHandler = async (req, res) => {
+  const query = WriteQ.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).send({ error: "Invalid feature id or folder" });
+  }
+  const { wrappedFeatureCollectionId, featureId, folder } = query.data;
+
+  const ctx = await getApiCtx(req, wrappedFeatureCollectionId, "WRITE");
+  if (ctx === "UNAUTHORIZED") {
+    return res.status(401).send({ error: "Invalid API token" });
+  }
+  if (ctx === "NOT_FOUND") {
+    return res.status(404).send({ error: "Map not found" });
+  }
+
+  const options = {
+    wrappedFeatureCollectionId,
+    session: ctx.session as SimplifiedAuthenticatedSessionContext,
+    id: featureId,
+  };
+
+  if (req.method === "DELETE") {
+    return (await deleteApiFeature(options)).caseOf({
+      Left: (error) => {
+        res.status(error.status).send({ error: error.message });
+      },
+      Right: () => {
+        res.status(204).end();
+      },
+    });
+  }
+
+  let result;
+  if (req.method === "PATCH") {
+    const patch = ApiFeaturePatch.safeParse(req.body);
+    if (!patch.success) {
+      return res.status(400).send({ error: "Invalid patch" });
+    }
+    result = await patchApiFeature({
+      ...options,
+      patch: patch.data,
+      folderId: folder,
+    });
+  } else {
+    result = (
+      await putApiFeatures({
+        ...options,
+        features: [req.body],
+        folderId: folder,
+      })
+    ).map(([wrappedFeature]) => wrappedFeature);
+  }
+
+  return result.caseOf({
+    Left: (error) => res.status(error.status).send({ error: error.message }),
+    Right: (wrappedFeature) =>
+      res.send(wrappedFeatureToExportable(wrappedFeature, exportOptions)),
+  });
+};
+
+/**
+ * Reference {@link getAPIURLFeature} in lib/api, which
+ * refers to the URL of this API.
+ */
+const handler: NextApiHandler = (req, res) => {
+  switch (req.method) {
+    case "GET":
+    case "HEAD":
+      return getFeature(req, res);
+    case "PUT":
+    case "PATCH":
+    case "DELETE":
+      return writeFeature(req, res);
+    default:
+      res.setHeader("Allow", "GET, HEAD, PUT, PATCH, DELETE");
+      return res.status(405).send({ error: "Method not allowed" });
+  }
+};
+
 export default api(handler);
@@ -1,4 +1,4 @@
-import { expect, vi, test } from "vitest";
+import { expect, vi, test, describe, it } from "vitest";
 
 import { getRandomMockCtxAndUser, nanoid } from "test/shared";
 import db from "db";
@@ -6,7 +6,14 @@ import { NIL, v1 } from "uuid";
 import { putFeaturesContent, putPresenceContent } from "test/helpers";
 import { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
 import { replicachePushInner } from "pages/api/replicache-push";
-import { featureCollectionInner, getEtag } from "./featurecollection";
+import createApiToken from "app/apiTokens/mutations/createApiToken";
+import { putApiFeatures } from "app/lib/replicache/server/api_writes";
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  featureCollectionInner,
+  getEtag,
+  getFeatureCollection,
+} from "./featurecollection";
 
 vi.mock("integrations/log", () => {
   return {
@@ -132,3 +139,182 @@ test("featureCollectionInner", async () => {
     }
   `);
 });
+
+describe("getFeatureCollection", () => {
+  async function setup() {
+    const { ctx } = await getRandomMockCtxAndUser();
+    const wrappedFeatureCollectionId = nanoid();
+    await db.wrappedFeatureCollection.create({
+      data: {
+        id: wrappedFeatureCollectionId,
+        name: "Foo",
+        organization: { connect: { id: ctx.session.orgId! } },
+        createdBy: { connect: { id: ctx.session.userId! } },
+      },
+    });
+    (
+      await putApiFeatures({
+        wrappedFeatureCollectionId,
+        session: ctx.session as SimplifiedAuthenticatedSessionContext,
+        features: ["A", "B", "C"].map((name) => ({
+          type: "Feature",
+          properties: { name },
+          geometry: { type: "Point", coordinates: [1, 2] },
+        })),
+      })
+    ).unsafeCoerce();
+    const { token } = await createApiToken(
+      {
+        name: "Dashboard",
+        scopes: ["READ"],
+        expiresInDays: null,
+        organization: false,
+      },
+      ctx
+    );
+    return { wrappedFeatureCollectionId, token };
+  }
+
+  /**
+   * Call the handler, and get what it sent.
+   */
+  async function get(
+    wrappedFeatureCollectionId: string,
+    params: Record<string, string>,
+    headers: Record<string, string> = {}
+  ) {
+    const search = new URLSearchParams(params).toString();
+    const req = {
+      method: "GET",
+      url: `/api/v1/map/${wrappedFeatureCollectionId}/featurecollection?${search}`,
+      query: { ...params, wrappedFeatureCollectionId },
+      headers,
+    };
+    const sent = {
+      status: 200,
+      headers: {} as Record<string, string>,
+      body: undefined as unknown,
+    };
+    const res = {
+      status(code: number) {
+        sent.status = code;
+        return res;
+      },
+      setHeader(name: string, value: string) {
+        sent.headers[name.toLowerCase()] = value;
+        return res;
+      },
+      send(body: unknown) {
+        sent.body = body;
+        return res;
+      },
+      end(body?: unknown) {
+        sent.body = body;
+        return res;
+      },
+    };
+    await getFeatureCollection(
+      req as unknown as NextApiRequest,
+      res as unknown as NextApiResponse
+    );
+    return sent;
+  }
+
+  function names(body: unknown) {
+    return (
+      JSON.parse(body as string) as {
+        features: { properties: { name: string } }[];
+      }
+    ).features.map((feature) => feature.properties.name);
+  }
+
+  it("pages with limit and offset", async () => {
+    const { wrappedFeatureCollectionId, token } = await setup();
+    const auth = { authorization: `Bearer ${token}` };
+
+    const first = await get(wrappedFeatureCollectionId, { limit: "2" }, auth);
+    expect(first.status).toEqual(200);
+    expect(names(first.body)).toEqual(["C", "B"]);
+    expect(first.headers.link).toEqual(
+      `</api/v1/map/${wrappedFeatureCollectionId}/featurecollection?limit=2&offset=2>; rel="next"`
+    );
+
+    const last = await get(
+      wrappedFeatureCollectionId,
+      { limit: "2", offset: "2" },
+      auth
+    );
+    expect(names(last.body)).toEqual(["A"]);
+    expect(last.headers.link).toBeUndefined();
+  });
+
+  it("tells invalid tokens from missing maps", async () => {
+    const { wrappedFeatureCollectionId, token } = await setup();
+    const other = await setup();
+
+    await expect(
+      get(wrappedFeatureCollectionId, {}, { authorization: "Bearer pmk_no" })
+    ).resolves.toHaveProperty("status", 401);
+    await expect(get(wrappedFeatureCollectionId, {})).resolves.toHaveProperty(
+      "status",
+      404
+    );
+    await expect(
+      get(
+        wrappedFeatureCollectionId,
+        {},
+        { authorization: `Bearer ${other.token}` }
+      )
+    ).resolves.toHaveProperty("status", 404);
+    await expect(
+      get(wrappedFeatureCollectionId, {}, { authorization: `Bearer ${token}` })
+    ).resolves.toHaveProperty("status", 200);
+  });
+
+  it("has an etag for each query", async () => {
+    const { wrappedFeatureCollectionId, token } = await setup();
+    const auth = { authorization: `Bearer ${token}` };
+
+    const one = await get(wrappedFeatureCollectionId, { limit: "1" }, auth);
+    const two = await get(wrappedFeatureCollectionId, { limit: "2" }, auth);
+    expect(one.headers.etag).toBeTruthy();
+    expect(one.headers.etag).not.toEqual(two.headers.etag);
+
+    await expect(
+      get(
+        wrappedFeatureCollectionId,
+        { limit: "1" },
+        { ...auth, "if-none-match": one.headers.etag }
+      )
+    ).resolves.toHaveProperty("status", 304);
+    await expect(
+      get(
+        wrappedFeatureCollectionId,
+        { limit: "2" },
+        { ...auth, "if-none-match": one.headers.etag }
+      )
+    ).resolves.toHaveProperty("status", 200);
+  });
+
+  it("exports other formats", async () => {
+    const { wrappedFeatureCollectionId, token } = await setup();
+    const auth = { authorization: `Bearer ${token}` };
+
+    const kml = await get(wrappedFeatureCollectionId, { format: "kml" }, auth);
+    expect(kml.status).toEqual(200);
+    expect(kml.headers["content-type"]).toEqual(
+      "application/vnd.google-earth.kml+xml"
+    );
+    expect(String(kml.body)).toContain("<Placemark");
+
+    await expect(
+      get(wrappedFeatureCollectionId, { format: "polyline" }, auth)
+    ).resolves.toHaveProperty("status", 422);
+    await expect(
+      get(wrappedFeatureCollectionId, { format: "nope" }, auth)
+    ).resolves.toHaveProperty("status", 400);
+    await expect(
+      get(wrappedFeatureCollectionId, { format: "mbtiles" }, auth)
+    ).resolves.toHaveProperty("status", 400);
+  });
+});
@@ -2,45 +2,107 @@ import { api } from "app/blitz-server";
 import { NextApiHandler } from "next";
 import db from "db";
 import { z } from "zod";
-import pointInPolygon from "@turf/boolean-point-in-polygon";
-import type { IFeature, IWrappedFeature } from "types";
+import type { IFeature, IFolder, IWrappedFeature } from "types";
 import { wrappedFeaturesToFeatureCollection } from "app/lib/convert/local/geojson";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  DEFAULT_IMPORT_OPTIONS,
+  FILE_TYPES,
+  fromGeoJSON,
+} from "app/lib/convert";
+import type { ExportOptions, FileType } from "app/lib/convert";
+import { getApiAccess, getApiCtx } from "app/lib/api_tokens_server";
+import { ConvertError } from "app/lib/errors";
+import {
+  ApiBbox,
+  ApiProperties,
+  ApiWheres,
+  filterFeatures,
+  projectProperties,
+} from "app/lib/api_query";
+import { geometriesIntersect } from "app/lib/map_operations/spatial_join";
+import {
+  ApiFeatureCollection,
+  putApiFeatures,
+} from "app/lib/replicache/server/api_writes";
+import type { SimplifiedAuthenticatedSessionContext } from "app/lib/replicache/validations";
 
 const toNumber = (str: string) => {
   const num = parseFloat(str);
   return isNaN(num) ? undefined : num;
 };
 
+/**
+ * Formats that features can be exported to. These are
+ * cheap text formats: tiles, databases, and spreadsheets
+ * take too long to make for each request to a public map.
+ */
+const API_FORMATS = new Set<string>([
+  "geojson",
+  "geojsonl",
+  "csv",
+  "kml",
+  "gpx",
+  "tcx",
+  "wkt",
+  "osm",
+  "polyline",
+  "topojson",
+] satisfies FileType["id"][]);
+
 const Q = z.object({
   wrappedFeatureCollectionId: z.string().length(21),
   folder: z.optional(z.union([z.string().uuid(), z.array(z.string().uuid())])),
   intersect_latitude: z.optional(z.string().transform(toNumber)),
   intersect_longitude: z.optional(z.string().transform(toNumber)),
+  bbox: z.optional(ApiBbox),
+  where: z.optional(ApiWheres),
+  properties: z.optional(ApiProperties),
+  limit: z.optional(z.coerce.number().int().positive()),
+  offset: z.optional(z.coerce.number().int().nonnegative()),
+  format: z.optional(
+    z.string().refine((format) => API_FORMATS.has(format), {
+      message: "Unsupported format",
+    })
+  ),
 });
 
 type IQ = z.infer<typeof Q>;
 
 /**
  * Get an etag that represents the latest version
- * of this wrappedFeatureCollection.
+ * of this wrappedFeatureCollection. Whether the request can
+ * read it is checked separately, with getApiAccess.
+ *
+ * The query is part of the etag, so each combination of
+ * filters, paging, and format is cached separately. Folders
+ * are part of some formats, so their versions count too.
  */
 export async function getEtag(query: IQ): Promise<string | null> {
-  const [wrappedFeatureCollection, latestVersion] = await Promise.all([
-    db.wrappedFeatureCollection.findFirst({
-      where: {
-        id: query.wrappedFeatureCollectionId,
-        access: "PUBLIC",
-      },
-    }),
-    db.wrappedFeature.aggregate({
-      _max: {
-        version: true,
-      },
-      where: {
-        wrappedFeatureCollectionId: query.wrappedFeatureCollectionId,
-      },
-    }),
-  ]);
+  const [wrappedFeatureCollection, latestVersion, latestFolderVersion] =
+    await Promise.all([
+      db.wrappedFeatureCollection.findFirst({
+        where: {
+          id: query.wrappedFeatureCollectionId,
+        },
+      }),
+      db.wrappedFeature.aggregate({
+        _max: {
+          version: true,
+        },
+        where: {
+          wrappedFeatureCollectionId: query.wrappedFeatureCollectionId,
+        },
+      }),
+      db.folder.aggregate({
+        _max: {
+          version: true,
+        },
+        where: {
+          wrappedFeatureCollectionId: query.wrappedFeatureCollectionId,
+        },
+      }),
+    ]);
 
   const maxVersion = latestVersion._max.version;
 
@@ -48,19 +110,35 @@ export async function getEtag(query: IQ): Promise<string | null> {
     return null;
   }
 
-  return `W/"v1/${maxVersion}-${Buffer.from(JSON.stringify(query)).toString(
-    "base64url"
-  )}"`;
+  const maxFolderVersion: number = latestFolderVersion._max.version ?? 0;
+
+  return `W/"v1/${Math.max(maxVersion, maxFolderVersion)}-${Buffer.from(
+    JSON.stringify(query)
+  ).toString("base64url")}"`;
 }
 
-export async function featureCollectionInner(query: z.infer<typeof Q>) {
-  const { folder, intersect_latitude, intersect_longitude } = query;
+/**
+ * Get the features that match a query, in order,
+ * and how many there are before paging.
+ */
+export async function queryFeatures(query: IQ) {
+  const {
+    folder,
+    intersect_latitude,
+    intersect_longitude,
+    bbox,
+    where,
+    properties,
+    limit,
+    offset = 0,
+  } = query;
 
-  let wrappedFeatures = await db.wrappedFeature.findMany({
+  let wrappedFeatures = (await db.wrappedFeature.findMany({
     select: {
       feature: true,
       id: true,
       folderId: true,
+      at: true,
     },
     orderBy: {
       at: "desc",
@@ -76,7 +154,7 @@ export async function featureCollectionInner(query: z.infer<typeof Q>) {
           }
         : {}),
     },
-  });
+  })) as unknown as IWrappedFeature[];
 
   const pt: [number | undefined, number | undefined] = [
     intersect_longitude,
@@ -86,45 +164,112 @@ export async function featureCollectionInner(query: z.infer<typeof Q>) {
   const hasIntersectQuery = pt.every((val) => typeof val === "number");
 
   if (hasIntersectQuery) {
-    wrappedFeatures = wrappedFeatures.filter((feature) => {
-      const geometry = (feature.feature as unknown as IFeature).geometry;
-      if (!geometry) return false;
-      switch (geometry?.type) {
-        case "Polygon":
-        case "MultiPolygon": {
-          return pointInPolygon(pt as [number, number], geometry);
-        }
-        default: {
-          return false;
-        }
-      }
-    });
+    const point = {
+      type: "Point",
+      coordinates: pt as [number, number],
+    } as const;
+    wrappedFeatures = wrappedFeatures.filter((feature) =>
+      geometriesIntersect((feature.feature as IFeature).geometry, point)
+    );
+  }
+
+  wrappedFeatures = filterFeatures(wrappedFeatures, { bbox, where });
+
+  const total = wrappedFeatures.length;
+
+  if (offset || limit !== undefined) {
+    wrappedFeatures = wrappedFeatures.slice(
+      offset,
+      limit === undefined ? undefined : offset + limit
+    );
+  }
+
+  if (properties) {
+    wrappedFeatures = wrappedFeatures.map((wrappedFeature) =>
+      projectProperties(wrappedFeature, properties)
+    );
   }
 
-  return wrappedFeaturesToFeatureCollection(
-    wrappedFeatures as unknown as IWrappedFeature[],
+  return { wrappedFeatures, total };
+}
+
+export async function featureCollectionInner(query: IQ) {
+  const { wrappedFeatures } = await queryFeatures(query);
+  return wrappedFeaturesToFeatureCollection(wrappedFeatures, {
+    winding: "RFC7946",
+    truncate: true,
+    addBboxes: false,
+    indent: false,
+    includeId: true,
+  });
+}
+
+/**
+ * Export features with a driver, with the folders
+ * they're in for formats that keep them.
+ */
+async function exportFeatures(
+  query: IQ,
+  wrappedFeatures: IWrappedFeature[],
+  format: string
+) {
+  const folders = (await db.folder.findMany({
+    where: {
+      wrappedFeatureCollectionId: query.wrappedFeatureCollectionId,
+      deleted: false,
+    },
+  })) as unknown as IFolder[];
+
+  return fromGeoJSON(
     {
-      winding: "RFC7946",
-      truncate: true,
-      addBboxes: false,
-      indent: false,
-      includeId: true,
+      featureMap: new Map(wrappedFeatures.map((f) => [f.id, f])),
+      folderMap: new Map(folders.map((folder) => [folder.id, folder])),
+    },
+    {
+      ...DEFAULT_EXPORT_OPTIONS,
+      type: format as ExportOptions["type"],
+      csvOptions: DEFAULT_IMPORT_OPTIONS.csvOptions,
     }
-  );
+  ).run();
 }
 
 /**
- * Reference {@link getAPIURL} in lib/api, which
- * refers to the URL of this API.
+ * Link to the next page of features, if there is one.
  */
-const handler: NextApiHandler = async (req, res) => {
-  const query = Q.parse(req.query);
+function getNextLink(url: string, query: IQ, total: number) {
+  const { limit, offset = 0 } = query;
+  if (limit === undefined || offset + limit >= total) return null;
+  const next = new URL(url, "http://localhost");
+  next.searchParams.set("offset", String(offset + limit));
+  return `<${next.pathname}${next.search}>; rel="next"`;
+}
 
-  const etag = await getEtag(query);
+export const getFeatureCollection: NextApiHandler = async (req, res) => {
+  const parsed = Q.safeParse(req.query);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    res
+      .status(400)
+      .send({ error: `Invalid ${issue.path.join(".")}: ${issue.message}` });
+    return;
+  }
+  const query = parsed.data;
+
+  /**
+   * Private maps need a bearer token, and are reported as
+   * missing rather than private when the token can't read them.
+   */
+  const access = await getApiAccess(req, query.wrappedFeatureCollectionId);
+  if (access === "UNAUTHORIZED") {
+    res.status(401).send({ error: "Invalid API token" });
+    return;
+  }
+
+  const etag = access === "NOT_FOUND" ? null : await getEtag(query);
 
   /**
    * If we couldn’t get an etag, that means the featurecollection
-   * does not exist or is private, so return a 404.
+   * does not exist or can't be read, so return a 404.
    */
   if (etag === null) {
     res.status(404);
@@ -149,11 +294,135 @@ const handler: NextApiHandler = async (req, res) => {
   /**
    * Otherwise, we are now returning a fresh response.
    */
-  const content = await featureCollectionInner(query);
-  res.setHeader("Cache-Control", "public, no-cache, must-revalidate");
+  const { wrappedFeatures, total } = await queryFeatures(query);
+  res.setHeader(
+    "Cache-Control",
+    access === "PUBLIC"
+      ? "public, no-cache, must-revalidate"
+      : "private, no-cache, must-revalidate"
+  );
+  res.setHeader("Vary", "Authorization");
   res.setHeader("ETag", etag);
+
+  const next = getNextLink(req.url || "", query, total);
+  if (next) {
+    res.setHeader("Link", next);
+  }
+
+  if (query.format && query.format !== "geojson") {
+    const exported = await exportFeatures(query, wrappedFeatures, query.format);
+    return exported.caseOf({
+      // Drivers fail on features they can't write, like
+      // points as polylines, which isn't a server error.
+      Left: (error) => {
+        res
+          .status(error instanceof ConvertError ? 422 : 500)
+          .send({ error: error.message });
+      },
+      Right: async ({ result }) => {
+        const type = FILE_TYPES.find((type) => type.id === query.format);
+        res.setHeader(
+          "Content-Type",
+          type?.mimes[0] || "application/octet-stream"
+        );
+        res.setHeader(
+          "Content-Disposition",
+          `inline; filename="${result.name}"`
+        );
+        res.end(Buffer.from(await result.blob.arrayBuffer()));
+      },
+    });
+  }
+
+  const content = wrappedFeaturesToFeatureCollection(wrappedFeatures, {
+    winding: "RFC7946",
+    truncate: true,
+    addBboxes: false,
+    indent: false,
+    includeId: true,
+  });
   res.setHeader("Content-Type", "application/json");
   res.end(JSON.stringify(content));
 };
 
+const PostQ = z.object({
+  wrappedFeatureCollectionId: z.string().length(21),
+  folder: z.optional(z.string().uuid()),
+});
+
+/**
+ * Create or replace features, by their id or their @id
+ * property. The response has the ids of the features, in
+ * the order they were given.
+ */
+const postFeatureCollection: NextApiHandler = async (req, res) => {
+  const query = PostQ.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).send({ error: "Invalid folder" });
+  }
+  const { wrappedFeatureCollectionId, folder } = query.data;
+
+  const ctx = await getApiCtx(req, wrappedFeatureCollectionId, "WRITE");
+  if (ctx === "UNAUTHORIZED") {
+    return res.status(401).send({ error: "Invalid API token" });
+  }
+  if (ctx === "NOT_FOUND") {
+    return res.status(404).send({ error: "Map not found" });
+  }
+
+  const body: unknown = req.body;
+  const collection = ApiFeatureCollection.safeParse(body);
+  const features = collection.success
+    ? collection.data.features
+    : (body as { type?: unknown } | null)?.type === "Feature"
+    ? [body]
+    : null;
+
+  if (!features) {
+    return res
+      .status(400)
+      .send({ error: "Expected a Feature or FeatureCollection" });
+  }
+
+  const result = await putApiFeatures({
+    wrappedFeatureCollectionId,
+    session: ctx.session as SimplifiedAuthenticatedSessionContext,
+    features,
+    folderId: folder,
+  });
+
+  return result.caseOf({
+    Left: (error) => res.status(error.status).send({ error: error.message }),
+    Right: (wrappedFeatures) =>
+      res.send({
+        ids: wrappedFeatures.map((wrappedFeature) => wrappedFeature.id),
+      }),
+  });
+};
+
+/**
+ * Reference {@link getAPIURL} in lib/api, which
+ * refers to the URL of this API.
+ */
+const handler: NextApiHandler = (req, res) => {
+  switch (req.method) {
+    case "GET":
+    case "HEAD":
+      return getFeatureCollection(req, res);
+    case "POST":
+      return postFeatureCollection(req, res);
+    default:
+      res.setHeader("Allow", "GET, HEAD, POST");
+      return res.status(405).send({ error: "Method not allowed" });
+  }
+};
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "10mb",
+    },
+  },
+};
+
 export default api(handler);
@@ -289,6 +289,19 @@ const Settings: BlitzPage = () => {
         />
       )}
       <GitHubRow />
+      <div className="flex py-6">
+        <div>
+          <CapsLabel>API tokens</CapsLabel>
+          <div>
+            <Link
+              href={Routes.SettingsTokens()}
+              className="text-purple-700 underline hover:text-black dark:text-purple-500 dark:hover:text-purple-300"
+            >
+              Create and revoke tokens for the API.
+            </Link>
+          </div>
+        </div>
+      </div>
       <WalkthroughRow />
       {session.roles?.includes("OWNER") ? (
         <div className="flex py-6">
@@ -0,0 +1,30 @@
+import Head from "next/head";
+import { BlitzPage } from "@blitzjs/next";
+import AuthenticatedPageLayout from "app/core/layouts/authenticated_page_layout";
+import ApiTokens from "app/components/forms/api_tokens";
+import React, { Suspense } from "react";
+import { formatTitle } from "app/lib/utils";
+import { Loading } from "app/components/elements";
+
+const SettingsTokens: BlitzPage = () => {
+  return (
+    <>
+      <Head>
+        <title>{formatTitle("API tokens")}</title>
+      </Head>
+      <Suspense fallback={<Loading />}>
+        <div className="pt-5">
+          <ApiTokens />
+        </div>
+      </Suspense>
+    </>
+  );
+};
+
+SettingsTokens.getLayout = (page) => (
+  <AuthenticatedPageLayout title="API tokens">{page}</AuthenticatedPageLayout>
+);
+
+SettingsTokens.authenticate = true;
+
+export default SettingsTokens;
@@ -30,6 +30,10 @@ export type DialogStateAPI = {
   type: "api";
 };
 
+export type DialogStateHistory = {
+  type: "history";
+};
+
 export type DialogStateGist = {
   type: "gist";
 };
@@ -71,11 +75,42 @@ export type DialogStateCastProperty = {
   column: string;
 };
 
+export type DialogStateCalculateField = {
+  type: "calculate_field";
+  column: string;
+};
+
 export type DialogStateBuffer = {
   type: "buffer";
   features: IWrappedFeature[];
 };
 
+export type DialogStateDissolve = {
+  type: "dissolve";
+  features: IWrappedFeature[];
+  groupBy?: string;
+};
+
+export type DialogStateClip = {
+  type: "clip";
+  features: IWrappedFeature[];
+};
+
+export type DialogStateTransform = {
+  type: "transform";
+  features: IWrappedFeature[];
+  /**
+   * Where the map was clicked, to rotate
+   * and scale around.
+   */
+  position?: Pos2;
+};
+
+export type DialogStateOffset = {
+  type: "offset";
+  features: IWrappedFeature[];
+};
+
 export type DialogStateSimplify = {
   type: "simplify";
   features: IWrappedFeature<IFeature<SimplifySupportedGeometry>>[];
@@ -89,13 +124,19 @@ export type DialogStateLoadText = {
 export type DialogState =
   | DialogStateReauth
   | DialogStateAPI
+  | DialogStateHistory
   | DialogStateImport
   | DialogStateImportNotes
   | DialogStateCastProperty
+  | DialogStateCalculateField
   | DialogStateRenameMap
   | DialogStateRenameFolder
   | DialogStateSimplify
   | DialogStateBuffer
+  | DialogStateDissolve
+  | DialogStateClip
+  | DialogStateTransform
+  | DialogStateOffset
   | DialogStateGist
   | DialogStateCircle
   | DialogStateExamples
@@ -119,6 +160,12 @@ export type DialogState =
   | {
       type: "export-svg";
     }
+  | {
+      type: "spatial_join";
+    }
+  | {
+      type: "generate";
+    }
   | DialogStateLoadText
   | {
       type: "from_url";
@@ -4,6 +4,7 @@ import type { FileSystemHandle } from "browser-fs-access";
 import type { SetOptional } from "type-fest";
 import type { MapboxLayer } from "@prisma/client";
 import {
+  Feature,
   FeatureMap,
   FolderMap,
   IFolder,
@@ -15,6 +16,7 @@ import type { MomentLog } from "app/lib/persistence/moment";
 import { CMomentLog } from "app/lib/persistence/moment";
 import { Mode, MODE_INFO, modeAtom, CIRCLE_TYPE } from "state/mode";
 import type { ExportOptions } from "app/lib/convert";
+import type { SnapResult } from "app/lib/generate_flatbush_instance";
 import { focusAtom } from "jotai-optics";
 import { USelection } from "./uselection";
 import { shallowArrayEqual } from "app/lib/utils";
@@ -192,6 +194,7 @@ export type {
   DialogStateImport as ModalStateImport,
   DialogStateRenameMap as ModalStateRenameMap,
   DialogStateCastProperty as ModalStateCastProperty,
+  DialogStateCalculateField as ModalStateCalculateField,
 } from "state/dialog_state";
 
 /**
@@ -268,10 +271,72 @@ export interface EphemeralEditingStateLasso {
   box: [Pos2, Pos2];
 }
 
+/**
+ * Where the cursor snapped to while drawing
+ * or dragging a vertex.
+ */
+export interface EphemeralEditingStateSnap {
+  type: "snap";
+  snap: SnapResult;
+}
+
+/**
+ * A measurement in progress, which isn't saved
+ * unless someone chooses to keep it as a feature.
+ */
+export interface EphemeralEditingStateMeasure {
+  type: "measure";
+  positions: Pos2[];
+  /**
+   * Where the next vertex would go, or null
+   * once the measurement is finished.
+   */
+  cursor: Pos2 | null;
+  /**
+   * Whether the last vertex was joined to the
+   * first, which also measures the area.
+   */
+  closed: boolean;
+  snap: SnapResult | null;
+}
+
+/**
+ * The path captured while drawing freehand, before
+ * it is simplified and saved.
+ */
+export interface EphemeralEditingStateFreehand {
+  type: "freehand";
+  positions: Pos2[];
+  closed: boolean;
+}
+
+/**
+ * Features as they would look after the numbers
+ * in the transform dialog are applied.
+ */
+export interface EphemeralEditingStateTransform {
+  type: "transform";
+  features: Feature[];
+}
+
+/**
+ * Features as they were at a past version,
+ * shown from the history dialog.
+ */
+export interface EphemeralEditingStateHistory {
+  type: "history";
+  features: Feature[];
+}
+
 export const cursorStyleAtom = atom<React.CSSProperties["cursor"]>("default");
 
 export type EphemeralEditingState =
   | EphemeralEditingStateLasso
+  | EphemeralEditingStateSnap
+  | EphemeralEditingStateMeasure
+  | EphemeralEditingStateFreehand
+  | EphemeralEditingStateTransform
+  | EphemeralEditingStateHistory
   | { type: "none" };
 
 export const ephemeralStateAtom = atom<EphemeralEditingState>({ type: "none" });
@@ -355,6 +420,7 @@ export enum TabOption {
   Table = "Table",
   List = "List",
   Symbolization = "Symbolization",
+  Validation = "Validation",
 }
 
 export const tabAtom = atom<TabOption>(TabOption.Feature);
@@ -369,6 +435,10 @@ export interface FilterOptions {
   geometryType: string | null;
   folderId: IFolder["id"] | null;
   exact: boolean;
+  /**
+   * A filter expression, parsed by app/lib/filter_expression
+   */
+  expression: string | null;
 }
 
 export const initialFilterValues: FilterOptions = {
@@ -378,6 +448,7 @@ export const initialFilterValues: FilterOptions = {
   geometryType: null,
   folderId: null,
   exact: false,
+  expression: "",
 };
 
 export const tableFilterAtom = atom<FilterOptions>(initialFilterValues);
@@ -388,3 +459,9 @@ export const circleTypeAtom = atomWithStorage<CIRCLE_TYPE>(
   "circleType",
   CIRCLE_TYPE.MERCATOR
 );
+
+/**
+ * Whether drawing lines and polygons traces along
+ * existing features between two clicked vertexes.
+ */
+export const traceAtom = atomWithStorage<boolean>("trace", false);
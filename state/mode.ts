@@ -12,6 +12,9 @@ export enum Mode {
   DRAW_RECTANGLE = "DRAW_RECTANGLE",
   DRAW_POLYGON = "DRAW_POLYGON",
   DRAW_CIRCLE = "DRAW_CIRCLE",
+  DRAW_FREEHAND_LINE = "DRAW_FREEHAND_LINE",
+  DRAW_FREEHAND_POLYGON = "DRAW_FREEHAND_POLYGON",
+  MEASURE = "MEASURE",
 }
 
 export enum CIRCLE_TYPE {
@@ -62,7 +65,10 @@ export const MODE_INFO: Record<
   [Mode.DRAW_RECTANGLE]: { label: "Rectangle" },
   [Mode.DRAW_POLYGON]: { label: "Polygon" },
   [Mode.DRAW_CIRCLE]: { label: "Circle" },
+  [Mode.DRAW_FREEHAND_LINE]: { label: "Freehand line" },
+  [Mode.DRAW_FREEHAND_POLYGON]: { label: "Freehand polygon" },
   [Mode.LASSO]: { label: "Lasso" },
+  [Mode.MEASURE]: { label: "Measure" },
 };
 
 export type ModeWithOptions = {
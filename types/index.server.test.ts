@@ -70,6 +70,54 @@ describe("tryUpgrading", () => {
       }).isNothing()
     ).toBeTruthy();
   });
+  it("heatmap and cluster", () => {
+    expect(
+      tryUpgrading({
+        type: "heatmap",
+        weightProperty: "population",
+      }).unsafeCoerce()
+    ).toMatchInlineSnapshot(`
+      {
+        "colors": [
+          "#ffffb2",
+          "#fecc5c",
+          "#fd8d3c",
+          "#f03b20",
+          "#bd0026",
+        ],
+        "defaultColor": "#312E81",
+        "defaultOpacity": 0.3,
+        "radius": 20,
+        "rampName": "YlOrRd",
+        "simplestyle": false,
+        "type": "heatmap",
+        "weightMax": 1,
+        "weightProperty": "population",
+      }
+    `);
+    expect(
+      tryUpgrading({
+        type: "cluster",
+        maxZoom: 10,
+      }).unsafeCoerce()
+    ).toMatchInlineSnapshot(`
+      {
+        "defaultColor": "#312E81",
+        "defaultOpacity": 0.3,
+        "labels": true,
+        "maxZoom": 10,
+        "radius": 50,
+        "simplestyle": false,
+        "type": "cluster",
+      }
+    `);
+    expect(
+      tryUpgrading({
+        type: "cluster",
+        maxZoom: 100,
+      }).isNothing()
+    ).toBeTruthy();
+  });
   it("simplestyle", () => {
     expect(
       tryUpgrading({
@@ -291,6 +291,12 @@ const SymbolizationSimpleStyle_v0 = z.object({
   type: z.literal("simplestyle"),
 });
 
+const SymbolizationPartial_v0 = z
+  .object({
+    type: z.enum(["heatmap", "cluster"]),
+  })
+  .passthrough();
+
 export function tryUpgrading(symbolization: any): Maybe<ISymbolization> {
   {
     const parsed = SymbolizationRamp_v0.safeParse(symbolization);
@@ -330,6 +336,19 @@ export function tryUpgrading(symbolization: any): Maybe<ISymbolization> {
       });
     }
   }
+  {
+    // Heatmaps and clusters saved without every option,
+    // for example through the API, get the defaults.
+    const parsed = SymbolizationPartial_v0.safeParse(symbolization);
+    if (parsed.success) {
+      return safeParseMaybe(
+        Symbolization.safeParse({
+          simplestyle: false,
+          ...parsed.data,
+        })
+      );
+    }
+  }
   return Nothing;
 }
 
@@ -372,10 +391,46 @@ export const SymbolizationNone = SymbolizationBaseInternal.extend({
   type: z.literal("none"),
 });
 
+/**
+ * Points drawn as a density surface. Lines and
+ * polygons are drawn with the default color.
+ */
+const SymbolizationHeatmap = SymbolizationBaseInternal.extend({
+  type: z.literal("heatmap"),
+  /**
+   * A numeric property that weights each point, scaled
+   * so that weightMax counts as much as one point.
+   */
+  weightProperty: z.string().nullable().default(null),
+  weightMax: z.number().positive().default(1),
+  radius: z.number().min(1).max(100).default(20),
+  rampName: z.string().default("YlOrRd"),
+  /**
+   * Colors from the lowest to highest density.
+   */
+  colors: z
+    .array(z.string())
+    .min(2)
+    .default(["#ffffb2", "#fecc5c", "#fd8d3c", "#f03b20", "#bd0026"]),
+});
+
+/**
+ * Nearby points merged into circles, until
+ * zoomed in past maxZoom.
+ */
+const SymbolizationCluster = SymbolizationBaseInternal.extend({
+  type: z.literal("cluster"),
+  radius: z.number().min(1).max(200).default(50),
+  maxZoom: z.number().int().min(0).max(22).default(14),
+  labels: z.boolean().default(true),
+});
+
 export const Symbolization = z.union([
   SymbolizationNone,
   SymbolizationCategorical,
   SymbolizationRamp,
+  SymbolizationHeatmap,
+  SymbolizationCluster,
 ]);
 
 export const SYMBOLIZATION_NONE: ISymbolizationNone = {
@@ -390,6 +445,8 @@ export type ISymbolizationRamp = z.infer<typeof SymbolizationRamp>;
 export type ISymbolizationCategorical = z.infer<
   typeof SymbolizationCategorical
 >;
+export type ISymbolizationHeatmap = z.infer<typeof SymbolizationHeatmap>;
+export type ISymbolizationCluster = z.infer<typeof SymbolizationCluster>;
 export type ISymbolization = z.infer<typeof Symbolization>;
 
 // @ts-expect-error todo